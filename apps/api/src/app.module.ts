@@ -1,13 +1,21 @@
 import { IncomingMessage, ServerResponse } from 'node:http'
 import { Module } from '@nestjs/common'
 import { ConfigModule as NestConfigModule } from '@nestjs/config'
+import { ScheduleModule } from '@nestjs/schedule'
 import { LoggerModule } from 'nestjs-pino'
 import { AppController } from './app.controller'
+import { AuditLogModule } from './modules/audit-log/audit-log.module'
 import { AuthModule } from './modules/auth/auth.module'
+import { AuthorsModule } from './modules/authors/authors.module'
 import { CommentsModule } from './modules/comments/comments.module'
 import { DbModule } from './modules/db/db.module'
 import { EmailModule } from './modules/email/email.module'
+import { FilesModule } from './modules/files/files.module'
+import { NotificationsModule } from './modules/notifications/notifications.module'
 import { PostModule } from './modules/posts/posts.module'
+import { ReactionsModule } from './modules/reactions/reactions.module'
+import { TagsModule } from './modules/tags/tags.module'
+import { UsersModule } from './modules/users/users.module'
 
 // Interface étendue pour les requêtes Express
 interface ExpressRequest extends IncomingMessage {
@@ -85,11 +93,19 @@ interface ExpressResponse extends ServerResponse<IncomingMessage> {
         },
       },
     }),
+    ScheduleModule.forRoot(),
     DbModule,
     AuthModule.forRootAsync(),
     EmailModule,
     PostModule,
+    TagsModule,
     CommentsModule,
+    FilesModule,
+    ReactionsModule,
+    NotificationsModule,
+    UsersModule,
+    AuthorsModule,
+    AuditLogModule,
     NestConfigModule,
   ],
   controllers: [AppController],
@@ -1,11 +1,38 @@
-import { betterAuth, BetterAuthOptions, MiddlewareInputContext, MiddlewareOptions, User } from 'better-auth'
-import { openAPI } from 'better-auth/plugins'
+import { betterAuth, BetterAuthOptions, BetterAuthPlugin, MiddlewareInputContext, MiddlewareOptions, User } from 'better-auth'
+import { APIError } from 'better-auth/api'
+import { deleteSessionCookie } from 'better-auth/cookies'
+import { generateRandomString } from 'better-auth/crypto'
+import { createAuthMiddleware, emailOTP, genericOAuth, magicLink, openAPI, twoFactor } from 'better-auth/plugins'
 import { Pool } from 'pg'
 
+// Users manage their own posts and comments, editors moderate all the comments, admins manage everything
+// Declared here rather than in the auth module, as this file is also type-checked by the clients
+export const userRoles = ['user', 'editor', 'admin'] as const
+
+export interface OAuthProviderCredentials {
+  clientId: string
+  clientSecret: string
+}
+
+// The providers are enabled when configured, the generic OpenID Connect one is identified as "oidc"
+export interface OAuthProvidersOptions {
+  github?: OAuthProviderCredentials
+  google?: OAuthProviderCredentials
+  oidc?: OAuthProviderCredentials & { discoveryUrl: string }
+}
+
+// Durations in seconds, the same for the magic links and the codes
+export interface PasswordlessOptions {
+  expiresIn: number
+  rateLimit: { window: number, max: number }
+}
+
 interface BetterAuthOptionsDynamic {
   secret: string
   trustedOrigins: string[]
   connectionStringUrl: string
+  // Page of the client asking for the code, where the sign ins redirecting to the client are sent
+  twoFactorUrl: string
   sendResetPassword?: (
     data: { user: User, url: string, token: string },
     request: Request | undefined
@@ -14,9 +41,132 @@ interface BetterAuthOptionsDynamic {
     data: { user: User, url: string, token: string },
     request: Request | undefined
   ) => Promise<void>
+  sendChangeEmailVerification?: (
+    data: { user: User, newEmail: string, url: string, token: string },
+    request: Request | undefined
+  ) => Promise<void>
+  sendMagicLink?: (
+    data: { email: string, url: string, token: string },
+    request: Request | undefined
+  ) => Promise<void>
+  sendSignInOtp?: (
+    data: { email: string, otp: string },
+    request: Request | undefined
+  ) => Promise<void>
+  beforeDeleteUser?: (user: User) => Promise<void>
   beforeHook?: ((inputContext: MiddlewareInputContext<MiddlewareOptions>) => Promise<unknown>)
   afterHook?: ((inputContext: MiddlewareInputContext<MiddlewareOptions>) => Promise<unknown>)
   databaseHooks?: BetterAuthOptions['databaseHooks']
+  oauthProviders?: OAuthProvidersOptions
+  twoFactorIssuer?: string
+  passwordless?: PasswordlessOptions
+}
+
+const passwordlessPaths = ['/sign-in/magic-link', '/email-otp/send-verification-otp']
+
+/**
+ * Limits the magic links and codes sent to the same address, whatever the IP of the requests.
+ * Each email sent is recorded as a verification, expiring at the end of the window.
+ */
+function passwordlessRateLimit(rateLimit: PasswordlessOptions['rateLimit'], database: Pool) {
+  return {
+    id: 'passwordless-rate-limit',
+    hooks: {
+      before: [{
+        matcher: context => passwordlessPaths.includes(context.path),
+        handler: createAuthMiddleware(async (ctx) => {
+          const email = typeof ctx.body?.email === 'string' ? ctx.body.email.toLowerCase() : null
+          if (!email)
+            return
+
+          const identifier = `passwordless-rate-limit-${email}`
+          // The address is locked until the email is recorded, so that concurrent requests cannot exceed the limit
+          const client = await database.connect()
+          let sentCount: number
+          try {
+            await client.query('begin')
+            await client.query('select pg_advisory_xact_lock(hashtext($1))', [identifier])
+            await client.query('delete from "verification" where "identifier" = $1 and "expiresAt" < $2', [identifier, new Date()])
+            const { rows } = await client.query<{ count: string }>('select count(*) from "verification" where "identifier" = $1', [identifier])
+            sentCount = Number(rows[0].count)
+            if (sentCount < rateLimit.max) {
+              await client.query(
+                'insert into "verification" ("identifier", "value", "expiresAt", "createdAt", "updatedAt") values ($1, $2, $3, $4, $4)',
+                [identifier, ctx.path, new Date(Date.now() + rateLimit.window * 1000), new Date()],
+              )
+            }
+            await client.query('commit')
+          }
+          catch (error) {
+            await client.query('rollback')
+            throw error
+          }
+          finally {
+            client.release()
+          }
+
+          if (sentCount >= rateLimit.max) {
+            throw new APIError('TOO_MANY_REQUESTS', {
+              message: 'Too many emails were sent to this address, please try again later',
+            })
+          }
+        }),
+      }],
+    },
+  } satisfies BetterAuthPlugin
+}
+
+// The sign ins without a password, which the twoFactor plugin does not challenge.
+// The social sign in creates a session right away when given an ID token, the callbacks end the OAuth flows
+const twoFactorChallengedPaths = [
+  '/magic-link/verify',
+  '/sign-in/email-otp',
+  '/sign-in/social',
+  '/callback/:id',
+  '/oauth2/callback/:providerId',
+]
+
+// As in the twoFactor plugin, for its verify endpoints to find the user being signed in
+const TWO_FACTOR_COOKIE_NAME = 'two_factor'
+const TWO_FACTOR_COOKIE_MAX_AGE = 3 * 60
+
+/**
+ * Asks the users having two-factor authentication enabled for a code after the other sign ins, as the twoFactor plugin
+ * does after the password: their session is replaced with the cookie identifying them until the code is verified.
+ * The sign ins redirecting to the client are sent to its two-factor page, the others answer `{ twoFactorRedirect: true }`.
+ */
+function twoFactorChallenge(twoFactorUrl: string) {
+  return {
+    id: 'two-factor-challenge',
+    hooks: {
+      after: [{
+        matcher: context => twoFactorChallengedPaths.includes(context.path),
+        handler: createAuthMiddleware(async (ctx) => {
+          const newSession = ctx.context.newSession
+          if (!newSession || !(newSession.user as User & { twoFactorEnabled?: boolean }).twoFactorEnabled)
+            return
+
+          deleteSessionCookie(ctx, true)
+          await ctx.context.internalAdapter.deleteSession(newSession.session.token)
+
+          const identifier = `2fa-${generateRandomString(20)}`
+          await ctx.context.internalAdapter.createVerificationValue({
+            identifier,
+            value: newSession.user.id,
+            expiresAt: new Date(Date.now() + TWO_FACTOR_COOKIE_MAX_AGE * 1000),
+          }, ctx)
+          const twoFactorCookie = ctx.context.createAuthCookie(TWO_FACTOR_COOKIE_NAME, { maxAge: TWO_FACTOR_COOKIE_MAX_AGE })
+          await ctx.setSignedCookie(twoFactorCookie.name, identifier, ctx.context.secret, twoFactorCookie.attributes)
+
+          const returned = ctx.context.returned
+          if (returned instanceof APIError && returned.statusCode === 302)
+            throw ctx.redirect(twoFactorUrl)
+
+          return ctx.json({ twoFactorRedirect: true })
+        }),
+      }],
+    },
+  } satisfies BetterAuthPlugin
 }
 
 // We should use this, but sadly we do not have our custom fields in the session object (only the plugin added fields)
@@ -35,6 +185,10 @@ export type BetterAuthType = ReturnType<typeof createBetterAuth>
 export type BetterAuthContext = ReturnType<typeof createBetterAuth>['$context']
 
 export function createBetterAuth(options: BetterAuthOptionsDynamic) {
+  const database = new Pool({
+    connectionString: options.connectionStringUrl,
+  })
+
   const authOptions = {
     secret: options.secret,
     trustedOrigins: options.trustedOrigins,
@@ -56,9 +210,53 @@ export function createBetterAuth(options: BetterAuthOptionsDynamic) {
         return options?.sendVerificationEmail?.(data, request)
       },
     },
-    database: new Pool({
-      connectionString: options.connectionStringUrl,
-    }),
+    socialProviders: {
+      ...(options.oauthProviders?.github && { github: options.oauthProviders.github }),
+      ...(options.oauthProviders?.google && { google: options.oauthProviders.google }),
+    },
+    account: {
+      accountLinking: {
+        enabled: true,
+        // Signing in with Google links the account having the same email, as Google only hands out addresses it owns or verified.
+        // The other providers link it only when they report the email as verified
+        trustedProviders: ['google'],
+        // Only applies to the providers connected from the settings, the user being signed in proves they own both accounts
+        allowDifferentEmails: true,
+      },
+    },
+    user: {
+      // The current address approves the change, then the new one is verified
+      changeEmail: {
+        enabled: true,
+        sendChangeEmailVerification: async (data, request) => {
+          if (!options?.sendChangeEmailVerification)
+            return
+          return options?.sendChangeEmailVerification?.(data, request)
+        },
+      },
+      // The password is required, the data of the user is deleted along with them
+      deleteUser: {
+        enabled: true,
+        beforeDelete: async (user) => {
+          await options?.beforeDeleteUser?.(user)
+        },
+      },
+      additionalFields: {
+        // Exposed in the session, it can only be changed by admins through the API
+        role: {
+          type: [...userRoles],
+          defaultValue: 'user',
+          input: false,
+        },
+        // Set by the user creation hook, and changed from the profile
+        handle: {
+          type: 'string',
+          required: false,
+          input: false,
+        },
+      },
+    },
+    database,
     databaseHooks: options.databaseHooks,
     advanced: {
       database: {
@@ -75,6 +273,40 @@ export function createBetterAuth(options: BetterAuthOptionsDynamic) {
     },
     plugins: [
       openAPI(),
+      genericOAuth({
+        config: options.oauthProviders?.oidc
+          ? [{
+              providerId: 'oidc',
+              clientId: options.oauthProviders.oidc.clientId,
+              clientSecret: options.oauthProviders.oidc.clientSecret,
+              discoveryUrl: options.oauthProviders.oidc.discoveryUrl,
+              scopes: ['openid', 'email', 'profile'],
+              pkce: true,
+            }]
+          : [],
+      }),
+      // The users enabling it are asked for a TOTP or a backup code after signing in
+      twoFactor({
+        issuer: options.twoFactorIssuer,
+      }),
+      twoFactorChallenge(options.twoFactorUrl),
+      // Passwordless sign in, which creates the account of unknown addresses
+      magicLink({
+        expiresIn: options.passwordless?.expiresIn,
+        sendMagicLink: async (data, request) => {
+          await options?.sendMagicLink?.(data, request)
+        },
+      }),
+      emailOTP({
+        otpLength: 6,
+        expiresIn: options.passwordless?.expiresIn,
+        sendVerificationOTP: async ({ email, otp, type }, request) => {
+          // The codes only replace the password, the emails are verified with links
+          if (type === 'sign-in')
+            await options?.sendSignInOtp?.({ email, otp }, request)
+        },
+      }),
+      ...(options.passwordless ? [passwordlessRateLimit(options.passwordless.rateLimit, database)] : []),
     ],
   } satisfies BetterAuthOptions
 
@@ -17,6 +17,9 @@ export const configValidationSchema = z.object({
 
   // API
   API_PORT: z.coerce.number(),
+  API_URL: z.string().default('http://localhost:3000'),
+  // Number of reverse proxies in front of the API, whose X-Forwarded-For header gives the IP of the clients
+  TRUST_PROXY_HOPS: z.coerce.number().int().min(0).default(0),
 
   // Database
   DATABASE_PASSWORD: z.string(),
@@ -29,17 +32,54 @@ export const configValidationSchema = z.object({
   BETTER_AUTH_SECRET: z.string(),
   TRUSTED_ORIGINS: z.string().transform(val => val.split(',')),
 
+  // OAuth providers, each one is enabled when its client id and secret are set
+  GITHUB_CLIENT_ID: z.string().optional(),
+  GITHUB_CLIENT_SECRET: z.string().optional(),
+  GOOGLE_CLIENT_ID: z.string().optional(),
+  GOOGLE_CLIENT_SECRET: z.string().optional(),
+  // Any OpenID Connect provider, e.g. Keycloak, or the mock server of docker-compose.yml
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),
+  OIDC_DISCOVERY_URL: z.string().url().optional(),
+  OIDC_PROVIDER_NAME: z.string().default('SSO'),
+
+  // Two-factor authentication, the issuer is the name shown in the authenticator apps
+  TWO_FACTOR_ISSUER: z.string().default('Lonestone'),
+  TWO_FACTOR_REQUIRED: z.stringbool().default(false),
+
+  // Passwordless sign in, with a magic link or a code sent by email
+  PASSWORDLESS_EXPIRES_IN_MINUTES: z.coerce.number().int().min(1).default(10),
+  // How many links and codes can be sent to the same address during the window
+  PASSWORDLESS_RATE_LIMIT_MAX: z.coerce.number().int().min(1).default(5),
+  PASSWORDLESS_RATE_LIMIT_WINDOW_MINUTES: z.coerce.number().int().min(1).default(15),
+
   // Clients
   CLIENTS_WEB_APP_URL: z.string(),
   CLIENTS_WEB_SSR_URL: z.string(),
 
   // Email
+  EMAIL_TRANSPORT: z.enum(['smtp', 'file', 'memory']).default('smtp'),
+  EMAIL_FILE_PATH: z.string().default('emails'),
   EMAIL_HOST: z.string().default('localhost'),
   EMAIL_PORT: z.coerce.number().default(1025),
   EMAIL_SECURE: z.stringbool().default(false),
   EMAIL_USER: z.string().optional(),
   EMAIL_PASSWORD: z.string().optional(),
   EMAIL_FROM: z.string().email().default('noreply@lonestone.io'),
+
+  // File storage
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_MAX_FILE_SIZE: z.coerce.number().default(20 * 1024 * 1024),
+  STORAGE_LOCAL_PATH: z.string().default('uploads'),
+  S3_ENDPOINT: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.stringbool().default(true),
+
+  // Comments
+  COMMENT_EDIT_WINDOW_MINUTES: z.coerce.number().int().min(0).default(15),
 })
 
 export type ConfigSchema = z.infer<typeof configValidationSchema>
@@ -59,10 +99,39 @@ if (!configParsed.success) {
 export const config = {
   env: configParsed.data.NODE_ENV,
   apiPort: configParsed.data.API_PORT,
+  apiUrl: configParsed.data.API_URL,
+  trustProxyHops: configParsed.data.TRUST_PROXY_HOPS,
   betterAuth: {
     secret: configParsed.data.BETTER_AUTH_SECRET,
     trustedOrigins: configParsed.data.TRUSTED_ORIGINS,
   },
+  oauth: {
+    github: configParsed.data.GITHUB_CLIENT_ID && configParsed.data.GITHUB_CLIENT_SECRET
+      ? { clientId: configParsed.data.GITHUB_CLIENT_ID, clientSecret: configParsed.data.GITHUB_CLIENT_SECRET }
+      : undefined,
+    google: configParsed.data.GOOGLE_CLIENT_ID && configParsed.data.GOOGLE_CLIENT_SECRET
+      ? { clientId: configParsed.data.GOOGLE_CLIENT_ID, clientSecret: configParsed.data.GOOGLE_CLIENT_SECRET }
+      : undefined,
+    oidc: configParsed.data.OIDC_CLIENT_ID && configParsed.data.OIDC_CLIENT_SECRET && configParsed.data.OIDC_DISCOVERY_URL
+      ? {
+          name: configParsed.data.OIDC_PROVIDER_NAME,
+          clientId: configParsed.data.OIDC_CLIENT_ID,
+          clientSecret: configParsed.data.OIDC_CLIENT_SECRET,
+          discoveryUrl: configParsed.data.OIDC_DISCOVERY_URL,
+        }
+      : undefined,
+  },
+  twoFactor: {
+    issuer: configParsed.data.TWO_FACTOR_ISSUER,
+    required: configParsed.data.TWO_FACTOR_REQUIRED,
+  },
+  passwordless: {
+    expiresInMinutes: configParsed.data.PASSWORDLESS_EXPIRES_IN_MINUTES,
+    rateLimit: {
+      max: configParsed.data.PASSWORDLESS_RATE_LIMIT_MAX,
+      windowMinutes: configParsed.data.PASSWORDLESS_RATE_LIMIT_WINDOW_MINUTES,
+    },
+  },
   database: {
     password: configParsed.data.DATABASE_PASSWORD,
     user: configParsed.data.DATABASE_USER,
@@ -72,6 +141,8 @@ export const config = {
     connectionStringUrl: `postgresql://${configParsed.data.DATABASE_USER}:${configParsed.data.DATABASE_PASSWORD}@${configParsed.data.DATABASE_HOST}:${configParsed.data.DATABASE_PORT}/${configParsed.data.DATABASE_NAME}`,
   },
   email: {
+    transport: configParsed.data.EMAIL_TRANSPORT,
+    filePath: configParsed.data.EMAIL_FILE_PATH,
     host: configParsed.data.EMAIL_HOST,
     port: configParsed.data.EMAIL_PORT,
     secure: configParsed.data.EMAIL_SECURE,
@@ -79,6 +150,24 @@ export const config = {
     password: configParsed.data.EMAIL_PASSWORD,
     from: configParsed.data.EMAIL_FROM,
   },
+  storage: {
+    driver: configParsed.data.STORAGE_DRIVER,
+    maxFileSize: configParsed.data.STORAGE_MAX_FILE_SIZE,
+    local: {
+      path: configParsed.data.STORAGE_LOCAL_PATH,
+    },
+    s3: {
+      endpoint: configParsed.data.S3_ENDPOINT,
+      region: configParsed.data.S3_REGION,
+      bucket: configParsed.data.S3_BUCKET,
+      accessKeyId: configParsed.data.S3_ACCESS_KEY_ID,
+      secretAccessKey: configParsed.data.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: configParsed.data.S3_FORCE_PATH_STYLE,
+    },
+  },
+  comments: {
+    editWindowMinutes: configParsed.data.COMMENT_EDIT_WINDOW_MINUTES,
+  },
   clients: {
     webApp: {
       url: configParsed.data.CLIENTS_WEB_APP_URL,
@@ -9,10 +9,15 @@ import { Account, User } from '../modules/auth/auth.entity'
  * @returns The created user
  */
 export async function createUserData(em: EntityManager, overrides?: Partial<User>, password?: string): Promise<User> {
+  const id = Math.random().toString(36).substring(2, 8)
   const user = em.create(User, {
     name: overrides?.name ?? 'Test User',
-    email: overrides?.email ?? `test-${Math.random().toString(36).substring(2, 8)}@lonestone.com`,
+    email: overrides?.email ?? `test-${id}@lonestone.com`,
+    handle: overrides?.handle ?? `test-${id}`,
+    links: overrides?.links ?? [],
     emailVerified: overrides?.emailVerified ?? true,
+    role: overrides?.role ?? 'user',
+    twoFactorEnabled: overrides?.twoFactorEnabled ?? false,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
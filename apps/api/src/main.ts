@@ -1,19 +1,27 @@
 import { createOpenApiDocument, ZodSerializationExceptionFilter, ZodValidationExceptionFilter } from '@lonestone/nzoth/server'
 import { NestFactory } from '@nestjs/core'
+import { NestExpressApplication } from '@nestjs/platform-express'
 import { DocumentBuilder } from '@nestjs/swagger'
 import { apiReference } from '@scalar/nestjs-api-reference'
 import * as express from 'express'
 import { Logger, LoggerErrorInterceptor } from 'nestjs-pino'
 import { AppModule } from './app.module'
 import { config } from './config/env.config'
+import { auditLogContextMiddleware } from './modules/audit-log/audit-log.context'
 
 const PREFIX = '/api'
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     bodyParser: false,
   })
 
+  // The IP of the requests is the one of the client, not the one of the proxies
+  app.set('trust proxy', config.trustProxyHops)
+
+  // Before the better-auth handler mounted by the AuthModule, whose hooks also write to the audit log
+  app.use(auditLogContextMiddleware)
+
   // Use Pino logger
   app.useLogger(app.get(Logger))
 
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { NextFunction, Request, Response } from 'express'
+
+// Where the request of the audited action comes from
+export interface AuditLogRequestInfo {
+  ip?: string
+  userAgent?: string
+}
+
+const auditLogContext = new AsyncLocalStorage<AuditLogRequestInfo>()
+
+export function getAuditLogRequestInfo(): AuditLogRequestInfo {
+  return auditLogContext.getStore() ?? {}
+}
+
+/**
+ * Keeps the IP and the user agent of the request for the audit log entries written while handling it,
+ * so that the services do not have to pass them along.
+ * Applied before any other middleware, as the better-auth handler answers without calling the next ones.
+ */
+export function auditLogContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  auditLogContext.run({ ip: req.ip, userAgent: req.headers['user-agent'] }, next)
+}
@@ -0,0 +1,40 @@
+import {
+  PaginationParams,
+  TypedController,
+  TypedQuery,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { Roles } from '../auth/auth.decorator'
+import { AuthGuard, RolesGuard } from '../auth/auth.guard'
+import { AuditLogService } from './audit-log.service'
+import {
+  auditLogActionQuerySchema,
+  auditLogActorQuerySchema,
+  AuditLogFilters,
+  AuditLogPagination,
+  auditLogPaginationSchema,
+  auditLogsSchema,
+  auditLogTargetIdQuerySchema,
+  auditLogTargetTypeQuerySchema,
+} from './contracts/audit-log.contract'
+
+@TypedController('admin/audit-log', undefined, {
+  tags: ['Admin Audit Log'],
+})
+@UseGuards(AuthGuard, RolesGuard)
+@Roles('admin')
+export class AdminAuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  @TypedRoute.Get('', auditLogsSchema)
+  async getAuditLogs(
+    @PaginationParams(auditLogPaginationSchema) pagination: AuditLogPagination,
+    @TypedQuery('action', auditLogActionQuerySchema) action?: AuditLogFilters['action'],
+    @TypedQuery('targetType', auditLogTargetTypeQuerySchema) targetType?: AuditLogFilters['targetType'],
+    @TypedQuery('targetId', auditLogTargetIdQuerySchema) targetId?: string,
+    @TypedQuery('actorId', auditLogActorQuerySchema) actorId?: string,
+  ) {
+    return await this.auditLogService.getAuditLogs(pagination, { action, targetType, targetId, actorId })
+  }
+}
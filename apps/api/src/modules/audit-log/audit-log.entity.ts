@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Enum,
+  Index,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+} from '@mikro-orm/core'
+import { User } from '../auth/auth.entity'
+
+export const auditLogActions = [
+  'post.created',
+  'post.updated',
+  'post.published',
+  'post.scheduled',
+  'post.unpublished',
+  'post.version-restored',
+  'comment.created',
+  'comment.edited',
+  'comment.deleted',
+  'comment.status-changed',
+  'auth.signed-up',
+  'auth.signed-in',
+  'auth.sign-in-failed',
+  'auth.password-changed',
+  'auth.two-factor-disabled',
+] as const
+
+export type AuditLogAction = typeof auditLogActions[number]
+
+export const auditLogTargetTypes = ['post', 'comment', 'user'] as const
+
+export type AuditLogTargetType = typeof auditLogTargetTypes[number]
+
+export type AuditLogSnapshot = Record<string, unknown>
+
+@Entity({ tableName: 'auditLog' })
+@Index({ properties: ['targetType', 'targetId'] })
+export class AuditLog {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  // None for the anonymous and scheduled actions. The entries outlive the deleted users
+  @ManyToOne(() => User, { fieldName: 'actorId', nullable: true, deleteRule: 'set null' })
+  @Index()
+  actor?: User
+
+  @Enum({ items: [...auditLogActions] })
+  @Index()
+  action!: AuditLogAction
+
+  @Enum({ items: [...auditLogTargetTypes], fieldName: 'targetType' })
+  targetType!: AuditLogTargetType
+
+  @Property({ fieldName: 'targetId' })
+  targetId!: string
+
+  // The changed properties of the target, before and after the action
+  @Property({ type: 'json', nullable: true })
+  before?: AuditLogSnapshot
+
+  @Property({ type: 'json', nullable: true })
+  after?: AuditLogSnapshot
+
+  @Property({ nullable: true })
+  ip?: string
+
+  @Property({ fieldName: 'userAgent', type: 'text', nullable: true })
+  userAgent?: string
+
+  @Property({ fieldName: 'createdAt' })
+  @Index()
+  createdAt: Date = new Date()
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { AdminAuditLogController } from './audit-log.controller'
+import { AuditLogService } from './audit-log.service'
+import { AuthAuditHooks } from './auth-audit.hooks'
+
+@Module({
+  controllers: [AdminAuditLogController],
+  providers: [AuditLogService, AuthAuditHooks],
+  exports: [AuditLogService],
+})
+export class AuditLogModule {}
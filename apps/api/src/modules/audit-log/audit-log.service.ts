@@ -0,0 +1,99 @@
+import { EntityManager, FilterQuery } from '@mikro-orm/core'
+import { Injectable } from '@nestjs/common'
+import { User } from '../auth/auth.entity'
+import { getAuditLogRequestInfo } from './audit-log.context'
+import { AuditLog, AuditLogAction, AuditLogSnapshot, AuditLogTargetType } from './audit-log.entity'
+import {
+  AuditLogFilters,
+  AuditLogPagination,
+  AuditLogResponse,
+  AuditLogsResponse,
+} from './contracts/audit-log.contract'
+
+export interface AuditLogEntry {
+  // None for the anonymous and scheduled actions
+  actorId?: string | null
+  action: AuditLogAction
+  targetType: AuditLogTargetType
+  targetId: string
+  before?: AuditLogSnapshot | null
+  after?: AuditLogSnapshot | null
+}
+
+@Injectable()
+export class AuditLogService {
+  constructor(private readonly em: EntityManager) {}
+
+  /**
+   * Adds entries to the audit log, written by the next flush along with the audited changes.
+   * The IP and the user agent are the ones of the request being handled, if any.
+   */
+  record(...entries: AuditLogEntry[]): void {
+    if (!entries.length)
+      return
+
+    const requestInfo = getAuditLogRequestInfo()
+
+    const auditLogs = entries.map((entry) => {
+      const auditLog = new AuditLog()
+      if (entry.actorId)
+        auditLog.actor = this.em.getReference(User, entry.actorId)
+      auditLog.action = entry.action
+      auditLog.targetType = entry.targetType
+      auditLog.targetId = entry.targetId
+      auditLog.before = entry.before ?? undefined
+      auditLog.after = entry.after ?? undefined
+      auditLog.ip = requestInfo.ip
+      auditLog.userAgent = requestInfo.userAgent
+      return auditLog
+    })
+
+    this.em.persist(auditLogs)
+  }
+
+  async getAuditLogs(pagination: AuditLogPagination, filters: AuditLogFilters = {}): Promise<AuditLogsResponse> {
+    const where: FilterQuery<AuditLog> = {}
+    if (filters.action)
+      where.action = filters.action
+    if (filters.targetType)
+      where.targetType = filters.targetType
+    if (filters.targetId)
+      where.targetId = filters.targetId
+    if (filters.actorId)
+      where.actor = filters.actorId
+
+    const [auditLogs, itemCount] = await this.em.findAndCount(AuditLog, where, {
+      limit: pagination.pageSize,
+      offset: pagination.offset,
+      orderBy: { createdAt: 'DESC', id: 'ASC' },
+      populate: ['actor'],
+    })
+
+    return {
+      data: auditLogs.map(auditLog => this.mapAuditLogToResponse(auditLog)),
+      meta: {
+        itemCount,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: itemCount > pagination.offset + pagination.pageSize,
+      },
+    }
+  }
+
+  private mapAuditLogToResponse(auditLog: AuditLog): AuditLogResponse {
+    return {
+      id: auditLog.id,
+      actor: auditLog.actor
+        ? { id: auditLog.actor.id, name: auditLog.actor.name, email: auditLog.actor.email }
+        : null,
+      action: auditLog.action,
+      targetType: auditLog.targetType,
+      targetId: auditLog.targetId,
+      before: auditLog.before ?? null,
+      after: auditLog.after ?? null,
+      ip: auditLog.ip ?? null,
+      userAgent: auditLog.userAgent ?? null,
+      createdAt: auditLog.createdAt,
+    }
+  }
+}
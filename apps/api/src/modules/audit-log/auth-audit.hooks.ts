@@ -0,0 +1,150 @@
+import { EntityManager, RequestContext } from '@mikro-orm/core'
+import { Injectable } from '@nestjs/common'
+import { APIError, getSessionFromCtx } from 'better-auth/api'
+import { AfterHook, AuthHookContext, Hook } from '../auth/auth.decorator'
+import { User } from '../auth/auth.entity'
+import { AuditLogEntry, AuditLogService } from './audit-log.service'
+
+/**
+ * Writes the security-relevant better-auth actions to the audit log.
+ * The hooks run once the better-auth endpoints have answered, successfully or not.
+ */
+@Hook()
+@Injectable()
+export class AuthAuditHooks {
+  constructor(
+    private readonly em: EntityManager,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  @AfterHook('/sign-up/email')
+  async afterEmailSignUp(ctx: AuthHookContext) {
+    // Without automatic sign in, e.g. until the email is verified, there is no new session
+    const user = ctx.context.newSession?.user ?? this.getReturnedUser(ctx)
+    if (!user)
+      return
+
+    await this.record({ actorId: user.id, action: 'auth.signed-up', targetType: 'user', targetId: user.id })
+  }
+
+  @AfterHook('/sign-in/email')
+  async afterEmailSignIn(ctx: AuthHookContext) {
+    if (ctx.context.returned instanceof APIError) {
+      const email = String(ctx.body?.email ?? '').toLowerCase()
+      const user = await this.em.fork().findOne(User, { email }, { fields: ['id'] })
+      // The unknown emails are kept as the target, to spot the accounts being guessed
+      await this.record({
+        action: 'auth.sign-in-failed',
+        targetType: 'user',
+        targetId: user?.id ?? email,
+        after: { method: 'email', email },
+      })
+      return
+    }
+
+    await this.recordSignIn(ctx, 'email')
+  }
+
+  @AfterHook('/sign-in/email-otp')
+  async afterEmailOtpSignIn(ctx: AuthHookContext) {
+    await this.recordSignIn(ctx, 'email-otp')
+  }
+
+  @AfterHook('/magic-link/verify')
+  async afterMagicLinkSignIn(ctx: AuthHookContext) {
+    await this.recordSignIn(ctx, 'magic-link')
+  }
+
+  @AfterHook('/callback/:id')
+  async afterSocialSignIn(ctx: AuthHookContext) {
+    await this.recordSignIn(ctx, 'social')
+  }
+
+  @AfterHook('/oauth2/callback/:providerId')
+  async afterOAuth2SignIn(ctx: AuthHookContext) {
+    await this.recordSignIn(ctx, 'oauth2')
+  }
+
+  @AfterHook('/two-factor/verify-totp')
+  async afterTotpVerification(ctx: AuthHookContext) {
+    await this.recordSignIn(ctx, 'two-factor', { challenged: false })
+  }
+
+  @AfterHook('/two-factor/verify-backup-code')
+  async afterBackupCodeVerification(ctx: AuthHookContext) {
+    await this.recordSignIn(ctx, 'backup-code', { challenged: false })
+  }
+
+  @AfterHook('/change-password')
+  async afterPasswordChange(ctx: AuthHookContext) {
+    if (ctx.context.returned instanceof APIError)
+      return
+
+    // The other sessions may have been revoked, giving a new session to the user
+    const session = ctx.context.newSession ?? await getSessionFromCtx(ctx)
+    if (!session)
+      return
+
+    await this.record({
+      actorId: session.user.id,
+      action: 'auth.password-changed',
+      targetType: 'user',
+      targetId: session.user.id,
+      after: { revokeOtherSessions: !!ctx.body?.revokeOtherSessions },
+    })
+  }
+
+  @AfterHook('/two-factor/disable')
+  async afterTwoFactorDisabling(ctx: AuthHookContext) {
+    if (ctx.context.returned instanceof APIError)
+      return
+
+    const session = await getSessionFromCtx(ctx)
+    if (!session)
+      return
+
+    await this.record({
+      actorId: session.user.id,
+      action: 'auth.two-factor-disabled',
+      targetType: 'user',
+      targetId: session.user.id,
+      before: { twoFactorEnabled: true },
+      after: { twoFactorEnabled: false },
+    })
+  }
+
+  // The endpoints signing in set a new session when they succeed
+  private async recordSignIn(ctx: AuthHookContext, method: string, { challenged = true } = {}) {
+    const newSession = ctx.context.newSession
+    if (ctx.context.returned instanceof APIError || !newSession)
+      return
+
+    // Users with two-factor authentication are signed in once their code is verified
+    if (challenged && newSession.user.twoFactorEnabled)
+      return
+
+    await this.record({
+      actorId: newSession.user.id,
+      action: 'auth.signed-in',
+      targetType: 'user',
+      targetId: newSession.user.id,
+      after: { method, sessionId: newSession.session.id },
+    })
+  }
+
+  private getReturnedUser(ctx: AuthHookContext) {
+    const returned = ctx.context.returned
+    if (!returned || typeof returned !== 'object' || !('user' in returned))
+      return null
+
+    return returned.user as { id: string } | null
+  }
+
+  private async record(entry: AuditLogEntry) {
+    // The hooks run outside of the request context of Nest
+    await RequestContext.create(this.em, async () => {
+      this.auditLogService.record(entry)
+      await this.em.flush()
+    })
+  }
+}
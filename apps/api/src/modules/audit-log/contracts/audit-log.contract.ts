@@ -0,0 +1,72 @@
+import {
+  createPaginationQuerySchema,
+  paginatedSchema,
+} from '@lonestone/nzoth/server'
+import { z } from 'zod'
+import { auditLogActions, auditLogTargetTypes } from '../audit-log.entity'
+
+export const auditLogActionSchema = z.enum(auditLogActions).meta({
+  title: 'AuditLogActionSchema',
+  description: 'What has been done, prefixed by the kind of target',
+})
+
+export const auditLogTargetTypeSchema = z.enum(auditLogTargetTypes).meta({
+  title: 'AuditLogTargetTypeSchema',
+  description: 'The kind of entity the action applies to',
+})
+
+export const auditLogSchema = z.object({
+  id: z.string().uuid(),
+  actor: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    email: z.string(),
+  }).nullable(),
+  action: auditLogActionSchema,
+  targetType: auditLogTargetTypeSchema,
+  targetId: z.string(),
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+  ip: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.date(),
+}).meta({
+  title: 'AuditLogSchema',
+  description: 'Schema for an entry of the audit log. Actions without an actor are anonymous, or done by the API itself',
+})
+
+export type AuditLogResponse = z.infer<typeof auditLogSchema>
+
+export const auditLogsSchema = paginatedSchema(auditLogSchema).meta({
+  title: 'AuditLogsSchema',
+  description: 'Schema for a paginated list of audit log entries, from the newest',
+})
+
+export type AuditLogsResponse = z.infer<typeof auditLogsSchema>
+
+export const auditLogPaginationSchema = createPaginationQuerySchema()
+
+export type AuditLogPagination = z.infer<typeof auditLogPaginationSchema>
+
+export const auditLogActionQuerySchema = auditLogActionSchema.optional().meta({
+  description: 'Only return the entries of this action',
+})
+
+export const auditLogTargetTypeQuerySchema = auditLogTargetTypeSchema.optional().meta({
+  description: 'Only return the entries about this kind of entity',
+})
+
+export const auditLogTargetIdQuerySchema = z.string().trim().max(100).optional().meta({
+  description: 'Only return the entries about this entity',
+})
+
+export const auditLogActorQuerySchema = z.string().uuid().optional().meta({
+  description: 'Only return the entries of the actions done by this user',
+})
+
+export interface AuditLogFilters {
+  action?: z.infer<typeof auditLogActionSchema>
+  targetType?: z.infer<typeof auditLogTargetTypeSchema>
+  targetId?: string
+  actorId?: string
+}
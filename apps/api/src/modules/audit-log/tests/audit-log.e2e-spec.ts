@@ -0,0 +1,243 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import { toNodeHandler } from 'better-auth/node'
+import { createAuthMiddleware } from 'better-auth/plugins'
+import express from 'express'
+import supertest from 'supertest'
+import { BetterAuthType } from '../../../config/better-auth.config'
+import { createUserData } from '../../../factories/user.factory'
+import { closeTestBetterAuth, createTestBetterAuth, WEB_APP_URL } from '../../../test/better-auth.utils'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { CommentsModule } from '../../comments/comments.module'
+import { PostModule } from '../../posts/posts.module'
+import { PostService } from '../../posts/posts.service'
+import { auditLogContextMiddleware } from '../audit-log.context'
+import { AuditLog } from '../audit-log.entity'
+import { AuditLogModule } from '../audit-log.module'
+import { AuthAuditHooks } from '../auth-audit.hooks'
+
+const USER_AGENT = 'publish-script/1.0'
+// The first address is set by the client, the last one by the proxy in front of the API
+const FORWARDED_FOR = '198.51.100.1, 203.0.113.7'
+const CLIENT_IP = '203.0.113.7'
+
+describe('audit log (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+  let em: EntityManager
+  let admin: User
+  let author: User
+  let adminRequest: ReturnType<typeof initRequestWithAuth>
+  let authorRequest: ReturnType<typeof initRequestWithAuth>
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule, CommentsModule, AuditLogModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    admin = await createUserData(em, { name: 'Admin', role: 'admin' })
+    author = await createUserData(em, { name: 'Jane Doe' })
+    adminRequest = initRequestWithAuth(app, admin.id)
+    authorRequest = (method, url) => initRequestWithAuth(app, author.id)(method, url).set('User-Agent', USER_AGENT)
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  async function createPost(title: string) {
+    const response = await authorRequest('post', '/admin/posts').send({
+      title,
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+    return response.body.id as string
+  }
+
+  function findAuditLogs(where: Partial<Pick<AuditLog, 'action' | 'targetId'>> = {}) {
+    return em.fork().find(AuditLog, where, { orderBy: { createdAt: 'ASC' } })
+  }
+
+  describe('posts', () => {
+    it('should record who created, published and unpublished a post, from where', async () => {
+      const postId = await createPost('First post')
+      await authorRequest('patch', `/admin/posts/${postId}/publish`).send({})
+      await authorRequest('patch', `/admin/posts/${postId}/unpublish`)
+
+      const auditLogs = await findAuditLogs({ targetId: postId })
+
+      expect(auditLogs.map(auditLog => auditLog.action)).toEqual(['post.created', 'post.published', 'post.unpublished'])
+      expect(auditLogs[0]).toMatchObject({
+        actor: { id: author.id },
+        targetType: 'post',
+        after: { title: 'First post', content: [{ type: 'text', data: 'Some content' }] },
+        ip: expect.stringContaining('127.0.0.1'),
+        userAgent: USER_AGENT,
+      })
+      expect(auditLogs[1]).toMatchObject({
+        before: { publishedAt: null },
+        after: { publishedAt: expect.any(String), slug: expect.stringMatching(/^first-post-/) },
+      })
+      expect(auditLogs[2]).toMatchObject({ before: { publishedAt: expect.any(String) }, after: { publishedAt: null } })
+    })
+
+    it('should record the title and content before and after an update', async () => {
+      const postId = await createPost('First post')
+
+      await authorRequest('put', `/admin/posts/${postId}`).send({ title: 'Renamed post' })
+
+      expect(await findAuditLogs({ action: 'post.updated' })).toMatchObject([{
+        before: { title: 'First post' },
+        after: { title: 'Renamed post', content: [{ type: 'text', data: 'Some content' }] },
+      }])
+    })
+
+    it('should record the scheduled publications without an actor', async () => {
+      const postId = await createPost('Scheduled post')
+      await authorRequest('patch', `/admin/posts/${postId}/publish`).send({ publishAt: new Date(Date.now() + 60_000) })
+
+      await app.get(PostService).publishScheduledPosts(new Date(Date.now() + 120_000))
+
+      expect(await findAuditLogs({ targetId: postId })).toMatchObject([
+        { action: 'post.created' },
+        { action: 'post.scheduled', actor: { id: author.id }, after: { scheduledAt: expect.any(String) } },
+        { action: 'post.published', actor: null, after: { scheduledAt: null } },
+      ])
+    })
+  })
+
+  describe('comments', () => {
+    it('should record the moderation and the deletion of a comment', async () => {
+      const postId = await createPost('First post')
+      const publishResponse = await authorRequest('patch', `/admin/posts/${postId}/publish`).send({})
+      const commentResponse = await authorRequest('post', `/posts/${publishResponse.body.slug}/comments`).send({ content: 'A comment' })
+      const commentId = commentResponse.body.id
+
+      await adminRequest('patch', '/admin/comments/status').send({ ids: [commentId], status: 'spam' })
+      await adminRequest('del', `/posts/${publishResponse.body.slug}/comments/${commentId}`)
+
+      expect(await findAuditLogs({ targetId: commentId })).toMatchObject([
+        { action: 'comment.created', actor: { id: author.id }, after: { content: 'A comment', status: 'approved' } },
+        { action: 'comment.status-changed', actor: { id: admin.id }, before: { status: 'approved' }, after: { status: 'spam' } },
+        { action: 'comment.deleted', actor: { id: admin.id }, before: { authorId: author.id, content: 'A comment' } },
+      ])
+    })
+  })
+
+  describe('gET /admin/audit-log', () => {
+    it('should list the entries from the newest, with their actor', async () => {
+      const postId = await createPost('First post')
+      await authorRequest('patch', `/admin/posts/${postId}/publish`).send({})
+
+      const response = await adminRequest('get', '/admin/audit-log')
+
+      expect(response.status).toBe(200)
+      expect(response.body).toMatchObject({
+        data: [
+          { action: 'post.published', actor: { id: author.id, name: 'Jane Doe' }, targetType: 'post', targetId: postId },
+          { action: 'post.created' },
+        ],
+        meta: { itemCount: 2, hasMore: false },
+      })
+    })
+
+    it('should filter and paginate the entries', async () => {
+      const firstPostId = await createPost('First post')
+      const secondPostId = await createPost('Second post')
+      await authorRequest('patch', `/admin/posts/${firstPostId}/publish`).send({})
+
+      const actionResponse = await adminRequest('get', '/admin/audit-log').query({ action: 'post.created', offset: 1, pageSize: 1 })
+      const targetResponse = await adminRequest('get', '/admin/audit-log').query({ targetType: 'post', targetId: secondPostId })
+      const actorResponse = await adminRequest('get', '/admin/audit-log').query({ actorId: admin.id })
+
+      expect(actionResponse.body.data).toMatchObject([{ targetId: firstPostId }])
+      expect(actionResponse.body.meta).toMatchObject({ itemCount: 2, hasMore: false })
+      expect(targetResponse.body.data).toMatchObject([{ action: 'post.created' }])
+      expect(actorResponse.body.data).toEqual([])
+    })
+
+    it('should be restricted to admins', async () => {
+      const response = await authorRequest('get', '/admin/audit-log')
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('auth hooks', () => {
+    let auth: BetterAuthType
+    let server: express.Express
+
+    beforeAll(() => {
+      const authAuditHooks = app.get(AuthAuditHooks)
+      auth = createTestBetterAuth(orm, {
+        // As the AuthModule does with the @AfterHook() methods
+        afterHook: createAuthMiddleware(async (ctx) => {
+          if (ctx.path === '/sign-up/email')
+            await authAuditHooks.afterEmailSignUp(ctx)
+          if (ctx.path === '/sign-in/email')
+            await authAuditHooks.afterEmailSignIn(ctx)
+        }),
+      })
+      // The context middleware comes before the better-auth handler, as in main.ts
+      server = express()
+        .set('trust proxy', 1)
+        .use(auditLogContextMiddleware)
+        .use(toNodeHandler(auth))
+    })
+
+    afterAll(async () => {
+      await closeTestBetterAuth(auth)
+    })
+
+    function post(path: string, body: object) {
+      return supertest(server)
+        .post(`/api/auth${path}`)
+        .set({ 'Origin': WEB_APP_URL, 'User-Agent': USER_AGENT, 'X-Forwarded-For': FORWARDED_FOR })
+        .send(body)
+    }
+
+    it('should record the sign ups, sign ins and failed sign ins', async () => {
+      const credentials = { email: 'reader@example.com', password: 'password1234' }
+      await post('/sign-up/email', { name: 'Reader', ...credentials })
+      await post('/sign-in/email', { ...credentials, password: 'wrong-password' })
+      await post('/sign-in/email', credentials)
+      await post('/sign-in/email', { email: 'unknown@example.com', password: 'password1234' })
+
+      const reader = await em.fork().findOneOrFail(User, { email: credentials.email })
+      expect(await findAuditLogs()).toMatchObject([
+        { action: 'auth.signed-up', actor: { id: reader.id }, targetId: reader.id, userAgent: USER_AGENT },
+        { action: 'auth.sign-in-failed', actor: null, targetId: reader.id, after: { email: credentials.email } },
+        { action: 'auth.signed-in', actor: { id: reader.id }, targetId: reader.id, after: { method: 'email' } },
+        { action: 'auth.sign-in-failed', actor: null, targetId: 'unknown@example.com' },
+      ])
+    })
+
+    it('should record the IP of the client for the sign ins, failed or not', async () => {
+      const credentials = { email: 'reader@example.com', password: 'password1234' }
+      await post('/sign-up/email', { name: 'Reader', ...credentials })
+      await post('/sign-in/email', { ...credentials, password: 'wrong-password' })
+      await post('/sign-in/email', credentials)
+
+      expect(await findAuditLogs()).toMatchObject([
+        { action: 'auth.signed-up', ip: CLIENT_IP, userAgent: USER_AGENT },
+        { action: 'auth.sign-in-failed', ip: CLIENT_IP, userAgent: USER_AGENT },
+        { action: 'auth.signed-in', ip: CLIENT_IP, userAgent: USER_AGENT },
+      ])
+    })
+  })
+})
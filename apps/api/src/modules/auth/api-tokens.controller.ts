@@ -0,0 +1,44 @@
+import { TypedBody, TypedController, TypedParam, TypedRoute } from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { ApiTokensService } from './api-tokens.service'
+import { Session } from './auth.decorator'
+import { AuthGuard } from './auth.guard'
+import {
+  apiTokensSchema,
+  CreateApiTokenInput,
+  createApiTokenSchema,
+  createdApiTokenSchema,
+} from './contracts/api-tokens.contract'
+
+// Without @Scopes(), these routes cannot be used with a token: tokens are only managed from the browser
+@TypedController('api-tokens', undefined, {
+  tags: ['API Tokens'],
+})
+@UseGuards(AuthGuard)
+export class ApiTokensController {
+  constructor(private readonly apiTokensService: ApiTokensService) {}
+
+  @TypedRoute.Get('', apiTokensSchema)
+  async getApiTokens(@Session() session: LoggedInBetterAuthSession) {
+    return await this.apiTokensService.getApiTokens(session.user.id)
+  }
+
+  @TypedRoute.Post('', createdApiTokenSchema)
+  async createApiToken(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedBody(createApiTokenSchema) body: CreateApiTokenInput,
+  ) {
+    return await this.apiTokensService.createApiToken(session.user.id, body)
+  }
+
+  @TypedRoute.Delete(':id')
+  async deleteApiToken(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('id', z.string().uuid()) id: string,
+  ) {
+    await this.apiTokensService.deleteApiToken(session.user.id, id)
+    return { success: true }
+  }
+}
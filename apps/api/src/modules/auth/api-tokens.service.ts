@@ -0,0 +1,112 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { EntityManager } from '@mikro-orm/postgresql'
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { ApiToken, User } from './auth.entity'
+import { ApiTokenScope } from './auth.policies'
+import { ApiTokenOutput, CreateApiTokenInput, CreatedApiToken } from './contracts/api-tokens.contract'
+
+// Tells the tokens apart from the session tokens, and makes them easy to spot in leaked secrets
+export const API_TOKEN_PREFIX = 'lst_'
+
+export interface ApiTokenAuthentication {
+  session: LoggedInBetterAuthSession
+  scopes: ApiTokenScope[]
+}
+
+function hashApiToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+@Injectable()
+export class ApiTokensService {
+  constructor(private readonly em: EntityManager) {}
+
+  async getApiTokens(userId: string): Promise<ApiTokenOutput[]> {
+    const apiTokens = await this.em.find(ApiToken, { user: userId }, { orderBy: { createdAt: 'DESC' } })
+    return apiTokens.map(apiToken => this.toApiTokenOutput(apiToken))
+  }
+
+  async createApiToken(userId: string, data: CreateApiTokenInput): Promise<CreatedApiToken> {
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+
+    const apiToken = this.em.create(ApiToken, {
+      user: this.em.getReference(User, userId),
+      name: data.name,
+      start: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      tokenHash: hashApiToken(token),
+      scopes: data.scopes,
+      expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+      createdAt: new Date(),
+    })
+    await this.em.flush()
+
+    return { ...this.toApiTokenOutput(apiToken), token }
+  }
+
+  async deleteApiToken(userId: string, apiTokenId: string) {
+    const deletedCount = await this.em.nativeDelete(ApiToken, { id: apiTokenId, user: userId })
+    if (!deletedCount)
+      throw new NotFoundException('API token not found')
+  }
+
+  /**
+   * Finds the user of a valid token, as a session for the routes to work the same with tokens and cookies.
+   * Returns null for unknown and expired tokens.
+   */
+  async authenticate(token: string): Promise<ApiTokenAuthentication | null> {
+    if (!token.startsWith(API_TOKEN_PREFIX))
+      return null
+
+    // A fork, as the guards run outside of the request context
+    const em = this.em.fork()
+    const apiToken = await em.findOne(ApiToken, {
+      tokenHash: hashApiToken(token),
+      expiresAt: { $gt: new Date() },
+    }, { populate: ['user'] })
+    if (!apiToken)
+      return null
+
+    apiToken.lastUsedAt = new Date()
+    await em.flush()
+
+    const { user } = apiToken
+    return {
+      scopes: apiToken.scopes,
+      session: {
+        session: {
+          id: apiToken.id,
+          token: apiToken.start,
+          userId: user.id,
+          expiresAt: apiToken.expiresAt,
+          createdAt: apiToken.createdAt,
+          updatedAt: apiToken.lastUsedAt,
+        },
+        user: {
+          id: user.id,
+          email: user.email,
+          emailVerified: user.emailVerified,
+          name: user.name,
+          image: user.image,
+          role: user.role,
+          handle: user.handle,
+          twoFactorEnabled: user.twoFactorEnabled,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+      },
+    }
+  }
+
+  private toApiTokenOutput(apiToken: ApiToken): ApiTokenOutput {
+    return {
+      id: apiToken.id,
+      name: apiToken.name,
+      start: apiToken.start,
+      scopes: apiToken.scopes,
+      expiresAt: apiToken.expiresAt,
+      lastUsedAt: apiToken.lastUsedAt ?? null,
+      createdAt: apiToken.createdAt,
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { TypedController, TypedRoute } from '@lonestone/nzoth/server'
+import { AuthService } from './auth.service'
+import { authPolicySchema, oauthProvidersSchema } from './contracts/auth.contract'
+
+// Not under "auth/", as these routes are handled by better-auth
+@TypedController('public/auth', undefined, {
+  tags: ['Public Auth'],
+})
+export class PublicAuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @TypedRoute.Get('providers', oauthProvidersSchema)
+  async getOAuthProviders() {
+    return this.authService.getOAuthProviders()
+  }
+
+  @TypedRoute.Get('policy', authPolicySchema)
+  async getAuthPolicy() {
+    return this.authService.getAuthPolicy()
+  }
+}
@@ -1,12 +1,27 @@
 import type { ExecutionContext } from '@nestjs/common'
+import type { AuthContext, MiddlewareContext, MiddlewareOptions } from 'better-auth'
+import type { ApiTokenScope, UserRole } from './auth.policies'
 import { createParamDecorator, SetMetadata } from '@nestjs/common'
 
 export const BEFORE_HOOK_KEY = Symbol('BEFORE_HOOK')
 export const AFTER_HOOK_KEY = Symbol('AFTER_HOOK')
 export const HOOK_KEY = Symbol('HOOK')
 
+// What the methods of the @Hook() providers receive
+export type AuthHookContext = MiddlewareContext<
+  MiddlewareOptions,
+  AuthContext & {
+    returned?: unknown
+    responseHeaders?: Headers
+  }
+>
+
 export const Public = () => SetMetadata('PUBLIC', true)
 export const Optional = () => SetMetadata('OPTIONAL', true)
+// Restricts a route to some roles, checked by the RolesGuard
+export const Roles = (...roles: UserRole[]) => SetMetadata('ROLES', roles)
+// Lets the personal API tokens having all these scopes use a route, the others are refused by the AuthGuard
+export const Scopes = (...scopes: ApiTokenScope[]) => SetMetadata('SCOPES', scopes)
 
 export const Session = createParamDecorator(
   (_data: unknown, context: ExecutionContext) => {
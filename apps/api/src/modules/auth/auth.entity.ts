@@ -1,10 +1,20 @@
 import {
   Entity,
+  Enum,
+  Index,
   ManyToOne,
   PrimaryKey,
   Property,
   Unique,
 } from '@mikro-orm/core'
+import { userRoles } from '../../config/better-auth.config'
+import { ApiTokenScope, apiTokenScopes, UserRole } from './auth.policies'
+
+// A link of the public profile, e.g. a website or a social network
+export interface UserLink {
+  label: string
+  url: string
+}
 
 @Entity({ tableName: 'user' })
 export class User {
@@ -24,6 +34,25 @@ export class User {
   @Property({ nullable: true })
   image?: string
 
+  // Identifies the user in the URL of their public profile, generated from their name on sign up
+  @Property()
+  @Unique()
+  handle!: string
+
+  @Property({ type: 'text', nullable: true })
+  bio?: string
+
+  // The users are also created by better-auth, which does not know about this column
+  @Property({ type: 'json', defaultRaw: `'[]'` })
+  links: UserLink[] = []
+
+  @Enum({ items: [...userRoles] })
+  role: UserRole = 'user'
+
+  // Set by better-auth once the user has verified their first TOTP
+  @Property({ fieldName: 'twoFactorEnabled', default: false })
+  twoFactorEnabled: boolean = false
+
   @Property({ fieldName: 'createdAt' })
   createdAt: Date = new Date()
 
@@ -101,6 +130,56 @@ export class Account {
   updatedAt: Date = new Date()
 }
 
+// The TOTP secret and backup codes of the users having enabled two-factor authentication, both encrypted by better-auth
+@Entity({ tableName: 'twoFactor' })
+export class TwoFactor {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @Property({ type: 'text' })
+  secret!: string
+
+  @Property({ fieldName: 'backupCodes', type: 'text' })
+  backupCodes!: string
+
+  @ManyToOne(() => User, { fieldName: 'userId', deleteRule: 'cascade' })
+  user!: User
+}
+
+// A personal access token, for scripts to use the API without a browser session. Only its hash is stored
+@Entity({ tableName: 'apiToken' })
+export class ApiToken {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => User, { fieldName: 'userId', deleteRule: 'cascade' })
+  @Index()
+  user!: User
+
+  @Property()
+  name!: string
+
+  // The first characters of the token, for the user to recognize it
+  @Property()
+  start!: string
+
+  @Property({ fieldName: 'tokenHash' })
+  @Unique()
+  tokenHash!: string
+
+  @Enum({ items: [...apiTokenScopes], array: true })
+  scopes!: ApiTokenScope[]
+
+  @Property({ fieldName: 'expiresAt' })
+  expiresAt!: Date
+
+  @Property({ fieldName: 'lastUsedAt', nullable: true })
+  lastUsedAt?: Date
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+}
+
 @Entity({ tableName: 'verification' })
 export class Verification {
   @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
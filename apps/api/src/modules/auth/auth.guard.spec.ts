@@ -0,0 +1,88 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { config } from '../../config/env.config'
+import { ApiTokensService } from './api-tokens.service'
+import { Optional, Scopes } from './auth.decorator'
+import { AuthGuard } from './auth.guard'
+import { AuthService } from './auth.service'
+
+class TestController {
+  @Optional()
+  optionalRoute() {}
+
+  @Scopes('posts:read')
+  scopedRoute() {}
+}
+
+function createSession(userId: string, twoFactorEnabled = false) {
+  return { user: { id: userId, twoFactorEnabled } } as LoggedInBetterAuthSession
+}
+
+function createContext(handler: () => void, headers: Record<string, string> = {}) {
+  const request = { headers }
+  return {
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => handler,
+    getClass: () => TestController,
+  } as unknown as ExecutionContext
+}
+
+// The guard reads the cookie session from better-auth, and the session of the API tokens from their service
+async function createGuard(session: LoggedInBetterAuthSession | null, apiTokenSession: LoggedInBetterAuthSession | null = null) {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [
+      AuthGuard,
+      { provide: AuthService, useValue: { api: { getSession: async () => session } } },
+      {
+        provide: ApiTokensService,
+        useValue: { authenticate: async () => apiTokenSession && { session: apiTokenSession, scopes: ['posts:read'] } },
+      },
+    ],
+  }).compile()
+
+  return module.get<AuthGuard>(AuthGuard)
+}
+
+describe('authGuard', () => {
+  describe('bearer tokens', () => {
+    it('should authenticate the personal API tokens', async () => {
+      const guard = await createGuard(createSession('cookie-user'), createSession('token-user'))
+      const context = createContext(TestController.prototype.scopedRoute, { authorization: 'Bearer lst_token' })
+
+      expect(await guard.canActivate(context)).toBe(true)
+      expect(context.switchToHttp().getRequest().session).toEqual(createSession('token-user'))
+    })
+
+    it('should fall back to the cookie session for the other bearer tokens', async () => {
+      const guard = await createGuard(createSession('cookie-user'), createSession('token-user'))
+      const context = createContext(TestController.prototype.scopedRoute, { authorization: 'Bearer other-token' })
+
+      expect(await guard.canActivate(context)).toBe(true)
+      expect(context.switchToHttp().getRequest().session).toEqual(createSession('cookie-user'))
+    })
+  })
+
+  describe('when two-factor authentication is required', () => {
+    beforeEach(() => {
+      jest.replaceProperty(config.twoFactor, 'required', true)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should refuse the users without it on the optional routes', async () => {
+      const guard = await createGuard(createSession('user'))
+
+      await expect(guard.canActivate(createContext(TestController.prototype.optionalRoute))).rejects.toThrow(ForbiddenException)
+    })
+
+    it('should let the users having it and the anonymous users use the optional routes', async () => {
+      const context = createContext(TestController.prototype.optionalRoute)
+
+      expect(await (await createGuard(createSession('user', true))).canActivate(context)).toBe(true)
+      expect(await (await createGuard(null)).canActivate(context)).toBe(true)
+    })
+  })
+})
@@ -1,8 +1,11 @@
 import type { CanActivate, ExecutionContext } from '@nestjs/common'
-import { Injectable, UnauthorizedException } from '@nestjs/common'
+import { ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
 import { fromNodeHeaders } from 'better-auth/node'
 import { LoggedInBetterAuthSession } from 'src/config/better-auth.config'
+import { config } from 'src/config/env.config'
+import { API_TOKEN_PREFIX, ApiTokensService } from 'src/modules/auth/api-tokens.service'
+import { ApiTokenScope, UserRole } from 'src/modules/auth/auth.policies'
 import { AuthService } from 'src/modules/auth/auth.service'
 
 export interface AuthenticatedRequest extends Request {
@@ -14,14 +17,21 @@ export class AuthGuard implements CanActivate {
   constructor(
     private readonly reflector: Reflector,
     private readonly authService: AuthService,
+    private readonly apiTokensService: ApiTokensService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     try {
       const request = context.switchToHttp().getRequest()
-      const session = await this.authService.api.getSession({
-        headers: fromNodeHeaders(request.headers),
-      })
+      // Scripts authenticate with a personal API token, the browsers with the session cookie.
+      // The other bearer tokens are left to better-auth, which reads the session from the headers
+      const apiToken = request.headers.authorization?.match(new RegExp(`^Bearer (${API_TOKEN_PREFIX}.+)$`))?.[1]
+      const apiTokenAuthentication = apiToken ? await this.apiTokensService.authenticate(apiToken) : null
+      const session = apiToken
+        ? apiTokenAuthentication?.session ?? null
+        : await this.authService.api.getSession({
+            headers: fromNodeHeaders(request.headers),
+          })
 
       request.session = session
       request.user = session?.user ?? null // useful for observability tools like Sentry
@@ -38,11 +48,61 @@ export class AuthGuard implements CanActivate {
 
       if (!session)
         throw new UnauthorizedException()
+
+      if (apiTokenAuthentication)
+        this.checkApiTokenScopes(context, apiTokenAuthentication.scopes)
+
+      // Until they enable it, these users can only manage their account through the better-auth routes.
+      // They are refused on the optional routes too, rather than treated as anonymous users
+      if (config.twoFactor.required && !session.user.twoFactorEnabled)
+        throw new ForbiddenException('Two-factor authentication is required')
       return true
     }
     catch (error) {
+      if (error instanceof ForbiddenException)
+        throw error
       console.error(error)
       throw new UnauthorizedException()
     }
   }
+
+  // The routes without @Scopes() are only available to the browser sessions
+  private checkApiTokenScopes(context: ExecutionContext, tokenScopes: ApiTokenScope[]) {
+    const scopes = this.reflector.getAllAndOverride<ApiTokenScope[] | undefined>('SCOPES', [
+      context.getHandler(),
+      context.getClass(),
+    ])
+    if (!scopes?.length)
+      throw new ForbiddenException('This route cannot be used with an API token')
+
+    if (!scopes.every(scope => tokenScopes.includes(scope)))
+      throw new ForbiddenException(`The API token requires these scopes: ${scopes.join(', ')}`)
+  }
+}
+
+/**
+ * Checks the role of the user against the roles of the @Roles() decorator.
+ * Must be used after the AuthGuard, which loads the session.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>('ROLES', [
+      context.getHandler(),
+      context.getClass(),
+    ])
+    if (!roles?.length)
+      return true
+
+    const request = context.switchToHttp().getRequest()
+    const session: LoggedInBetterAuthSession | null = request.session
+    if (!session)
+      throw new UnauthorizedException()
+
+    if (!roles.includes(session.user.role))
+      throw new ForbiddenException('You do not have the required role')
+    return true
+  }
 }
@@ -2,11 +2,6 @@ import type {
   MiddlewareConsumer,
   NestModule,
 } from '@nestjs/common'
-import type {
-  AuthContext,
-  MiddlewareContext,
-  MiddlewareOptions,
-} from 'better-auth'
 import { MikroOrmModule } from '@mikro-orm/nestjs'
 import { Global, Inject, Module, OnModuleInit, RequestMethod } from '@nestjs/common'
 import {
@@ -17,9 +12,13 @@ import {
 import { toNodeHandler } from 'better-auth/node'
 import { createAuthMiddleware } from 'better-auth/plugins'
 import { EmailModule } from '../email/email.module'
-import { AFTER_HOOK_KEY, BEFORE_HOOK_KEY, HOOK_KEY } from './auth.decorator'
-import { Account, Session, User, Verification } from './auth.entity'
-import { AuthGuard } from './auth.guard'
+import { FilesModule } from '../files/files.module'
+import { ApiTokensController } from './api-tokens.controller'
+import { ApiTokensService } from './api-tokens.service'
+import { PublicAuthController } from './auth.controller'
+import { AFTER_HOOK_KEY, AuthHookContext, BEFORE_HOOK_KEY, HOOK_KEY } from './auth.decorator'
+import { Account, ApiToken, Session, TwoFactor, User, Verification } from './auth.entity'
+import { AuthGuard, RolesGuard } from './auth.guard'
 import { AuthService } from './auth.service'
 
 @Global()
@@ -27,15 +26,21 @@ import { AuthService } from './auth.service'
   imports: [
     DiscoveryModule,
     EmailModule,
-    MikroOrmModule.forFeature([User, Session, Account, Verification]),
+    FilesModule,
+    MikroOrmModule.forFeature([User, Session, Account, Verification, TwoFactor, ApiToken]),
   ],
+  controllers: [PublicAuthController, ApiTokensController],
   providers: [
     AuthService,
+    ApiTokensService,
     AuthGuard,
+    RolesGuard,
   ],
   exports: [
     AuthService,
+    ApiTokensService,
     AuthGuard,
+    RolesGuard,
   ],
 })
 export class AuthModule implements NestModule, OnModuleInit {
@@ -87,15 +92,7 @@ export class AuthModule implements NestModule, OnModuleInit {
   private setupHook(
     metadataKey: symbol,
     hookType: 'before' | 'after',
-    providerMethod: (
-      ctx: MiddlewareContext<
-        MiddlewareOptions,
-        AuthContext & {
-          returned?: unknown
-          responseHeaders?: Headers
-        }
-      >
-    ) => Promise<void>,
+    providerMethod: (ctx: AuthHookContext) => Promise<void>,
     providerInstance: unknown,
   ) {
     const auth = this.authService.auth
@@ -120,7 +117,7 @@ export class AuthModule implements NestModule, OnModuleInit {
   static forRootAsync() {
     return {
       module: AuthModule,
-      imports: [EmailModule],
+      imports: [EmailModule, FilesModule],
       providers: [
         AuthService,
         {
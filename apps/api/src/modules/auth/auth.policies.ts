@@ -0,0 +1,22 @@
+import { userRoles } from '../../config/better-auth.config'
+
+export type UserRole = typeof userRoles[number]
+
+// What the personal API tokens can do, each route accepting tokens declares its scopes with @Scopes()
+export const apiTokenScopes = ['posts:read', 'posts:write', 'comments:read', 'comments:write'] as const
+
+export type ApiTokenScope = typeof apiTokenScopes[number]
+
+// The user doing an action, e.g. the user of the session
+export interface Actor {
+  id: string
+  role: UserRole
+}
+
+export function canManageAllPosts(actor: Actor) {
+  return actor.role === 'admin'
+}
+
+export function canManageAllComments(actor: Actor) {
+  return actor.role === 'admin' || actor.role === 'editor'
+}
@@ -1,15 +1,22 @@
-import { EntityManager } from '@mikro-orm/postgresql'
+import { EntityManager, RequestContext } from '@mikro-orm/postgresql'
 import { Injectable, OnModuleInit } from '@nestjs/common'
 import { BetterAuthType, createBetterAuth } from '../../config/better-auth.config'
 import { config } from '../../config/env.config'
 import { EmailService } from '../email/email.service'
+import { FilesService } from '../files/files.service'
+import { AuthPolicy, OAuthProviders } from './contracts/auth.contract'
+import { prepareNewUser } from './user-handle'
 
 @Injectable()
 export class AuthService implements OnModuleInit {
   private _auth: BetterAuthType | null = null
   private static initPromise: Promise<void> | null = null
 
-  constructor(private emailService: EmailService, private em: EntityManager) { }
+  constructor(
+    private emailService: EmailService,
+    private filesService: FilesService,
+    private em: EntityManager,
+  ) { }
 
   async onModuleInit() {
     if (!AuthService.initPromise) {
@@ -26,25 +33,83 @@ export class AuthService implements OnModuleInit {
       secret: config.betterAuth.secret,
       trustedOrigins: config.betterAuth.trustedOrigins,
       connectionStringUrl: config.database.connectionStringUrl,
+      twoFactorUrl: `${config.clients.webApp.url}/two-factor`,
+      oauthProviders: config.oauth,
+      twoFactorIssuer: config.twoFactor.issuer,
+      passwordless: {
+        expiresIn: config.passwordless.expiresInMinutes * 60,
+        rateLimit: {
+          window: config.passwordless.rateLimit.windowMinutes * 60,
+          max: config.passwordless.rateLimit.max,
+        },
+      },
       sendResetPassword: async (data) => {
         const url = `${config.clients.webApp.url}/reset-password?token=${data.token}`
-        return this.emailService.sendEmail({
+        await this.emailService.sendTemplate('reset-password', {
           to: data.user.email,
-          subject: 'Reset your password',
-          content: `Hello ${data.user.name}, please reset your password by clicking on the link below: <a href="${url}">${url}</a>`,
+          variables: { userName: data.user.name, url },
         })
       },
       sendVerificationEmail: async (data) => {
         const url = `${config.clients.webApp.url}/verify-email?token=${data.token}`
-        return this.emailService.sendEmail({
+        await this.emailService.sendTemplate('verify-email', {
+          to: data.user.email,
+          variables: { userName: data.user.name, url },
+        })
+      },
+      sendChangeEmailVerification: async (data) => {
+        // The same page verifies the email, and approves the change as the token contains the new address
+        const url = `${config.clients.webApp.url}/verify-email?token=${data.token}`
+        await this.emailService.sendTemplate('change-email', {
           to: data.user.email,
-          subject: 'Verify your email',
-          content: `Hello ${data.user.name}, please verify your email by clicking on the link below: <a href="${url}">${url}</a>`,
+          variables: { userName: data.user.name, newEmail: data.newEmail, url },
+        })
+      },
+      sendMagicLink: async (data) => {
+        // The link verifies the token in the API, which then redirects to the callback URL given by the client
+        await this.emailService.sendTemplate('magic-link', {
+          to: data.email,
+          variables: { url: data.url, expiresInMinutes: config.passwordless.expiresInMinutes },
+        })
+      },
+      sendSignInOtp: async (data) => {
+        await this.emailService.sendTemplate('sign-in-code', {
+          to: data.email,
+          variables: { code: data.otp, expiresInMinutes: config.passwordless.expiresInMinutes },
         })
       },
+      beforeDeleteUser: async (user) => {
+        // The rest of their data is deleted by the database, but the stored files must be removed first
+        await RequestContext.create(this.em, () => this.filesService.deleteUserFiles(user.id))
+      },
+      databaseHooks: {
+        user: {
+          create: {
+            // A fork, as the hooks run outside of the request context
+            before: async user => ({ data: await prepareNewUser(this.em.fork(), user) }),
+          },
+        },
+      },
     })
   }
 
+  // The enabled providers, for the clients to show their sign in buttons
+  getOAuthProviders(): OAuthProviders {
+    const providers: OAuthProviders = []
+    if (config.oauth.github)
+      providers.push({ id: 'github', name: 'GitHub', type: 'social' })
+    if (config.oauth.google)
+      providers.push({ id: 'google', name: 'Google', type: 'social' })
+    if (config.oauth.oidc)
+      providers.push({ id: 'oidc', name: config.oauth.oidc.name, type: 'oauth2' })
+
+    return providers
+  }
+
+  getAuthPolicy(): AuthPolicy {
+    return { twoFactorRequired: config.twoFactor.required }
+  }
+
   get auth(): BetterAuthType {
     if (!this._auth) {
       throw new Error('Auth not initialized - call onModuleInit first')
@@ -0,0 +1,53 @@
+import { z } from 'zod'
+import { apiTokenScopes } from '../auth.policies'
+
+export const apiTokenScopeSchema = z.enum(apiTokenScopes).meta({
+  title: 'ApiTokenScopeSchema',
+  description: 'What a personal API token can do, e.g. "posts:write" to create and publish posts',
+})
+
+export const apiTokenSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  start: z.string().meta({
+    description: 'The first characters of the token, the token itself is only returned on creation',
+  }),
+  scopes: z.array(apiTokenScopeSchema),
+  expiresAt: z.date(),
+  lastUsedAt: z.date().nullable(),
+  createdAt: z.date(),
+}).meta({
+  title: 'ApiTokenSchema',
+  description: 'A personal API token of the logged in user',
+})
+
+export type ApiTokenOutput = z.infer<typeof apiTokenSchema>
+
+export const apiTokensSchema = z.array(apiTokenSchema).meta({
+  title: 'ApiTokensSchema',
+  description: 'The personal API tokens of the logged in user, from the newest',
+})
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiTokenScopeSchema).min(1).refine(scopes => new Set(scopes).size === scopes.length, {
+    message: 'Each scope can only be given once',
+  }),
+  expiresInDays: z.number().int().min(1).max(365),
+}).meta({
+  title: 'CreateApiTokenSchema',
+  description: 'Schema for creating a personal API token',
+})
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>
+
+export const createdApiTokenSchema = apiTokenSchema.extend({
+  token: z.string().meta({
+    description: 'To send in the "Authorization: Bearer" header, it cannot be shown again',
+  }),
+}).meta({
+  title: 'CreatedApiTokenSchema',
+  description: 'A personal API token, with its value',
+})
+
+export type CreatedApiToken = z.infer<typeof createdApiTokenSchema>
@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+export const oauthProviderSchema = z.object({
+  id: z.enum(['github', 'google', 'oidc']),
+  name: z.string(),
+  type: z.enum(['social', 'oauth2']).meta({
+    description: 'Social providers are used with signIn.social, the others with signIn.oauth2',
+  }),
+}).meta({
+  title: 'OAuthProviderSchema',
+  description: 'An OAuth provider users can sign in with',
+})
+
+export const oauthProvidersSchema = z.array(oauthProviderSchema).meta({
+  title: 'OAuthProvidersSchema',
+  description: 'The enabled OAuth providers',
+})
+
+export type OAuthProvider = z.infer<typeof oauthProviderSchema>
+export type OAuthProviders = z.infer<typeof oauthProvidersSchema>
+
+export const authPolicySchema = z.object({
+  twoFactorRequired: z.boolean().meta({
+    description: 'Whether the users must enable two-factor authentication to use the API',
+  }),
+}).meta({
+  title: 'AuthPolicySchema',
+  description: 'The authentication rules the clients must enforce',
+})
+
+export type AuthPolicy = z.infer<typeof authPolicySchema>
@@ -0,0 +1,121 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import supertest from 'supertest'
+import { createUserData } from '../../../factories/user.factory'
+import { closeTestApp, initializeTestApp, TestAppContext } from '../../../test/test.utils'
+import { PostModule } from '../../posts/posts.module'
+import { ApiTokensService } from '../api-tokens.service'
+import { ApiToken, User } from '../auth.entity'
+
+describe('personal API tokens (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+  let em: EntityManager
+  let apiTokensService: ApiTokensService
+  let user: User
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule],
+      // The tokens are checked by the real guard
+      overrideDefaultAuthGuard: false,
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+    apiTokensService = app.get(ApiTokensService)
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    user = await createUserData(em, { name: 'Jane Doe' })
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  function requestWithToken(token: string) {
+    return (method: 'get' | 'post' | 'patch' | 'del', url: string) =>
+      supertest(app.getHttpServer())[method](url).set('Authorization', `Bearer ${token}`)
+  }
+
+  it('should create a token, only storing its hash', async () => {
+    const apiToken = await apiTokensService.createApiToken(user.id, { name: 'CI', scopes: ['posts:write'], expiresInDays: 30 })
+
+    const storedToken = await em.fork().findOneOrFail(ApiToken, { id: apiToken.id })
+    expect(apiToken.token).toMatch(/^lst_[\w-]{43}$/)
+    expect(apiToken.token.startsWith(apiToken.start)).toBe(true)
+    expect(storedToken.tokenHash).not.toContain(apiToken.token)
+    expect(await apiTokensService.getApiTokens(user.id)).toEqual([
+      expect.objectContaining({ name: 'CI', scopes: ['posts:write'], lastUsedAt: null }),
+    ])
+  })
+
+  it('should create and publish a post with a token', async () => {
+    const { token } = await apiTokensService.createApiToken(user.id, { name: 'CI', scopes: ['posts:read', 'posts:write'], expiresInDays: 30 })
+    const request = requestWithToken(token)
+
+    const createResponse = await request('post', '/admin/posts').send({
+      title: 'Published from CI',
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+    const publishResponse = await request('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+    const listResponse = await request('get', '/admin/posts')
+
+    expect(createResponse.status).toBe(201)
+    expect(publishResponse.status).toBe(200)
+    expect(publishResponse.body.type).toBe('published')
+    expect(listResponse.body.data).toMatchObject([{ title: 'Published from CI', role: 'owner' }])
+    expect(await apiTokensService.getApiTokens(user.id)).toEqual([expect.objectContaining({ lastUsedAt: expect.any(Date) })])
+  })
+
+  it('should refuse the routes requiring other scopes', async () => {
+    const { token } = await apiTokensService.createApiToken(user.id, { name: 'Read only', scopes: ['posts:read'], expiresInDays: 30 })
+    const request = requestWithToken(token)
+
+    const readResponse = await request('get', '/admin/posts')
+    const writeResponse = await request('post', '/admin/posts').send({
+      title: 'Not allowed',
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+
+    expect(readResponse.status).toBe(200)
+    expect(writeResponse.status).toBe(403)
+  })
+
+  it('should refuse the routes without scopes, e.g. managing the tokens', async () => {
+    const { token } = await apiTokensService.createApiToken(user.id, { name: 'CI', scopes: ['posts:read', 'posts:write'], expiresInDays: 30 })
+
+    const response = await requestWithToken(token)('get', '/api-tokens')
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should refuse unknown, expired and deleted tokens', async () => {
+    const expiredToken = await apiTokensService.createApiToken(user.id, { name: 'Expired', scopes: ['posts:read'], expiresInDays: 1 })
+    await em.fork().nativeUpdate(ApiToken, { id: expiredToken.id }, { expiresAt: new Date(Date.now() - 1000) })
+    const deletedToken = await apiTokensService.createApiToken(user.id, { name: 'Deleted', scopes: ['posts:read'], expiresInDays: 1 })
+    await apiTokensService.deleteApiToken(user.id, deletedToken.id)
+
+    const unknownResponse = await requestWithToken('lst_unknown')('get', '/admin/posts')
+    const expiredResponse = await requestWithToken(expiredToken.token)('get', '/admin/posts')
+    const deletedResponse = await requestWithToken(deletedToken.token)('get', '/admin/posts')
+
+    expect(unknownResponse.status).toBe(401)
+    expect(expiredResponse.status).toBe(401)
+    expect(deletedResponse.status).toBe(401)
+  })
+
+  it('should only delete the tokens of the user', async () => {
+    const otherUser = await createUserData(em, { name: 'John Doe' })
+    const apiToken = await apiTokensService.createApiToken(otherUser.id, { name: 'CI', scopes: ['posts:read'], expiresInDays: 30 })
+
+    await expect(apiTokensService.deleteApiToken(user.id, apiToken.id)).rejects.toThrow('API token not found')
+    expect(await em.fork().count(ApiToken)).toBe(1)
+  })
+})
@@ -0,0 +1,164 @@
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import supertest from 'supertest'
+import { BetterAuthType } from '../../../config/better-auth.config'
+import {
+  closeTestBetterAuth,
+  createTestBetterAuth,
+  getCookies,
+  initBetterAuthRequest,
+  WEB_APP_URL,
+} from '../../../test/better-auth.utils'
+import { closeTestApp, initializeTestApp, TestAppContext } from '../../../test/test.utils'
+import { Account, Session, User } from '../auth.entity'
+
+const mockUserInfo = {
+  sub: 'oidc-user-id',
+  email: 'jane.oidc@example.com',
+  email_verified: true,
+  name: 'Jane Oidc',
+}
+
+/**
+ * A minimal OpenID Connect provider, which authorizes every request right away
+ */
+function startMockOidcServer(): Promise<{ server: Server, url: string }> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url!, `http://${req.headers.host}`)
+    const issuer = `http://${req.headers.host}`
+
+    const sendJson = (body: unknown) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    }
+
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return sendJson({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+        })
+      case '/authorize': {
+        const redirectUrl = new URL(url.searchParams.get('redirect_uri')!)
+        redirectUrl.searchParams.set('code', 'mock-code')
+        redirectUrl.searchParams.set('state', url.searchParams.get('state')!)
+        res.writeHead(302, { Location: redirectUrl.toString() })
+        return res.end()
+      }
+      case '/token':
+        return sendJson({ access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 3600 })
+      case '/userinfo':
+        return sendJson(mockUserInfo)
+      default:
+        res.writeHead(404)
+        res.end()
+    }
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, () => resolve({ server, url: `http://localhost:${(server.address() as AddressInfo).port}` }))
+  })
+}
+
+describe('oAuth providers (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+  let em: EntityManager
+  let auth: BetterAuthType
+  let oidcServer: Server
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({})
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+
+    const mockOidc = await startMockOidcServer()
+    oidcServer = mockOidc.server
+    auth = createTestBetterAuth(orm, {
+      oauthProviders: {
+        oidc: {
+          clientId: 'lonestone',
+          clientSecret: 'lonestone-secret',
+          discoveryUrl: `${mockOidc.url}/.well-known/openid-configuration`,
+        },
+      },
+    })
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+  })
+
+  afterAll(async () => {
+    await closeTestBetterAuth(auth)
+    oidcServer.close()
+    await closeTestApp(testContext)
+  })
+
+  // Goes through the authorization code flow, as a browser would
+  async function signInWithOidc() {
+    const signInResponse = await initBetterAuthRequest(auth)('/sign-in/oauth2', { providerId: 'oidc', callbackURL: `${WEB_APP_URL}/dashboard` })
+    const { url } = await signInResponse.json()
+
+    const authorizeResponse = await fetch(url, { redirect: 'manual' })
+
+    return auth.handler(new Request(authorizeResponse.headers.get('Location')!, {
+      headers: { Cookie: getCookies(signInResponse) },
+    }))
+  }
+
+  it('should sign up with the OpenID Connect provider', async () => {
+    const response = await signInWithOidc()
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('Location')).toBe(`${WEB_APP_URL}/dashboard`)
+    expect(getCookies(response)).toContain('better-auth.session_token=')
+
+    const user = await em.fork().findOneOrFail(User, { email: mockUserInfo.email })
+    expect(user).toMatchObject({ name: 'Jane Oidc', handle: 'jane-oidc', emailVerified: true })
+    expect(await em.fork().find(Account, { user })).toMatchObject([{
+      providerId: 'oidc',
+      accountId: mockUserInfo.sub,
+    }])
+  })
+
+  it('should sign in the same user again', async () => {
+    await signInWithOidc()
+    const response = await signInWithOidc()
+
+    expect(response.headers.get('Location')).toBe(`${WEB_APP_URL}/dashboard`)
+    expect(await em.fork().count(User)).toBe(1)
+    expect(await em.fork().count(Account)).toBe(1)
+  })
+
+  it('should ask for a code to the users having two-factor authentication enabled', async () => {
+    await signInWithOidc()
+    await em.fork().nativeUpdate(User, { email: mockUserInfo.email }, { twoFactorEnabled: true })
+    await em.fork().nativeDelete(Session, {})
+
+    const response = await signInWithOidc()
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('Location')).toBe(`${WEB_APP_URL}/two-factor`)
+    // The session is replaced with the cookie identifying the user until their code is verified
+    expect(getCookies(response)).toContain('better-auth.two_factor=')
+    expect(getCookies(response)).toContain('better-auth.session_token=;')
+    expect(await em.fork().count(Session, {})).toBe(0)
+  })
+
+  it('should only list the configured providers', async () => {
+    const response = await supertest(app.getHttpServer()).get('/public/auth/providers')
+
+    // None of them is configured in the test environment
+    expect(response.body).toEqual([])
+  })
+})
@@ -0,0 +1,169 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { BetterAuthType } from '../../../config/better-auth.config'
+import {
+  API_URL,
+  closeTestBetterAuth,
+  createTestBetterAuth,
+  getCookies,
+  initBetterAuthRequest,
+  WEB_APP_URL,
+} from '../../../test/better-auth.utils'
+import { closeTestApp, initializeTestApp, TestAppContext } from '../../../test/test.utils'
+import { Session, User, Verification } from '../auth.entity'
+
+describe('passwordless sign in (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let orm: MikroORM
+  let em: EntityManager
+  let auth: BetterAuthType
+  let post: ReturnType<typeof initBetterAuthRequest>
+  let sentLinks: { email: string, url: string }[]
+  let sentCodes: { email: string, otp: string }[]
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({})
+    orm = testContext.orm
+    em = orm.em.fork()
+
+    auth = createTestBetterAuth(orm, {
+      passwordless: {
+        expiresIn: 10 * 60,
+        rateLimit: { window: 15 * 60, max: 2 },
+      },
+      sendMagicLink: async ({ email, url }) => {
+        sentLinks.push({ email, url })
+      },
+      sendSignInOtp: async ({ email, otp }) => {
+        sentCodes.push({ email, otp })
+      },
+    })
+    post = initBetterAuthRequest(auth)
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    sentLinks = []
+    sentCodes = []
+  })
+
+  afterAll(async () => {
+    await closeTestBetterAuth(auth)
+    await closeTestApp(testContext)
+  })
+
+  function requestMagicLink(email: string) {
+    return post('/sign-in/magic-link', {
+      email,
+      callbackURL: `${WEB_APP_URL}/dashboard`,
+      errorCallbackURL: `${WEB_APP_URL}/login/magic`,
+    })
+  }
+
+  // The session is replaced with the cookie identifying the user until their code is verified
+  async function expectTwoFactorChallenge(response: Response) {
+    expect(getCookies(response)).toContain('better-auth.two_factor=')
+    expect(getCookies(response)).toContain('better-auth.session_token=;')
+    expect(await em.fork().count(Session, {})).toBe(0)
+  }
+
+  async function enableTwoFactor(email: string) {
+    const user = await em.fork().findOneOrFail(User, { email })
+    await em.fork().nativeUpdate(User, { id: user.id }, { twoFactorEnabled: true })
+    await em.fork().nativeDelete(Session, { user: user.id })
+  }
+
+  describe('magic link', () => {
+    it('should create the account and sign in when clicking on the link', async () => {
+      const response = await requestMagicLink('reader@example.com')
+
+      expect(response.status).toBe(200)
+      expect(sentLinks).toEqual([{ email: 'reader@example.com', url: expect.stringContaining(`${API_URL}/api/auth/magic-link/verify?token=`) }])
+
+      const verifyResponse = await auth.handler(new Request(sentLinks[0].url))
+
+      expect(verifyResponse.status).toBe(302)
+      expect(verifyResponse.headers.get('Location')).toBe(`${WEB_APP_URL}/dashboard`)
+      expect(getCookies(verifyResponse)).toContain('better-auth.session_token=')
+      expect(await em.fork().findOneOrFail(User, { email: 'reader@example.com' })).toMatchObject({
+        name: 'reader',
+        handle: 'reader',
+        emailVerified: true,
+      })
+    })
+
+    it('should refuse an expired link', async () => {
+      await requestMagicLink('reader@example.com')
+      // Its value holds the email, its identifier is the token
+      await em.fork().nativeUpdate(Verification, { value: { $like: '%reader@example.com%' } }, { expiresAt: new Date(Date.now() - 1000) })
+
+      const verifyResponse = await auth.handler(new Request(sentLinks[0].url))
+
+      expect(verifyResponse.headers.get('Location')).toBe(`${WEB_APP_URL}/login/magic?error=EXPIRED_TOKEN`)
+      expect(getCookies(verifyResponse)).not.toContain('better-auth.session_token=')
+    })
+
+    it('should ask for a code to the users having two-factor authentication enabled', async () => {
+      await requestMagicLink('reader@example.com')
+      await auth.handler(new Request(sentLinks[0].url))
+      await enableTwoFactor('reader@example.com')
+      await requestMagicLink('reader@example.com')
+
+      const verifyResponse = await auth.handler(new Request(sentLinks[1].url))
+
+      expect(verifyResponse.status).toBe(302)
+      expect(verifyResponse.headers.get('Location')).toBe(`${WEB_APP_URL}/two-factor`)
+      await expectTwoFactorChallenge(verifyResponse)
+    })
+  })
+
+  describe('email code', () => {
+    it('should sign in with the code sent by email', async () => {
+      await post('/email-otp/send-verification-otp', { email: 'reader@example.com', type: 'sign-in' })
+
+      expect(sentCodes).toEqual([{ email: 'reader@example.com', otp: expect.stringMatching(/^\d{6}$/) }])
+
+      const wrongCodeResponse = await post('/sign-in/email-otp', { email: 'reader@example.com', otp: '000000' })
+      const response = await post('/sign-in/email-otp', { email: 'reader@example.com', otp: sentCodes[0].otp })
+
+      expect(wrongCodeResponse.status).toBe(400)
+      expect(response.status).toBe(200)
+      expect(getCookies(response)).toContain('better-auth.session_token=')
+      expect(await em.fork().count(User, { email: 'reader@example.com' })).toBe(1)
+    })
+
+    it('should ask for a code to the users having two-factor authentication enabled', async () => {
+      await post('/email-otp/send-verification-otp', { email: 'reader@example.com', type: 'sign-in' })
+      await post('/sign-in/email-otp', { email: 'reader@example.com', otp: sentCodes[0].otp })
+      await enableTwoFactor('reader@example.com')
+      await post('/email-otp/send-verification-otp', { email: 'reader@example.com', type: 'sign-in' })
+
+      const response = await post('/sign-in/email-otp', { email: 'reader@example.com', otp: sentCodes[1].otp })
+
+      expect(await response.json()).toEqual({ twoFactorRedirect: true })
+      await expectTwoFactorChallenge(response)
+    })
+  })
+
+  it('should limit the emails sent to the same address', async () => {
+    await requestMagicLink('reader@example.com')
+    await post('/email-otp/send-verification-otp', { email: 'READER@example.com', type: 'sign-in' })
+
+    const limitedResponse = await requestMagicLink('reader@example.com')
+    const otherAddressResponse = await requestMagicLink('other@example.com')
+
+    expect(limitedResponse.status).toBe(429)
+    expect(otherAddressResponse.status).toBe(200)
+    expect(sentLinks.map(({ email }) => email)).toEqual(['reader@example.com', 'other@example.com'])
+    expect(sentCodes).toHaveLength(1)
+  })
+
+  it('should limit the emails sent to the same address at the same time', async () => {
+    const responses = await Promise.all(Array.from({ length: 5 }, () => requestMagicLink('reader@example.com')))
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 200, 429, 429, 429])
+    expect(sentLinks).toHaveLength(2)
+  })
+})
@@ -0,0 +1,116 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import { symmetricDecrypt } from 'better-auth/crypto'
+import supertest from 'supertest'
+import { BetterAuthType } from '../../../config/better-auth.config'
+import { config } from '../../../config/env.config'
+import { closeTestBetterAuth, createTestBetterAuth, getCookies, initBetterAuthRequest } from '../../../test/better-auth.utils'
+import { closeTestApp, initializeTestApp, TestAppContext } from '../../../test/test.utils'
+import { TwoFactor, User } from '../auth.entity'
+
+const credentials = {
+  email: 'jane.doe@example.com',
+  password: 'password1234',
+}
+
+describe('two-factor authentication (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+  let em: EntityManager
+  let auth: BetterAuthType
+  let post: ReturnType<typeof initBetterAuthRequest>
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({})
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+
+    auth = createTestBetterAuth(orm, { twoFactorIssuer: 'Lonestone' })
+    post = initBetterAuthRequest(auth)
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    await post('/sign-up/email', { name: 'Jane Doe', ...credentials })
+  })
+
+  afterAll(async () => {
+    await closeTestBetterAuth(auth)
+    await closeTestApp(testContext)
+  })
+
+  // Generates the current code, as the authenticator app of the user would
+  async function generateTotp() {
+    const twoFactor = await em.fork().findOneOrFail(TwoFactor, { user: { email: credentials.email } })
+    const secret = await symmetricDecrypt({ key: config.betterAuth.secret, data: twoFactor.secret })
+    const { code } = await auth.api.generateTOTP({ body: { secret } })
+    return code
+  }
+
+  async function enableTwoFactor() {
+    const sessionCookies = getCookies(await post('/sign-in/email', credentials))
+    const enableResponse = await post('/two-factor/enable', { password: credentials.password }, sessionCookies)
+    const { totpURI, backupCodes } = await enableResponse.json()
+
+    await post('/two-factor/verify-totp', { code: await generateTotp() }, sessionCookies)
+
+    return { totpURI: totpURI as string, backupCodes: backupCodes as string[] }
+  }
+
+  it('should enable two-factor authentication once the first code is verified', async () => {
+    const sessionCookies = getCookies(await post('/sign-in/email', credentials))
+    const enableResponse = await post('/two-factor/enable', { password: credentials.password }, sessionCookies)
+    const { totpURI, backupCodes } = await enableResponse.json()
+
+    expect(totpURI).toMatch(/^otpauth:\/\/totp\/Lonestone:jane\.doe%40example\.com\?secret=/)
+    expect(backupCodes).toHaveLength(10)
+    expect(await em.fork().findOneOrFail(User, { email: credentials.email })).toMatchObject({ twoFactorEnabled: false })
+
+    const verifyResponse = await post('/two-factor/verify-totp', { code: await generateTotp() }, sessionCookies)
+
+    expect(verifyResponse.status).toBe(200)
+    expect(await em.fork().findOneOrFail(User, { email: credentials.email })).toMatchObject({ twoFactorEnabled: true })
+  })
+
+  it('should ask for a code after the password', async () => {
+    await enableTwoFactor()
+
+    const signInResponse = await post('/sign-in/email', credentials)
+
+    expect(await signInResponse.json()).toEqual({ twoFactorRedirect: true })
+    // The session cookie is cleared until the code is verified
+    expect(getCookies(signInResponse)).toContain('better-auth.two_factor=')
+    expect(getCookies(signInResponse)).toContain('better-auth.session_token=;')
+
+    const wrongCodeResponse = await post('/two-factor/verify-totp', { code: '000000' }, getCookies(signInResponse))
+    const verifyResponse = await post('/two-factor/verify-totp', { code: await generateTotp() }, getCookies(signInResponse))
+
+    expect(wrongCodeResponse.status).toBe(401)
+    expect(verifyResponse.status).toBe(200)
+    expect(getCookies(verifyResponse)).toContain('better-auth.session_token=')
+  })
+
+  it('should accept each backup code once', async () => {
+    const { backupCodes } = await enableTwoFactor()
+
+    const firstSignInCookies = getCookies(await post('/sign-in/email', credentials))
+    const firstResponse = await post('/two-factor/verify-backup-code', { code: backupCodes[0] }, firstSignInCookies)
+    const secondSignInCookies = getCookies(await post('/sign-in/email', credentials))
+    const secondResponse = await post('/two-factor/verify-backup-code', { code: backupCodes[0] }, secondSignInCookies)
+
+    expect(firstResponse.status).toBe(200)
+    expect(getCookies(firstResponse)).toContain('better-auth.session_token=')
+    expect(secondResponse.status).toBe(401)
+  })
+
+  it('should tell the clients whether two-factor authentication is required', async () => {
+    const response = await supertest(app.getHttpServer()).get('/public/auth/policy')
+
+    expect(response.body).toEqual({ twoFactorRequired: false })
+  })
+})
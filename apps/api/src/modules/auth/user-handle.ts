@@ -0,0 +1,35 @@
+import { EntityManager } from '@mikro-orm/core'
+import slugify from 'slugify'
+import { User } from './auth.entity'
+
+export const USER_HANDLE_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,30}[a-z0-9])?$/
+
+const MAX_BASE_LENGTH = 24
+
+/**
+ * Generates a handle from the name of a user, e.g. "jane-doe", or "jane-doe-2" if it is already taken.
+ */
+export async function generateUserHandle(em: EntityManager, name: string): Promise<string> {
+  const base = slugify(name, { lower: true, strict: true }).slice(0, MAX_BASE_LENGTH).replace(/-+$/, '') || 'author'
+
+  const takenHandles = new Set((await em.find(
+    User,
+    { handle: { $like: `${base}%` } },
+    { fields: ['handle'] },
+  )).map(user => user.handle))
+
+  let handle = base
+  for (let suffix = 2; takenHandles.has(handle); suffix++)
+    handle = `${base}-${suffix}`
+
+  return handle
+}
+
+/**
+ * Completes the users created by better-auth with a name and a handle.
+ * The users signing in without a password, e.g. with a magic link, have no name yet.
+ */
+export async function prepareNewUser<T extends { name: string, email: string }>(em: EntityManager, user: T) {
+  const name = user.name || user.email.split('@')[0]
+  return { ...user, name, handle: await generateUserHandle(em, name) }
+}
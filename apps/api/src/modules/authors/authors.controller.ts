@@ -0,0 +1,56 @@
+import {
+  PaginationParams,
+  TypedBody,
+  TypedController,
+  TypedParam,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { Session } from '../auth/auth.decorator'
+import { AuthGuard } from '../auth/auth.guard'
+import { PostPagination, postPaginationSchema } from '../posts/contracts/posts.contract'
+import { AuthorsService } from './authors.service'
+import {
+  publicAuthorSchema,
+  publicAuthorWithPostsSchema,
+  UpdateAuthorProfileInput,
+  updateAuthorProfileSchema,
+} from './contracts/authors.contract'
+
+@TypedController('profile', undefined, {
+  tags: ['Profile'],
+})
+@UseGuards(AuthGuard)
+export class ProfileController {
+  constructor(private readonly authorsService: AuthorsService) {}
+
+  @TypedRoute.Get('', publicAuthorSchema)
+  async getProfile(@Session() session: LoggedInBetterAuthSession) {
+    return await this.authorsService.getProfile(session.user.id)
+  }
+
+  @TypedRoute.Put('', publicAuthorSchema)
+  async updateProfile(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedBody(updateAuthorProfileSchema) body: UpdateAuthorProfileInput,
+  ) {
+    return await this.authorsService.updateProfile(session.user.id, body)
+  }
+}
+
+@TypedController('public/authors', undefined, {
+  tags: ['Public Authors'],
+})
+export class PublicAuthorsController {
+  constructor(private readonly authorsService: AuthorsService) {}
+
+  @TypedRoute.Get(':handle', publicAuthorWithPostsSchema)
+  async getAuthor(
+    @TypedParam('handle', z.string()) handle: string,
+    @PaginationParams(postPaginationSchema) pagination: PostPagination,
+  ) {
+    return await this.authorsService.getPublicAuthor(handle, pagination)
+  }
+}
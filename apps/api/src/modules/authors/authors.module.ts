@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { PostModule } from '../posts/posts.module'
+import { ProfileController, PublicAuthorsController } from './authors.controller'
+import { AuthorsService } from './authors.service'
+
+@Module({
+  imports: [PostModule],
+  controllers: [ProfileController, PublicAuthorsController],
+  providers: [AuthorsService],
+})
+export class AuthorsModule {}
@@ -0,0 +1,57 @@
+import { EntityManager } from '@mikro-orm/core'
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common'
+import { User } from '../auth/auth.entity'
+import { PostPagination } from '../posts/contracts/posts.contract'
+import { PostService } from '../posts/posts.service'
+import { PublicAuthor, PublicAuthorWithPosts, UpdateAuthorProfileInput } from './contracts/authors.contract'
+
+@Injectable()
+export class AuthorsService {
+  constructor(
+    private readonly em: EntityManager,
+    private readonly postService: PostService,
+  ) {}
+
+  async getPublicAuthor(handle: string, pagination: PostPagination): Promise<PublicAuthorWithPosts> {
+    const user = await this.em.findOne(User, { handle })
+    if (!user)
+      throw new NotFoundException('Author not found')
+
+    return {
+      ...this.toPublicAuthor(user),
+      posts: await this.postService.getAuthorPublicPosts(user.id, pagination),
+    }
+  }
+
+  async getProfile(userId: string): Promise<PublicAuthor> {
+    const user = await this.em.findOneOrFail(User, { id: userId })
+    return this.toPublicAuthor(user)
+  }
+
+  async updateProfile(userId: string, data: UpdateAuthorProfileInput): Promise<PublicAuthor> {
+    const user = await this.em.findOneOrFail(User, { id: userId })
+
+    if (data.handle !== user.handle) {
+      const handleTaken = await this.em.count(User, { handle: data.handle })
+      if (handleTaken)
+        throw new BadRequestException('This handle is already taken')
+    }
+
+    user.handle = data.handle
+    user.bio = data.bio || undefined
+    user.links = data.links
+    await this.em.flush()
+
+    return this.toPublicAuthor(user)
+  }
+
+  private toPublicAuthor(user: User): PublicAuthor {
+    return {
+      name: user.name,
+      handle: user.handle,
+      bio: user.bio ?? null,
+      image: user.image ?? null,
+      links: user.links,
+    }
+  }
+}
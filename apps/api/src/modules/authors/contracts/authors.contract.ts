@@ -0,0 +1,51 @@
+import { z } from 'zod'
+import { USER_HANDLE_PATTERN } from '../../auth/user-handle'
+import { publicPostsSchema } from '../../posts/contracts/posts.contract'
+
+export const authorHandleSchema = z.string().regex(USER_HANDLE_PATTERN, {
+  message: 'Handles are made of 1 to 32 lowercase letters, digits and dashes, and cannot start or end with a dash',
+}).meta({
+  description: 'Identifies the author in the URL of their profile',
+})
+
+export const authorLinkSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  url: z.string().url().max(500).regex(/^https?:\/\//, { message: 'Links must be http or https URLs' }),
+}).meta({
+  title: 'AuthorLinkSchema',
+  description: 'A link of an author profile, e.g. a website or a social network',
+})
+
+// Schema for the public view of an author
+export const publicAuthorSchema = z.object({
+  name: z.string(),
+  handle: z.string(),
+  bio: z.string().nullable(),
+  image: z.string().nullable(),
+  links: z.array(authorLinkSchema),
+}).meta({
+  title: 'PublicAuthorSchema',
+  description: 'The public profile of an author',
+})
+
+export type PublicAuthor = z.infer<typeof publicAuthorSchema>
+
+export const publicAuthorWithPostsSchema = publicAuthorSchema.extend({
+  posts: publicPostsSchema,
+}).meta({
+  title: 'PublicAuthorWithPostsSchema',
+  description: 'The public profile of an author, with a page of their published posts',
+})
+
+export type PublicAuthorWithPosts = z.infer<typeof publicAuthorWithPostsSchema>
+
+export const updateAuthorProfileSchema = z.object({
+  handle: authorHandleSchema,
+  bio: z.string().trim().max(1000).nullable(),
+  links: z.array(authorLinkSchema).max(5),
+}).meta({
+  title: 'UpdateAuthorProfileSchema',
+  description: 'Schema for updating the public profile of the logged in user',
+})
+
+export type UpdateAuthorProfileInput = z.infer<typeof updateAuthorProfileSchema>
@@ -0,0 +1,159 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import supertest from 'supertest'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { generateUserHandle } from '../../auth/user-handle'
+import { PostModule } from '../../posts/posts.module'
+import { AuthorsModule } from '../authors.module'
+
+describe('authorsController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let author: User
+  let otherAuthor: User
+  let authorRequest: ReturnType<typeof initRequestWithAuth>
+  let otherAuthorRequest: ReturnType<typeof initRequestWithAuth>
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule, AuthorsModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    author = await createUserData(em, {
+      name: 'Jane Doe',
+      handle: 'jane-doe',
+      bio: 'Writes about the web',
+      image: 'https://example.com/jane.png',
+      links: [{ label: 'Website', url: 'https://jane.example.com' }],
+    })
+    otherAuthor = await createUserData(em, { name: 'John Doe', handle: 'john-doe' })
+    authorRequest = initRequestWithAuth(app, author.id)
+    otherAuthorRequest = initRequestWithAuth(app, otherAuthor.id)
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  async function createPost(request: ReturnType<typeof initRequestWithAuth>, title: string, publish = true) {
+    const createResponse = await request('post', '/admin/posts').send({
+      title,
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+    if (publish)
+      await request('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+    return createResponse.body.id as string
+  }
+
+  describe('gET /public/authors/:handle', () => {
+    it('should return the profile of the author with their published posts', async () => {
+      await createPost(authorRequest, 'First post')
+      await createPost(authorRequest, 'Second post')
+      await createPost(authorRequest, 'Draft post', false)
+      await createPost(otherAuthorRequest, 'Post of someone else')
+
+      const response = await supertest(app.getHttpServer()).get('/public/authors/jane-doe')
+
+      expect(response.status).toBe(200)
+      expect(response.body).toMatchObject({
+        name: 'Jane Doe',
+        handle: 'jane-doe',
+        bio: 'Writes about the web',
+        image: 'https://example.com/jane.png',
+        links: [{ label: 'Website', url: 'https://jane.example.com' }],
+        posts: {
+          data: [
+            { title: 'Second post', authors: [{ name: 'Jane Doe', handle: 'jane-doe' }] },
+            { title: 'First post' },
+          ],
+          meta: { itemCount: 2 },
+        },
+      })
+    })
+
+    it('should list the posts the author edits', async () => {
+      const postId = await createPost(otherAuthorRequest, 'Shared post', false)
+      const invitation = await otherAuthorRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: author.email, role: 'editor' })
+      await authorRequest('post', `/invitations/${invitation.body.id}/accept`)
+      await otherAuthorRequest('patch', `/admin/posts/${postId}/publish`).send({})
+
+      const response = await supertest(app.getHttpServer()).get('/public/authors/jane-doe')
+
+      expect(response.body.posts.data).toMatchObject([{ title: 'Shared post' }])
+    })
+
+    it('should paginate the posts', async () => {
+      await createPost(authorRequest, 'First post')
+      await createPost(authorRequest, 'Second post')
+
+      const response = await supertest(app.getHttpServer()).get('/public/authors/jane-doe').query({ offset: 1, pageSize: 1 })
+
+      expect(response.body.posts.data).toMatchObject([{ title: 'First post' }])
+      expect(response.body.posts.meta).toMatchObject({ itemCount: 2, hasMore: false })
+    })
+
+    it('should return a 404 for an unknown handle', async () => {
+      const response = await supertest(app.getHttpServer()).get('/public/authors/unknown')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('pUT /profile', () => {
+    it('should update the public profile', async () => {
+      const response = await otherAuthorRequest('put', '/profile').send({
+        handle: 'johnny',
+        bio: 'Hello!',
+        links: [{ label: 'GitHub', url: 'https://github.com/johnny' }],
+      })
+      const profileResponse = await supertest(app.getHttpServer()).get('/public/authors/johnny')
+
+      expect(response.status).toBe(200)
+      expect(profileResponse.body).toMatchObject({
+        name: 'John Doe',
+        bio: 'Hello!',
+        links: [{ label: 'GitHub', url: 'https://github.com/johnny' }],
+      })
+    })
+
+    it('should refuse a handle that is taken or invalid', async () => {
+      const takenResponse = await otherAuthorRequest('put', '/profile').send({ handle: 'jane-doe', bio: null, links: [] })
+      const invalidResponse = await otherAuthorRequest('put', '/profile').send({ handle: '-John Doe', bio: null, links: [] })
+      const invalidLinkResponse = await otherAuthorRequest('put', '/profile').send({
+        handle: 'john-doe',
+        bio: null,
+        links: [{ label: 'Script', url: 'javascript:alert(1)' }],
+      })
+
+      expect(takenResponse.status).toBe(400)
+      expect(invalidResponse.status).toBe(400)
+      expect(invalidLinkResponse.status).toBe(400)
+    })
+  })
+
+  describe('generateUserHandle', () => {
+    it('should generate a unique handle from the name', async () => {
+      expect(await generateUserHandle(em, 'Jane Doe')).toBe('jane-doe-2')
+      expect(await generateUserHandle(em, 'Zoé Martin')).toBe('zoe-martin')
+      expect(await generateUserHandle(em, '!!!')).toBe('author')
+    })
+  })
+})
@@ -1,31 +1,45 @@
 import {
   FilteringParams,
   PaginationParams,
+  registerSchema,
   SortingParams,
   TypedBody,
   TypedController,
   TypedParam,
+  TypedQuery,
   TypedRoute,
 } from '@lonestone/nzoth/server'
-import {
-  Optional,
-  UseGuards,
-} from '@nestjs/common'
+import { MessageEvent, Sse, UseGuards } from '@nestjs/common'
+import { ApiOkResponse, ApiProduces } from '@nestjs/swagger'
+import { map, Observable } from 'rxjs'
 import { z } from 'zod'
-import { Session } from '../auth/auth.decorator'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { Optional, Scopes, Session } from '../auth/auth.decorator'
 import { AuthGuard } from '../auth/auth.guard'
 import { CommentsService } from './comments.service'
 import {
+  adminCommentsPostQuerySchema,
+  adminCommentsSchema,
+  adminCommentsStatusQuerySchema,
+  commentEventSchema,
   CommentFiltering,
   commentFilteringSchema,
   CommentPagination,
   commentPaginationSchema,
+  commentRevisionsSchema,
   commentSchema,
   CommentSorting,
   commentSortingSchema,
   commentsSchema,
+  commentStatusCountsSchema,
+  CommentStatusInput,
   CreateCommentInput,
   createCommentSchema,
+  UpdateCommentInput,
+  updateCommentSchema,
+  UpdateCommentsStatusInput,
+  updateCommentsStatusResultSchema,
+  updateCommentsStatusSchema,
 } from './contracts/comments.contract'
 
 @TypedController('posts/:postSlug/comments', z.object({
@@ -35,10 +49,13 @@ export class CommentsController {
   constructor(private readonly commentsService: CommentsService) {}
 
   @TypedRoute.Post('', commentSchema)
+  @UseGuards(AuthGuard)
+  @Scopes('comments:write')
+  @Optional()
   async createComment(
     @TypedParam('postSlug', z.string()) postSlug: string,
     @TypedBody(createCommentSchema) body: CreateCommentInput,
-    @Optional() @Session() session?: { user: { id: string } },
+    @Session() session?: { user: { id: string } },
   ) {
     const userId = session?.user?.id
     return await this.commentsService.createComment(postSlug, body, userId)
@@ -65,6 +82,24 @@ export class CommentsController {
     return { count }
   }
 
+  // Each event is sent with its type as the event name, and the whole event as data
+  @Sse('stream')
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({
+    description: 'Stream of the comments published, edited and removed on the post',
+    content: {
+      'text/event-stream': {
+        schema: registerSchema(commentEventSchema),
+      },
+    },
+  })
+  async streamComments(
+    @TypedParam('postSlug', z.string()) postSlug: string,
+  ): Promise<Observable<MessageEvent>> {
+    const events = await this.commentsService.streamComments(postSlug)
+    return events.pipe(map(event => ({ type: event.type, data: event })))
+  }
+
   @TypedRoute.Get(':commentId/replies', commentsSchema)
   async getCommentReplies(
     @TypedParam('commentId', z.string()) commentId: string,
@@ -78,13 +113,74 @@ export class CommentsController {
     )
   }
 
+  @TypedRoute.Patch(':commentId', commentSchema)
+  @UseGuards(AuthGuard)
+  @Scopes('comments:write')
+  async editComment(
+    @TypedParam('commentId', z.string()) commentId: string,
+    @TypedBody(updateCommentSchema) body: UpdateCommentInput,
+    @Session() session: LoggedInBetterAuthSession,
+  ) {
+    return await this.commentsService.editComment(commentId, session.user.id, body)
+  }
+
+  @TypedRoute.Get(':commentId/revisions', commentRevisionsSchema)
+  @UseGuards(AuthGuard)
+  @Scopes('comments:read')
+  async getCommentRevisions(
+    @TypedParam('commentId', z.string()) commentId: string,
+    @Session() session: LoggedInBetterAuthSession,
+  ) {
+    return await this.commentsService.getCommentRevisions(commentId, session.user)
+  }
+
   @TypedRoute.Delete(':commentId')
   @UseGuards(AuthGuard)
+  @Scopes('comments:write')
   async deleteComment(
     @TypedParam('commentId', z.string()) commentId: string,
-    @Session() session: { user: { id: string } },
+    @Session() session: LoggedInBetterAuthSession,
   ) {
-    await this.commentsService.deleteComment(commentId, session.user.id)
+    await this.commentsService.deleteComment(commentId, session.user)
     return { success: true }
   }
 }
+
+@TypedController('admin/comments', undefined, {
+  tags: ['Admin Comments'],
+})
+@UseGuards(AuthGuard)
+export class AdminCommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  @TypedRoute.Get('', adminCommentsSchema)
+  @Scopes('comments:read')
+  async getComments(
+    @Session() session: LoggedInBetterAuthSession,
+    @PaginationParams(commentPaginationSchema) pagination: CommentPagination,
+    @TypedQuery('status', adminCommentsStatusQuerySchema) status?: CommentStatusInput,
+    @TypedQuery('postId', adminCommentsPostQuerySchema) postId?: string,
+  ) {
+    return await this.commentsService.getModerationQueue(
+      session.user,
+      pagination,
+      status,
+      postId,
+    )
+  }
+
+  @TypedRoute.Get('counts', commentStatusCountsSchema)
+  @Scopes('comments:read')
+  async getCounts(@Session() session: LoggedInBetterAuthSession) {
+    return await this.commentsService.getModerationCounts(session.user)
+  }
+
+  @TypedRoute.Patch('status', updateCommentsStatusResultSchema)
+  @Scopes('comments:write')
+  async updateStatus(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedBody(updateCommentsStatusSchema) body: UpdateCommentsStatusInput,
+  ) {
+    return await this.commentsService.updateCommentsStatus(session.user, body)
+  }
+}
@@ -1,6 +1,7 @@
 import {
   Collection,
   Entity,
+  Enum,
   Index,
   ManyToOne,
   OneToMany,
@@ -10,12 +11,16 @@ import {
 import { User } from '../auth/auth.entity'
 import { Post } from '../posts/posts.entity'
 
+export const commentStatuses = ['pending', 'approved', 'rejected', 'spam'] as const
+
+export type CommentStatus = typeof commentStatuses[number]
+
 @Entity({ tableName: 'comment' })
 export class Comment {
   @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
   id!: string
 
-  @ManyToOne(() => Post, { fieldName: 'postId' })
+  @ManyToOne(() => Post, { fieldName: 'postId', deleteRule: 'cascade' })
   @Index()
   post!: Post
 
@@ -23,19 +28,51 @@ export class Comment {
   @Index()
   user?: User
 
-  @Property()
+  @Property({ type: 'text' })
   content!: string
 
   @Property({ nullable: true })
   authorName?: string
 
+  // Only approved comments are public
+  @Enum({ items: [...commentStatuses] })
+  @Index()
+  status: CommentStatus = 'approved'
+
   @Property({ fieldName: 'createdAt' })
   createdAt: Date = new Date()
 
+  @Property({ fieldName: 'editedAt', nullable: true })
+  editedAt?: Date
+
+  // Deleted comments are kept so that their replies stay in the thread
+  @Property({ fieldName: 'deletedAt', nullable: true })
+  deletedAt?: Date
+
   @ManyToOne(() => Comment, { fieldName: 'parentId', nullable: true })
   @Index()
   parent?: Comment
 
   @OneToMany(() => Comment, comment => comment.parent)
   replies = new Collection<Comment>(this)
+
+  @OneToMany(() => CommentRevision, revision => revision.comment)
+  revisions = new Collection<CommentRevision>(this)
+}
+
+// Previous content of an edited comment
+@Entity({ tableName: 'commentRevision' })
+export class CommentRevision {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => Comment, { fieldName: 'commentId', deleteRule: 'cascade' })
+  @Index()
+  comment!: Comment
+
+  @Property({ type: 'text' })
+  content!: string
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
 }
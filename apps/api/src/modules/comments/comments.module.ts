@@ -1,10 +1,22 @@
 import { Module } from '@nestjs/common'
-import { CommentsController } from './comments.controller'
+import { AuditLogModule } from '../audit-log/audit-log.module'
+import { NotificationsModule } from '../notifications/notifications.module'
+import { ReactionsModule } from '../reactions/reactions.module'
+import { AdminCommentsController, CommentsController } from './comments.controller'
 import { CommentsService } from './comments.service'
+import { COMMENT_EVENT_BUS } from './events/comment-event-bus'
+import { InMemoryCommentEventBus } from './events/in-memory-comment-event-bus'
 
 @Module({
-  controllers: [CommentsController],
-  providers: [CommentsService],
+  imports: [ReactionsModule, NotificationsModule, AuditLogModule],
+  controllers: [CommentsController, AdminCommentsController],
+  providers: [
+    CommentsService,
+    {
+      provide: COMMENT_EVENT_BUS,
+      useClass: InMemoryCommentEventBus,
+    },
+  ],
   exports: [CommentsService],
 })
 export class CommentsModule {}
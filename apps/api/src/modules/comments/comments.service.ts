@@ -1,20 +1,44 @@
-import { EntityManager, FilterQuery, QueryOrderMap } from '@mikro-orm/core'
-import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common'
+import { randomUUID } from 'node:crypto'
+import { EntityManager, FilterQuery, ObjectQuery, QueryOrderMap } from '@mikro-orm/core'
+import { ForbiddenException, Inject, Injectable, NotFoundException } from '@nestjs/common'
+import { Observable } from 'rxjs'
+import { config } from '../../config/env.config'
+import { AuditLogService } from '../audit-log/audit-log.service'
 import { User } from '../auth/auth.entity'
+import { Actor, canManageAllComments } from '../auth/auth.policies'
+import { NotificationsService } from '../notifications/notifications.service'
+import { getLatestPostTitles } from '../posts/post-titles'
 import { Post } from '../posts/posts.entity'
-import { Comment } from './comments.entity'
+import { ReactionCounts } from '../reactions/contracts/reactions.contract'
+import { emptyReactionCounts, ReactionsService } from '../reactions/reactions.service'
+import { Comment, CommentRevision, CommentStatus, commentStatuses } from './comments.entity'
 import {
+  AdminComment,
+  AdminComments,
+  CommentEvent,
   CommentFiltering,
   CommentPagination,
   CommentResponse,
+  CommentRevisions,
   CommentSorting,
   CommentsResponse,
+  CommentStatusCounts,
   CreateCommentInput,
+  UpdateCommentInput,
+  UpdateCommentsStatusInput,
+  UpdateCommentsStatusResult,
 } from './contracts/comments.contract'
+import { COMMENT_EVENT_BUS, CommentEventBus } from './events/comment-event-bus'
 
 @Injectable()
 export class CommentsService {
-  constructor(private readonly em: EntityManager) {}
+  constructor(
+    private readonly em: EntityManager,
+    private readonly reactionsService: ReactionsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly auditLogService: AuditLogService,
+    @Inject(COMMENT_EVENT_BUS) private readonly commentEventBus: CommentEventBus,
+  ) {}
 
   async createComment(
     postSlug: string,
@@ -24,10 +48,15 @@ export class CommentsService {
     const post = await this.em.findOne(Post, { slug: postSlug })
     if (!post)
       throw new NotFoundException('Post not found')
+    if (post.commentModeration === 'closed')
+      throw new ForbiddenException('Comments are closed on this post')
 
     const comment = new Comment()
+    // Known before the flush, for the audit log entry
+    comment.id = randomUUID()
     comment.post = post
     comment.content = data.content
+    comment.status = this.isPublishedRightAway(post, userId) ? 'approved' : 'pending'
 
     // Set user if authenticated
     if (userId) {
@@ -42,16 +71,28 @@ export class CommentsService {
 
     // Handle reply to another comment
     if (data.parentId) {
-      const parentComment = await this.em.findOne(Comment, { id: data.parentId, post: post.id })
+      const parentComment = await this.em.findOne(Comment, { id: data.parentId, post: post.id, status: 'approved', deletedAt: null })
       if (!parentComment) {
         throw new NotFoundException('Parent comment not found')
       }
       comment.parent = parentComment
     }
 
+    this.auditLogService.record({
+      actorId: comment.user?.id,
+      action: 'comment.created',
+      targetType: 'comment',
+      targetId: comment.id,
+      after: { postId: post.id, content: comment.content, status: comment.status },
+    })
     await this.em.persistAndFlush(comment)
+    await this.notificationsService.notifyNewComment(comment)
 
-    return this.mapCommentToResponse(comment)
+    const response = this.mapCommentToResponse(comment)
+    if (comment.status === 'approved')
+      this.commentEventBus.publish(post.id, { type: 'created', comment: response })
+
+    return response
   }
 
   async getCommentsByPost(
@@ -64,10 +105,11 @@ export class CommentsService {
     if (!post)
       throw new NotFoundException('Post not found')
 
-    // Only get top-level comments (no parent)
+    // Only get top-level approved comments (no parent)
     const whereFilter: FilterQuery<Comment> = {
       post: post.id,
       parent: null,
+      status: 'approved',
     }
 
     // Apply content filter if provided
@@ -92,11 +134,13 @@ export class CommentsService {
         offset: pagination.offset,
         orderBy,
         populate: ['user', 'replies'],
+        populateWhere: { replies: { status: 'approved' } },
       },
     )
 
     // Map comments to response format
-    const mappedComments = comments.map(comment => this.mapCommentToResponse(comment))
+    const reactionCounts = await this.reactionsService.getCommentsReactionCounts(comments.map(comment => comment.id))
+    const mappedComments = comments.map(comment => this.mapCommentToResponse(comment, reactionCounts.get(comment.id)))
 
     return {
       data: mappedComments,
@@ -114,7 +158,7 @@ export class CommentsService {
     pagination: CommentPagination,
     sort?: CommentSorting,
   ): Promise<CommentsResponse> {
-    const comment = await this.em.findOne(Comment, { id: commentId })
+    const comment = await this.em.findOne(Comment, { id: commentId, status: 'approved' })
     if (!comment)
       throw new NotFoundException('Comment not found')
 
@@ -126,17 +170,19 @@ export class CommentsService {
 
     const [replies, itemCount] = await this.em.findAndCount(
       Comment,
-      { parent: commentId },
+      { parent: commentId, status: 'approved' },
       {
         limit: pagination.pageSize,
         offset: pagination.offset,
         orderBy,
         populate: ['user', 'replies'],
+        populateWhere: { replies: { status: 'approved' } },
       },
     )
 
     // Map replies to response format
-    const mappedReplies = replies.map(reply => this.mapCommentToResponse(reply))
+    const reactionCounts = await this.reactionsService.getCommentsReactionCounts(replies.map(reply => reply.id))
+    const mappedReplies = replies.map(reply => this.mapCommentToResponse(reply, reactionCounts.get(reply.id)))
 
     return {
       data: mappedReplies,
@@ -149,31 +195,239 @@ export class CommentsService {
     }
   }
 
-  async deleteComment(commentId: string, userId: string): Promise<void> {
-    const comment = await this.em.findOne(Comment, { id: commentId }, { populate: ['post', 'post.user'] })
+  /**
+   * Edits a comment, keeping its previous content as a revision.
+   * Only the author of the comment can edit it, during the edit window.
+   */
+  async editComment(
+    commentId: string,
+    userId: string,
+    data: UpdateCommentInput,
+  ): Promise<CommentResponse> {
+    const comment = await this.em.findOne(
+      Comment,
+      { id: commentId, deletedAt: null },
+      { populate: ['user', 'post', 'replies'], populateWhere: { replies: { status: 'approved' } } },
+    )
     if (!comment)
       throw new NotFoundException('Comment not found')
 
-    // Check if user is the post author
-    if (comment.post.user.id !== userId) {
-      throw new ForbiddenException('Only the post author can delete comments')
+    if (comment.user?.id !== userId)
+      throw new ForbiddenException('Only the author of the comment can edit it')
+
+    if (this.getEditableUntil(comment) < new Date())
+      throw new ForbiddenException('This comment can no longer be edited')
+
+    const previousStatus = comment.status
+    if (comment.content !== data.content) {
+      const revision = new CommentRevision()
+      revision.comment = comment
+      revision.content = comment.content
+      this.em.persist(revision)
+
+      comment.content = data.content
+      comment.editedAt = new Date()
+      // On moderated posts, the new content has to be approved again
+      if (!this.isPublishedRightAway(comment.post, userId))
+        comment.status = 'pending'
+
+      this.auditLogService.record({
+        actorId: userId,
+        action: 'comment.edited',
+        targetType: 'comment',
+        targetId: comment.id,
+        before: { content: revision.content, status: previousStatus },
+        after: { content: comment.content, status: comment.status },
+      })
+      await this.em.flush()
     }
 
-    // Delete all replies first
-    await this.em.nativeDelete(Comment, { parent: commentId })
+    const reactionCounts = await this.reactionsService.getCommentsReactionCounts([comment.id])
+    const response = this.mapCommentToResponse(comment, reactionCounts.get(comment.id))
+    if (comment.status === 'approved')
+      this.commentEventBus.publish(comment.post.id, { type: 'edited', comment: response })
+    else if (previousStatus === 'approved')
+      this.publishDeleted(comment)
 
-    // Then delete the comment itself
-    await this.em.removeAndFlush(comment)
+    return response
+  }
+
+  async getCommentRevisions(commentId: string, actor: Actor): Promise<CommentRevisions> {
+    const comment = await this.em.findOne(
+      Comment,
+      { id: commentId, deletedAt: null },
+      { populate: ['post'] },
+    )
+    if (!comment)
+      throw new NotFoundException('Comment not found')
+
+    if (!this.canModerateComment(actor, comment))
+      throw new ForbiddenException('Only the comment author and the post author can see the revisions')
+
+    const revisions = await this.em.find(
+      CommentRevision,
+      { comment: commentId },
+      { orderBy: { createdAt: 'DESC' } },
+    )
+
+    return revisions.map(revision => ({
+      id: revision.id,
+      content: revision.content,
+      createdAt: revision.createdAt,
+    }))
+  }
+
+  /**
+   * Soft deletes a comment: it stays in the thread as a removed comment, so that its replies are kept.
+   * The author of the comment, the author of the post and the editors can delete it.
+   */
+  async deleteComment(commentId: string, actor: Actor): Promise<void> {
+    const comment = await this.em.findOne(Comment, { id: commentId, deletedAt: null }, { populate: ['post'] })
+    if (!comment)
+      throw new NotFoundException('Comment not found')
+
+    if (!this.canModerateComment(actor, comment)) {
+      throw new ForbiddenException('Only the comment author and the post author can delete comments')
+    }
+
+    comment.deletedAt = new Date()
+    // The content stays in the database, the snapshot tells whose comment has been removed
+    this.auditLogService.record({
+      actorId: actor.id,
+      action: 'comment.deleted',
+      targetType: 'comment',
+      targetId: comment.id,
+      before: { postId: comment.post.id, authorId: comment.user?.id ?? null, content: comment.content, status: comment.status },
+      after: { deletedAt: comment.deletedAt },
+    })
+    await this.em.flush()
+
+    if (comment.status === 'approved')
+      this.publishDeleted(comment)
   }
 
   async getCommentCount(postSlug: string): Promise<number> {
     const post = await this.em.findOne(Post, { slug: postSlug })
     if (!post)
       throw new NotFoundException('Post not found')
-    return await this.em.count(Comment, { post: post.id })
+    return await this.em.count(Comment, { post: post.id, status: 'approved', deletedAt: null })
+  }
+
+  /**
+   * Streams the comments published, edited and removed on a post from now on.
+   */
+  async streamComments(postSlug: string): Promise<Observable<CommentEvent>> {
+    const post = await this.em.findOne(Post, { slug: postSlug })
+    if (!post)
+      throw new NotFoundException('Post not found')
+
+    return this.commentEventBus.subscribe(post.id)
+  }
+
+  /**
+   * Lists the comments of all the posts of a user, to be moderated by them.
+   * Editors and admins moderate the comments of every post.
+   */
+  async getModerationQueue(
+    actor: Actor,
+    pagination: CommentPagination,
+    status?: CommentStatus,
+    postId?: string,
+  ): Promise<AdminComments> {
+    const where: FilterQuery<Comment> = {
+      post: postId ? { ...this.getModeratedPostsFilter(actor), id: postId } : this.getModeratedPostsFilter(actor),
+      deletedAt: null,
+    }
+    if (status)
+      where.status = status
+
+    const [comments, itemCount] = await this.em.findAndCount(Comment, where, {
+      limit: pagination.pageSize,
+      offset: pagination.offset,
+      orderBy: { createdAt: 'DESC' },
+      populate: ['user', 'post'],
+    })
+
+    const titleByPostId = await getLatestPostTitles(this.em, comments.map(comment => comment.post.id))
+
+    return {
+      data: comments.map(comment => ({
+        ...this.mapCommentToResponse(comment),
+        post: {
+          id: comment.post.id,
+          title: titleByPostId.get(comment.post.id) ?? '',
+          slug: comment.post.slug,
+        },
+      } satisfies AdminComment)),
+      meta: {
+        itemCount,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: itemCount > pagination.offset + pagination.pageSize,
+      },
+    }
   }
 
-  private mapCommentToResponse(comment: Comment): CommentResponse {
+  async getModerationCounts(actor: Actor): Promise<CommentStatusCounts> {
+    const counts = await Promise.all(commentStatuses.map(status =>
+      this.em.count(Comment, { post: this.getModeratedPostsFilter(actor), status, deletedAt: null }),
+    ))
+
+    return Object.fromEntries(
+      commentStatuses.map((status, index) => [status, counts[index]]),
+    ) as CommentStatusCounts
+  }
+
+  /**
+   * Changes the status of several comments at once.
+   * Comments that don't belong to one of the user's posts are ignored, unless they are an editor or an admin.
+   */
+  async updateCommentsStatus(
+    actor: Actor,
+    data: UpdateCommentsStatusInput,
+  ): Promise<UpdateCommentsStatusResult> {
+    const comments = await this.em.find(Comment, {
+      id: { $in: data.ids },
+      post: this.getModeratedPostsFilter(actor),
+      deletedAt: null,
+    }, { populate: ['user', 'post', 'parent'] })
+
+    // Readers only see approved comments, so they are told about the ones entering or leaving this status
+    const publishedComments = comments.filter(comment => comment.status !== 'approved' && data.status === 'approved')
+    const unpublishedComments = comments.filter(comment => comment.status === 'approved' && data.status !== 'approved')
+
+    const auditLogEntries = comments
+      .filter(comment => comment.status !== data.status)
+      .map(comment => ({
+        actorId: actor.id,
+        action: 'comment.status-changed' as const,
+        targetType: 'comment' as const,
+        targetId: comment.id,
+        before: { status: comment.status },
+        after: { status: data.status },
+      }))
+
+    comments.forEach((comment) => {
+      comment.status = data.status
+    })
+    this.auditLogService.record(...auditLogEntries)
+    await this.em.flush()
+
+    for (const comment of publishedComments)
+      await this.notificationsService.notifyNewComment(comment)
+
+    publishedComments.forEach((comment) => {
+      this.commentEventBus.publish(comment.post.id, { type: 'created', comment: this.mapCommentToResponse(comment) })
+    })
+    unpublishedComments.forEach(comment => this.publishDeleted(comment))
+
+    return { updated: comments.length }
+  }
+
+  private mapCommentToResponse(
+    comment: Comment,
+    reactions: ReactionCounts = emptyReactionCounts(),
+  ): CommentResponse {
     const replyIds = comment.replies?.isInitialized()
       ? comment.replies.getItems().map(reply => reply.id)
       : []
@@ -182,20 +436,56 @@ export class CommentsService {
       ? comment.replies.count()
       : 0
 
+    // The content and the author of deleted comments are hidden
+    const isDeleted = !!comment.deletedAt
+
     return {
       id: comment.id,
-      content: comment.content,
-      authorName: comment.authorName || null,
+      content: isDeleted ? '' : comment.content,
+      authorName: isDeleted ? null : comment.authorName || null,
       createdAt: comment.createdAt,
-      user: comment.user
+      user: comment.user && !isDeleted
         ? {
             id: comment.user.id,
             name: comment.user.name || 'User',
           }
         : null,
       parentId: comment.parent?.id || null,
+      status: comment.status,
+      editedAt: comment.editedAt ?? null,
+      editableUntil: this.getEditableUntil(comment),
+      deleted: isDeleted,
+      reactions,
       replyIds,
       replyCount,
     }
   }
+
+  private publishDeleted(comment: Comment) {
+    this.commentEventBus.publish(comment.post.id, {
+      type: 'deleted',
+      commentId: comment.id,
+      parentId: comment.parent?.id ?? null,
+    })
+  }
+
+  // On moderated posts, only the comments of the author are published right away
+  private isPublishedRightAway(post: Post, userId?: string) {
+    return post.commentModeration !== 'moderated' || post.user.id === userId
+  }
+
+  private canModerateComment(actor: Actor, comment: Comment) {
+    return comment.user?.id === actor.id
+      || comment.post.user.id === actor.id
+      || canManageAllComments(actor)
+  }
+
+  // Posts whose comments the user moderates: their own, or all of them for editors and admins
+  private getModeratedPostsFilter(actor: Actor): ObjectQuery<Post> {
+    return canManageAllComments(actor) ? {} : { user: actor.id }
+  }
+
+  private getEditableUntil(comment: Comment) {
+    return new Date(comment.createdAt.getTime() + config.comments.editWindowMinutes * 60 * 1000)
+  }
 }
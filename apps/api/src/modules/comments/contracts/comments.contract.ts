@@ -5,6 +5,7 @@ import {
   paginatedSchema,
 } from '@lonestone/nzoth/server'
 import { z } from 'zod'
+import { reactionCountsSchema } from '../../reactions/contracts/reactions.contract'
 
 // Schema for creating a comment
 export const createCommentSchema = z.object({
@@ -17,6 +18,24 @@ export const createCommentSchema = z.object({
 
 export type CreateCommentInput = z.infer<typeof createCommentSchema>
 
+// Schema for editing a comment
+export const updateCommentSchema = z.object({
+  content: z.string().min(1).max(1000),
+}).meta({
+  title: 'UpdateCommentSchema',
+  description: 'Schema for editing a comment',
+})
+
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>
+
+// Schema for the moderation status of a comment
+export const commentStatusSchema = z.enum(['pending', 'approved', 'rejected', 'spam']).meta({
+  title: 'CommentStatusSchema',
+  description: 'Moderation status of a comment. Only approved comments are public',
+})
+
+export type CommentStatusInput = z.infer<typeof commentStatusSchema>
+
 // Schema for comment response
 // Using a simpler approach to avoid recursive type issues
 export const commentSchema = z.object({
@@ -29,6 +48,17 @@ export const commentSchema = z.object({
     name: z.string(),
   }).nullable(),
   parentId: z.string().uuid().nullable(),
+  status: commentStatusSchema,
+  editedAt: z.date().nullable().meta({
+    description: 'Date of the last edit, null if the comment has never been edited',
+  }),
+  editableUntil: z.date().meta({
+    description: 'Date until which the author can edit the comment',
+  }),
+  deleted: z.boolean().meta({
+    description: 'Deleted comments are kept in the thread without their content and author',
+  }),
+  reactions: reactionCountsSchema,
   // For replies, we'll just include the IDs in the base schema
   // and load the full replies separately when needed
   replyIds: z.array(z.string().uuid()).optional(),
@@ -40,6 +70,23 @@ export const commentSchema = z.object({
 
 export type CommentResponse = z.infer<typeof commentSchema>
 
+// Schema for a previous content of an edited comment
+export const commentRevisionSchema = z.object({
+  id: z.string().uuid(),
+  content: z.string(),
+  createdAt: z.date(),
+}).meta({
+  title: 'CommentRevisionSchema',
+  description: 'Schema for a previous content of an edited comment',
+})
+
+export const commentRevisionsSchema = z.array(commentRevisionSchema).meta({
+  title: 'CommentRevisionsSchema',
+  description: 'Schema for the previous contents of a comment, from the latest to the oldest',
+})
+
+export type CommentRevisions = z.infer<typeof commentRevisionsSchema>
+
 // Schema for comments list
 export const commentsSchema = paginatedSchema(commentSchema).meta({
   title: 'CommentsSchema',
@@ -48,6 +95,28 @@ export const commentsSchema = paginatedSchema(commentSchema).meta({
 
 export type CommentsResponse = z.infer<typeof commentsSchema>
 
+// Schema for the live updates streamed to the readers of a post
+export const commentEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('created'),
+    comment: commentSchema,
+  }),
+  z.object({
+    type: z.literal('edited'),
+    comment: commentSchema,
+  }),
+  z.object({
+    type: z.literal('deleted'),
+    commentId: z.string().uuid(),
+    parentId: z.string().uuid().nullable(),
+  }),
+]).meta({
+  title: 'CommentEventSchema',
+  description: 'Schema for a comment published, edited or removed on a post',
+})
+
+export type CommentEvent = z.infer<typeof commentEventSchema>
+
 // Sorting and filtering
 export const enabledCommentSortingKey = [
   'createdAt',
@@ -73,3 +142,68 @@ export type CommentFiltering = z.infer<typeof commentFilteringSchema>
 export const commentPaginationSchema = createPaginationQuerySchema()
 
 export type CommentPagination = z.infer<typeof commentPaginationSchema>
+
+// ----------------//
+// Admin comments //
+// ----------------//
+
+// Schema for a comment in the moderation queue, with the post it belongs to
+export const adminCommentSchema = commentSchema.omit({
+  replyIds: true,
+  replyCount: true,
+  reactions: true,
+}).extend({
+  post: z.object({
+    id: z.string().uuid(),
+    title: z.string(),
+    slug: z.string().nullish(),
+  }),
+}).meta({
+  title: 'AdminCommentSchema',
+  description: 'Schema for a comment in the moderation queue',
+})
+
+export type AdminComment = z.infer<typeof adminCommentSchema>
+
+export const adminCommentsSchema = paginatedSchema(adminCommentSchema).meta({
+  title: 'AdminCommentsSchema',
+  description: 'Schema for a paginated list of comments to moderate',
+})
+
+export type AdminComments = z.infer<typeof adminCommentsSchema>
+
+export const adminCommentsStatusQuerySchema = commentStatusSchema.optional().meta({
+  description: 'Only return the comments with this status',
+})
+
+export const adminCommentsPostQuerySchema = z.string().uuid().optional().meta({
+  description: 'Only return the comments of this post',
+})
+
+// Schema for changing the status of several comments at once
+export const updateCommentsStatusSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100),
+  status: commentStatusSchema,
+}).meta({
+  title: 'UpdateCommentsStatusSchema',
+  description: 'Schema for changing the moderation status of several comments',
+})
+
+export type UpdateCommentsStatusInput = z.infer<typeof updateCommentsStatusSchema>
+
+export const updateCommentsStatusResultSchema = z.object({
+  updated: z.number().int(),
+}).meta({
+  title: 'UpdateCommentsStatusResultSchema',
+  description: 'Number of comments whose status has been changed',
+})
+
+export type UpdateCommentsStatusResult = z.infer<typeof updateCommentsStatusResultSchema>
+
+// Number of comments per status, used by the moderation tabs
+export const commentStatusCountsSchema = z.record(commentStatusSchema, z.number().int()).meta({
+  title: 'CommentStatusCountsSchema',
+  description: 'Number of comments per moderation status',
+})
+
+export type CommentStatusCounts = z.infer<typeof commentStatusCountsSchema>
@@ -0,0 +1,15 @@
+import { Observable } from 'rxjs'
+import { CommentEvent } from '../contracts/comments.contract'
+
+// Injection token of the configured comment event bus
+export const COMMENT_EVENT_BUS = Symbol('COMMENT_EVENT_BUS')
+
+/**
+ * A comment event bus broadcasts the comment events of a post to the readers streaming them.
+ * Events are scoped by post id, as slugs can change.
+ */
+export interface CommentEventBus {
+  publish: (postId: string, event: CommentEvent) => void
+  // Only emits the events published after the subscription
+  subscribe: (postId: string) => Observable<CommentEvent>
+}
@@ -0,0 +1,20 @@
+import { filter, map, Observable, Subject } from 'rxjs'
+import { CommentEvent } from '../contracts/comments.contract'
+import { CommentEventBus } from './comment-event-bus'
+
+// Broadcasts the events within the process, so it only reaches the readers connected to this instance.
+// Running several instances requires a shared implementation, e.g. on top of Postgres LISTEN/NOTIFY.
+export class InMemoryCommentEventBus implements CommentEventBus {
+  private readonly events = new Subject<{ postId: string, event: CommentEvent }>()
+
+  publish(postId: string, event: CommentEvent) {
+    this.events.next({ postId, event })
+  }
+
+  subscribe(postId: string): Observable<CommentEvent> {
+    return this.events.pipe(
+      filter(published => published.postId === postId),
+      map(published => published.event),
+    )
+  }
+}
@@ -0,0 +1,358 @@
+import { get, IncomingMessage, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import supertest from 'supertest'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { CreatePostInput } from '../../posts/contracts/posts.contract'
+import { Post, PostVersion } from '../../posts/posts.entity'
+import { PostModule } from '../../posts/posts.module'
+import { Comment } from '../comments.entity'
+import { CommentsModule } from '../comments.module'
+
+describe('commentsController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let testUser: User
+  let requestWithAuth: ReturnType<typeof initRequestWithAuth>
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule, CommentsModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    testUser = await createUserData(em)
+    requestWithAuth = initRequestWithAuth(app, testUser.id)
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  async function createPublishedPost(
+    commentModeration: CreatePostInput['commentModeration'],
+    request = requestWithAuth,
+  ) {
+    const createResponse = await request('post', '/admin/posts').send({
+      title: 'Commented post',
+      content: [{ type: 'text', data: 'Some content' }],
+      commentModeration,
+    })
+    const publishResponse = await request('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+    return { id: createResponse.body.id as string, slug: publishResponse.body.slug as string }
+  }
+
+  function postAnonymousComment(slug: string, content: string) {
+    return supertest(app.getHttpServer()).post(`/posts/${slug}/comments`).send({ content })
+  }
+
+  // Resolves once the stream is open, so that the events published afterwards are received
+  async function openCommentsStream(slug: string) {
+    const server: Server = app.getHttpServer()
+    if (!server.listening)
+      await new Promise<void>(resolve => server.listen(0, resolve))
+
+    const { port } = server.address() as AddressInfo
+    return await new Promise<IncomingMessage>((resolve, reject) => {
+      get(`http://localhost:${port}/posts/${slug}/comments/stream`, resolve).on('error', reject)
+    })
+  }
+
+  async function readEvents(stream: IncomingMessage, count: number) {
+    let buffer = ''
+    const events: Array<{ type: string, data: Record<string, unknown> }> = []
+
+    stream.setEncoding('utf8')
+    for await (const chunk of stream) {
+      buffer += chunk
+      const messages = buffer.split('\n\n')
+      buffer = messages.pop() ?? ''
+
+      messages.forEach((message) => {
+        const lines = message.split('\n')
+        const type = lines.find(line => line.startsWith('event: '))?.slice('event: '.length)
+        const data = lines.find(line => line.startsWith('data: '))?.slice('data: '.length)
+        if (type && data)
+          events.push({ type, data: JSON.parse(data) })
+      })
+
+      if (events.length >= count)
+        break
+    }
+
+    stream.destroy()
+    return events
+  }
+
+  describe('pOST /posts/:postSlug/comments', () => {
+    it('should publish comments right away on open posts', async () => {
+      const post = await createPublishedPost('open')
+
+      const response = await postAnonymousComment(post.slug, 'Nice post')
+      const listResponse = await supertest(app.getHttpServer()).get(`/posts/${post.slug}/comments`)
+
+      expect(response.body).toMatchObject({ status: 'approved', authorName: 'Anonymous' })
+      expect(listResponse.body.data).toHaveLength(1)
+    })
+
+    it('should attach the comment to the logged in user', async () => {
+      const post = await createPublishedPost('open')
+
+      const response = await requestWithAuth('post', `/posts/${post.slug}/comments`).send({ content: 'My comment' })
+
+      expect(response.body).toMatchObject({
+        status: 'approved',
+        authorName: null,
+        user: { id: testUser.id },
+      })
+    })
+
+    it('should hide comments of moderated posts until they are approved', async () => {
+      const post = await createPublishedPost('moderated')
+
+      const response = await postAnonymousComment(post.slug, 'Waiting for approval')
+      const listResponse = await supertest(app.getHttpServer()).get(`/posts/${post.slug}/comments`)
+      const publicPostResponse = await supertest(app.getHttpServer()).get(`/public/posts/${post.slug}`)
+
+      expect(response.body.status).toBe('pending')
+      expect(listResponse.body.data).toHaveLength(0)
+      expect(publicPostResponse.body).toMatchObject({ commentModeration: 'moderated', commentCount: 0 })
+    })
+
+    it('should publish the comments of the post author on moderated posts', async () => {
+      const post = await createPublishedPost('moderated')
+
+      const response = await requestWithAuth('post', `/posts/${post.slug}/comments`).send({ content: 'Author reply' })
+
+      expect(response.body.status).toBe('approved')
+    })
+
+    it('should refuse comments on closed posts', async () => {
+      const post = await createPublishedPost('closed')
+
+      const response = await postAnonymousComment(post.slug, 'Too late')
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('pATCH /posts/:postSlug/comments/:commentId', () => {
+    it('should let the author edit their comment and keep the previous content', async () => {
+      const post = await createPublishedPost('open')
+      const comment = await requestWithAuth('post', `/posts/${post.slug}/comments`).send({ content: 'Frist!' })
+
+      const editResponse = await requestWithAuth('patch', `/posts/${post.slug}/comments/${comment.body.id}`).send({ content: 'First!' })
+      const revisionsResponse = await requestWithAuth('get', `/posts/${post.slug}/comments/${comment.body.id}/revisions`)
+
+      expect(comment.body.editedAt).toBeNull()
+      expect(editResponse.body).toMatchObject({ content: 'First!', editedAt: expect.any(String) })
+      expect(revisionsResponse.body).toMatchObject([{ content: 'Frist!' }])
+    })
+
+    it('should not let other users edit a comment', async () => {
+      const post = await createPublishedPost('open')
+      const comment = await requestWithAuth('post', `/posts/${post.slug}/comments`).send({ content: 'My comment' })
+      const otherUser = await createUserData(em)
+
+      const response = await initRequestWithAuth(app, otherUser.id)('patch', `/posts/${post.slug}/comments/${comment.body.id}`).send({ content: 'Not mine' })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should not let the author edit a comment once the edit window is over', async () => {
+      const post = await createPublishedPost('open')
+      const comment = await requestWithAuth('post', `/posts/${post.slug}/comments`).send({ content: 'Old comment' })
+      await em.nativeUpdate(Comment, { id: comment.body.id }, { createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000) })
+
+      const response = await requestWithAuth('patch', `/posts/${post.slug}/comments/${comment.body.id}`).send({ content: 'Too late' })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should hide the edited comments of moderated posts until they are approved again', async () => {
+      const post = await createPublishedPost('moderated')
+      const otherUser = await createUserData(em)
+      const requestWithOtherUser = initRequestWithAuth(app, otherUser.id)
+      const comment = await requestWithOtherUser('post', `/posts/${post.slug}/comments`).send({ content: 'Nice post' })
+      await requestWithAuth('patch', '/admin/comments/status').send({ ids: [comment.body.id], status: 'approved' })
+      const stream = await openCommentsStream(post.slug)
+
+      const editResponse = await requestWithOtherUser('patch', `/posts/${post.slug}/comments/${comment.body.id}`).send({ content: 'Buy my stuff' })
+      const listResponse = await supertest(app.getHttpServer()).get(`/posts/${post.slug}/comments`)
+      const events = await readEvents(stream, 1)
+
+      expect(editResponse.body).toMatchObject({ content: 'Buy my stuff', status: 'pending' })
+      expect(listResponse.body.data).toHaveLength(0)
+      expect(events).toMatchObject([
+        { type: 'deleted', data: { type: 'deleted', commentId: comment.body.id } },
+      ])
+    })
+  })
+
+  describe('dELETE /posts/:postSlug/comments/:commentId', () => {
+    it('should keep the replies of a deleted comment', async () => {
+      const otherUser = await createUserData(em)
+      const otherRequest = initRequestWithAuth(app, otherUser.id)
+      const post = await createPublishedPost('open')
+      const comment = await otherRequest('post', `/posts/${post.slug}/comments`).send({ content: 'To be removed' })
+      await supertest(app.getHttpServer())
+        .post(`/posts/${post.slug}/comments`)
+        .send({ content: 'A reply', parentId: comment.body.id })
+
+      // The author of the comment can delete it, not only the author of the post
+      const deleteResponse = await otherRequest('del', `/posts/${post.slug}/comments/${comment.body.id}`)
+      const listResponse = await supertest(app.getHttpServer()).get(`/posts/${post.slug}/comments`)
+      const repliesResponse = await supertest(app.getHttpServer()).get(`/posts/${post.slug}/comments/${comment.body.id}/replies`)
+
+      expect(deleteResponse.status).toBe(200)
+      expect(listResponse.body.data).toMatchObject([{
+        id: comment.body.id,
+        deleted: true,
+        content: '',
+        user: null,
+        replyCount: 1,
+      }])
+      expect(repliesResponse.body.data).toMatchObject([{ content: 'A reply', parentId: comment.body.id }])
+    })
+  })
+
+  describe('gET /posts/:postSlug/comments/stream', () => {
+    it('should stream the comments created, edited and deleted on the post', async () => {
+      const post = await createPublishedPost('open')
+      const stream = await openCommentsStream(post.slug)
+
+      const comment = await requestWithAuth('post', `/posts/${post.slug}/comments`).send({ content: 'Live comment' })
+      await requestWithAuth('patch', `/posts/${post.slug}/comments/${comment.body.id}`).send({ content: 'Edited live comment' })
+      await requestWithAuth('del', `/posts/${post.slug}/comments/${comment.body.id}`)
+      const events = await readEvents(stream, 3)
+
+      expect(events).toMatchObject([
+        { type: 'created', data: { type: 'created', comment: { id: comment.body.id, content: 'Live comment' } } },
+        { type: 'edited', data: { type: 'edited', comment: { id: comment.body.id, content: 'Edited live comment' } } },
+        { type: 'deleted', data: { type: 'deleted', commentId: comment.body.id, parentId: null } },
+      ])
+    })
+
+    it('should only stream the comments once they are approved', async () => {
+      const post = await createPublishedPost('moderated')
+      const stream = await openCommentsStream(post.slug)
+
+      const pending = await postAnonymousComment(post.slug, 'Waiting for approval')
+      await requestWithAuth('patch', '/admin/comments/status').send({ ids: [pending.body.id], status: 'approved' })
+      const events = await readEvents(stream, 1)
+
+      expect(events).toMatchObject([
+        { type: 'created', data: { comment: { id: pending.body.id, status: 'approved' } } },
+      ])
+    })
+
+    it('should return 404 for an unknown post', async () => {
+      const response = await supertest(app.getHttpServer()).get('/posts/unknown-post/comments/stream')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('admin/comments', () => {
+    it('should show the title of the latest version of the posts', async () => {
+      const post = await createPublishedPost('open')
+      await postAnonymousComment(post.slug, 'First comment')
+      const version = new PostVersion()
+      version.post = em.getReference(Post, post.id)
+      version.title = 'Renamed post'
+      version.createdAt = new Date(Date.now() + 1000)
+      await em.persistAndFlush(version)
+
+      const response = await requestWithAuth('get', '/admin/comments')
+
+      expect(response.body.data).toMatchObject([{ post: { id: post.id, title: 'Renamed post' } }])
+    })
+
+    it('should list the comments to moderate and approve them in bulk', async () => {
+      const post = await createPublishedPost('moderated')
+      const first = await postAnonymousComment(post.slug, 'First comment')
+      const second = await postAnonymousComment(post.slug, 'Second comment')
+      await postAnonymousComment(post.slug, 'Spam comment')
+
+      const queueResponse = await requestWithAuth('get', '/admin/comments').query({ status: 'pending' })
+
+      expect(queueResponse.body.meta.itemCount).toBe(3)
+      expect(queueResponse.body.data[0]).toMatchObject({
+        status: 'pending',
+        post: { id: post.id, title: 'Commented post', slug: post.slug },
+      })
+
+      const updateResponse = await requestWithAuth('patch', '/admin/comments/status').send({
+        ids: [first.body.id, second.body.id],
+        status: 'approved',
+      })
+      const countsResponse = await requestWithAuth('get', '/admin/comments/counts')
+      const listResponse = await supertest(app.getHttpServer()).get(`/posts/${post.slug}/comments`)
+
+      expect(updateResponse.body).toEqual({ updated: 2 })
+      expect(countsResponse.body).toEqual({ pending: 1, approved: 2, rejected: 0, spam: 0 })
+      expect(listResponse.body.data.map((comment: { content: string }) => comment.content).sort()).toEqual([
+        'First comment',
+        'Second comment',
+      ])
+    })
+
+    it('should not list nor update the comments of other users\' posts', async () => {
+      const otherUser = await createUserData(em)
+      const post = await createPublishedPost('moderated', initRequestWithAuth(app, otherUser.id))
+      const comment = await postAnonymousComment(post.slug, 'Not yours')
+
+      const queueResponse = await requestWithAuth('get', '/admin/comments')
+      const updateResponse = await requestWithAuth('patch', '/admin/comments/status').send({
+        ids: [comment.body.id],
+        status: 'approved',
+      })
+
+      expect(queueResponse.body.data).toHaveLength(0)
+      expect(updateResponse.body).toEqual({ updated: 0 })
+    })
+
+    it('should let editors moderate and delete the comments of every post', async () => {
+      const editor = await createUserData(em, { role: 'editor' })
+      const editorRequest = initRequestWithAuth(app, editor.id)
+      const post = await createPublishedPost('moderated')
+      const comment = await postAnonymousComment(post.slug, 'To moderate')
+      const otherComment = await postAnonymousComment(post.slug, 'To delete')
+
+      const queueResponse = await editorRequest('get', '/admin/comments')
+      const countsResponse = await editorRequest('get', '/admin/comments/counts')
+      const updateResponse = await editorRequest('patch', '/admin/comments/status').send({
+        ids: [comment.body.id],
+        status: 'approved',
+      })
+      const deleteResponse = await editorRequest('del', `/posts/${post.slug}/comments/${otherComment.body.id}`)
+      const editResponse = await editorRequest('patch', `/posts/${post.slug}/comments/${comment.body.id}`).send({ content: 'Not mine' })
+
+      expect(queueResponse.body.data).toHaveLength(2)
+      expect(countsResponse.body).toMatchObject({ pending: 2 })
+      expect(updateResponse.body).toEqual({ updated: 1 })
+      expect(deleteResponse.body).toEqual({ success: true })
+      // Editors moderate the comments, but only their authors can edit them
+      expect(editResponse.status).toBe(403)
+    })
+  })
+})
@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019122001 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "post" add column "scheduledAt" timestamptz null;`)
+    this.addSql(`create index "post_scheduledAt_index" on "post" ("scheduledAt");`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop index "post_scheduledAt_index";`)
+    this.addSql(`alter table "post" drop column "scheduledAt";`)
+  }
+}
@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019122905 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "postVersion" add column "searchVector" tsvector generated always as (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(jsonb_to_tsvector('english', coalesce(jsonb_path_query_array("content", '\$[*] ? (@.type == "text").data'), '[]'), '["string"]'), 'B')) stored null;`)
+    this.addSql(`create index "postVersion_searchVector_index" on "public"."postVersion" using gin("searchVector");`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop index "postVersion_searchVector_index";`)
+    this.addSql(`alter table "postVersion" drop column "searchVector";`)
+  }
+}
@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019123520 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "tag" ("id" uuid not null default gen_random_uuid(), "name" varchar(255) not null, "slug" varchar(255) not null, "createdAt" timestamptz not null, constraint "tag_pkey" primary key ("id"));`)
+    this.addSql(`alter table "tag" add constraint "tag_slug_unique" unique ("slug");`)
+
+    this.addSql(`create table "postTag" ("postId" uuid not null, "tagId" uuid not null, constraint "postTag_pkey" primary key ("postId", "tagId"));`)
+
+    this.addSql(`alter table "postTag" add constraint "postTag_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade on delete cascade;`)
+    this.addSql(`alter table "postTag" add constraint "postTag_tagId_foreign" foreign key ("tagId") references "tag" ("id") on update cascade on delete cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "postTag" drop constraint "postTag_tagId_foreign";`)
+
+    this.addSql(`drop table if exists "tag" cascade;`)
+
+    this.addSql(`drop table if exists "postTag" cascade;`)
+  }
+}
@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019124442 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "file" ("id" uuid not null default gen_random_uuid(), "userId" uuid not null, "key" varchar(255) not null, "name" varchar(255) not null, "mimeType" varchar(255) not null, "size" int not null, "createdAt" timestamptz not null, constraint "file_pkey" primary key ("id"));`)
+    this.addSql(`create index "file_userId_index" on "file" ("userId");`)
+    this.addSql(`alter table "file" add constraint "file_key_unique" unique ("key");`)
+
+    this.addSql(`alter table "file" add constraint "file_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "file" cascade;`)
+  }
+}
@@ -0,0 +1,37 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019125304 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "file" add column "width" int null, add column "height" int null, add column "placeholder" text null, add column "variants" jsonb not null default '[]';`)
+    this.addSql(`alter table "file" alter column "variants" drop default;`)
+
+    // Image blocks used to only hold their URL, they now hold an object with the source and alternative text
+    this.addSql(`update "postVersion" set "content" = (
+      select jsonb_agg(
+        case when block->>'type' = 'image' and jsonb_typeof(block->'data') = 'string'
+          then jsonb_build_object('type', 'image', 'data', jsonb_build_object('src', block->'data', 'alt', ''))
+          else block
+        end
+        order by position
+      )
+      from jsonb_array_elements("content") with ordinality as blocks(block, position)
+    )
+    where jsonb_path_exists("content", '$[*] ? (@.type == "image" && @.data.type() == "string")');`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`update "postVersion" set "content" = (
+      select jsonb_agg(
+        case when block->>'type' = 'image' and jsonb_typeof(block->'data') = 'object'
+          then jsonb_build_object('type', 'image', 'data', block->'data'->'src')
+          else block
+        end
+        order by position
+      )
+      from jsonb_array_elements("content") with ordinality as blocks(block, position)
+    )
+    where jsonb_path_exists("content", '$[*] ? (@.type == "image" && @.data.type() == "object")');`)
+
+    this.addSql(`alter table "file" drop column "width", drop column "height", drop column "placeholder", drop column "variants";`)
+  }
+}
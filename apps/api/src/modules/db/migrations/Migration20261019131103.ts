@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019131103 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "post" add column "commentModeration" text check ("commentModeration" in ('open', 'moderated', 'closed')) not null default 'open';`)
+
+    this.addSql(`alter table "comment" add column "status" text check ("status" in ('pending', 'approved', 'rejected', 'spam')) not null default 'approved';`)
+    this.addSql(`create index "comment_status_index" on "comment" ("status");`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "post" drop column "commentModeration";`)
+
+    this.addSql(`drop index "comment_status_index";`)
+    this.addSql(`alter table "comment" drop column "status";`)
+  }
+}
@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019131718 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "commentRevision" ("id" uuid not null default gen_random_uuid(), "commentId" uuid not null, "content" text not null, "createdAt" timestamptz not null, constraint "commentRevision_pkey" primary key ("id"));`)
+    this.addSql(`create index "commentRevision_commentId_index" on "commentRevision" ("commentId");`)
+
+    this.addSql(`alter table "commentRevision" add constraint "commentRevision_commentId_foreign" foreign key ("commentId") references "comment" ("id") on update cascade on delete cascade;`)
+
+    this.addSql(`alter table "comment" add column "editedAt" timestamptz null, add column "deletedAt" timestamptz null;`)
+    this.addSql(`alter table "comment" alter column "content" type text using ("content"::text);`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "commentRevision" cascade;`)
+
+    this.addSql(`alter table "comment" drop column "editedAt", drop column "deletedAt";`)
+
+    this.addSql(`alter table "comment" alter column "content" type varchar(255) using ("content"::varchar(255));`)
+  }
+}
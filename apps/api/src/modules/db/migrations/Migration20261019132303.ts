@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019132303 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "reaction" ("id" uuid not null default gen_random_uuid(), "userId" uuid not null, "postId" uuid null, "commentId" uuid null, "kind" text check ("kind" in ('like', 'love', 'laugh', 'wow', 'sad', 'celebrate')) not null, "createdAt" timestamptz not null, constraint "reaction_pkey" primary key ("id"), constraint reaction_target_check check (("postId" is null) <> ("commentId" is null)));`)
+    this.addSql(`create index "reaction_postId_index" on "reaction" ("postId");`)
+    this.addSql(`create index "reaction_commentId_index" on "reaction" ("commentId");`)
+    this.addSql(`alter table "reaction" add constraint "reaction_userId_commentId_kind_unique" unique ("userId", "commentId", "kind");`)
+    this.addSql(`alter table "reaction" add constraint "reaction_userId_postId_kind_unique" unique ("userId", "postId", "kind");`)
+
+    this.addSql(`alter table "reaction" add constraint "reaction_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete cascade;`)
+    this.addSql(`alter table "reaction" add constraint "reaction_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade on delete cascade;`)
+    this.addSql(`alter table "reaction" add constraint "reaction_commentId_foreign" foreign key ("commentId") references "comment" ("id") on update cascade on delete cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "reaction" cascade;`)
+  }
+}
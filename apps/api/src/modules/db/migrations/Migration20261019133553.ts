@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019133553 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "notification" ("id" uuid not null default gen_random_uuid(), "recipientId" uuid not null, "type" text check ("type" in ('comment', 'reply')) not null, "commentId" uuid not null, "readAt" timestamptz null, "createdAt" timestamptz not null, constraint "notification_pkey" primary key ("id"));`)
+    this.addSql(`create index "notification_recipientId_readAt_index" on "notification" ("recipientId", "readAt");`)
+
+    this.addSql(`alter table "notification" add constraint "notification_recipientId_foreign" foreign key ("recipientId") references "user" ("id") on update cascade on delete cascade;`)
+    this.addSql(`alter table "notification" add constraint "notification_commentId_foreign" foreign key ("commentId") references "comment" ("id") on update cascade on delete cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "notification" cascade;`)
+  }
+}
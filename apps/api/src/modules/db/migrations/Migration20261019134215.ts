@@ -0,0 +1,18 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019134215 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "notificationPreference" ("id" uuid not null default gen_random_uuid(), "userId" uuid not null, "emailFrequency" text check ("emailFrequency" in ('never', 'immediate', 'daily', 'weekly')) not null default 'never', "emailComments" boolean not null default true, "emailReplies" boolean not null default true, "lastDigestAt" timestamptz null, "updatedAt" timestamptz not null, constraint "notificationPreference_pkey" primary key ("id"));`)
+    this.addSql(`alter table "notificationPreference" add constraint "notificationPreference_userId_unique" unique ("userId");`)
+
+    this.addSql(`alter table "notificationPreference" add constraint "notificationPreference_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete cascade;`)
+
+    this.addSql(`alter table "notification" add column "emailedAt" timestamptz null;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "notificationPreference" cascade;`)
+
+    this.addSql(`alter table "notification" drop column "emailedAt";`)
+  }
+}
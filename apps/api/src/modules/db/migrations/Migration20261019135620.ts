@@ -0,0 +1,20 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019135620 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "emailJob" ("id" uuid not null default gen_random_uuid(), "to" varchar(255) not null, "subject" text not null, "content" text not null, "html" text null, "headers" jsonb null, "status" text check ("status" in ('pending', 'processing', 'sent', 'dead')) not null default 'pending', "attempts" int not null default 0, "nextAttemptAt" timestamptz not null, "lockedUntil" timestamptz null, "lastError" text null, "sentAt" timestamptz null, "createdAt" timestamptz not null, "updatedAt" timestamptz not null, constraint "emailJob_pkey" primary key ("id"));`)
+    this.addSql(`create index "emailJob_status_nextAttemptAt_index" on "emailJob" ("status", "nextAttemptAt");`)
+
+    this.addSql(`create table "emailDelivery" ("id" uuid not null default gen_random_uuid(), "jobId" uuid not null, "attempt" int not null, "status" text check ("status" in ('sent', 'failed')) not null, "messageId" varchar(255) null, "error" text null, "createdAt" timestamptz not null, constraint "emailDelivery_pkey" primary key ("id"));`)
+
+    this.addSql(`alter table "emailDelivery" add constraint "emailDelivery_jobId_foreign" foreign key ("jobId") references "emailJob" ("id") on update cascade on delete cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "emailDelivery" drop constraint "emailDelivery_jobId_foreign";`)
+
+    this.addSql(`drop table if exists "emailJob" cascade;`)
+
+    this.addSql(`drop table if exists "emailDelivery" cascade;`)
+  }
+}
@@ -0,0 +1,11 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019140813 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "user" add column "role" text check ("role" in ('user', 'editor', 'admin')) not null default 'user';`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "user" drop column "role";`)
+  }
+}
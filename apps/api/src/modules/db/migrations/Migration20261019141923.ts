@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019141923 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "postCollaborator" ("id" uuid not null default gen_random_uuid(), "postId" uuid not null, "userId" uuid null, "email" varchar(255) not null, "role" text check ("role" in ('owner', 'editor', 'viewer')) not null, "status" text check ("status" in ('pending', 'accepted', 'declined')) not null default 'pending', "invitedById" uuid null, "createdAt" timestamptz not null, "respondedAt" timestamptz null, constraint "postCollaborator_pkey" primary key ("id"));`)
+    this.addSql(`create index "postCollaborator_userId_index" on "postCollaborator" ("userId");`)
+    this.addSql(`create index "postCollaborator_email_index" on "postCollaborator" ("email");`)
+    this.addSql(`alter table "postCollaborator" add constraint "postCollaborator_postId_email_unique" unique ("postId", "email");`)
+
+    this.addSql(`alter table "postCollaborator" add constraint "postCollaborator_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade on delete cascade;`)
+    this.addSql(`alter table "postCollaborator" add constraint "postCollaborator_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete set null;`)
+    this.addSql(`alter table "postCollaborator" add constraint "postCollaborator_invitedById_foreign" foreign key ("invitedById") references "user" ("id") on update cascade on delete set null;`)
+
+    // The authors of the existing posts become their owners
+    this.addSql(`insert into "postCollaborator" ("postId", "userId", "email", "role", "status", "createdAt", "respondedAt") select p."id", p."userId", u."email", 'owner', 'accepted', p."createdAt", p."createdAt" from "post" p join "user" u on u."id" = p."userId";`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "postCollaborator" cascade;`)
+  }
+}
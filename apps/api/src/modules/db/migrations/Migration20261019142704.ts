@@ -0,0 +1,16 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019142704 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "user" add column "handle" varchar(255) null, add column "bio" text null, add column "links" jsonb not null default '[]';`)
+    // Existing users get a handle from their name, made unique with the beginning of their id
+    this.addSql(`update "user" set "handle" = coalesce(nullif(left(trim(both '-' from regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), 24), ''), 'author') || '-' || left("id"::text, 8);`)
+    this.addSql(`alter table "user" alter column "handle" set not null;`)
+    this.addSql(`alter table "user" add constraint "user_handle_unique" unique ("handle");`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "user" drop constraint "user_handle_unique";`)
+    this.addSql(`alter table "user" drop column "handle", drop column "bio", drop column "links";`)
+  }
+}
@@ -0,0 +1,39 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019143524 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`alter table "post" drop constraint "post_userId_foreign";`)
+
+    this.addSql(`alter table "postVersion" drop constraint "postVersion_postId_foreign";`)
+
+    this.addSql(`alter table "file" drop constraint "file_userId_foreign";`)
+
+    this.addSql(`alter table "comment" drop constraint "comment_postId_foreign";`)
+
+    this.addSql(`alter table "post" add constraint "post_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete cascade;`)
+
+    this.addSql(`alter table "postVersion" add constraint "postVersion_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade on delete cascade;`)
+
+    this.addSql(`alter table "file" add constraint "file_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete cascade;`)
+
+    this.addSql(`alter table "comment" add constraint "comment_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade on delete cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "post" drop constraint "post_userId_foreign";`)
+
+    this.addSql(`alter table "postVersion" drop constraint "postVersion_postId_foreign";`)
+
+    this.addSql(`alter table "file" drop constraint "file_userId_foreign";`)
+
+    this.addSql(`alter table "comment" drop constraint "comment_postId_foreign";`)
+
+    this.addSql(`alter table "post" add constraint "post_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade;`)
+
+    this.addSql(`alter table "postVersion" add constraint "postVersion_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade;`)
+
+    this.addSql(`alter table "file" add constraint "file_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade;`)
+
+    this.addSql(`alter table "comment" add constraint "comment_postId_foreign" foreign key ("postId") references "post" ("id") on update cascade;`)
+  }
+}
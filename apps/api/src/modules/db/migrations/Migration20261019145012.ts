@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019145012 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "twoFactor" ("id" uuid not null default gen_random_uuid(), "secret" text not null, "backupCodes" text not null, "userId" uuid not null, constraint "twoFactor_pkey" primary key ("id"));`)
+
+    this.addSql(`alter table "twoFactor" add constraint "twoFactor_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete cascade;`)
+
+    this.addSql(`alter table "user" add column "twoFactorEnabled" boolean not null default false;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "twoFactor" cascade;`)
+
+    this.addSql(`alter table "user" drop column "twoFactorEnabled";`)
+  }
+}
@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019151131 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "apiToken" ("id" uuid not null default gen_random_uuid(), "userId" uuid not null, "name" varchar(255) not null, "start" varchar(255) not null, "tokenHash" varchar(255) not null, "scopes" text[] not null, "expiresAt" timestamptz not null, "lastUsedAt" timestamptz null, "createdAt" timestamptz not null, constraint "apiToken_pkey" primary key ("id"));`)
+    this.addSql(`create index "apiToken_userId_index" on "apiToken" ("userId");`)
+    this.addSql(`alter table "apiToken" add constraint "apiToken_tokenHash_unique" unique ("tokenHash");`)
+
+    this.addSql(`alter table "apiToken" add constraint "apiToken_userId_foreign" foreign key ("userId") references "user" ("id") on update cascade on delete cascade;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "apiToken" cascade;`)
+  }
+}
@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019152340 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create table "auditLog" ("id" uuid not null default gen_random_uuid(), "actorId" uuid null, "action" text check ("action" in ('post.created', 'post.updated', 'post.published', 'post.scheduled', 'post.unpublished', 'post.version-restored', 'comment.created', 'comment.edited', 'comment.deleted', 'comment.status-changed', 'auth.signed-up', 'auth.signed-in', 'auth.sign-in-failed', 'auth.password-changed', 'auth.two-factor-disabled')) not null, "targetType" text check ("targetType" in ('post', 'comment', 'user')) not null, "targetId" varchar(255) not null, "before" jsonb null, "after" jsonb null, "ip" varchar(255) null, "userAgent" text null, "createdAt" timestamptz not null, constraint "auditLog_pkey" primary key ("id"));`)
+    this.addSql(`create index "auditLog_actorId_index" on "auditLog" ("actorId");`)
+    this.addSql(`create index "auditLog_action_index" on "auditLog" ("action");`)
+    this.addSql(`create index "auditLog_createdAt_index" on "auditLog" ("createdAt");`)
+    this.addSql(`create index "auditLog_targetType_targetId_index" on "auditLog" ("targetType", "targetId");`)
+
+    this.addSql(`alter table "auditLog" add constraint "auditLog_actorId_foreign" foreign key ("actorId") references "user" ("id") on update cascade on delete set null;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "auditLog" cascade;`)
+  }
+}
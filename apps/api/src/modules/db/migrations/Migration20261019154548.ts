@@ -0,0 +1,11 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019154548 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(`create index "postVersion_postId_createdAt_index" on "postVersion" ("postId", "createdAt");`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop index "postVersion_postId_createdAt_index";`)
+  }
+}
@@ -0,0 +1,43 @@
+import { Controller, Get, Header, NotFoundException, Param, Query } from '@nestjs/common'
+import { ApiExcludeController } from '@nestjs/swagger'
+import { defaultEmailLocale, EmailLocale, emailLocales, escapeHtml } from './templates/email-template'
+import { emailTemplates, isEmailTemplateName, renderEmailTemplate } from './templates/email-templates'
+
+/**
+ * Renders the email templates with their preview variables, to work on them in a browser.
+ * Only registered in development.
+ */
+@ApiExcludeController()
+@Controller('email/preview')
+export class EmailPreviewController {
+  @Get()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  listTemplates() {
+    const links = Object.keys(emailTemplates).map(name => `<li><a href="preview/${name}">${name}</a> (<a href="preview/${name}?format=text">text</a>)</li>`)
+    return `<ul>${links.join('')}</ul>`
+  }
+
+  @Get(':template')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  previewTemplate(
+    @Param('template') template: string,
+    @Query('format') format?: string,
+    @Query('locale') locale?: string,
+  ) {
+    if (!isEmailTemplateName(template)) {
+      throw new NotFoundException(`Unknown email template: ${template}`)
+    }
+
+    const email = renderEmailTemplate(
+      template,
+      emailTemplates[template].previewVariables,
+      emailLocales.includes(locale as EmailLocale) ? locale as EmailLocale : defaultEmailLocale,
+    )
+
+    if (format === 'text') {
+      return `<pre>${escapeHtml(`Subject: ${email.subject}\n\n${email.content}`)}</pre>`
+    }
+
+    return email.html
+  }
+}
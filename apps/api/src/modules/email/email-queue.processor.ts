@@ -0,0 +1,23 @@
+import { EnsureRequestContext, EntityManager } from '@mikro-orm/core'
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { EmailQueueService } from './email-queue.service'
+
+@Injectable()
+export class EmailQueueProcessor {
+  private readonly logger = new Logger(EmailQueueProcessor.name)
+
+  constructor(
+    private readonly em: EntityManager,
+    private readonly emailQueueService: EmailQueueService,
+  ) {}
+
+  // Runs often, as users wait for some of the emails, e.g. to verify their email address
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  @EnsureRequestContext()
+  async processEmailQueue() {
+    const count = await this.emailQueueService.processQueue()
+    if (count > 0)
+      this.logger.log(`Sent ${count} email(s)`)
+  }
+}
@@ -0,0 +1,138 @@
+import { EntityManager } from '@mikro-orm/core'
+import { Test, TestingModule } from '@nestjs/testing'
+import { config } from '../../config/env.config'
+import { EmailQueueService, MAX_EMAIL_ATTEMPTS } from './email-queue.service'
+import { EmailDelivery, EmailJob } from './email.entity'
+import { EMAIL_TRANSPORT } from './transports/email-transport'
+import { MemoryEmailTransport } from './transports/memory-email.transport'
+
+const now = new Date('2026-01-01T12:00:00.000Z')
+
+function createJob(attempts = 0) {
+  const job = new EmailJob()
+  job.to = 'test@example.com'
+  job.subject = 'Test Subject'
+  job.content = 'Test content'
+  job.attempts = attempts
+  return job
+}
+
+// The due jobs are the given ones, the deliveries are the persisted entities
+function createEntityManager(jobs: EmailJob[]) {
+  const deliveries: EmailDelivery[] = []
+  const em = {
+    transactional: (callback: (em: unknown) => unknown) => callback({ find: async () => jobs }),
+    persist: (delivery: EmailDelivery) => deliveries.push(delivery),
+    flush: jest.fn(),
+  }
+  return { em, deliveries }
+}
+
+async function createService(transport: MemoryEmailTransport, em: object = {}) {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [
+      EmailQueueService,
+      { provide: EntityManager, useValue: em },
+      { provide: EMAIL_TRANSPORT, useValue: transport },
+    ],
+  }).compile()
+
+  return module.get<EmailQueueService>(EmailQueueService)
+}
+
+describe('emailQueueService', () => {
+  let transport: MemoryEmailTransport
+
+  beforeEach(() => {
+    transport = new MemoryEmailTransport()
+  })
+
+  it('should be defined', async () => {
+    const service = await createService(transport)
+
+    expect(service).toBeDefined()
+  })
+
+  describe('processQueue', () => {
+    it('should send the queued emails and log their delivery', async () => {
+      const job = createJob()
+      const { em, deliveries } = createEntityManager([job])
+      const service = await createService(transport, em)
+
+      const sentCount = await service.processQueue(now)
+
+      expect(sentCount).toBe(1)
+      expect(transport.emails).toMatchObject([{
+        from: config.email.from,
+        to: job.to,
+        subject: job.subject,
+        text: job.content,
+        html: job.content,
+      }])
+      expect(job).toMatchObject({ status: 'sent', attempts: 1, sentAt: now, lockedUntil: undefined })
+      expect(deliveries).toMatchObject([{ job, attempt: 1, status: 'sent', messageId: transport.emails[0].messageId }])
+      expect(em.flush).toHaveBeenCalled()
+    })
+
+    it('should send the HTML version when there is one', async () => {
+      const job = createJob()
+      job.html = '<h1>Test HTML</h1>'
+      const service = await createService(transport, createEntityManager([job]).em)
+
+      await service.processQueue(now)
+
+      expect(transport.emails).toMatchObject([{ text: job.content, html: job.html }])
+    })
+
+    it('should retry the failed emails with an exponential backoff', async () => {
+      const job = createJob(2)
+      const { em, deliveries } = createEntityManager([job])
+      const service = await createService(transport, em)
+      jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('Connection refused'))
+
+      const sentCount = await service.processQueue(now)
+
+      expect(sentCount).toBe(0)
+      // Third attempt: 30 seconds doubled twice
+      expect(job).toMatchObject({
+        status: 'pending',
+        attempts: 3,
+        nextAttemptAt: new Date(now.getTime() + 2 * 60 * 1000),
+        lockedUntil: undefined,
+        lastError: 'Connection refused',
+      })
+      expect(deliveries).toMatchObject([{ job, attempt: 3, status: 'failed', error: 'Connection refused' }])
+    })
+
+    it('should dead-letter the emails failing too many times', async () => {
+      const job = createJob(MAX_EMAIL_ATTEMPTS - 1)
+      const { em, deliveries } = createEntityManager([job])
+      const service = await createService(transport, em)
+      jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('Mailbox unavailable'))
+
+      await service.processQueue(now)
+
+      expect(job).toMatchObject({ status: 'dead', attempts: MAX_EMAIL_ATTEMPTS, lastError: 'Mailbox unavailable' })
+      expect(deliveries).toMatchObject([{ attempt: MAX_EMAIL_ATTEMPTS, status: 'failed' }])
+    })
+  })
+
+  describe('verifyConnection', () => {
+    it('should return true when connection is verified', async () => {
+      const service = await createService(transport)
+
+      const result = await service.verifyConnection()
+
+      expect(result).toBe(true)
+    })
+
+    it('should return false when connection verification fails', async () => {
+      const service = await createService(transport)
+      jest.spyOn(transport, 'verify').mockRejectedValueOnce(new Error('Connection failed'))
+
+      const result = await service.verifyConnection()
+
+      expect(result).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { EntityManager, LockMode } from '@mikro-orm/core'
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { EmailDelivery, EmailDeliveryStatus, EmailJob } from './email.entity'
+import { EMAIL_TRANSPORT, EmailTransport } from './transports/email-transport'
+
+// Number of emails delivered by each run of the queue
+const BATCH_SIZE = 20
+// A job failing this many times is dead-lettered
+export const MAX_EMAIL_ATTEMPTS = 8
+// Delay before the first retry, doubled after each failure: 30s, 1m, 2m... up to about 1 hour in total
+const RETRY_BASE_DELAY = 30 * 1000
+// Time given to a worker to send an email before another one can retry it
+const LOCK_DURATION = 5 * 60 * 1000
+
+@Injectable()
+export class EmailQueueService {
+  private readonly logger = new Logger(EmailQueueService.name)
+
+  constructor(
+    private readonly em: EntityManager,
+    @Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport,
+  ) {}
+
+  /**
+   * Delivers the queued emails that are due, retrying the failed ones with an exponential backoff.
+   * Called periodically by the EmailQueueProcessor.
+   * @returns The number of emails that have been sent
+   */
+  async processQueue(now: Date = new Date()): Promise<number> {
+    const jobs = await this.claimJobs(now)
+
+    let sentCount = 0
+    for (const job of jobs) {
+      if (await this.deliver(job, now))
+        sentCount++
+    }
+
+    await this.em.flush()
+    return sentCount
+  }
+
+  async verifyConnection(): Promise<boolean> {
+    try {
+      await this.transport.verify()
+      this.logger.log('Email service connection verified successfully')
+      return true
+    }
+    catch (error) {
+      this.logger.error('Email service connection verification failed:', error)
+      return false
+    }
+  }
+
+  // Locks the due jobs, skipping the ones locked by other workers, so that each email is sent once
+  private async claimJobs(now: Date) {
+    return this.em.transactional(async (em) => {
+      const jobs = await em.find(
+        EmailJob,
+        {
+          $or: [
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            { status: 'processing', lockedUntil: { $lt: now } },
+          ],
+        },
+        {
+          orderBy: { nextAttemptAt: 'ASC' },
+          limit: BATCH_SIZE,
+          lockMode: LockMode.PESSIMISTIC_PARTIAL_WRITE,
+        },
+      )
+
+      jobs.forEach((job) => {
+        job.status = 'processing'
+        job.lockedUntil = new Date(now.getTime() + LOCK_DURATION)
+        job.attempts++
+      })
+
+      return jobs
+    })
+  }
+
+  private async deliver(job: EmailJob, now: Date) {
+    try {
+      const info = await this.transport.send({
+        from: config.email.from,
+        to: job.to,
+        subject: job.subject,
+        text: job.content,
+        html: job.html || job.content,
+        headers: job.headers,
+      })
+
+      job.status = 'sent'
+      job.sentAt = now
+      job.lockedUntil = undefined
+      this.logDelivery(job, 'sent', { messageId: info.messageId })
+      this.logger.log(`Email sent successfully to ${job.to}: ${info.messageId}`)
+      return true
+    }
+    catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const isDead = job.attempts >= MAX_EMAIL_ATTEMPTS
+
+      job.status = isDead ? 'dead' : 'pending'
+      job.nextAttemptAt = new Date(now.getTime() + RETRY_BASE_DELAY * 2 ** (job.attempts - 1))
+      job.lockedUntil = undefined
+      job.lastError = message
+      this.logDelivery(job, 'failed', { error: message })
+      this.logger.error(`Failed to send email ${job.id} to ${job.to} (attempt ${job.attempts}${isDead ? ', giving up' : ''}):`, error)
+      return false
+    }
+  }
+
+  private logDelivery(job: EmailJob, status: EmailDeliveryStatus, { messageId, error }: { messageId?: string, error?: string }) {
+    const delivery = new EmailDelivery()
+    delivery.job = job
+    delivery.attempt = job.attempts
+    delivery.status = status
+    delivery.messageId = messageId
+    delivery.error = error
+    this.em.persist(delivery)
+  }
+}
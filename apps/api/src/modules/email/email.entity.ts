@@ -0,0 +1,96 @@
+import {
+  Collection,
+  Entity,
+  Enum,
+  Index,
+  ManyToOne,
+  OneToMany,
+  PrimaryKey,
+  Property,
+} from '@mikro-orm/core'
+
+// Dead jobs have failed too many times and are not retried anymore
+export const emailJobStatuses = ['pending', 'processing', 'sent', 'dead'] as const
+
+export type EmailJobStatus = typeof emailJobStatuses[number]
+
+export const emailDeliveryStatuses = ['sent', 'failed'] as const
+
+export type EmailDeliveryStatus = typeof emailDeliveryStatuses[number]
+
+// An email waiting to be delivered, or delivered, by the EmailQueueProcessor
+@Entity({ tableName: 'emailJob' })
+@Index({ properties: ['status', 'nextAttemptAt'] })
+export class EmailJob {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @Property()
+  to!: string
+
+  @Property({ type: 'text' })
+  subject!: string
+
+  @Property({ type: 'text' })
+  content!: string
+
+  @Property({ type: 'text', nullable: true })
+  html?: string
+
+  @Property({ type: 'json', nullable: true })
+  headers?: Record<string, string>
+
+  @Enum({ items: [...emailJobStatuses] })
+  status: EmailJobStatus = 'pending'
+
+  @Property()
+  attempts: number = 0
+
+  @Property({ fieldName: 'nextAttemptAt' })
+  nextAttemptAt: Date = new Date()
+
+  // A processing job whose lock expired is retried, as its worker probably stopped while sending it
+  @Property({ fieldName: 'lockedUntil', nullable: true })
+  lockedUntil?: Date
+
+  @Property({ fieldName: 'lastError', type: 'text', nullable: true })
+  lastError?: string
+
+  @Property({ fieldName: 'sentAt', nullable: true })
+  sentAt?: Date
+
+  @OneToMany(() => EmailDelivery, delivery => delivery.job)
+  deliveries = new Collection<EmailDelivery>(this)
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+
+  @Property({ fieldName: 'updatedAt', onUpdate: () => new Date() })
+  updatedAt: Date = new Date()
+}
+
+// Log of the attempts to deliver an email
+@Entity({ tableName: 'emailDelivery' })
+export class EmailDelivery {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => EmailJob, { fieldName: 'jobId', deleteRule: 'cascade' })
+  job!: EmailJob
+
+  @Property()
+  attempt!: number
+
+  @Enum({ items: [...emailDeliveryStatuses] })
+  status!: EmailDeliveryStatus
+
+  // Id given by the SMTP server to the sent message
+  @Property({ fieldName: 'messageId', nullable: true })
+  messageId?: string
+
+  @Property({ type: 'text', nullable: true })
+  error?: string
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+}
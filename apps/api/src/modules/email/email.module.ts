@@ -1,8 +1,39 @@
 import { Module } from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { EmailPreviewController } from './email-preview.controller'
+import { EmailQueueProcessor } from './email-queue.processor'
+import { EmailQueueService } from './email-queue.service'
 import { EmailService } from './email.service'
+import { EMAIL_TRANSPORT, EmailTransport } from './transports/email-transport'
+import { FileEmailTransport } from './transports/file-email.transport'
+import { MemoryEmailTransport } from './transports/memory-email.transport'
+import { SmtpEmailTransport } from './transports/smtp-email.transport'
+
+function createEmailTransport(): EmailTransport {
+  switch (config.email.transport) {
+    case 'file':
+      return new FileEmailTransport(config.email.filePath)
+    case 'memory':
+      return new MemoryEmailTransport()
+    case 'smtp': {
+      const { host, port, secure, user, password } = config.email
+      return new SmtpEmailTransport({ host, port, secure, user, password })
+    }
+  }
+}
 
 @Module({
-  providers: [EmailService],
-  exports: [EmailService],
+  // The templates preview is a development tool, it must not be exposed in production
+  controllers: config.env === 'development' ? [EmailPreviewController] : [],
+  providers: [
+    EmailService,
+    EmailQueueService,
+    EmailQueueProcessor,
+    {
+      provide: EMAIL_TRANSPORT,
+      useFactory: createEmailTransport,
+    },
+  ],
+  exports: [EmailService, EmailQueueService],
 })
 export class EmailModule {}
@@ -1,115 +1,120 @@
+import { EntityManager } from '@mikro-orm/core'
 import { Test, TestingModule } from '@nestjs/testing'
-import { Transporter } from 'nodemailer'
+import { EmailJob } from './email.entity'
 import { EmailService } from './email.service'
+import { emailTemplates } from './templates/email-templates'
 
 describe('emailService', () => {
   let service: EmailService
-  let mockTransporter: Partial<Transporter>
+  let mockPersistAndFlush: jest.Mock
 
   beforeEach(async () => {
+    mockPersistAndFlush = jest.fn()
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [EmailService],
+      providers: [
+        EmailService,
+        // Emails are queued with a fork of the entity manager
+        { provide: EntityManager, useValue: { fork: () => ({ persistAndFlush: mockPersistAndFlush }) } },
+      ],
     }).compile()
 
     service = module.get<EmailService>(EmailService)
-
-    // Create mock transporter
-    mockTransporter = {
-      sendMail: jest.fn(),
-      verify: jest.fn(),
-    }
   })
 
+  function getQueuedJob(): EmailJob {
+    return mockPersistAndFlush.mock.calls[0][0]
+  }
+
   it('should be defined', () => {
     expect(service).toBeDefined()
   })
 
   describe('sendEmail', () => {
-    it('should send an email with correct parameters', async () => {
+    it('should queue an email with correct parameters', async () => {
       const emailOptions = {
         to: 'test@example.com',
         subject: 'Test Subject',
         content: 'Test content',
       }
 
-      // Mock the transporter to avoid actual email sending in tests
-      const mockSendMail = jest.fn().mockResolvedValue({ messageId: 'test-message-id' })
-      mockTransporter.sendMail = mockSendMail
+      const job = await service.sendEmail(emailOptions)
 
-      // Use Object.defineProperty to mock the private transporter
-      Object.defineProperty(service, 'transporter', {
-        value: mockTransporter,
-        writable: true,
-      })
-
-      await service.sendEmail(emailOptions)
-
-      expect(mockSendMail).toHaveBeenCalledWith({
-        from: expect.any(String),
+      expect(getQueuedJob()).toBe(job)
+      expect(job).toMatchObject({
         to: emailOptions.to,
         subject: emailOptions.subject,
-        text: emailOptions.content,
-        html: emailOptions.content,
+        content: emailOptions.content,
+        html: undefined,
+        status: 'pending',
+        attempts: 0,
       })
     })
 
-    it('should send an email with HTML content when provided', async () => {
+    it('should queue an email with HTML content and headers when provided', async () => {
       const emailOptions = {
         to: 'test@example.com',
         subject: 'Test Subject',
         content: 'Test content',
         html: '<h1>Test HTML</h1>',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
       }
 
-      const mockSendMail = jest.fn().mockResolvedValue({ messageId: 'test-message-id' })
-      mockTransporter.sendMail = mockSendMail
-
-      Object.defineProperty(service, 'transporter', {
-        value: mockTransporter,
-        writable: true,
-      })
-
       await service.sendEmail(emailOptions)
 
-      expect(mockSendMail).toHaveBeenCalledWith({
-        from: expect.any(String),
-        to: emailOptions.to,
-        subject: emailOptions.subject,
-        text: emailOptions.content,
+      expect(getQueuedJob()).toMatchObject({
         html: emailOptions.html,
+        headers: emailOptions.headers,
       })
     })
   })
 
-  describe('verifyConnection', () => {
-    it('should return true when connection is verified', async () => {
-      const mockVerify = jest.fn().mockResolvedValue(true)
-      mockTransporter.verify = mockVerify
-
-      Object.defineProperty(service, 'transporter', {
-        value: mockTransporter,
-        writable: true,
+  describe('sendTemplate', () => {
+    it('should wrap the template in the layout and escape the variables', async () => {
+      await service.sendTemplate('verify-email', {
+        to: 'test@example.com',
+        variables: {
+          userName: '<b>Jane</b>',
+          url: 'https://example.com/verify-email?token=abc&next=1',
+        },
       })
 
-      const result = await service.verifyConnection()
-
-      expect(result).toBe(true)
-      expect(mockVerify).toHaveBeenCalled()
+      const { subject, html } = getQueuedJob()
+      expect(subject).toBe('Verify your email')
+      expect(html).toMatch(/^<!DOCTYPE html>/)
+      expect(html).toContain('<title>Verify your email</title>')
+      expect(html).toContain('Hello &lt;b&gt;Jane&lt;/b&gt;,')
+      expect(html).toContain('href="https://example.com/verify-email?token=abc&amp;next=1"')
     })
 
-    it('should return false when connection verification fails', async () => {
-      const mockVerify = jest.fn().mockRejectedValue(new Error('Connection failed'))
-      mockTransporter.verify = mockVerify
-
-      Object.defineProperty(service, 'transporter', {
-        value: mockTransporter,
-        writable: true,
+    it('should generate the plain text version from the HTML', async () => {
+      await service.sendTemplate('reset-password', {
+        to: 'test@example.com',
+        variables: {
+          userName: 'Jane & John',
+          url: 'https://example.com/reset-password?token=abc',
+        },
       })
 
-      const result = await service.verifyConnection()
+      const { content } = getQueuedJob()
+      expect(content).not.toMatch(/<[^>]+>/)
+      expect(content).toContain('Hello Jane & John,')
+      expect(content).toContain('Reset my password: https://example.com/reset-password?token=abc')
+    })
+
+    it('should render the digest subject, the notifications and the footer links', async () => {
+      await service.sendTemplate('notifications', {
+        to: 'test@example.com',
+        variables: {
+          ...emailTemplates.notifications.previewVariables,
+          frequency: 'weekly',
+        },
+      })
 
-      expect(result).toBe(false)
-      expect(mockVerify).toHaveBeenCalled()
+      const { subject, content } = getQueuedJob()
+      expect(subject).toBe('Your weekly digest: 2 new notifications')
+      expect(content).toContain('- John Smith commented on "Getting started with NestJS": http://localhost:5174/posts/getting-started-with-nestjs\n  "Great article, thanks for sharing!"')
+      expect(content).toContain('Unsubscribe from all notification emails: http://localhost:5173/unsubscribe?token=preview')
     })
   })
 })
@@ -1,81 +1,66 @@
+import { EntityManager } from '@mikro-orm/core'
 import { Injectable, Logger } from '@nestjs/common'
-import { createTransport, Transporter } from 'nodemailer'
-import { config } from '../../config/env.config'
+import { EmailJob } from './email.entity'
+import { EmailLocale } from './templates/email-template'
+import { EmailTemplateName, EmailTemplateVariables, renderEmailTemplate } from './templates/email-templates'
 
 export interface EmailOptions {
   to: string
   subject: string
   content: string
   html?: string
+  headers?: Record<string, string>
 }
 
-interface SmtpConfig {
-  host: string
-  port: number
-  secure: boolean
-  auth?: {
-    user: string
-    pass: string
-  }
+export interface TemplateEmailOptions<T extends EmailTemplateName> {
+  to: string
+  variables: EmailTemplateVariables<T>
+  locale?: EmailLocale
+  headers?: Record<string, string>
 }
 
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name)
-  private transporter: Transporter
-
-  constructor() {
-    const transportConfig: SmtpConfig = {
-      host: config.email.host,
-      port: config.email.port,
-      secure: config.email.secure,
-    }
 
-    // Only add auth if user and password are provided
-    if (config.email.user && config.email.password) {
-      transportConfig.auth = {
-        user: config.email.user,
-        pass: config.email.password,
-      }
-    }
-
-    this.transporter = createTransport(transportConfig)
-  }
+  constructor(private readonly em: EntityManager) {}
 
+  /**
+   * Queues an email, delivered shortly after by the EmailQueueProcessor.
+   * Delivery failures are retried, so they never reach the caller.
+   */
   async sendEmail({
     to,
     subject,
     content,
     html,
-  }: EmailOptions): Promise<void> {
-    try {
-      const mailOptions = {
-        from: config.email.from,
-        to,
-        subject,
-        text: content,
-        html: html || content,
-      }
+    headers,
+  }: EmailOptions): Promise<EmailJob> {
+    const job = new EmailJob()
+    job.to = to
+    job.subject = subject
+    job.content = content
+    job.html = html
+    job.headers = headers
 
-      const info = await this.transporter.sendMail(mailOptions)
+    // A fork, as emails are also sent outside of the request context, e.g. from the auth hooks
+    await this.em.fork().persistAndFlush(job)
 
-      this.logger.log(`Email sent successfully to ${to}: ${info.messageId}`)
-    }
-    catch (error) {
-      this.logger.error(`Failed to send email to ${to}:`, error)
-      throw new Error(`Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
+    this.logger.log(`Email queued for ${to}: ${job.id}`)
+    return job
   }
 
-  async verifyConnection(): Promise<boolean> {
-    try {
-      await this.transporter.verify()
-      this.logger.log('Email service connection verified successfully')
-      return true
-    }
-    catch (error) {
-      this.logger.error('Email service connection verification failed:', error)
-      return false
-    }
+  /**
+   * Renders a template and queues it, with both its HTML and plain text versions.
+   */
+  async sendTemplate<T extends EmailTemplateName>(
+    template: T,
+    { to, variables, locale, headers }: TemplateEmailOptions<T>,
+  ): Promise<EmailJob> {
+    return this.sendEmail({
+      to,
+      ...renderEmailTemplate(template, variables, locale),
+      headers,
+    })
   }
 }
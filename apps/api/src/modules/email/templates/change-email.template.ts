@@ -0,0 +1,28 @@
+import { EmailTemplate, escapeHtml, renderEmailButton } from './email-template'
+
+export interface ChangeEmailVariables {
+  userName: string
+  newEmail: string
+  url: string
+}
+
+// Sent to the current address, the new one is verified once the change is approved
+export const changeEmailTemplate: EmailTemplate<ChangeEmailVariables> = {
+  subject: {
+    en: () => 'Approve your email change',
+  },
+  render: ({ userName, newEmail, url }) => ({
+    preheader: `Your email is about to change to ${newEmail}`,
+    body: [
+      `<p>Hello ${escapeHtml(userName)},</p>`,
+      `<p>You asked to change the email address of your account to <strong>${escapeHtml(newEmail)}</strong>. Please approve this change by clicking on the button below:</p>`,
+      renderEmailButton(url, 'Approve the change'),
+      '<p>We will then send a verification link to your new address. If you did not ask for this change, you can safely ignore this email.</p>',
+    ].join(''),
+  }),
+  previewVariables: {
+    userName: 'Jane Doe',
+    newEmail: 'jane.doe@example.com',
+    url: 'http://localhost:5173/verify-email?token=preview',
+  },
+}
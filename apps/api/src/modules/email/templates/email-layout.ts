@@ -0,0 +1,35 @@
+import { EmailTemplateContent, escapeHtml } from './email-template'
+
+const BRAND_NAME = 'Lonestone'
+
+/**
+ * Wraps the body of a template in the branded layout shared by all the emails.
+ * Styles are inlined, as most mail clients ignore stylesheets.
+ */
+export function renderEmailLayout(subject: string, { preheader, body, footer }: EmailTemplateContent) {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(subject)}</title>`,
+    '</head>',
+    '<body style="margin:0;padding:0;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Roboto,Helvetica,Arial,sans-serif;color:#18181b">',
+    preheader ? `<div style="display:none;max-height:0;overflow:hidden">${escapeHtml(preheader)}</div>` : '',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:32px 16px">',
+    '<tr><td align="center">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px">',
+    `<tr><td style="padding:0 0 16px;font-size:20px;font-weight:700">${BRAND_NAME}</td></tr>`,
+    `<tr><td style="padding:32px;background:#ffffff;border-radius:8px;font-size:15px;line-height:1.6">${body}</td></tr>`,
+    '<tr><td style="padding:16px 0;font-size:12px;line-height:1.5;color:#71717a">',
+    footer ? `<p style="margin:0 0 8px">${footer}</p>` : '',
+    `<p style="margin:0">You received this email because you have an account on ${BRAND_NAME}.</p>`,
+    '</td></tr>',
+    '</table>',
+    '</td></tr>',
+    '</table>',
+    '</body>',
+    '</html>',
+  ].join('')
+}
@@ -0,0 +1,38 @@
+// Locales in which the email subjects are available, the first one being the default
+export const emailLocales = ['en'] as const
+export type EmailLocale = typeof emailLocales[number]
+export const defaultEmailLocale: EmailLocale = 'en'
+
+export interface EmailTemplateContent {
+  // Short summary shown by the mail clients next to the subject
+  preheader?: string
+  // HTML of the email body, wrapped in the shared layout
+  body: string
+  // HTML appended to the layout footer, e.g. unsubscribe links
+  footer?: string
+}
+
+/**
+ * A transactional email, rendered from typed variables.
+ * The plain text version is generated from the HTML, so templates only have to write HTML.
+ */
+export interface EmailTemplate<TVariables> {
+  subject: Record<EmailLocale, (variables: TVariables) => string>
+  render: (variables: TVariables) => EmailTemplateContent
+  // Variables used to render the template in the preview route
+  previewVariables: TVariables
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Renders a call to action link, styled as a button by the layout
+export function renderEmailButton(url: string, label: string) {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(url)}" class="button" style="display:inline-block;padding:12px 20px;border-radius:6px;background:#18181b;color:#ffffff;font-weight:600;text-decoration:none">${escapeHtml(label)}</a></p>`
+}
@@ -0,0 +1,63 @@
+import { changeEmailTemplate, ChangeEmailVariables } from './change-email.template'
+import { renderEmailLayout } from './email-layout'
+import { defaultEmailLocale, EmailLocale, EmailTemplate } from './email-template'
+import { htmlToText } from './html-to-text'
+import { MagicLinkEmailVariables, magicLinkTemplate } from './magic-link.template'
+import { NotificationsEmailVariables, notificationsTemplate } from './notifications.template'
+import { PostInvitationEmailVariables, postInvitationTemplate } from './post-invitation.template'
+import { ResetPasswordEmailVariables, resetPasswordTemplate } from './reset-password.template'
+import { SignInCodeEmailVariables, signInCodeTemplate } from './sign-in-code.template'
+import { verifyEmailTemplate, VerifyEmailVariables } from './verify-email.template'
+
+// Variables of each template, by template name
+interface EmailTemplatesVariables {
+  'reset-password': ResetPasswordEmailVariables
+  'verify-email': VerifyEmailVariables
+  'change-email': ChangeEmailVariables
+  'magic-link': MagicLinkEmailVariables
+  'sign-in-code': SignInCodeEmailVariables
+  'notifications': NotificationsEmailVariables
+  'post-invitation': PostInvitationEmailVariables
+}
+
+export type EmailTemplateName = keyof EmailTemplatesVariables
+export type EmailTemplateVariables<T extends EmailTemplateName> = EmailTemplatesVariables[T]
+
+export const emailTemplates: { [T in EmailTemplateName]: EmailTemplate<EmailTemplateVariables<T>> } = {
+  'reset-password': resetPasswordTemplate,
+  'verify-email': verifyEmailTemplate,
+  'change-email': changeEmailTemplate,
+  'magic-link': magicLinkTemplate,
+  'sign-in-code': signInCodeTemplate,
+  'notifications': notificationsTemplate,
+  'post-invitation': postInvitationTemplate,
+}
+
+export interface RenderedEmail {
+  subject: string
+  content: string
+  html: string
+}
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.hasOwn(emailTemplates, name)
+}
+
+/**
+ * Renders the subject, the HTML and the plain text versions of an email.
+ */
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  name: T,
+  variables: EmailTemplateVariables<T>,
+  locale: EmailLocale = defaultEmailLocale,
+): RenderedEmail {
+  const template: EmailTemplate<EmailTemplateVariables<T>> = emailTemplates[name]
+  const subject = template.subject[locale](variables)
+  const content = template.render(variables)
+
+  return {
+    subject,
+    content: [content.body, content.footer].filter(Boolean).map(html => htmlToText(html!)).join('\n\n'),
+    html: renderEmailLayout(subject, content),
+  }
+}
@@ -0,0 +1,38 @@
+const entities: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': '\'',
+  '&nbsp;': ' ',
+}
+
+function decodeEntities(value: string) {
+  return value.replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, entity => entities[entity])
+}
+
+/**
+ * Converts the HTML of a template to the plain text version of the email.
+ * Only handles the tags used by the templates: paragraphs, lists, quotes and links.
+ */
+export function htmlToText(html: string) {
+  const text = html
+    .replace(/\s*\n\s*/g, ' ')
+    // Links keep their URL, unless it is the text of the link
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, (_, href: string, label: string) => {
+      const strippedLabel = label.replace(/<[^>]+>/g, '')
+      return strippedLabel === href ? href : `${strippedLabel}: ${href}`
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<blockquote[^>]*>(.*?)<\/blockquote>/gi, '\n  "$1"')
+    .replace(/<\/(?:p|h[1-6]|ul|ol|div|table|tr)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,26 @@
+import { EmailTemplate, renderEmailButton } from './email-template'
+
+export interface MagicLinkEmailVariables {
+  url: string
+  expiresInMinutes: number
+}
+
+// Also sent to unknown addresses, whose account is created when clicking on the link
+export const magicLinkTemplate: EmailTemplate<MagicLinkEmailVariables> = {
+  subject: {
+    en: () => 'Your login link',
+  },
+  render: ({ url, expiresInMinutes }) => ({
+    preheader: 'Log in without a password',
+    body: [
+      '<p>Hello,</p>',
+      '<p>Click on the button below to log in:</p>',
+      renderEmailButton(url, 'Log in'),
+      `<p>This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not ask for it, you can safely ignore this email.</p>`,
+    ].join(''),
+  }),
+  previewVariables: {
+    url: 'http://localhost:3000/api/auth/magic-link/verify?token=preview',
+    expiresInMinutes: 10,
+  },
+}
@@ -0,0 +1,92 @@
+import { EmailTemplate, escapeHtml } from './email-template'
+
+export interface NotificationsEmailItem {
+  type: 'comment' | 'reply'
+  actorName: string
+  postTitle: string
+  excerpt: string | null
+  url: string | null
+}
+
+export interface NotificationsEmailVariables {
+  userName: string
+  frequency: 'immediate' | 'daily' | 'weekly'
+  notifications: NotificationsEmailItem[]
+  settingsUrl: string
+  unsubscribeUrl: string
+}
+
+function describeNotification(notification: NotificationsEmailItem) {
+  return notification.type === 'reply'
+    ? `${notification.actorName} replied to your comment on "${notification.postTitle}"`
+    : `${notification.actorName} commented on "${notification.postTitle}"`
+}
+
+function countNotifications(notifications: NotificationsEmailItem[]) {
+  return `${notifications.length} new notification${notifications.length > 1 ? 's' : ''}`
+}
+
+/**
+ * The notifications of a user, sent right away or as a digest.
+ */
+export const notificationsTemplate: EmailTemplate<NotificationsEmailVariables> = {
+  subject: {
+    en: ({ frequency, notifications }) => {
+      switch (frequency) {
+        case 'daily':
+          return `Your daily digest: ${countNotifications(notifications)}`
+        case 'weekly':
+          return `Your weekly digest: ${countNotifications(notifications)}`
+        case 'immediate':
+          return notifications.length === 1 ? describeNotification(notifications[0]) : countNotifications(notifications)
+      }
+    },
+  },
+  render: ({ userName, notifications, settingsUrl, unsubscribeUrl }) => {
+    const items = notifications.map((notification) => {
+      const description = escapeHtml(describeNotification(notification))
+      return [
+        '<li style="margin:0 0 16px">',
+        notification.url ? `<a href="${escapeHtml(notification.url)}">${description}</a>` : description,
+        notification.excerpt
+          ? `<blockquote style="margin:8px 0 0;padding-left:12px;border-left:3px solid #e4e4e7;color:#52525b">${escapeHtml(notification.excerpt)}</blockquote>`
+          : '',
+        '</li>',
+      ].join('')
+    })
+
+    return {
+      preheader: countNotifications(notifications),
+      body: [
+        `<p>Hello ${escapeHtml(userName)},</p>`,
+        `<ul style="padding-left:20px">${items.join('')}</ul>`,
+      ].join(''),
+      footer: [
+        `<a href="${escapeHtml(settingsUrl)}">Manage your email notifications</a>`,
+        `<a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe from all notification emails</a>`,
+      ].join('<br>'),
+    }
+  },
+  previewVariables: {
+    userName: 'Jane Doe',
+    frequency: 'daily',
+    notifications: [
+      {
+        type: 'comment',
+        actorName: 'John Smith',
+        postTitle: 'Getting started with NestJS',
+        excerpt: 'Great article, thanks for sharing!',
+        url: 'http://localhost:5174/posts/getting-started-with-nestjs',
+      },
+      {
+        type: 'reply',
+        actorName: 'Anonymous',
+        postTitle: 'Deploying with Docker',
+        excerpt: 'I had the same issue, updating the image fixed it.',
+        url: 'http://localhost:5174/posts/deploying-with-docker',
+      },
+    ],
+    settingsUrl: 'http://localhost:5173/dashboard/settings/notifications',
+    unsubscribeUrl: 'http://localhost:5173/unsubscribe?token=preview',
+  },
+}
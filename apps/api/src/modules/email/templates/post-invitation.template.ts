@@ -0,0 +1,29 @@
+import { EmailTemplate, escapeHtml, renderEmailButton } from './email-template'
+
+export interface PostInvitationEmailVariables {
+  inviterName: string
+  postTitle: string
+  role: 'editor' | 'viewer'
+  url: string
+}
+
+export const postInvitationTemplate: EmailTemplate<PostInvitationEmailVariables> = {
+  subject: {
+    en: ({ inviterName, postTitle }) => `${inviterName} invited you to collaborate on "${postTitle}"`,
+  },
+  render: ({ inviterName, postTitle, role, url }) => ({
+    preheader: `Join "${postTitle}" as ${role === 'editor' ? 'an editor' : 'a viewer'}`,
+    body: [
+      '<p>Hello,</p>',
+      `<p>${escapeHtml(inviterName)} invited you to collaborate on <strong>${escapeHtml(postTitle)}</strong> as ${role === 'editor' ? 'an editor, to edit its drafts' : 'a viewer, to read its drafts'}.</p>`,
+      renderEmailButton(url, 'See the invitation'),
+      '<p>You will be asked to log in, or to create an account with this email address.</p>',
+    ].join(''),
+  }),
+  previewVariables: {
+    inviterName: 'Jane Doe',
+    postTitle: 'My first post',
+    role: 'editor',
+    url: 'http://localhost:5173/dashboard/invitations',
+  },
+}
@@ -0,0 +1,25 @@
+import { EmailTemplate, escapeHtml, renderEmailButton } from './email-template'
+
+export interface ResetPasswordEmailVariables {
+  userName: string
+  url: string
+}
+
+export const resetPasswordTemplate: EmailTemplate<ResetPasswordEmailVariables> = {
+  subject: {
+    en: () => 'Reset your password',
+  },
+  render: ({ userName, url }) => ({
+    preheader: 'Choose a new password for your account',
+    body: [
+      `<p>Hello ${escapeHtml(userName)},</p>`,
+      '<p>We received a request to reset your password. Click on the button below to choose a new one:</p>',
+      renderEmailButton(url, 'Reset my password'),
+      '<p>If you did not request a password reset, you can safely ignore this email.</p>',
+    ].join(''),
+  }),
+  previewVariables: {
+    userName: 'Jane Doe',
+    url: 'http://localhost:5173/reset-password?token=preview',
+  },
+}
@@ -0,0 +1,25 @@
+import { EmailTemplate, escapeHtml } from './email-template'
+
+export interface SignInCodeEmailVariables {
+  code: string
+  expiresInMinutes: number
+}
+
+export const signInCodeTemplate: EmailTemplate<SignInCodeEmailVariables> = {
+  subject: {
+    en: ({ code }) => `${code} is your login code`,
+  },
+  render: ({ code, expiresInMinutes }) => ({
+    preheader: 'Log in without a password',
+    body: [
+      '<p>Hello,</p>',
+      '<p>Enter this code to log in:</p>',
+      `<p style="margin:24px 0;font-size:28px;font-weight:600;letter-spacing:6px">${escapeHtml(code)}</p>`,
+      `<p>This code expires in ${expiresInMinutes} minutes. If you did not ask for it, you can safely ignore this email.</p>`,
+    ].join(''),
+  }),
+  previewVariables: {
+    code: '123456',
+    expiresInMinutes: 10,
+  },
+}
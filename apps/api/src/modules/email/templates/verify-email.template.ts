@@ -0,0 +1,25 @@
+import { EmailTemplate, escapeHtml, renderEmailButton } from './email-template'
+
+export interface VerifyEmailVariables {
+  userName: string
+  url: string
+}
+
+export const verifyEmailTemplate: EmailTemplate<VerifyEmailVariables> = {
+  subject: {
+    en: () => 'Verify your email',
+  },
+  render: ({ userName, url }) => ({
+    preheader: 'Confirm your email address to finish signing up',
+    body: [
+      `<p>Hello ${escapeHtml(userName)},</p>`,
+      '<p>Please confirm your email address by clicking on the button below:</p>',
+      renderEmailButton(url, 'Verify my email'),
+      '<p>If you did not create an account, you can safely ignore this email.</p>',
+    ].join(''),
+  }),
+  previewVariables: {
+    userName: 'Jane Doe',
+    url: 'http://localhost:5173/verify-email?token=preview',
+  },
+}
@@ -0,0 +1,236 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import { GenericContainer, StartedTestContainer, Wait } from 'testcontainers'
+import { closeTestApp, initializeTestApp, TestAppContext } from '../../../test/test.utils'
+import { EmailQueueService, MAX_EMAIL_ATTEMPTS } from '../email-queue.service'
+import { EmailDelivery, EmailJob } from '../email.entity'
+import { EmailModule } from '../email.module'
+import { EmailService } from '../email.service'
+import { EMAIL_TRANSPORT } from '../transports/email-transport'
+import { MemoryEmailTransport } from '../transports/memory-email.transport'
+import { SmtpEmailTransport } from '../transports/smtp-email.transport'
+
+const SECOND = 1000
+
+describe('email (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+  let em: EntityManager
+  let emailService: EmailService
+  let emailQueueService: EmailQueueService
+  const transport = new MemoryEmailTransport()
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [EmailModule],
+      providers: [{ provide: EMAIL_TRANSPORT, useValue: transport }],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+    emailService = app.get(EmailService)
+    emailQueueService = app.get(EmailQueueService)
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    em.clear()
+    transport.clear()
+    jest.restoreAllMocks()
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  const findJob = async (id: string) => em.fork().findOneOrFail(EmailJob, id, { populate: ['deliveries'] })
+
+  describe('sendEmail', () => {
+    it('should queue the email without sending it', async () => {
+      const job = await emailService.sendEmail({
+        to: 'test@example.com',
+        subject: 'Test Subject',
+        content: 'Test content',
+      })
+
+      expect(await findJob(job.id)).toMatchObject({
+        to: 'test@example.com',
+        subject: 'Test Subject',
+        content: 'Test content',
+        status: 'pending',
+        attempts: 0,
+      })
+      expect(transport.emails).toEqual([])
+    })
+  })
+
+  describe('sendTemplate', () => {
+    it('should wrap the template in the layout and escape the variables', async () => {
+      const job = await emailService.sendTemplate('verify-email', {
+        to: 'test@example.com',
+        variables: {
+          userName: '<b>Jane</b>',
+          url: 'https://example.com/verify-email?token=abc&next=1',
+        },
+      })
+
+      expect(job.subject).toBe('Verify your email')
+      expect(job.html).toMatch(/^<!DOCTYPE html>/)
+      expect(job.html).toContain('<title>Verify your email</title>')
+      expect(job.html).toContain('Hello &lt;b&gt;Jane&lt;/b&gt;,')
+      expect(job.html).toContain('href="https://example.com/verify-email?token=abc&amp;next=1"')
+    })
+
+    it('should generate the plain text version from the HTML', async () => {
+      const job = await emailService.sendTemplate('reset-password', {
+        to: 'test@example.com',
+        variables: {
+          userName: 'Jane & John',
+          url: 'https://example.com/reset-password?token=abc',
+        },
+      })
+
+      expect(job.content).not.toMatch(/<[^>]+>/)
+      expect(job.content).toContain('Hello Jane & John,')
+      expect(job.content).toContain('Reset my password: https://example.com/reset-password?token=abc')
+    })
+  })
+
+  describe('processQueue', () => {
+    it('should deliver the queued emails once and log the delivery', async () => {
+      const job = await emailService.sendEmail({
+        to: 'test@example.com',
+        subject: 'Test Subject',
+        content: 'Test content',
+        html: '<h1>Test HTML</h1>',
+        headers: { 'X-Test': 'test' },
+      })
+
+      const firstCount = await emailQueueService.processQueue()
+      const secondCount = await emailQueueService.processQueue()
+
+      expect(firstCount).toBe(1)
+      expect(secondCount).toBe(0)
+      expect(transport.emails).toEqual([{
+        from: expect.any(String),
+        to: 'test@example.com',
+        subject: 'Test Subject',
+        text: 'Test content',
+        html: '<h1>Test HTML</h1>',
+        headers: { 'X-Test': 'test' },
+        messageId: expect.any(String),
+      }])
+
+      const sentJob = await findJob(job.id)
+      expect(sentJob).toMatchObject({ status: 'sent', attempts: 1, sentAt: expect.any(Date) })
+      expect(sentJob.deliveries.getItems()).toMatchObject([
+        { attempt: 1, status: 'sent', messageId: transport.emails[0].messageId },
+      ])
+    })
+
+    it('should retry the failed emails with an exponential backoff', async () => {
+      jest.spyOn(transport, 'send')
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockRejectedValueOnce(new Error('Connection refused'))
+      const job = await emailService.sendEmail({ to: 'test@example.com', subject: 'Retried', content: 'Content' })
+      const now = Date.now()
+
+      await emailQueueService.processQueue(new Date(now))
+      const firstFailedJob = await findJob(job.id)
+      await emailQueueService.processQueue(new Date(now + 10 * SECOND))
+      await emailQueueService.processQueue(new Date(now + 30 * SECOND))
+      const secondFailedJob = await findJob(job.id)
+      await emailQueueService.processQueue(new Date(now + 60 * SECOND))
+      await emailQueueService.processQueue(new Date(now + 90 * SECOND))
+      const sentJob = await findJob(job.id)
+
+      expect(firstFailedJob).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        lastError: 'Connection refused',
+        nextAttemptAt: new Date(now + 30 * SECOND),
+      })
+      expect(secondFailedJob).toMatchObject({ status: 'pending', attempts: 2, nextAttemptAt: new Date(now + 90 * SECOND) })
+      expect(sentJob).toMatchObject({ status: 'sent', attempts: 3 })
+      expect(transport.send).toHaveBeenCalledTimes(3)
+      expect(transport.emails).toHaveLength(1)
+      expect(await em.fork().count(EmailDelivery, { job: job.id, status: 'failed' })).toBe(2)
+    })
+
+    it('should dead-letter the emails failing too many times', async () => {
+      jest.spyOn(transport, 'send').mockRejectedValue(new Error('Mailbox unavailable'))
+      const job = await emailService.sendEmail({ to: 'test@example.com', subject: 'Dead', content: 'Content' })
+
+      let now = Date.now()
+      for (let attempt = 0; attempt <= MAX_EMAIL_ATTEMPTS; attempt++) {
+        await emailQueueService.processQueue(new Date(now))
+        now += 24 * 60 * 60 * SECOND
+      }
+
+      expect(await findJob(job.id)).toMatchObject({ status: 'dead', attempts: MAX_EMAIL_ATTEMPTS })
+      expect(transport.send).toHaveBeenCalledTimes(MAX_EMAIL_ATTEMPTS)
+    })
+
+    it('should retry the emails of a worker that stopped while sending them', async () => {
+      const job = await emailService.sendEmail({ to: 'test@example.com', subject: 'Locked', content: 'Content' })
+      const now = Date.now()
+      await em.fork().nativeUpdate(EmailJob, job.id, {
+        status: 'processing',
+        attempts: 1,
+        lockedUntil: new Date(now + 60 * SECOND),
+      })
+
+      const countWhileLocked = await emailQueueService.processQueue(new Date(now))
+      const countOnceUnlocked = await emailQueueService.processQueue(new Date(now + 2 * 60 * SECOND))
+
+      expect(countWhileLocked).toBe(0)
+      expect(countOnceUnlocked).toBe(1)
+      expect(await findJob(job.id)).toMatchObject({ status: 'sent', attempts: 2 })
+    })
+  })
+
+  describe('delivery to maildev', () => {
+    let maildevContainer: StartedTestContainer
+
+    beforeAll(async () => {
+      // The maildev image of docker-compose.yml
+      maildevContainer = await new GenericContainer('maildev/maildev:2.2.1')
+        .withExposedPorts(1025, 1080)
+        .withWaitStrategy(Wait.forListeningPorts())
+        .start()
+    })
+
+    afterAll(async () => {
+      await maildevContainer.stop()
+    })
+
+    it('should deliver the queued emails through SMTP', async () => {
+      const smtpQueueService = new EmailQueueService(em, new SmtpEmailTransport({
+        host: maildevContainer.getHost(),
+        port: maildevContainer.getMappedPort(1025),
+        secure: false,
+      }))
+      const job = await emailService.sendTemplate('reset-password', {
+        to: 'maildev@example.com',
+        variables: { userName: 'Jane', url: 'https://example.com/reset-password?token=abc' },
+      })
+
+      await smtpQueueService.processQueue()
+
+      const response = await fetch(`http://${maildevContainer.getHost()}:${maildevContainer.getMappedPort(1080)}/email`)
+      const emails = await response.json() as Array<{ messageId: string, subject: string, to: Array<{ address: string }>, text: string }>
+      const { deliveries } = await findJob(job.id)
+
+      expect(emails).toMatchObject([{
+        subject: 'Reset your password',
+        to: [{ address: 'maildev@example.com' }],
+        text: expect.stringContaining('https://example.com/reset-password?token=abc'),
+      }])
+      expect(deliveries.getItems()).toMatchObject([{ status: 'sent', messageId: `<${emails[0].messageId}>` }])
+    })
+  })
+})
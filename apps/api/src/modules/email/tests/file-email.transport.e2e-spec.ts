@@ -0,0 +1,40 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileEmailTransport } from '../transports/file-email.transport'
+
+describe('fileEmailTransport', () => {
+  let directory: string
+  let transport: FileEmailTransport
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'emails-e2e-'))
+    transport = new FileEmailTransport(directory)
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should write each email as an .eml file', async () => {
+    const { messageId } = await transport.send({
+      from: 'noreply@example.com',
+      to: 'test@example.com',
+      subject: 'Test Subject',
+      text: 'Test content',
+      html: '<h1>Test HTML</h1>',
+      headers: { 'X-Test': 'test' },
+    })
+
+    const files = await readdir(directory)
+    const eml = await readFile(join(directory, files[0]), 'utf8')
+
+    expect(files).toEqual([expect.stringMatching(/\.eml$/)])
+    expect(eml).toContain(`Message-ID: ${messageId}`)
+    expect(eml).toContain('To: test@example.com')
+    expect(eml).toContain('Subject: Test Subject')
+    expect(eml).toContain('X-Test: test')
+    expect(eml).toContain('Test content')
+    expect(eml).toContain('<h1>Test HTML</h1>')
+  })
+})
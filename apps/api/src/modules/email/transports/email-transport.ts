@@ -0,0 +1,25 @@
+// Injection token of the configured email transport
+export const EMAIL_TRANSPORT = Symbol('EMAIL_TRANSPORT')
+
+export interface EmailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+  headers?: Record<string, string>
+}
+
+export interface SentEmailInfo {
+  // Id of the sent message, logged in the email deliveries
+  messageId: string
+}
+
+/**
+ * An email transport delivers the emails of the queue. Failures are thrown, the queue retries them.
+ */
+export interface EmailTransport {
+  send: (message: EmailMessage) => Promise<SentEmailInfo>
+  // Throws if the transport cannot deliver emails, e.g. when the SMTP server is unreachable
+  verify: () => Promise<void>
+}
@@ -0,0 +1,31 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { createTransport, Transporter } from 'nodemailer'
+import { EmailMessage, EmailTransport } from './email-transport'
+
+// Writes the emails as .eml files, which can be opened by any mail client, for local development and tests
+export class FileEmailTransport implements EmailTransport {
+  private readonly directory: string
+  // Builds the raw messages without sending them
+  private readonly transporter: Transporter
+
+  constructor(directory: string) {
+    this.directory = resolve(directory)
+    this.transporter = createTransport({ streamTransport: true, buffer: true })
+  }
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail(message)
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(join(this.directory, `${Date.now()}-${this.toFileName(info.messageId)}.eml`), info.message)
+    return { messageId: info.messageId }
+  }
+
+  async verify() {
+    await mkdir(this.directory, { recursive: true })
+  }
+
+  private toFileName(messageId: string) {
+    return messageId.replace(/[^\w.-]/g, '')
+  }
+}
@@ -0,0 +1,21 @@
+import { randomUUID } from 'node:crypto'
+import { EmailMessage, EmailTransport, SentEmailInfo } from './email-transport'
+
+export type CapturedEmail = EmailMessage & SentEmailInfo
+
+// Keeps the emails in memory, for the tests to assert on the sent emails
+export class MemoryEmailTransport implements EmailTransport {
+  readonly emails: CapturedEmail[] = []
+
+  async send(message: EmailMessage) {
+    const messageId = `<${randomUUID()}@memory>`
+    this.emails.push({ ...message, messageId })
+    return { messageId }
+  }
+
+  async verify() {}
+
+  clear() {
+    this.emails.length = 0
+  }
+}
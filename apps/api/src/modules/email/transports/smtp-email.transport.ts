@@ -0,0 +1,34 @@
+import { createTransport, Transporter } from 'nodemailer'
+import { EmailMessage, EmailTransport } from './email-transport'
+
+export interface SmtpEmailOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+// Sends the emails to an SMTP server, e.g. MailDev in development
+export class SmtpEmailTransport implements EmailTransport {
+  private readonly transporter: Transporter
+
+  constructor({ host, port, secure, user, password }: SmtpEmailOptions) {
+    this.transporter = createTransport({
+      host,
+      port,
+      secure,
+      // Only add auth if user and password are provided
+      auth: user && password ? { user, pass: password } : undefined,
+    })
+  }
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail(message)
+    return { messageId: info.messageId }
+  }
+
+  async verify() {
+    await this.transporter.verify()
+  }
+}
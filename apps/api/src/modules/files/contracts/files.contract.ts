@@ -0,0 +1,57 @@
+import {
+  createPaginationQuerySchema,
+  paginatedSchema,
+} from '@lonestone/nzoth/server'
+import { z } from 'zod'
+
+// Mime types accepted for uploads, as the files are meant to be used in posts content
+export const allowedFileMimeTypes = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'video/mp4',
+  'video/webm',
+  'video/ogg',
+] as const
+
+export const fileVariantSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+  url: z.string(),
+}).meta({
+  title: 'FileVariantSchema',
+  description: 'Schema for a resized variant of an uploaded image',
+})
+
+export const fileSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  url: z.string(),
+  width: z.number().nullish(),
+  height: z.number().nullish(),
+  placeholder: z.string().nullish().meta({
+    description: 'Blurry low quality version of the image, as a data URL',
+  }),
+  variants: z.array(fileVariantSchema),
+  createdAt: z.date(),
+}).meta({
+  title: 'FileSchema',
+  description: 'Schema for an uploaded file',
+})
+
+export type FileResponse = z.infer<typeof fileSchema>
+
+export const filesSchema = paginatedSchema(fileSchema).meta({
+  title: 'FilesSchema',
+  description: 'Schema for a paginated list of uploaded files',
+})
+
+export type FilesResponse = z.infer<typeof filesSchema>
+
+export const filePaginationSchema = createPaginationQuerySchema()
+
+export type FilePagination = z.infer<typeof filePaginationSchema>
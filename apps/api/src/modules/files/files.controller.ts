@@ -0,0 +1,110 @@
+import {
+  PaginationParams,
+  TypedController,
+  TypedParam,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import {
+  Header,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
+import { ApiBody, ApiConsumes } from '@nestjs/swagger'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { config } from '../../config/env.config'
+import { Session } from '../auth/auth.decorator'
+import { AuthGuard } from '../auth/auth.guard'
+import {
+  FilePagination,
+  filePaginationSchema,
+  fileSchema,
+  filesSchema,
+} from './contracts/files.contract'
+import { FilesService } from './files.service'
+
+@TypedController('admin/files', undefined, {
+  tags: ['Admin Files'],
+})
+@UseGuards(AuthGuard)
+export class FilesController {
+  constructor(private readonly filesService: FilesService) {}
+
+  @TypedRoute.Post('', fileSchema)
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+      required: ['file'],
+    },
+  })
+  @UseInterceptors(FileInterceptor('file', {
+    limits: { fileSize: config.storage.maxFileSize },
+  }))
+  async uploadFile(
+    @Session() session: LoggedInBetterAuthSession,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ) {
+    return await this.filesService.uploadFile(session.user.id, file)
+  }
+
+  @TypedRoute.Get('', filesSchema)
+  async getFiles(
+    @Session() session: LoggedInBetterAuthSession,
+    @PaginationParams(filePaginationSchema) pagination: FilePagination,
+  ) {
+    return await this.filesService.getUserFiles(session.user.id, pagination)
+  }
+
+  @TypedRoute.Delete(':id')
+  async deleteFile(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('id', z.string().uuid()) id: string,
+  ) {
+    await this.filesService.deleteFile(session.user.id, id)
+    return { success: true }
+  }
+}
+
+@TypedController('public/files', undefined, {
+  tags: ['Public Files'],
+})
+export class PublicFilesController {
+  constructor(private readonly filesService: FilesService) {}
+
+  // Files never change once uploaded, so they can be cached forever
+  @TypedRoute.Get(':id')
+  @Header('Cache-Control', 'public, max-age=31536000, immutable')
+  @Header('X-Content-Type-Options', 'nosniff')
+  async getFile(@TypedParam('id', z.string().uuid()) id: string) {
+    const { stream, mimeType, size } = await this.filesService.getFileContent(id)
+
+    return new StreamableFile(stream, {
+      type: mimeType,
+      length: size,
+      disposition: 'inline',
+    })
+  }
+
+  @TypedRoute.Get(':id/variants/:width')
+  @Header('Cache-Control', 'public, max-age=31536000, immutable')
+  @Header('X-Content-Type-Options', 'nosniff')
+  async getFileVariant(
+    @TypedParam('id', z.string().uuid()) id: string,
+    @TypedParam('width', z.coerce.number().int().positive()) width: number,
+  ) {
+    const { stream, mimeType, size } = await this.filesService.getFileContent(id, width)
+
+    return new StreamableFile(stream, {
+      type: mimeType,
+      length: size,
+      disposition: 'inline',
+    })
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Unique,
+} from '@mikro-orm/core'
+import { User } from '../auth/auth.entity'
+
+// A resized version of an uploaded image, stored alongside the original
+export interface FileVariant {
+  width: number
+  height: number
+  key: string
+  size: number
+}
+
+@Entity({ tableName: 'file' })
+export class File {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => User, { fieldName: 'userId', deleteRule: 'cascade' })
+  @Index()
+  user!: User
+
+  // Key of the file content in the storage driver
+  @Property()
+  @Unique()
+  key!: string
+
+  // Original name of the uploaded file
+  @Property()
+  name!: string
+
+  @Property({ fieldName: 'mimeType' })
+  mimeType!: string
+
+  // Size in bytes
+  @Property()
+  size!: number
+
+  // Dimensions and placeholder are only set for images
+  @Property({ nullable: true })
+  width?: number
+
+  @Property({ nullable: true })
+  height?: number
+
+  @Property({ type: 'text', nullable: true })
+  placeholder?: string
+
+  @Property({ type: 'json' })
+  variants: FileVariant[] = []
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { FilesController, PublicFilesController } from './files.controller'
+import { FilesService } from './files.service'
+import { ImagesService } from './images.service'
+import { LocalStorageDriver } from './storage/local-storage.driver'
+import { S3StorageDriver } from './storage/s3-storage.driver'
+import { STORAGE_DRIVER, StorageDriver } from './storage/storage-driver'
+
+function createStorageDriver(): StorageDriver {
+  if (config.storage.driver === 's3') {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey, forcePathStyle } = config.storage.s3
+    if (!bucket || !accessKeyId || !secretAccessKey)
+      throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required by the s3 storage driver')
+
+    return new S3StorageDriver({ endpoint, region, bucket, accessKeyId, secretAccessKey, forcePathStyle })
+  }
+
+  return new LocalStorageDriver(config.storage.local.path)
+}
+
+@Module({
+  controllers: [FilesController, PublicFilesController],
+  providers: [
+    FilesService,
+    ImagesService,
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: createStorageDriver,
+    },
+  ],
+  exports: [FilesService],
+})
+export class FilesModule {}
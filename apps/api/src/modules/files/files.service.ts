@@ -0,0 +1,191 @@
+import { Buffer } from 'node:buffer'
+import { randomUUID } from 'node:crypto'
+import { extname } from 'node:path'
+import { EntityManager } from '@mikro-orm/core'
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { User } from '../auth/auth.entity'
+import {
+  allowedFileMimeTypes,
+  FilePagination,
+  FileResponse,
+  FilesResponse,
+} from './contracts/files.contract'
+import { File } from './files.entity'
+import { IMAGE_VARIANT_MIME_TYPE, ImagesService, ProcessedImage } from './images.service'
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+  StorageObjectNotFoundError,
+} from './storage/storage-driver'
+
+@Injectable()
+export class FilesService {
+  constructor(
+    private readonly em: EntityManager,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly imagesService: ImagesService,
+  ) {}
+
+  async uploadFile(userId: string, upload: Express.Multer.File | undefined): Promise<FileResponse> {
+    if (!upload) {
+      throw new BadRequestException('A file is required')
+    }
+
+    if (!allowedFileMimeTypes.includes(upload.mimetype as typeof allowedFileMimeTypes[number])) {
+      throw new BadRequestException(
+        `Unsupported file type. Allowed types: ${allowedFileMimeTypes.join(', ')}`,
+      )
+    }
+
+    const file = new File()
+    file.id = randomUUID()
+    file.user = this.em.getReference(User, userId)
+    file.key = `${userId}/${file.id}${extname(upload.originalname).toLowerCase()}`
+    file.name = upload.originalname
+    file.mimeType = upload.mimetype
+    file.size = upload.size
+
+    if (this.imagesService.isProcessable(file.mimeType)) {
+      await this.storeImageVariants(file, upload.buffer)
+    }
+
+    // The content is stored first so that we never keep a file without content
+    await this.storage.put(file.key, upload.buffer, file.mimeType)
+    try {
+      await this.em.persistAndFlush(file)
+    }
+    catch (error) {
+      // Nothing would refer to the stored content without the file
+      await this.deleteStoredContent(file)
+      throw error
+    }
+
+    return this.toFileResponse(file)
+  }
+
+  async getUserFiles(userId: string, pagination: FilePagination): Promise<FilesResponse> {
+    const [files, total] = await this.em.findAndCount(
+      File,
+      { user: userId },
+      {
+        orderBy: { createdAt: 'DESC' },
+        limit: pagination.pageSize,
+        offset: pagination.offset,
+      },
+    )
+
+    return {
+      data: files.map(file => this.toFileResponse(file)),
+      meta: {
+        itemCount: total,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: pagination.offset + pagination.pageSize < total,
+      },
+    }
+  }
+
+  async deleteFile(userId: string, fileId: string) {
+    const file = await this.em.findOne(File, { id: fileId, user: userId })
+    if (!file)
+      throw new NotFoundException('File not found')
+
+    await this.deleteStoredContent(file)
+    await this.em.removeAndFlush(file)
+  }
+
+  /**
+   * Deletes all the files of a user from the storage and the database, e.g. when their account is deleted
+   */
+  async deleteUserFiles(userId: string) {
+    const files = await this.em.find(File, { user: userId })
+
+    await Promise.all(files.map(file => this.deleteStoredContent(file)))
+    await this.em.removeAndFlush(files)
+  }
+
+  /**
+   * Returns the content of a file, or of one of its variants when a width is given
+   */
+  async getFileContent(fileId: string, width?: number) {
+    const file = await this.em.findOne(File, { id: fileId })
+    if (!file)
+      throw new NotFoundException('File not found')
+
+    const variant = width === undefined
+      ? undefined
+      : file.variants.find(variant => variant.width === width)
+    if (width !== undefined && !variant)
+      throw new NotFoundException('File variant not found')
+
+    try {
+      return {
+        stream: await this.storage.get(variant?.key ?? file.key),
+        mimeType: variant ? IMAGE_VARIANT_MIME_TYPE : file.mimeType,
+        size: variant?.size ?? file.size,
+      }
+    }
+    catch (error) {
+      if (error instanceof StorageObjectNotFoundError)
+        throw new NotFoundException('File not found')
+      throw error
+    }
+  }
+
+  // Files are served by the API whatever the storage driver, so that buckets can stay private
+  getFileUrl(fileId: string) {
+    return `${config.apiUrl}/api/public/files/${fileId}`
+  }
+
+  private async storeImageVariants(file: File, content: Buffer) {
+    let image: ProcessedImage
+    try {
+      image = await this.imagesService.processImage(content)
+    }
+    catch {
+      throw new BadRequestException('The image could not be read')
+    }
+
+    file.width = image.width
+    file.height = image.height
+    file.placeholder = image.placeholder
+    file.variants = await Promise.all(image.variants.map(async (variant) => {
+      const key = `${file.user.id}/${file.id}-${variant.width}w.webp`
+      await this.storage.put(key, variant.content, IMAGE_VARIANT_MIME_TYPE)
+      return { width: variant.width, height: variant.height, key, size: variant.content.length }
+    }))
+  }
+
+  // The content of the file and of its image variants
+  private async deleteStoredContent(file: File) {
+    await Promise.all([
+      this.storage.delete(file.key),
+      ...file.variants.map(variant => this.storage.delete(variant.key)),
+    ])
+  }
+
+  private toFileResponse(file: File): FileResponse {
+    return {
+      id: file.id,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.size,
+      url: this.getFileUrl(file.id),
+      width: file.width,
+      height: file.height,
+      placeholder: file.placeholder,
+      variants: file.variants.map(variant => ({
+        width: variant.width,
+        height: variant.height,
+        url: `${this.getFileUrl(file.id)}/variants/${variant.width}`,
+      })),
+      createdAt: file.createdAt,
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Buffer } from 'node:buffer'
+import { Test, TestingModule } from '@nestjs/testing'
+import sharp from 'sharp'
+import { ImagesService } from './images.service'
+
+function createImage(width: number, height: number) {
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 200, g: 80, b: 20 } },
+  }).png().toBuffer()
+}
+
+describe('imagesService', () => {
+  let service: ImagesService
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ImagesService],
+    }).compile()
+
+    service = module.get<ImagesService>(ImagesService)
+  })
+
+  describe('isProcessable', () => {
+    it('should process still images only', () => {
+      expect(service.isProcessable('image/png')).toBe(true)
+      expect(service.isProcessable('image/gif')).toBe(false)
+      expect(service.isProcessable('video/mp4')).toBe(false)
+    })
+  })
+
+  describe('processImage', () => {
+    it('should return the dimensions, a placeholder and the resized variants', async () => {
+      const result = await service.processImage(await createImage(1200, 600))
+
+      expect(result.width).toBe(1200)
+      expect(result.height).toBe(600)
+      expect(result.placeholder).toMatch(/^data:image\/webp;base64,/)
+      expect(result.variants.map(({ width, height }) => ({ width, height }))).toEqual([
+        { width: 320, height: 160 },
+        { width: 640, height: 320 },
+        { width: 1024, height: 512 },
+      ])
+
+      const variantMetadata = await sharp(result.variants[0].content).metadata()
+      expect(variantMetadata.format).toBe('webp')
+      expect(variantMetadata.width).toBe(320)
+    })
+
+    it('should not upscale small images', async () => {
+      const result = await service.processImage(await createImage(200, 100))
+
+      expect(result.variants).toEqual([])
+    })
+
+    it('should use the displayed dimensions of rotated images', async () => {
+      // EXIF orientation 6 means the image is displayed rotated by 90°
+      const rotatedImage = await sharp(await createImage(800, 400))
+        .withMetadata({ orientation: 6 })
+        .jpeg()
+        .toBuffer()
+
+      const result = await service.processImage(rotatedImage)
+
+      expect(result.width).toBe(400)
+      expect(result.height).toBe(800)
+      expect(result.variants[0]).toMatchObject({ width: 320, height: 640 })
+    })
+
+    it('should reject content that is not an image', async () => {
+      await expect(service.processImage(Buffer.from('not an image'))).rejects.toThrow()
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { Buffer } from 'node:buffer'
+import { Injectable } from '@nestjs/common'
+import sharp from 'sharp'
+
+// Widths of the resized variants generated for each uploaded image
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1024, 1600] as const
+
+// Mime types of the images we can resize. GIFs are left as is to keep their animation
+export const processableImageMimeTypes = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+]
+
+export const IMAGE_VARIANT_MIME_TYPE = 'image/webp'
+
+// Width of the tiny image used as a placeholder while the real one loads
+const PLACEHOLDER_WIDTH = 16
+
+export interface ProcessedImageVariant {
+  width: number
+  height: number
+  content: Buffer
+}
+
+export interface ProcessedImage {
+  width: number
+  height: number
+  // Blurry low quality image, as a data URL that can be inlined in the page
+  placeholder: string
+  variants: ProcessedImageVariant[]
+}
+
+@Injectable()
+export class ImagesService {
+  isProcessable(mimeType: string) {
+    return processableImageMimeTypes.includes(mimeType)
+  }
+
+  async processImage(content: Buffer): Promise<ProcessedImage> {
+    // Applies the EXIF orientation so that the dimensions match what is displayed
+    const image = sharp(content).autoOrient()
+    const { width, height } = (await image.metadata()).autoOrient
+
+    // Images are never upscaled, so smaller images only get the variants they can fill
+    const variantWidths = IMAGE_VARIANT_WIDTHS.filter(variantWidth => variantWidth < width)
+    const variants = await Promise.all(variantWidths.map(async (variantWidth) => {
+      const { data, info } = await image.clone()
+        .resize({ width: variantWidth })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true })
+      return { width: info.width, height: info.height, content: data }
+    }))
+
+    const placeholder = await image.clone()
+      .resize({ width: PLACEHOLDER_WIDTH })
+      .blur()
+      .webp({ quality: 50 })
+      .toBuffer()
+
+    return {
+      width,
+      height,
+      placeholder: `data:${IMAGE_VARIANT_MIME_TYPE};base64,${placeholder.toString('base64')}`,
+      variants,
+    }
+  }
+}
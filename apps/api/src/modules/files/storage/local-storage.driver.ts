@@ -0,0 +1,43 @@
+import { Buffer } from 'node:buffer'
+import { createReadStream } from 'node:fs'
+import { mkdir, rm, stat, writeFile } from 'node:fs/promises'
+import { dirname, resolve, sep } from 'node:path'
+import { Readable } from 'node:stream'
+import { StorageDriver, StorageObjectNotFoundError } from './storage-driver'
+
+// Stores the files on the local filesystem, for development or single-instance deployments
+export class LocalStorageDriver implements StorageDriver {
+  private readonly rootPath: string
+
+  constructor(rootPath: string) {
+    this.rootPath = resolve(rootPath)
+  }
+
+  async put(key: string, body: Buffer) {
+    const path = this.resolveKey(key)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, body)
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.resolveKey(key)
+    const stats = await stat(path).catch(() => null)
+    if (!stats?.isFile())
+      throw new StorageObjectNotFoundError(key)
+
+    return createReadStream(path)
+  }
+
+  async delete(key: string) {
+    await rm(this.resolveKey(key), { force: true })
+  }
+
+  // Prevents keys from escaping the root directory
+  private resolveKey(key: string) {
+    const path = resolve(this.rootPath, key)
+    if (!path.startsWith(`${this.rootPath}${sep}`))
+      throw new Error(`Invalid storage key: ${key}`)
+
+    return path
+  }
+}
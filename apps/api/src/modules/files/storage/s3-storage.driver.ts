@@ -0,0 +1,68 @@
+import { Buffer } from 'node:buffer'
+import { Readable } from 'node:stream'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { StorageDriver, StorageObjectNotFoundError } from './storage-driver'
+
+export interface S3StorageOptions {
+  endpoint?: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  // Required by most S3-compatible services like MinIO
+  forcePathStyle?: boolean
+}
+
+// Stores the files in an S3-compatible bucket (AWS S3, MinIO, Scaleway, OVH...)
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region,
+      forcePathStyle: options.forcePathStyle,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+    })
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }))
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+      }))
+      return response.Body as Readable
+    }
+    catch (error) {
+      if (error instanceof NoSuchKey)
+        throw new StorageObjectNotFoundError(key)
+      throw error
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+    }))
+  }
+}
@@ -0,0 +1,22 @@
+import { Buffer } from 'node:buffer'
+import { Readable } from 'node:stream'
+
+// Injection token of the configured storage driver
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER')
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Storage object not found: ${key}`)
+  }
+}
+
+/**
+ * A storage driver stores the uploaded files content, while their metadata lives in the database.
+ * Keys are relative paths like `userId/fileId.png`.
+ */
+export interface StorageDriver {
+  put: (key: string, body: Buffer, contentType: string) => Promise<void>
+  // Throws a StorageObjectNotFoundError if there is no object for this key
+  get: (key: string) => Promise<Readable>
+  delete: (key: string) => Promise<void>
+}
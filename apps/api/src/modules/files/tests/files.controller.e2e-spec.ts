@@ -0,0 +1,253 @@
+import { Buffer } from 'node:buffer'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import sharp from 'sharp'
+import supertest from 'supertest'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { File } from '../files.entity'
+import { FilesModule } from '../files.module'
+import { FilesService } from '../files.service'
+import { LocalStorageDriver } from '../storage/local-storage.driver'
+import { STORAGE_DRIVER } from '../storage/storage-driver'
+
+// Smallest valid PNG (1x1 transparent pixel)
+const pngContent = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+)
+
+describe('filesController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+  let storagePath: string
+
+  let em: EntityManager
+  let testUser: User
+  let requestWithAuth: ReturnType<typeof initRequestWithAuth>
+
+  beforeAll(async () => {
+    storagePath = await mkdtemp(join(tmpdir(), 'files-e2e-'))
+    testContext = await initializeTestApp({
+      imports: [FilesModule],
+      providers: [
+        { provide: STORAGE_DRIVER, useValue: new LocalStorageDriver(storagePath) },
+      ],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    testUser = await createUserData(em)
+    requestWithAuth = initRequestWithAuth(app, testUser.id)
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+    await rm(storagePath, { recursive: true, force: true })
+  })
+
+  function uploadFile(filename = 'pixel.png', contentType = 'image/png', content: Buffer = pngContent) {
+    return requestWithAuth('post', '/admin/files')
+      .attach('file', content, { filename, contentType })
+  }
+
+  describe('pOST /admin/files', () => {
+    it('should store the file and track its owner, mime type and size', async () => {
+      const response = await uploadFile()
+
+      expect(response.status).toBe(201)
+      expect(response.body).toMatchObject({
+        name: 'pixel.png',
+        mimeType: 'image/png',
+        size: pngContent.length,
+      })
+      expect(response.body.url).toContain(`/api/public/files/${response.body.id}`)
+
+      const file = await em.fork().findOneOrFail(File, { id: response.body.id }, { populate: ['user'] })
+      expect(file.user.id).toBe(testUser.id)
+      expect(file.key.startsWith(`${testUser.id}/`)).toBe(true)
+    })
+
+    it('should generate the resized variants and placeholder of images', async () => {
+      const image = await sharp({
+        create: { width: 800, height: 400, channels: 3, background: { r: 0, g: 120, b: 200 } },
+      }).png().toBuffer()
+
+      const response = await uploadFile('landscape.png', 'image/png', image)
+
+      expect(response.status).toBe(201)
+      expect(response.body).toMatchObject({ width: 800, height: 400 })
+      expect(response.body.placeholder).toMatch(/^data:image\/webp;base64,/)
+      expect(response.body.variants).toEqual([
+        { width: 320, height: 160, url: `${response.body.url}/variants/320` },
+        { width: 640, height: 320, url: `${response.body.url}/variants/640` },
+      ])
+    })
+
+    it('should reject images that cannot be read', async () => {
+      const response = await uploadFile('broken.png', 'image/png', Buffer.from('not an image'))
+
+      expect(response.status).toBe(400)
+      expect(await em.fork().count(File)).toBe(0)
+    })
+
+    it('should reject unsupported file types', async () => {
+      const response = await uploadFile('script.html', 'text/html', Buffer.from('<script></script>'))
+
+      expect(response.status).toBe(400)
+      expect(await em.fork().count(File)).toBe(0)
+    })
+
+    it('should reject a request without a file', async () => {
+      const response = await requestWithAuth('post', '/admin/files')
+        .field('name', 'pixel.png')
+
+      expect(response.status).toBe(400)
+      expect(await em.fork().count(File)).toBe(0)
+    })
+  })
+
+  describe('gET /admin/files', () => {
+    it('should only list the files of the current user', async () => {
+      await uploadFile('first.png')
+      await uploadFile('second.png')
+
+      const otherUser = await createUserData(em)
+      await initRequestWithAuth(app, otherUser.id)('post', '/admin/files')
+        .attach('file', pngContent, { filename: 'other.png', contentType: 'image/png' })
+
+      const response = await requestWithAuth('get', '/admin/files')
+
+      expect(response.status).toBe(200)
+      expect(response.body.meta.itemCount).toBe(2)
+      expect(response.body.data.map((file: { name: string }) => file.name).sort()).toEqual(['first.png', 'second.png'])
+    })
+  })
+
+  describe('gET /public/files/:id', () => {
+    it('should serve the file content with its mime type', async () => {
+      const { body: uploaded } = await uploadFile()
+
+      const response = await supertest(app.getHttpServer())
+        .get(`/public/files/${uploaded.id}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = []
+          res.on('data', (chunk: Buffer) => chunks.push(chunk))
+          res.on('end', () => callback(null, Buffer.concat(chunks)))
+        })
+
+      expect(response.status).toBe(200)
+      expect(response.headers['content-type']).toBe('image/png')
+      expect(response.headers['cache-control']).toContain('immutable')
+      expect(Buffer.compare(response.body as Buffer, pngContent)).toBe(0)
+    })
+
+    it('should serve the resized variants of an image', async () => {
+      const image = await sharp({
+        create: { width: 800, height: 400, channels: 3, background: { r: 0, g: 120, b: 200 } },
+      }).png().toBuffer()
+      const { body: uploaded } = await uploadFile('landscape.png', 'image/png', image)
+
+      const response = await supertest(app.getHttpServer())
+        .get(`/public/files/${uploaded.id}/variants/320`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = []
+          res.on('data', (chunk: Buffer) => chunks.push(chunk))
+          res.on('end', () => callback(null, Buffer.concat(chunks)))
+        })
+
+      expect(response.status).toBe(200)
+      expect(response.headers['content-type']).toBe('image/webp')
+      expect((await sharp(response.body as Buffer).metadata()).width).toBe(320)
+
+      const missingVariantResponse = await supertest(app.getHttpServer())
+        .get(`/public/files/${uploaded.id}/variants/100`)
+      expect(missingVariantResponse.status).toBe(404)
+    })
+
+    it('should return 404 for an unknown file', async () => {
+      const response = await supertest(app.getHttpServer())
+        .get('/public/files/00000000-0000-4000-8000-000000000000')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('when the file cannot be saved', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should delete its content and its image variants', async () => {
+      const image = await sharp({
+        create: { width: 800, height: 400, channels: 3, background: { r: 0, g: 120, b: 200 } },
+      }).png().toBuffer()
+      jest.spyOn(app.get(EntityManager), 'persistAndFlush').mockRejectedValueOnce(new Error('Database unavailable'))
+
+      const response = await uploadFile('landscape.png', 'image/png', image)
+
+      expect(response.status).toBe(500)
+      expect(await em.fork().count(File)).toBe(0)
+      expect(await readdir(join(storagePath, testUser.id))).toEqual([])
+    })
+  })
+
+  describe('dELETE /admin/files/:id', () => {
+    it('should delete the file and its content', async () => {
+      const { body: uploaded } = await uploadFile()
+
+      const response = await requestWithAuth('del', `/admin/files/${uploaded.id}`)
+
+      expect(response.status).toBe(200)
+      expect(response.body).toEqual({ success: true })
+      expect(await em.fork().count(File)).toBe(0)
+
+      const contentResponse = await supertest(app.getHttpServer()).get(`/public/files/${uploaded.id}`)
+      expect(contentResponse.status).toBe(404)
+    })
+
+    it('should not delete a file owned by another user', async () => {
+      const { body: uploaded } = await uploadFile()
+      const otherUser = await createUserData(em)
+
+      const response = await initRequestWithAuth(app, otherUser.id)('del', `/admin/files/${uploaded.id}`)
+
+      expect(response.status).toBe(404)
+      expect(await em.fork().count(File)).toBe(1)
+    })
+  })
+
+  describe('deleteUserFiles', () => {
+    it('should delete all the files of a user and their content', async () => {
+      const { body: uploaded } = await uploadFile()
+      const otherUser = await createUserData(em)
+      await initRequestWithAuth(app, otherUser.id)('post', '/admin/files')
+        .attach('file', pngContent, { filename: 'other.png', contentType: 'image/png' })
+
+      await app.get(FilesService).deleteUserFiles(testUser.id)
+
+      expect(await em.fork().find(File, {})).toMatchObject([{ name: 'other.png' }])
+      const contentResponse = await supertest(app.getHttpServer()).get(`/public/files/${uploaded.id}`)
+      expect(contentResponse.status).toBe(404)
+    })
+  })
+})
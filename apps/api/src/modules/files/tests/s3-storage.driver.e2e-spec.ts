@@ -0,0 +1,63 @@
+import { Buffer } from 'node:buffer'
+import { Readable } from 'node:stream'
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3'
+import { MinioContainer, StartedMinioContainer } from '@testcontainers/minio'
+import { S3StorageDriver, S3StorageOptions } from '../storage/s3-storage.driver'
+import { StorageObjectNotFoundError } from '../storage/storage-driver'
+
+async function readStream(stream: Readable) {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream)
+    chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks)
+}
+
+describe('s3StorageDriver (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let minioContainer: StartedMinioContainer
+  let driver: S3StorageDriver
+
+  beforeAll(async () => {
+    minioContainer = await new MinioContainer('minio/minio:RELEASE.2025-04-22T22-12-26Z').start()
+
+    const options: S3StorageOptions = {
+      endpoint: minioContainer.getConnectionUrl(),
+      region: 'us-east-1',
+      bucket: 'test-bucket',
+      accessKeyId: minioContainer.getUsername(),
+      secretAccessKey: minioContainer.getPassword(),
+      forcePathStyle: true,
+    }
+
+    const client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region,
+      forcePathStyle: true,
+      credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+    })
+    await client.send(new CreateBucketCommand({ Bucket: options.bucket }))
+    client.destroy()
+
+    driver = new S3StorageDriver(options)
+  })
+
+  afterAll(async () => {
+    await minioContainer.stop()
+  })
+
+  it('should store, read and delete an object', async () => {
+    const content = Buffer.from('Hello MinIO')
+
+    await driver.put('user/hello.txt', content, 'text/plain')
+    expect(await readStream(await driver.get('user/hello.txt'))).toEqual(content)
+
+    await driver.delete('user/hello.txt')
+    await expect(driver.get('user/hello.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError)
+  })
+
+  it('should throw a StorageObjectNotFoundError for a missing object', async () => {
+    await expect(driver.get('missing.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError)
+  })
+})
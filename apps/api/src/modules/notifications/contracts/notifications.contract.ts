@@ -0,0 +1,112 @@
+import {
+  createPaginationQuerySchema,
+  paginatedSchema,
+} from '@lonestone/nzoth/server'
+import { z } from 'zod'
+
+export const notificationTypeSchema = z.enum(['comment', 'reply']).meta({
+  title: 'NotificationTypeSchema',
+  description: 'A comment on one of your posts, or a reply to one of your comments',
+})
+
+export const notificationSchema = z.object({
+  id: z.string().uuid(),
+  type: notificationTypeSchema,
+  actorName: z.string().meta({
+    description: 'Name of the author of the comment',
+  }),
+  post: z.object({
+    id: z.string().uuid(),
+    title: z.string(),
+    slug: z.string().nullish(),
+  }),
+  comment: z.object({
+    id: z.string().uuid(),
+    excerpt: z.string().meta({
+      description: 'Beginning of the comment, empty if it has been removed',
+    }),
+  }),
+  url: z.string().nullable().meta({
+    description: 'Link to the post on the public website, null if the post is not published',
+  }),
+  readAt: z.date().nullable(),
+  createdAt: z.date(),
+}).meta({
+  title: 'NotificationSchema',
+  description: 'Schema for a notification',
+})
+
+export type NotificationResponse = z.infer<typeof notificationSchema>
+
+export const notificationsSchema = paginatedSchema(notificationSchema).meta({
+  title: 'NotificationsSchema',
+  description: 'Schema for a paginated list of notifications, from the newest',
+})
+
+export type NotificationsResponse = z.infer<typeof notificationsSchema>
+
+export const notificationPaginationSchema = createPaginationQuerySchema()
+
+export type NotificationPagination = z.infer<typeof notificationPaginationSchema>
+
+export const unreadNotificationsCountSchema = z.object({
+  count: z.number().int(),
+}).meta({
+  title: 'UnreadNotificationsCountSchema',
+  description: 'Number of notifications not read yet',
+})
+
+export type UnreadNotificationsCount = z.infer<typeof unreadNotificationsCountSchema>
+
+export const markNotificationsReadResultSchema = z.object({
+  updated: z.number().int(),
+}).meta({
+  title: 'MarkNotificationsReadResultSchema',
+  description: 'Number of notifications marked as read',
+})
+
+export type MarkNotificationsReadResult = z.infer<typeof markNotificationsReadResultSchema>
+
+// ----------------------//
+// Email notifications //
+// ----------------------//
+
+export const emailFrequencySchema = z.enum(['never', 'immediate', 'daily', 'weekly']).meta({
+  title: 'EmailFrequencySchema',
+  description: 'How often the notifications are sent by email: never, right away, or in a daily or weekly digest',
+})
+
+export const notificationPreferencesSchema = z.object({
+  emailFrequency: emailFrequencySchema,
+  emailComments: z.boolean().meta({
+    description: 'Send the comments on my posts by email',
+  }),
+  emailReplies: z.boolean().meta({
+    description: 'Send the replies to my comments by email',
+  }),
+}).meta({
+  title: 'NotificationPreferencesSchema',
+  description: 'Schema for the email notification settings of a user',
+})
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>
+
+export const updateNotificationPreferencesSchema = notificationPreferencesSchema.meta({
+  title: 'UpdateNotificationPreferencesSchema',
+  description: 'Schema for updating the email notification settings of a user',
+})
+
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>
+
+export const unsubscribeTokenQuerySchema = z.string().min(1).meta({
+  description: 'Signed token of the unsubscribe link',
+})
+
+export const unsubscribeResultSchema = z.object({
+  success: z.boolean(),
+}).meta({
+  title: 'UnsubscribeResultSchema',
+  description: 'Whether the user has been unsubscribed from the notification emails',
+})
+
+export type UnsubscribeResult = z.infer<typeof unsubscribeResultSchema>
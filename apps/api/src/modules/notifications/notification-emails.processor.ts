@@ -0,0 +1,22 @@
+import { EnsureRequestContext, EntityManager } from '@mikro-orm/core'
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { NotificationEmailsService } from './notification-emails.service'
+
+@Injectable()
+export class NotificationEmailsProcessor {
+  private readonly logger = new Logger(NotificationEmailsProcessor.name)
+
+  constructor(
+    private readonly em: EntityManager,
+    private readonly notificationEmailsService: NotificationEmailsService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  @EnsureRequestContext()
+  async sendNotificationEmails() {
+    const count = await this.notificationEmailsService.sendPendingEmails()
+    if (count > 0)
+      this.logger.log(`Sent ${count} notification email(s)`)
+  }
+}
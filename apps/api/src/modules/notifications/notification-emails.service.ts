@@ -0,0 +1,128 @@
+import { EntityManager } from '@mikro-orm/core'
+import { Injectable, Logger } from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { EmailService } from '../email/email.service'
+import { EmailFrequency, Notification, NotificationPreference } from './notifications.entity'
+import { NotificationsService } from './notifications.service'
+import { createUnsubscribeToken } from './unsubscribe-token'
+
+const DAY = 24 * 60 * 60 * 1000
+// Older notifications are never emailed, e.g. the ones received before opting in
+const MAX_NOTIFICATION_AGE = 14 * DAY
+
+@Injectable()
+export class NotificationEmailsService {
+  private readonly logger = new Logger(NotificationEmailsService.name)
+
+  constructor(
+    private readonly em: EntityManager,
+    private readonly emailService: EmailService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Emails the unread notifications that have not been emailed yet, to the users who opted in and whose digest is due.
+   * Called periodically by the NotificationEmailsProcessor.
+   * @returns The number of emails that have been sent
+   */
+  async sendPendingEmails(now: Date = new Date()): Promise<number> {
+    const preferences = await this.em.find(
+      NotificationPreference,
+      { emailFrequency: { $ne: 'never' } },
+      { populate: ['user'] },
+    )
+    const duePreferences = preferences.filter(preference => this.isDue(preference, now))
+    if (!duePreferences.length)
+      return 0
+
+    const notifications = await this.em.find(
+      Notification,
+      {
+        recipient: { $in: duePreferences.map(preference => preference.user.id) },
+        emailedAt: null,
+        readAt: null,
+        createdAt: { $gte: new Date(now.getTime() - MAX_NOTIFICATION_AGE) },
+        comment: { deletedAt: null },
+      },
+      {
+        populate: ['comment.user', 'comment.post'],
+        orderBy: { createdAt: 'ASC' },
+      },
+    )
+
+    let sentCount = 0
+    for (const preference of duePreferences) {
+      const userNotifications = notifications.filter(notification =>
+        notification.recipient.id === preference.user.id && this.isEmailed(preference, notification),
+      )
+
+      try {
+        if (userNotifications.length) {
+          await this.sendNotificationsEmail(preference, userNotifications)
+          userNotifications.forEach((notification) => {
+            notification.emailedAt = now
+          })
+          sentCount++
+        }
+
+        // The next digest period starts, even if there was nothing to send
+        if (preference.emailFrequency !== 'immediate')
+          preference.lastDigestAt = now
+      }
+      catch (error) {
+        // The notifications will be sent by the next run
+        this.logger.error(`Failed to send the notifications of user ${preference.user.id}`, error)
+      }
+    }
+
+    await this.em.flush()
+    return sentCount
+  }
+
+  private isDue(preference: NotificationPreference, now: Date) {
+    const elapsed = preference.lastDigestAt ? now.getTime() - preference.lastDigestAt.getTime() : Infinity
+
+    switch (preference.emailFrequency) {
+      case 'never':
+        return false
+      case 'immediate':
+        return true
+      case 'daily':
+        return elapsed >= DAY
+      case 'weekly':
+        return elapsed >= 7 * DAY
+    }
+  }
+
+  private isEmailed(preference: NotificationPreference, notification: Notification) {
+    return notification.type === 'reply' ? preference.emailReplies : preference.emailComments
+  }
+
+  private async sendNotificationsEmail(preference: NotificationPreference, notifications: Notification[]) {
+    const token = createUnsubscribeToken(preference.user.id)
+    const notificationResponses = await this.notificationsService.mapNotificationsToResponse(notifications)
+
+    await this.emailService.sendTemplate('notifications', {
+      to: preference.user.email,
+      variables: {
+        userName: preference.user.name,
+        // Users who chose to never be emailed are never due
+        frequency: preference.emailFrequency as Exclude<EmailFrequency, 'never'>,
+        notifications: notificationResponses.map(notification => ({
+          type: notification.type,
+          actorName: notification.actorName,
+          postTitle: notification.post.title,
+          excerpt: notification.comment.excerpt,
+          url: notification.url,
+        })),
+        settingsUrl: `${config.clients.webApp.url}/dashboard/settings/notifications`,
+        unsubscribeUrl: `${config.clients.webApp.url}/unsubscribe?token=${token}`,
+      },
+      // One-click unsubscribe from the mail client (RFC 8058)
+      headers: {
+        'List-Unsubscribe': `<${config.apiUrl}/api/public/notifications/unsubscribe?token=${token}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    })
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  PaginationParams,
+  TypedBody,
+  TypedController,
+  TypedParam,
+  TypedQuery,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { Session } from '../auth/auth.decorator'
+import { AuthGuard } from '../auth/auth.guard'
+import {
+  markNotificationsReadResultSchema,
+  NotificationPagination,
+  notificationPaginationSchema,
+  notificationPreferencesSchema,
+  notificationSchema,
+  notificationsSchema,
+  unreadNotificationsCountSchema,
+  unsubscribeResultSchema,
+  unsubscribeTokenQuerySchema,
+  UpdateNotificationPreferencesInput,
+  updateNotificationPreferencesSchema,
+} from './contracts/notifications.contract'
+import { NotificationsService } from './notifications.service'
+
+@TypedController('notifications', undefined, {
+  tags: ['Notifications'],
+})
+@UseGuards(AuthGuard)
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @TypedRoute.Get('', notificationsSchema)
+  async getNotifications(
+    @Session() session: LoggedInBetterAuthSession,
+    @PaginationParams(notificationPaginationSchema) pagination: NotificationPagination,
+  ) {
+    return await this.notificationsService.getNotifications(session.user.id, pagination)
+  }
+
+  @TypedRoute.Get('unread-count', unreadNotificationsCountSchema)
+  async getUnreadCount(@Session() session: LoggedInBetterAuthSession) {
+    return await this.notificationsService.getUnreadCount(session.user.id)
+  }
+
+  @TypedRoute.Patch('read', markNotificationsReadResultSchema)
+  async markAllAsRead(@Session() session: LoggedInBetterAuthSession) {
+    return await this.notificationsService.markAllAsRead(session.user.id)
+  }
+
+  @TypedRoute.Get('preferences', notificationPreferencesSchema)
+  async getPreferences(@Session() session: LoggedInBetterAuthSession) {
+    return await this.notificationsService.getPreferences(session.user.id)
+  }
+
+  @TypedRoute.Put('preferences', notificationPreferencesSchema)
+  async updatePreferences(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedBody(updateNotificationPreferencesSchema) body: UpdateNotificationPreferencesInput,
+  ) {
+    return await this.notificationsService.updatePreferences(session.user.id, body)
+  }
+
+  @TypedRoute.Patch(':notificationId/read', notificationSchema)
+  async markAsRead(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('notificationId', z.string().uuid()) notificationId: string,
+  ) {
+    return await this.notificationsService.markAsRead(session.user.id, notificationId)
+  }
+}
+
+// Unsubscribe links are opened from emails, without being logged in
+@TypedController('public/notifications', undefined, {
+  tags: ['Notifications'],
+})
+export class PublicNotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @TypedRoute.Post('unsubscribe', unsubscribeResultSchema)
+  async unsubscribe(@TypedQuery('token', unsubscribeTokenQuerySchema) token: string) {
+    return await this.notificationsService.unsubscribe(token)
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Enum,
+  Index,
+  ManyToOne,
+  OneToOne,
+  PrimaryKey,
+  Property,
+} from '@mikro-orm/core'
+import { User } from '../auth/auth.entity'
+import { Comment } from '../comments/comments.entity'
+
+// A comment on one of the recipient's posts, or a reply to one of their comments
+export const notificationTypes = ['comment', 'reply'] as const
+
+export type NotificationType = typeof notificationTypes[number]
+
+// Immediately means within a minute, as the emails are sent by a scheduled job
+export const emailFrequencies = ['never', 'immediate', 'daily', 'weekly'] as const
+
+export type EmailFrequency = typeof emailFrequencies[number]
+
+@Entity({ tableName: 'notification' })
+@Index({ properties: ['recipient', 'readAt'] })
+export class Notification {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => User, { fieldName: 'recipientId', deleteRule: 'cascade' })
+  recipient!: User
+
+  @Enum({ items: [...notificationTypes] })
+  type!: NotificationType
+
+  // The post and the author of the activity are the ones of the comment
+  @ManyToOne(() => Comment, { fieldName: 'commentId', deleteRule: 'cascade' })
+  comment!: Comment
+
+  @Property({ fieldName: 'readAt', nullable: true })
+  readAt?: Date
+
+  // Set once the notification has been sent by email, alone or in a digest
+  @Property({ fieldName: 'emailedAt', nullable: true })
+  emailedAt?: Date
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+}
+
+// Email settings of a user. Users without preferences get no email until they opt in
+@Entity({ tableName: 'notificationPreference' })
+export class NotificationPreference {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @OneToOne(() => User, { fieldName: 'userId', owner: true, deleteRule: 'cascade' })
+  user!: User
+
+  @Enum({ items: [...emailFrequencies], fieldName: 'emailFrequency' })
+  emailFrequency: EmailFrequency = 'never'
+
+  @Property({ fieldName: 'emailComments' })
+  emailComments: boolean = true
+
+  @Property({ fieldName: 'emailReplies' })
+  emailReplies: boolean = true
+
+  // Start of the current digest period, for daily and weekly emails
+  @Property({ fieldName: 'lastDigestAt', nullable: true })
+  lastDigestAt?: Date
+
+  @Property({ fieldName: 'updatedAt', onUpdate: () => new Date() })
+  updatedAt: Date = new Date()
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { EmailModule } from '../email/email.module'
+import { NotificationEmailsProcessor } from './notification-emails.processor'
+import { NotificationEmailsService } from './notification-emails.service'
+import { NotificationsController, PublicNotificationsController } from './notifications.controller'
+import { NotificationsService } from './notifications.service'
+
+@Module({
+  imports: [EmailModule],
+  controllers: [NotificationsController, PublicNotificationsController],
+  providers: [NotificationsService, NotificationEmailsService, NotificationEmailsProcessor],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,205 @@
+import { EntityManager } from '@mikro-orm/core'
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { User } from '../auth/auth.entity'
+import { Comment } from '../comments/comments.entity'
+import { getLatestPostTitles } from '../posts/post-titles'
+import {
+  MarkNotificationsReadResult,
+  NotificationPagination,
+  NotificationPreferences,
+  NotificationResponse,
+  NotificationsResponse,
+  UnreadNotificationsCount,
+  UnsubscribeResult,
+  UpdateNotificationPreferencesInput,
+} from './contracts/notifications.contract'
+import { Notification, NotificationPreference } from './notifications.entity'
+import { verifyUnsubscribeToken } from './unsubscribe-token'
+
+const EXCERPT_LENGTH = 140
+
+@Injectable()
+export class NotificationsService {
+  constructor(private readonly em: EntityManager) {}
+
+  /**
+   * Notifies the author of the post and the author of the parent comment of a new comment.
+   * Nobody is notified of their own comments, and a user is notified only once per comment.
+   * Pending comments are notified again once approved, to the users who could not see them before.
+   */
+  async notifyNewComment(comment: Comment): Promise<void> {
+    const commenterId = comment.user?.id
+    const notifications: Notification[] = []
+
+    const previousNotifications = await this.em.find(Notification, { comment: comment.id })
+    const notifiedIds = new Set(previousNotifications.map(notification => notification.recipient.id))
+
+    // Pending replies are not visible yet to the author of the parent comment
+    const parentAuthorId = comment.status === 'approved' ? comment.parent?.user?.id : undefined
+    if (parentAuthorId && parentAuthorId !== commenterId && !notifiedIds.has(parentAuthorId))
+      notifications.push(this.createNotification(parentAuthorId, 'reply', comment))
+
+    const postAuthorId = comment.post.user.id
+    if (postAuthorId !== commenterId && postAuthorId !== parentAuthorId && !notifiedIds.has(postAuthorId))
+      notifications.push(this.createNotification(postAuthorId, 'comment', comment))
+
+    await this.em.persistAndFlush(notifications)
+  }
+
+  async getNotifications(
+    userId: string,
+    pagination: NotificationPagination,
+  ): Promise<NotificationsResponse> {
+    const [notifications, itemCount] = await this.em.findAndCount(
+      Notification,
+      { recipient: userId },
+      {
+        limit: pagination.pageSize,
+        offset: pagination.offset,
+        orderBy: { createdAt: 'DESC' },
+        populate: ['comment.user', 'comment.post'],
+      },
+    )
+
+    return {
+      data: await this.mapNotificationsToResponse(notifications),
+      meta: {
+        itemCount,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: itemCount > pagination.offset + pagination.pageSize,
+      },
+    }
+  }
+
+  async getUnreadCount(userId: string): Promise<UnreadNotificationsCount> {
+    const count = await this.em.count(Notification, { recipient: userId, readAt: null })
+    return { count }
+  }
+
+  async markAsRead(userId: string, notificationId: string): Promise<NotificationResponse> {
+    const notification = await this.em.findOne(
+      Notification,
+      { id: notificationId, recipient: userId },
+      { populate: ['comment.user', 'comment.post'] },
+    )
+    if (!notification)
+      throw new NotFoundException('Notification not found')
+
+    if (!notification.readAt) {
+      notification.readAt = new Date()
+      await this.em.flush()
+    }
+
+    const [response] = await this.mapNotificationsToResponse([notification])
+    return response
+  }
+
+  async markAllAsRead(userId: string): Promise<MarkNotificationsReadResult> {
+    const updated = await this.em.nativeUpdate(
+      Notification,
+      { recipient: userId, readAt: null },
+      { readAt: new Date() },
+    )
+    return { updated }
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const preference = await this.em.findOne(NotificationPreference, { user: userId })
+      ?? new NotificationPreference()
+
+    return {
+      emailFrequency: preference.emailFrequency,
+      emailComments: preference.emailComments,
+      emailReplies: preference.emailReplies,
+    }
+  }
+
+  async updatePreferences(
+    userId: string,
+    data: UpdateNotificationPreferencesInput,
+  ): Promise<NotificationPreferences> {
+    const preference = await this.getOrCreatePreference(userId)
+
+    // A digest period starts when the user chooses a digest, so that the first one is not sent right away
+    if (preference.emailFrequency !== data.emailFrequency)
+      preference.lastDigestAt = new Date()
+
+    preference.emailFrequency = data.emailFrequency
+    preference.emailComments = data.emailComments
+    preference.emailReplies = data.emailReplies
+    await this.em.flush()
+
+    return await this.getPreferences(userId)
+  }
+
+  /**
+   * Stops all the notification emails of the user the token has been created for.
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeResult> {
+    const userId = verifyUnsubscribeToken(token)
+    if (!userId)
+      throw new BadRequestException('Invalid unsubscribe link')
+
+    const user = await this.em.findOne(User, { id: userId })
+    if (!user)
+      throw new NotFoundException('User not found')
+
+    const preference = await this.getOrCreatePreference(userId)
+    preference.emailFrequency = 'never'
+    await this.em.flush()
+
+    return { success: true }
+  }
+
+  async mapNotificationsToResponse(notifications: Notification[]): Promise<NotificationResponse[]> {
+    const titleByPostId = await getLatestPostTitles(this.em, notifications.map(notification => notification.comment.post.id))
+    return notifications.map(notification => this.mapNotificationToResponse(notification, titleByPostId))
+  }
+
+  private async getOrCreatePreference(userId: string) {
+    const preference = await this.em.findOne(NotificationPreference, { user: userId })
+    if (preference)
+      return preference
+
+    const newPreference = new NotificationPreference()
+    newPreference.user = this.em.getReference(User, userId)
+    this.em.persist(newPreference)
+    return newPreference
+  }
+
+  private createNotification(recipientId: string, type: Notification['type'], comment: Comment) {
+    const notification = new Notification()
+    notification.recipient = this.em.getReference(User, recipientId)
+    notification.type = type
+    notification.comment = comment
+    return notification
+  }
+
+  private mapNotificationToResponse(
+    notification: Notification,
+    titleByPostId: Map<string, string>,
+  ): NotificationResponse {
+    const { comment } = notification
+    const { post } = comment
+
+    return {
+      id: notification.id,
+      type: notification.type,
+      actorName: comment.user?.name || comment.authorName || 'Anonymous',
+      post: {
+        id: post.id,
+        title: titleByPostId.get(post.id) ?? '',
+        slug: post.slug,
+      },
+      comment: {
+        id: comment.id,
+        excerpt: comment.deletedAt ? '' : comment.content.slice(0, EXCERPT_LENGTH),
+      },
+      url: post.slug ? `${config.clients.webSsr.url}/posts/${post.slug}` : null,
+      readAt: notification.readAt ?? null,
+      createdAt: notification.createdAt,
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import supertest from 'supertest'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { CommentsModule } from '../../comments/comments.module'
+import { EmailJob } from '../../email/email.entity'
+import { PostModule } from '../../posts/posts.module'
+import { NotificationEmailsService } from '../notification-emails.service'
+import { NotificationsModule } from '../notifications.module'
+import { createUnsubscribeToken } from '../unsubscribe-token'
+
+describe('notificationsController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let author: User
+  let commenter: User
+  let authorRequest: ReturnType<typeof initRequestWithAuth>
+  let commenterRequest: ReturnType<typeof initRequestWithAuth>
+  let postSlug: string
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule, CommentsModule, NotificationsModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    author = await createUserData(em)
+    commenter = await createUserData(em)
+    authorRequest = initRequestWithAuth(app, author.id)
+    commenterRequest = initRequestWithAuth(app, commenter.id)
+
+    const createResponse = await authorRequest('post', '/admin/posts').send({
+      title: 'Notified post',
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+    const publishResponse = await authorRequest('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+    postSlug = publishResponse.body.slug
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  describe('gET /notifications', () => {
+    it('should notify the author of a post of a new comment', async () => {
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Great post!' })
+
+      const response = await authorRequest('get', '/notifications')
+
+      expect(response.body.data).toMatchObject([{
+        type: 'comment',
+        actorName: commenter.name,
+        post: { title: 'Notified post', slug: postSlug },
+        comment: { excerpt: 'Great post!' },
+        url: expect.stringContaining(`/posts/${postSlug}`),
+        readAt: null,
+      }])
+    })
+
+    it('should notify the author of a comment of a reply', async () => {
+      const comment = await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Question?' })
+      await authorRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Answer', parentId: comment.body.id })
+
+      const commenterResponse = await commenterRequest('get', '/notifications')
+      const authorResponse = await authorRequest('get', '/notifications')
+
+      expect(commenterResponse.body.data).toMatchObject([{ type: 'reply', actorName: author.name }])
+      // The author of the post is not notified of their own reply
+      expect(authorResponse.body.data).toMatchObject([{ type: 'comment', comment: { excerpt: 'Question?' } }])
+    })
+
+    it('should notify the author of a post of anonymous comments', async () => {
+      await supertest(app.getHttpServer()).post(`/posts/${postSlug}/comments`).send({ content: 'Anonymous comment' })
+
+      const response = await authorRequest('get', '/notifications')
+
+      expect(response.body.data).toMatchObject([{ type: 'comment', actorName: 'Anonymous' }])
+    })
+
+    it('should notify the author of a comment of a reply once it is approved', async () => {
+      const createResponse = await authorRequest('post', '/admin/posts').send({
+        title: 'Moderated post',
+        content: [{ type: 'text', data: 'Some content' }],
+        commentModeration: 'moderated',
+      })
+      const publishResponse = await authorRequest('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+      const replier = await createUserData(em)
+      const comment = await commenterRequest('post', `/posts/${publishResponse.body.slug}/comments`).send({ content: 'Question?' })
+      await authorRequest('patch', '/admin/comments/status').send({ ids: [comment.body.id], status: 'approved' })
+      const reply = await initRequestWithAuth(app, replier.id)('post', `/posts/${publishResponse.body.slug}/comments`).send({ content: 'Answer', parentId: comment.body.id })
+
+      const pendingResponse = await commenterRequest('get', '/notifications')
+      await authorRequest('patch', '/admin/comments/status').send({ ids: [reply.body.id], status: 'approved' })
+      const approvedResponse = await commenterRequest('get', '/notifications')
+      const authorResponse = await authorRequest('get', '/notifications')
+
+      expect(pendingResponse.body.data).toHaveLength(0)
+      expect(approvedResponse.body.data).toMatchObject([{ type: 'reply', actorName: replier.name }])
+      // The author of the post was notified of both comments when they were sent, to moderate them
+      expect(authorResponse.body.data).toMatchObject([
+        { type: 'comment', comment: { excerpt: 'Answer' } },
+        { type: 'comment', comment: { excerpt: 'Question?' } },
+      ])
+    })
+  })
+
+  describe('pATCH /notifications/read', () => {
+    it('should mark one or all the notifications as read', async () => {
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'First' })
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Second' })
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Third' })
+      const listResponse = await authorRequest('get', '/notifications')
+
+      const readResponse = await authorRequest('patch', `/notifications/${listResponse.body.data[0].id}/read`).send({})
+      const countResponse = await authorRequest('get', '/notifications/unread-count')
+
+      expect(readResponse.body.readAt).toEqual(expect.any(String))
+      expect(countResponse.body).toEqual({ count: 2 })
+
+      const readAllResponse = await authorRequest('patch', '/notifications/read').send({})
+      const finalCountResponse = await authorRequest('get', '/notifications/unread-count')
+
+      expect(readAllResponse.body).toEqual({ updated: 2 })
+      expect(finalCountResponse.body).toEqual({ count: 0 })
+    })
+
+    it('should not mark the notifications of other users as read', async () => {
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'A comment' })
+      const listResponse = await authorRequest('get', '/notifications')
+
+      const response = await commenterRequest('patch', `/notifications/${listResponse.body.data[0].id}/read`).send({})
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('email notifications', () => {
+    it('should not email users who did not opt in', async () => {
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'A comment' })
+
+      const preferencesResponse = await authorRequest('get', '/notifications/preferences')
+      const sentCount = await app.get(NotificationEmailsService).sendPendingEmails()
+
+      expect(preferencesResponse.body).toEqual({ emailFrequency: 'never', emailComments: true, emailReplies: true })
+      expect(sentCount).toBe(0)
+    })
+
+    it('should email the notifications right away once', async () => {
+      await authorRequest('put', '/notifications/preferences').send({
+        emailFrequency: 'immediate',
+        emailComments: true,
+        emailReplies: true,
+      })
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Emailed comment' })
+
+      const firstCount = await app.get(NotificationEmailsService).sendPendingEmails()
+      const secondCount = await app.get(NotificationEmailsService).sendPendingEmails()
+
+      expect(firstCount).toBe(1)
+      expect(secondCount).toBe(0)
+      expect(await em.fork().find(EmailJob, {})).toMatchObject([{
+        to: author.email,
+        subject: `${commenter.name} commented on "Notified post"`,
+        content: expect.stringContaining('Emailed comment'),
+        html: expect.stringContaining('Emailed comment'),
+        headers: expect.objectContaining({
+          'List-Unsubscribe': expect.stringContaining('/api/public/notifications/unsubscribe?token='),
+        }),
+      }])
+    })
+
+    it('should gather the notifications in a digest once the period is over', async () => {
+      await authorRequest('put', '/notifications/preferences').send({
+        emailFrequency: 'daily',
+        emailComments: true,
+        emailReplies: true,
+      })
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'First' })
+      await commenterRequest('post', `/posts/${postSlug}/comments`).send({ content: 'Second' })
+      const notificationEmailsService = app.get(NotificationEmailsService)
+
+      const countDuringPeriod = await notificationEmailsService.sendPendingEmails()
+      const countAfterPeriod = await notificationEmailsService.sendPendingEmails(new Date(Date.now() + 25 * 60 * 60 * 1000))
+
+      expect(countDuringPeriod).toBe(0)
+      expect(countAfterPeriod).toBe(1)
+      expect(await em.fork().find(EmailJob, {})).toMatchObject([{
+        subject: 'Your daily digest: 2 new notifications',
+      }])
+    })
+
+    it('should unsubscribe with a signed token only', async () => {
+      await authorRequest('put', '/notifications/preferences').send({
+        emailFrequency: 'weekly',
+        emailComments: true,
+        emailReplies: false,
+      })
+
+      const invalidResponse = await supertest(app.getHttpServer())
+        .post('/public/notifications/unsubscribe')
+        .query({ token: `${author.id}.invalid-signature` })
+      const response = await supertest(app.getHttpServer())
+        .post('/public/notifications/unsubscribe')
+        .query({ token: createUnsubscribeToken(author.id) })
+      const preferencesResponse = await authorRequest('get', '/notifications/preferences')
+
+      expect(invalidResponse.status).toBe(400)
+      expect(response.body).toEqual({ success: true })
+      expect(preferencesResponse.body).toEqual({ emailFrequency: 'never', emailComments: true, emailReplies: false })
+    })
+  })
+})
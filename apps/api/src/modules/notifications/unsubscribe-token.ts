@@ -0,0 +1,28 @@
+import { Buffer } from 'node:buffer'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { config } from '../../config/env.config'
+
+// Unsubscribe links must work without being logged in, so they carry the user id signed with the auth secret
+function sign(userId: string) {
+  return createHmac('sha256', config.betterAuth.secret)
+    .update(`unsubscribe:${userId}`)
+    .digest('base64url')
+}
+
+export function createUnsubscribeToken(userId: string) {
+  return `${userId}.${sign(userId)}`
+}
+
+// Returns the id of the user, or null if the token has not been signed by us
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [userId, signature] = token.split('.')
+  if (!userId || !signature)
+    return null
+
+  const expected = Buffer.from(sign(userId))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received))
+    return null
+
+  return userId
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod'
+import { postCollaboratorRoles, postCollaboratorStatuses } from '../posts.entity'
+
+export const postCollaboratorRoleSchema = z.enum(postCollaboratorRoles).meta({
+  title: 'PostCollaboratorRoleSchema',
+  description: 'owner: manages the post and its collaborators, editor: edits the drafts, viewer: only reads the drafts',
+})
+
+export type PostCollaboratorRoleInput = z.infer<typeof postCollaboratorRoleSchema>
+
+export const postCollaboratorSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string(),
+  role: postCollaboratorRoleSchema,
+  status: z.enum(postCollaboratorStatuses),
+  user: z.object({
+    id: z.string(),
+    name: z.string(),
+  }).nullable(),
+  createdAt: z.date(),
+}).meta({
+  title: 'PostCollaboratorSchema',
+  description: 'A collaborator of a post, or an invitation to collaborate on it',
+})
+
+export type PostCollaboratorResponse = z.infer<typeof postCollaboratorSchema>
+
+export const postCollaboratorsSchema = z.array(postCollaboratorSchema).meta({
+  title: 'PostCollaboratorsSchema',
+  description: 'The collaborators of a post, the owner first',
+})
+
+export type PostCollaboratorsResponse = z.infer<typeof postCollaboratorsSchema>
+
+// There is a single owner per post, the one who created it
+export const invitePostCollaboratorSchema = z.object({
+  email: z.string().email().max(255),
+  role: postCollaboratorRoleSchema.exclude(['owner']),
+}).meta({
+  title: 'InvitePostCollaboratorSchema',
+  description: 'Schema for inviting someone to collaborate on a post',
+})
+
+export type InvitePostCollaboratorInput = z.infer<typeof invitePostCollaboratorSchema>
+
+export const updatePostCollaboratorSchema = z.object({
+  role: postCollaboratorRoleSchema.exclude(['owner']),
+}).meta({
+  title: 'UpdatePostCollaboratorSchema',
+  description: 'Schema for changing the role of a collaborator',
+})
+
+export type UpdatePostCollaboratorInput = z.infer<typeof updatePostCollaboratorSchema>
+
+export const postInvitationSchema = z.object({
+  id: z.string().uuid(),
+  role: postCollaboratorRoleSchema,
+  post: z.object({
+    id: z.string(),
+    title: z.string(),
+  }),
+  invitedBy: z.object({
+    name: z.string(),
+  }).nullable(),
+  createdAt: z.date(),
+}).meta({
+  title: 'PostInvitationSchema',
+  description: 'A pending invitation to collaborate on a post',
+})
+
+export type PostInvitation = z.infer<typeof postInvitationSchema>
+
+export const postInvitationsSchema = z.array(postInvitationSchema).meta({
+  title: 'PostInvitationsSchema',
+  description: 'The pending invitations of the logged in user, from the newest',
+})
+
+export type PostInvitations = z.infer<typeof postInvitationsSchema>
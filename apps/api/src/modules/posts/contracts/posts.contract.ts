@@ -5,29 +5,97 @@ import {
   paginatedSchema,
 } from '@lonestone/nzoth/server'
 import { z } from 'zod'
+import { reactionCountsSchema } from '../../reactions/contracts/reactions.contract'
+import { postTagsInputSchema, tagSchema } from '../../tags/contracts/tags.contract'
+import { postCollaboratorRoleSchema } from './post-collaborators.contract'
 
 // 📖 See API Guidelines: Schema Definition Best Practices
 // https://github.com/lonestone/lonestone-boilerplate/blob/main/docs/api-guidelines.md#schema-definition-best-practices
 
-// Schema for content items (text, image, video)
+// Schema for a text content item, also used as a preview of the post
+export const postTextContentSchema = z.object({
+  type: z.literal('text'),
+  data: z.string(),
+}).meta({
+  title: 'PostTextContentSchema',
+  description: 'Schema for a text content item',
+})
+
+// Placeholders end up in a CSS url(), so only inline base64 images are accepted
+const imagePlaceholderRegex = /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/
+
+// Schema for an image content item. Uploaded images come with their dimensions, placeholder and resized variants
+export const postImageSchema = z.object({
+  src: z.string(),
+  alt: z.string(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  placeholder: z.string().regex(imagePlaceholderRegex).optional().meta({
+    description: 'Blurry low quality version of the image, as a data URL',
+  }),
+  variants: z.array(z.object({
+    src: z.string(),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+  })).optional(),
+}).meta({
+  title: 'PostImageSchema',
+  description: 'Schema for the data of an image content item',
+})
+
+export type PostImage = z.infer<typeof postImageSchema>
+
+// Schema for content items
 export const postContentSchema
   = z.discriminatedUnion('type', [
-    z.object({
-      type: z.literal('text'),
-      data: z.string(),
-    }),
+    postTextContentSchema,
     z.object({
       type: z.literal('image'),
-      data: z.string(),
+      data: postImageSchema,
     }),
     z.object({
       type: z.literal('video'),
       data: z.string(),
     }),
+    z.object({
+      type: z.literal('markdown'),
+      data: z.string().meta({
+        description: 'GitHub Flavored Markdown. Raw HTML is not rendered',
+      }),
+    }),
+    z.object({
+      type: z.literal('heading'),
+      data: z.object({
+        text: z.string(),
+        // The post title is the only level 1 heading
+        level: z.number().int().min(2).max(4),
+      }),
+    }),
+    z.object({
+      type: z.literal('quote'),
+      data: z.object({
+        text: z.string(),
+        citation: z.string().optional(),
+      }),
+    }),
+    z.object({
+      type: z.literal('code'),
+      data: z.object({
+        code: z.string(),
+        language: z.string().max(32).optional(),
+      }),
+    }),
+    z.object({
+      type: z.literal('list'),
+      data: z.object({
+        ordered: z.boolean(),
+        items: z.array(z.string()).min(1),
+      }),
+    }),
   ]).meta(
     {
       title: 'PostContentSchema',
-      description: 'Schema for content items (text, image, video)',
+      description: 'Schema for content items (text, image, video, markdown, heading, quote, code, list)',
     },
   )
 
@@ -44,6 +112,7 @@ export type PostSorting = z.infer<typeof postSortingSchema>
 
 export const enabledPostFilteringKeys = [
   'title',
+  'tag',
 ] as const
 
 export const postFilteringSchema = createFilterQueryStringSchema(
@@ -65,6 +134,45 @@ export const postVersionSchema = z.object({
   description: 'Schema for a post version',
 })
 
+export const postVersionDetailSchema = postVersionSchema.extend({
+  content: z.array(postContentSchema),
+}).meta({
+  title: 'PostVersionDetailSchema',
+  description: 'Schema for a post version with its content',
+})
+
+export type PostVersionDetail = z.infer<typeof postVersionDetailSchema>
+
+// Schema for a content block in a diff between two versions
+export const postContentDiffSchema = z.object({
+  status: z.enum(['added', 'removed', 'modified', 'unchanged']),
+  before: postContentSchema.optional(),
+  after: postContentSchema.optional(),
+}).meta({
+  title: 'PostContentDiffSchema',
+  description: 'Schema for a content block in a diff between two post versions',
+})
+
+export type PostContentDiff = z.infer<typeof postContentDiffSchema>
+
+export const postVersionDiffSchema = z.object({
+  from: postVersionSchema,
+  to: postVersionSchema,
+  titleChanged: z.boolean(),
+  blocks: z.array(postContentDiffSchema),
+}).meta({
+  title: 'PostVersionDiffSchema',
+  description: 'Schema for a block-level diff between two post versions',
+})
+
+export type PostVersionDiff = z.infer<typeof postVersionDiffSchema>
+
+// Schema for the way new comments are handled on a post
+export const commentModerationSchema = z.enum(['open', 'moderated', 'closed']).meta({
+  title: 'CommentModerationSchema',
+  description: 'open: comments are published right away, moderated: comments wait for the author approval, closed: no new comments',
+})
+
 // ----------------------------
 // Create/update post schemas //
 // ----------------------------
@@ -73,6 +181,8 @@ export const postVersionSchema = z.object({
 export const createPostSchema = z.object({
   title: z.string().min(1),
   content: z.array(postContentSchema),
+  tags: postTagsInputSchema.optional(),
+  commentModeration: commentModerationSchema.optional(),
 }).meta({
   title: 'CreatePostSchema',
   description: 'Schema for creating/updating a post',
@@ -83,6 +193,8 @@ export type CreatePostInput = z.infer<typeof createPostSchema>
 export const updatePostSchema = z.object({
   title: z.string().min(1).optional(),
   content: z.array(postContentSchema).optional(),
+  tags: postTagsInputSchema.optional(),
+  commentModeration: commentModerationSchema.optional(),
 }).meta({
   title: 'UpdatePostSchema',
   description: 'Schema for updating a post',
@@ -90,6 +202,17 @@ export const updatePostSchema = z.object({
 
 export type UpdatePostInput = z.infer<typeof updatePostSchema>
 
+export const publishPostSchema = z.object({
+  publishAt: z.coerce.date().optional().meta({
+    description: 'Publication date. If in the future, the post is scheduled instead of published right away',
+  }),
+}).meta({
+  title: 'PublishPostSchema',
+  description: 'Schema for publishing or scheduling a post',
+})
+
+export type PublishPostInput = z.infer<typeof publishPostSchema>
+
 export const userPostSchema = z.object({
   id: z.string().uuid(),
   slug: z.string().nullish(),
@@ -97,8 +220,14 @@ export const userPostSchema = z.object({
   content: z.array(postContentSchema),
   versions: z.array(postVersionSchema),
   publishedAt: z.date().nullish(),
-  type: z.enum(['published', 'draft']),
+  scheduledAt: z.date().nullish(),
+  type: z.enum(['published', 'draft', 'scheduled']),
+  tags: z.array(tagSchema),
+  commentModeration: commentModerationSchema,
   commentCount: z.number().optional(),
+  role: postCollaboratorRoleSchema.nullable().meta({
+    description: 'Role of the logged in user on the post, null for the admins who do not collaborate on it',
+  }),
 }).meta({
   title: 'UserPostSchema',
   description: 'Schema for a user\'s post',
@@ -106,13 +235,24 @@ export const userPostSchema = z.object({
 
 export const userPostsSchema = paginatedSchema(userPostSchema.omit({
   content: true,
+  commentModeration: true,
 }).extend({
-  contentPreview: postContentSchema,
+  contentPreview: postTextContentSchema,
+  author: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
 })).meta({
   title: 'UserPostsSchema',
   description: 'Schema for a list of user\'s posts',
 })
 
+export const userPostsScopeSchema = z.enum(['own', 'all']).optional().meta({
+  description: 'own: the posts of the logged in user (default), all: the posts of every user, for admins only',
+})
+
+export type UserPostsScope = z.infer<typeof userPostsScopeSchema>
+
 export type UserPost = z.infer<typeof userPostSchema>
 export type UserPosts = z.infer<typeof userPostsSchema>
 
@@ -123,24 +263,47 @@ export type UserPosts = z.infer<typeof userPostsSchema>
 // Schema for the public view of a post
 export const publicPostSchema = z.object({
   title: z.string(),
-  author: z.object({
+  // The owner first, then the editors. Viewers are not authors
+  authors: z.array(z.object({
     name: z.string(),
-  }),
+    handle: z.string(),
+  })),
   content: z.array(postContentSchema),
   publishedAt: z.date(),
   slug: z.string().optional(),
+  tags: z.array(tagSchema),
+  commentModeration: commentModerationSchema,
   commentCount: z.number().optional(),
+  reactions: reactionCountsSchema,
 }).meta({
   title: 'PublicPostSchema',
   description: 'A public post',
 })
 
+// Schema for a search result snippet, split into parts so that clients can highlight the matching words
+export const publicPostSnippetSchema = z.array(z.object({
+  text: z.string(),
+  highlighted: z.boolean(),
+})).meta({
+  title: 'PublicPostSnippetSchema',
+  description: 'A snippet of the text matching a search query',
+})
+
+export type PublicPostSnippet = z.infer<typeof publicPostSnippetSchema>
+
+// Schema for the full-text search query
+export const postSearchQuerySchema = z.string().trim().max(200).optional().meta({
+  description: 'Full-text search query. When set, posts are ranked by relevance',
+})
+
 // Schema for a list of public posts
 export const publicPostsSchema = paginatedSchema(publicPostSchema.omit({
   content: true,
+  commentModeration: true,
 }).extend({
-  contentPreview: postContentSchema,
+  contentPreview: postTextContentSchema,
   commentCount: z.number().optional(),
+  snippet: publicPostSnippetSchema.optional(),
 })).meta({
   title: 'PublicPostsSchema',
   description: 'A list of public posts',
@@ -0,0 +1,97 @@
+import {
+  TypedBody,
+  TypedController,
+  TypedParam,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { Session } from '../auth/auth.decorator'
+import { AuthGuard } from '../auth/auth.guard'
+import {
+  InvitePostCollaboratorInput,
+  invitePostCollaboratorSchema,
+  postCollaboratorSchema,
+  postCollaboratorsSchema,
+  postInvitationsSchema,
+  UpdatePostCollaboratorInput,
+  updatePostCollaboratorSchema,
+} from './contracts/post-collaborators.contract'
+import { PostCollaboratorsService } from './post-collaborators.service'
+
+@TypedController('admin/posts/:postId/collaborators', z.object({
+  postId: z.string(),
+}), {
+  tags: ['Admin Post Collaborators'],
+})
+@UseGuards(AuthGuard)
+export class PostCollaboratorsController {
+  constructor(private readonly postCollaboratorsService: PostCollaboratorsService) {}
+
+  @TypedRoute.Get('', postCollaboratorsSchema)
+  async getCollaborators(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('postId', z.string()) postId: string,
+  ) {
+    return await this.postCollaboratorsService.getCollaborators(session.user, postId)
+  }
+
+  @TypedRoute.Post('', postCollaboratorSchema)
+  async inviteCollaborator(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('postId', z.string()) postId: string,
+    @TypedBody(invitePostCollaboratorSchema) body: InvitePostCollaboratorInput,
+  ) {
+    return await this.postCollaboratorsService.inviteCollaborator(session.user, postId, body)
+  }
+
+  @TypedRoute.Patch(':collaboratorId', postCollaboratorSchema)
+  async updateCollaborator(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('postId', z.string()) postId: string,
+    @TypedParam('collaboratorId', z.string().uuid()) collaboratorId: string,
+    @TypedBody(updatePostCollaboratorSchema) body: UpdatePostCollaboratorInput,
+  ) {
+    return await this.postCollaboratorsService.updateCollaborator(session.user, postId, collaboratorId, body)
+  }
+
+  @TypedRoute.Delete(':collaboratorId')
+  async removeCollaborator(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('postId', z.string()) postId: string,
+    @TypedParam('collaboratorId', z.string().uuid()) collaboratorId: string,
+  ) {
+    await this.postCollaboratorsService.removeCollaborator(session.user, postId, collaboratorId)
+    return { success: true }
+  }
+}
+
+@TypedController('invitations', undefined, {
+  tags: ['Post Invitations'],
+})
+@UseGuards(AuthGuard)
+export class PostInvitationsController {
+  constructor(private readonly postCollaboratorsService: PostCollaboratorsService) {}
+
+  @TypedRoute.Get('', postInvitationsSchema)
+  async getInvitations(@Session() session: LoggedInBetterAuthSession) {
+    return await this.postCollaboratorsService.getInvitations(session.user)
+  }
+
+  @TypedRoute.Post(':invitationId/accept', postCollaboratorSchema)
+  async acceptInvitation(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('invitationId', z.string().uuid()) invitationId: string,
+  ) {
+    return await this.postCollaboratorsService.respondToInvitation(session.user, invitationId, true)
+  }
+
+  @TypedRoute.Post(':invitationId/decline', postCollaboratorSchema)
+  async declineInvitation(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('invitationId', z.string().uuid()) invitationId: string,
+  ) {
+    return await this.postCollaboratorsService.respondToInvitation(session.user, invitationId, false)
+  }
+}
@@ -0,0 +1,40 @@
+import { EntityManager, RequestContext } from '@mikro-orm/core'
+import { Injectable } from '@nestjs/common'
+import { AfterHook, AuthHookContext, Hook } from '../auth/auth.decorator'
+import { PostCollaboratorsService } from './post-collaborators.service'
+
+/**
+ * Keeps the invitations, sent by email, with their invitee when they change their email.
+ */
+@Hook()
+@Injectable()
+export class PostCollaboratorsAuthHooks {
+  constructor(
+    private readonly em: EntityManager,
+    private readonly postCollaboratorsService: PostCollaboratorsService,
+  ) {}
+
+  // The unverified addresses are changed right away
+  @AfterHook('/change-email')
+  async afterEmailChange(ctx: AuthHookContext) {
+    await this.changeCollaboratorEmail(ctx)
+  }
+
+  // The verified ones once the current address approves the change
+  @AfterHook('/verify-email')
+  async afterEmailVerification(ctx: AuthHookContext) {
+    await this.changeCollaboratorEmail(ctx)
+  }
+
+  private async changeCollaboratorEmail(ctx: AuthHookContext) {
+    // The session is the one of the user before the change, the new session has their new email
+    const previousUser = ctx.context.session?.user
+    const user = ctx.context.newSession?.user
+    if (!previousUser || !user || previousUser.id !== user.id || previousUser.email === user.email)
+      return
+
+    // The hooks run outside of the request context of Nest
+    await RequestContext.create(this.em, () =>
+      this.postCollaboratorsService.changeCollaboratorEmail(user.id, previousUser.email, user.email))
+  }
+}
@@ -0,0 +1,236 @@
+import { EntityManager } from '@mikro-orm/core'
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common'
+import { config } from '../../config/env.config'
+import { User } from '../auth/auth.entity'
+import { Actor } from '../auth/auth.policies'
+import { EmailService } from '../email/email.service'
+import {
+  InvitePostCollaboratorInput,
+  PostCollaboratorResponse,
+  PostCollaboratorsResponse,
+  PostInvitations,
+  UpdatePostCollaboratorInput,
+} from './contracts/post-collaborators.contract'
+import { getLatestPostTitles } from './post-titles'
+import { Post, PostCollaborator } from './posts.entity'
+import { canDoOnPost, getPostAccessFilter, PostPermission } from './posts.policies'
+
+// The user answering an invitation, invitations are sent to their email
+interface Invitee {
+  id: string
+  email: string
+  emailVerified: boolean
+}
+
+@Injectable()
+export class PostCollaboratorsService {
+  constructor(
+    private readonly em: EntityManager,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async getCollaborators(actor: Actor, postId: string): Promise<PostCollaboratorsResponse> {
+    const post = await this.findPost(actor, postId, 'view')
+    const collaborators = await this.em.find(
+      PostCollaborator,
+      { post: post.id },
+      { populate: ['user'], orderBy: { createdAt: 'ASC' } },
+    )
+
+    return collaborators
+      .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'))
+      .map(collaborator => this.mapCollaboratorToResponse(collaborator))
+  }
+
+  /**
+   * Invites someone to collaborate on a post, by email. They don't need to have an account yet:
+   * the invitation is listed once they log in with this email.
+   * A declined invitation can be sent again.
+   */
+  async inviteCollaborator(
+    actor: Actor,
+    postId: string,
+    data: InvitePostCollaboratorInput,
+  ): Promise<PostCollaboratorResponse> {
+    const post = await this.findPost(actor, postId, 'manage')
+    const email = data.email.toLowerCase()
+
+    let collaborator = await this.em.findOne(PostCollaborator, { post: post.id, email })
+    if (collaborator && collaborator.status !== 'declined')
+      throw new BadRequestException('This person has already been invited to collaborate on the post')
+
+    const inviter = await this.em.findOneOrFail(User, { id: actor.id })
+    if (!collaborator) {
+      collaborator = new PostCollaborator()
+      collaborator.post = post
+      collaborator.email = email
+      this.em.persist(collaborator)
+    }
+    collaborator.role = data.role
+    collaborator.status = 'pending'
+    collaborator.invitedBy = inviter
+    collaborator.user = undefined
+    collaborator.respondedAt = undefined
+    await this.em.flush()
+
+    const titles = await getLatestPostTitles(this.em, [post.id])
+    await this.emailService.sendTemplate('post-invitation', {
+      to: email,
+      variables: {
+        inviterName: inviter.name,
+        postTitle: titles.get(post.id) ?? '',
+        role: data.role,
+        url: `${config.clients.webApp.url}/dashboard/invitations`,
+      },
+    })
+
+    return this.mapCollaboratorToResponse(collaborator)
+  }
+
+  async updateCollaborator(
+    actor: Actor,
+    postId: string,
+    collaboratorId: string,
+    data: UpdatePostCollaboratorInput,
+  ): Promise<PostCollaboratorResponse> {
+    const post = await this.findPost(actor, postId, 'manage')
+    const collaborator = await this.findCollaborator(post, collaboratorId)
+    if (collaborator.role === 'owner')
+      throw new BadRequestException('The role of the owner cannot be changed')
+
+    collaborator.role = data.role
+    await this.em.flush()
+
+    return this.mapCollaboratorToResponse(collaborator)
+  }
+
+  /**
+   * Removes a collaborator or cancels an invitation. Collaborators can also leave the post by removing themselves.
+   */
+  async removeCollaborator(actor: Actor, postId: string, collaboratorId: string): Promise<void> {
+    const post = await this.findPost(actor, postId, 'view')
+    const collaborator = await this.findCollaborator(post, collaboratorId)
+    if (collaborator.role === 'owner')
+      throw new BadRequestException('The owner cannot be removed from the post')
+
+    const actorCollaborator = await this.em.findOne(PostCollaborator, { post: post.id, user: actor.id, status: 'accepted' })
+    if (collaborator.user?.id !== actor.id && !canDoOnPost(actor, actorCollaborator?.role, 'manage'))
+      throw new ForbiddenException('Only the owner of the post can remove the other collaborators')
+
+    await this.em.removeAndFlush(collaborator)
+  }
+
+  async getInvitations(invitee: Invitee): Promise<PostInvitations> {
+    this.assertEmailVerified(invitee)
+
+    const invitations = await this.em.find(
+      PostCollaborator,
+      { email: invitee.email.toLowerCase(), status: 'pending' },
+      { populate: ['invitedBy'], orderBy: { createdAt: 'DESC' } },
+    )
+    const titles = await getLatestPostTitles(this.em, invitations.map(invitation => invitation.post.id))
+
+    return invitations.map(invitation => ({
+      id: invitation.id,
+      role: invitation.role,
+      post: {
+        id: invitation.post.id,
+        title: titles.get(invitation.post.id) ?? '',
+      },
+      invitedBy: invitation.invitedBy ? { name: invitation.invitedBy.name } : null,
+      createdAt: invitation.createdAt,
+    }))
+  }
+
+  /**
+   * Accepts or declines an invitation sent to the email of the user.
+   */
+  async respondToInvitation(
+    invitee: Invitee,
+    invitationId: string,
+    accept: boolean,
+  ): Promise<PostCollaboratorResponse> {
+    this.assertEmailVerified(invitee)
+
+    const invitation = await this.em.findOne(PostCollaborator, {
+      id: invitationId,
+      email: invitee.email.toLowerCase(),
+      status: 'pending',
+    })
+    if (!invitation)
+      throw new NotFoundException('Invitation not found')
+
+    invitation.status = accept ? 'accepted' : 'declined'
+    invitation.user = accept ? this.em.getReference(User, invitee.id) : undefined
+    invitation.respondedAt = new Date()
+    await this.em.flush()
+    await this.em.populate(invitation, ['user'])
+
+    return this.mapCollaboratorToResponse(invitation)
+  }
+
+  /**
+   * Follows a user changing their email: their pending invitations are moved to the new address,
+   * and their collaborations show it. The posts which already invited the new address keep that invitation.
+   */
+  async changeCollaboratorEmail(userId: string, previousEmail: string, email: string): Promise<void> {
+    const collaborators = await this.em.find(PostCollaborator, {
+      $or: [
+        { email: previousEmail.toLowerCase(), status: 'pending' },
+        { user: userId },
+      ],
+    })
+    if (!collaborators.length)
+      return
+
+    const invitedPosts = await this.em.find(
+      PostCollaborator,
+      { email: email.toLowerCase(), post: collaborators.map(collaborator => collaborator.post.id) },
+      { fields: ['post'] },
+    )
+    const invitedPostIds = new Set(invitedPosts.map(collaborator => collaborator.post.id))
+
+    for (const collaborator of collaborators) {
+      if (!invitedPostIds.has(collaborator.post.id))
+        collaborator.email = email.toLowerCase()
+    }
+    await this.em.flush()
+  }
+
+  // Invitations are sent to an email, only the users who proved they own it can see and answer them
+  private assertEmailVerified(invitee: Invitee) {
+    if (!invitee.emailVerified)
+      throw new ForbiddenException('Verify your email to see the invitations sent to it')
+  }
+
+  private async findPost(actor: Actor, postId: string, permission: PostPermission) {
+    const post = await this.em.findOne(Post, { id: postId, ...getPostAccessFilter(actor, permission) })
+    if (!post)
+      throw new NotFoundException('Post not found')
+
+    return post
+  }
+
+  private async findCollaborator(post: Post, collaboratorId: string) {
+    const collaborator = await this.em.findOne(
+      PostCollaborator,
+      { id: collaboratorId, post: post.id },
+      { populate: ['user'] },
+    )
+    if (!collaborator)
+      throw new NotFoundException('Collaborator not found')
+
+    return collaborator
+  }
+
+  private mapCollaboratorToResponse(collaborator: PostCollaborator): PostCollaboratorResponse {
+    return {
+      id: collaborator.id,
+      email: collaborator.email,
+      role: collaborator.role,
+      status: collaborator.status,
+      user: collaborator.user ? { id: collaborator.user.id, name: collaborator.user.name } : null,
+      createdAt: collaborator.createdAt,
+    }
+  }
+}
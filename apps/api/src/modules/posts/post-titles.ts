@@ -0,0 +1,21 @@
+import { EntityManager } from '@mikro-orm/core'
+
+/**
+ * Finds the title of the given posts, which is the one of their latest version.
+ * @returns The titles by post id, without the posts having no version
+ */
+export async function getLatestPostTitles(em: EntityManager, postIds: string[]) {
+  const uniquePostIds = [...new Set(postIds)]
+  if (!uniquePostIds.length)
+    return new Map<string, string>()
+
+  const rows: Array<{ postId: string, title: string }> = await em.getConnection().execute(
+    `select distinct on ("postId") "postId", "title"
+    from "postVersion"
+    where "postId" in (${uniquePostIds.map(() => '?').join(', ')})
+    order by "postId", "createdAt" desc`,
+    uniquePostIds,
+  )
+
+  return new Map(rows.map(row => [row.postId, row.title]))
+}
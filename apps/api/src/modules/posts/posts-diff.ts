@@ -0,0 +1,71 @@
+import { PostContentDiff } from './contracts/posts.contract'
+import { Content } from './posts.entity'
+
+function isSameBlock(a: Content, b: Content) {
+  // Most blocks hold objects, which are compared by value
+  return a.type === b.type && JSON.stringify(a.data) === JSON.stringify(b.data)
+}
+
+/**
+ * Computes a block-level diff between two lists of content blocks.
+ * Blocks are matched using their longest common subsequence, then removed and
+ * added blocks of the same type found at the same place are reported as modified.
+ */
+export function diffPostContent(before: Content[], after: Content[]): PostContentDiff[] {
+  // lcs[i][j] is the length of the longest common subsequence of before[i..] and after[j..]
+  const lcs = Array.from(
+    { length: before.length + 1 },
+    () => Array.from<number>({ length: after.length + 1 }).fill(0),
+  )
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = isSameBlock(before[i], after[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const diff: PostContentDiff[] = []
+  let removed: Content[] = []
+  let added: Content[] = []
+
+  const flushChanges = () => {
+    const length = Math.max(removed.length, added.length)
+    for (let k = 0; k < length; k++) {
+      const oldBlock = removed[k]
+      const newBlock = added[k]
+      if (oldBlock && newBlock && oldBlock.type === newBlock.type) {
+        diff.push({ status: 'modified', before: oldBlock, after: newBlock })
+        continue
+      }
+      if (oldBlock)
+        diff.push({ status: 'removed', before: oldBlock })
+      if (newBlock)
+        diff.push({ status: 'added', after: newBlock })
+    }
+    removed = []
+    added = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (isSameBlock(before[i], after[j])) {
+      flushChanges()
+      diff.push({ status: 'unchanged', before: before[i], after: after[j] })
+      i++
+      j++
+    }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push(before[i++])
+    }
+    else {
+      added.push(after[j++])
+    }
+  }
+  removed.push(...before.slice(i))
+  added.push(...after.slice(j))
+  flushChanges()
+
+  return diff
+}
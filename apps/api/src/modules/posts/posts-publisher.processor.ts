@@ -0,0 +1,23 @@
+import { EnsureRequestContext, EntityManager } from '@mikro-orm/core'
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { PostService } from './posts.service'
+
+@Injectable()
+export class PostPublisherProcessor {
+  private readonly logger = new Logger(PostPublisherProcessor.name)
+
+  // The entity manager is required by @EnsureRequestContext to fork a context for each run
+  constructor(
+    private readonly em: EntityManager,
+    private readonly postService: PostService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  @EnsureRequestContext()
+  async publishScheduledPosts() {
+    const count = await this.postService.publishScheduledPosts()
+    if (count > 0)
+      this.logger.log(`Published ${count} scheduled post(s)`)
+  }
+}
@@ -1,16 +1,21 @@
 import {
   FilteringParams,
   PaginationParams,
+  registerSchema,
   SortingParams,
   TypedBody,
   TypedController,
   TypedParam,
+  TypedQuery,
   TypedRoute,
+  ZodValidationPipe,
 } from '@lonestone/nzoth/server'
 import {
+  Body,
   Param,
   UseGuards,
 } from '@nestjs/common'
+import { ApiBody } from '@nestjs/swagger'
 import { LoggedInBetterAuthSession } from 'src/config/better-auth.config'
 import {
   CreatePostInput,
@@ -19,18 +24,25 @@ import {
   postFilteringSchema,
   PostPagination,
   postPaginationSchema,
+  postSearchQuerySchema,
   PostSorting,
   postSortingSchema,
+  postVersionDetailSchema,
+  postVersionDiffSchema,
   publicPostSchema,
   publicPostsSchema,
+  PublishPostInput,
+  publishPostSchema,
   UpdatePostInput,
   updatePostSchema,
   UserPost,
   userPostSchema,
   userPostsSchema,
+  UserPostsScope,
+  userPostsScopeSchema,
 } from 'src/modules/posts/contracts/posts.contract'
 import { z } from 'zod'
-import { Session } from '../auth/auth.decorator'
+import { Scopes, Session } from '../auth/auth.decorator'
 import { AuthGuard } from '../auth/auth.guard'
 import { PostService } from './posts.service'
 
@@ -42,6 +54,7 @@ export class PostController {
   constructor(private readonly postService: PostService) {}
 
   @TypedRoute.Post('', userPostSchema)
+  @Scopes('posts:write')
   async createPost(
     @Session() session: LoggedInBetterAuthSession,
     @TypedBody(createPostSchema) body: CreatePostInput,
@@ -53,6 +66,7 @@ export class PostController {
   }
 
   @TypedRoute.Put(':id', userPostSchema)
+  @Scopes('posts:write')
   async updatePost(
     @Session() session: LoggedInBetterAuthSession,
     @TypedParam('id', z.string()) id: string,
@@ -60,43 +74,82 @@ export class PostController {
   ) {
     return await this.postService.updatePost(
       id,
-      session.user.id,
+      session.user,
       body,
     )
   }
 
-  @TypedRoute.Patch(':id/publish')
+  // Without a body, the post is published right away
+  @TypedRoute.Patch(':id/publish', userPostSchema)
+  @Scopes('posts:write')
+  @ApiBody({ required: false, schema: registerSchema(publishPostSchema, 'Body') })
   async publishPost(
     @Session() session: LoggedInBetterAuthSession,
     @Param('id') id: string,
+    @Body(new ZodValidationPipe(publishPostSchema.optional())) body?: PublishPostInput,
   ) {
-    return await this.postService.publishPost(session.user.id, id)
+    return await this.postService.publishPost(session.user, id, body)
   }
 
   @TypedRoute.Patch(':id/unpublish')
+  @Scopes('posts:write')
   async unpublishPost(
     @Session() session: LoggedInBetterAuthSession,
     @Param('id') id: string,
   ) {
-    return await this.postService.unpublishPost(session.user.id, id)
+    return await this.postService.unpublishPost(session.user, id)
+  }
+
+  @TypedRoute.Get(':id/versions/diff', postVersionDiffSchema)
+  @Scopes('posts:read')
+  async diffPostVersions(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('id', z.string()) id: string,
+    @TypedQuery('from', z.string().uuid()) from: string,
+    @TypedQuery('to', z.string().uuid()) to: string,
+  ) {
+    return await this.postService.diffPostVersions(session.user, id, from, to)
+  }
+
+  @TypedRoute.Get(':id/versions/:versionId', postVersionDetailSchema)
+  @Scopes('posts:read')
+  async getPostVersion(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('id', z.string()) id: string,
+    @TypedParam('versionId', z.string().uuid()) versionId: string,
+  ) {
+    return await this.postService.getPostVersion(session.user, id, versionId)
+  }
+
+  @TypedRoute.Post(':id/versions/:versionId/restore', userPostSchema)
+  @Scopes('posts:write')
+  async restorePostVersion(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('id', z.string()) id: string,
+    @TypedParam('versionId', z.string().uuid()) versionId: string,
+  ) {
+    return await this.postService.restorePostVersion(session.user, id, versionId)
   }
 
   @TypedRoute.Get('', userPostsSchema)
+  @Scopes('posts:read')
   async getUserPosts(
     @Session() session: LoggedInBetterAuthSession,
     @PaginationParams(postPaginationSchema) pagination: PostPagination,
     @SortingParams(postSortingSchema) sort?: PostSorting,
     @FilteringParams(postFilteringSchema) filter?: PostFiltering,
+    @TypedQuery('scope', userPostsScopeSchema) scope?: UserPostsScope,
   ) {
-    return await this.postService.getUserPosts(session.user.id, pagination, sort, filter)
+    return await this.postService.getUserPosts(session.user, pagination, sort, filter, scope)
   }
 
   @TypedRoute.Get(':id', userPostSchema)
+  @Scopes('posts:read')
   async getUserPost(
     @Session() session: LoggedInBetterAuthSession,
     @Param('id') id: string,
   ) {
-    return await this.postService.getUserPost(id, session.user.id)
+    return await this.postService.getUserPost(id, session.user)
   }
 }
 
@@ -121,7 +174,8 @@ export class PublicPostController {
     @PaginationParams(postPaginationSchema) pagination: PostPagination,
     @SortingParams(postSortingSchema) sort?: PostSorting,
     @FilteringParams(postFilteringSchema) filter?: PostFiltering,
+    @TypedQuery('q', postSearchQuerySchema) q?: string,
   ) {
-    return await this.postService.getPublicPosts(pagination, sort, filter)
+    return await this.postService.getPublicPosts(pagination, sort, filter, q)
   }
 }
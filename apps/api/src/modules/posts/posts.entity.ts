@@ -1,7 +1,9 @@
 import {
   Collection,
   Entity,
+  Enum,
   Index,
+  ManyToMany,
   ManyToOne,
   OneToMany,
   PrimaryKey,
@@ -10,18 +12,53 @@ import {
 } from '@mikro-orm/core'
 import { User } from '../auth/auth.entity'
 import { Comment } from '../comments/comments.entity'
+import { Tag } from '../tags/tags.entity'
 
-export interface Content {
-  type: 'text' | 'image' | 'video'
-  data: string
+// Text search configuration used to index and query the posts
+export const POST_SEARCH_CONFIG = 'english'
+
+// JSON path of the data of the content blocks holding searchable text. Code blocks are left out on purpose
+export const POST_SEARCH_CONTENT_PATH = '$[*] ? (@.type == "text" || @.type == "markdown" || @.type == "heading" || @.type == "quote" || @.type == "list").data'
+
+export interface ImageContent {
+  src: string
+  alt: string
+  width?: number
+  height?: number
+  placeholder?: string
+  variants?: { src: string, width: number, height: number }[]
 }
 
+export type Content
+  = | { type: 'text', data: string }
+    | { type: 'image', data: ImageContent }
+    | { type: 'video', data: string }
+    | { type: 'markdown', data: string }
+    | { type: 'heading', data: { text: string, level: number } }
+    | { type: 'quote', data: { text: string, citation?: string } }
+    | { type: 'code', data: { code: string, language?: string } }
+    | { type: 'list', data: { ordered: boolean, items: string[] } }
+
+// How new comments are handled: published right away, held for moderation, or refused
+export const commentModerationModes = ['open', 'moderated', 'closed'] as const
+
+export type CommentModeration = typeof commentModerationModes[number]
+
+// Owners manage the post and its collaborators, editors edit its drafts, viewers only read them
+export const postCollaboratorRoles = ['owner', 'editor', 'viewer'] as const
+
+export type PostCollaboratorRole = typeof postCollaboratorRoles[number]
+
+export const postCollaboratorStatuses = ['pending', 'accepted', 'declined'] as const
+
+export type PostCollaboratorStatus = typeof postCollaboratorStatuses[number]
+
 @Entity({ tableName: 'post' })
 export class Post {
   @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
   id!: string
 
-  @ManyToOne(() => User, { fieldName: 'userId' })
+  @ManyToOne(() => User, { fieldName: 'userId', deleteRule: 'cascade' })
   @Index()
   user!: User
 
@@ -35,12 +72,32 @@ export class Post {
   @Index()
   publishedAt?: Date
 
+  // When set, the post will be published by the publisher processor at this date
+  @Property({ fieldName: 'scheduledAt', nullable: true })
+  @Index()
+  scheduledAt?: Date
+
   @OneToMany(() => PostVersion, version => version.post)
   versions = new Collection<PostVersion>(this)
 
   @OneToMany(() => Comment, comment => comment.post)
   comments = new Collection<Comment>(this)
 
+  @OneToMany(() => PostCollaborator, collaborator => collaborator.post)
+  collaborators = new Collection<PostCollaborator>(this)
+
+  @Enum({ items: [...commentModerationModes], fieldName: 'commentModeration' })
+  commentModeration: CommentModeration = 'open'
+
+  @ManyToMany(() => Tag, tag => tag.posts, {
+    owner: true,
+    pivotTable: 'postTag',
+    joinColumn: 'postId',
+    inverseJoinColumn: 'tagId',
+    orderBy: { name: 'ASC' },
+  })
+  tags = new Collection<Tag>(this)
+
   @Unique()
   @Property({ fieldName: 'slug', nullable: true })
   @Index()
@@ -56,11 +113,12 @@ export class Post {
 }
 
 @Entity({ tableName: 'postVersion' })
+@Index({ properties: ['post', 'createdAt'] })
 export class PostVersion {
   @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
   id!: string
 
-  @ManyToOne(() => Post, { fieldName: 'postId' })
+  @ManyToOne(() => Post, { fieldName: 'postId', deleteRule: 'cascade' })
   post!: Post
 
   @Property()
@@ -72,4 +130,50 @@ export class PostVersion {
 
   @Property({ fieldName: 'createdAt' })
   createdAt: Date = new Date()
+
+  // Full-text search document, generated by Postgres from the title and the strings of the text content blocks
+  @Property({
+    type: 'tsvector',
+    fieldName: 'searchVector',
+    generated: `(setweight(to_tsvector('${POST_SEARCH_CONFIG}', coalesce("title", '')), 'A') || setweight(jsonb_to_tsvector('${POST_SEARCH_CONFIG}', coalesce(jsonb_path_query_array("content", '${POST_SEARCH_CONTENT_PATH}'), '[]'), '["string"]'), 'B')) stored`,
+    lazy: true,
+    nullable: true,
+  })
+  @Index({ type: 'fulltext' })
+  searchVector?: string
+}
+
+// A user working on a post. The owner is added when the post is created, the others are invited by email
+@Entity({ tableName: 'postCollaborator' })
+@Unique({ properties: ['post', 'email'] })
+export class PostCollaborator {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => Post, { fieldName: 'postId', deleteRule: 'cascade' })
+  post!: Post
+
+  // Invitations can be sent to people without an account, the user is set once they accept it
+  @ManyToOne(() => User, { fieldName: 'userId', nullable: true })
+  @Index()
+  user?: User
+
+  @Property()
+  @Index()
+  email!: string
+
+  @Enum({ items: [...postCollaboratorRoles] })
+  role!: PostCollaboratorRole
+
+  @Enum({ items: [...postCollaboratorStatuses] })
+  status: PostCollaboratorStatus = 'pending'
+
+  @ManyToOne(() => User, { fieldName: 'invitedById', nullable: true })
+  invitedBy?: User
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+
+  @Property({ fieldName: 'respondedAt', nullable: true })
+  respondedAt?: Date
 }
@@ -1,10 +1,19 @@
 import { Module } from '@nestjs/common'
+import { AuditLogModule } from '../audit-log/audit-log.module'
+import { EmailModule } from '../email/email.module'
+import { ReactionsModule } from '../reactions/reactions.module'
+import { TagsModule } from '../tags/tags.module'
+import { PostCollaboratorsController, PostInvitationsController } from './post-collaborators.controller'
+import { PostCollaboratorsAuthHooks } from './post-collaborators.hooks'
+import { PostCollaboratorsService } from './post-collaborators.service'
+import { PostPublisherProcessor } from './posts-publisher.processor'
 import { PostController, PublicPostController } from './posts.controller'
 import { PostService } from './posts.service'
 
 @Module({
-  controllers: [PostController, PublicPostController],
-  providers: [PostService],
+  imports: [TagsModule, ReactionsModule, EmailModule, AuditLogModule],
+  controllers: [PostController, PublicPostController, PostCollaboratorsController, PostInvitationsController],
+  providers: [PostService, PostCollaboratorsService, PostCollaboratorsAuthHooks, PostPublisherProcessor],
   exports: [PostService],
 })
 export class PostModule {}
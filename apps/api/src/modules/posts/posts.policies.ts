@@ -0,0 +1,30 @@
+import { ObjectQuery } from '@mikro-orm/core'
+import { Actor, canManageAllPosts } from '../auth/auth.policies'
+import { Post, PostCollaboratorRole } from './posts.entity'
+
+// Collaborator roles allowed to do each action on a post. Admins can do everything
+export const postPermissions = {
+  view: ['owner', 'editor', 'viewer'],
+  edit: ['owner', 'editor'],
+  manage: ['owner'],
+} as const satisfies Record<string, readonly PostCollaboratorRole[]>
+
+export type PostPermission = keyof typeof postPermissions
+
+export function canDoOnPost(actor: Actor, role: PostCollaboratorRole | undefined, permission: PostPermission) {
+  return canManageAllPosts(actor) || (!!role && (postPermissions[permission] as readonly PostCollaboratorRole[]).includes(role))
+}
+
+// Filters the posts on which the user can do an action
+export function getPostAccessFilter(actor: Actor, permission: PostPermission): ObjectQuery<Post> {
+  if (canManageAllPosts(actor))
+    return {}
+
+  return {
+    collaborators: {
+      user: actor.id,
+      status: 'accepted',
+      role: { $in: [...postPermissions[permission]] },
+    },
+  }
+}
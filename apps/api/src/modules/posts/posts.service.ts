@@ -1,24 +1,55 @@
+import { randomUUID } from 'node:crypto'
 import { EntityManager, FilterQuery } from '@mikro-orm/core'
-import { Injectable, NotFoundException } from '@nestjs/common'
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common'
 import slugify from 'slugify'
+import { AuditLogSnapshot } from '../audit-log/audit-log.entity'
+import { AuditLogService } from '../audit-log/audit-log.service'
 import { User } from '../auth/auth.entity'
+import { Actor, canManageAllPosts } from '../auth/auth.policies'
 import { Comment } from '../comments/comments.entity'
 import {
   CreatePostInput,
   PostFiltering,
   PostPagination,
   PostSorting,
+  PostVersionDetail,
+  PostVersionDiff,
   PublicPosts,
+  PublicPostSnippet,
+  PublishPostInput,
   UpdatePostInput,
   UserPost,
   UserPosts,
+  UserPostsScope,
 } from '../posts/contracts/posts.contract'
+import { ReactionsService } from '../reactions/reactions.service'
+import { Tag } from '../tags/tags.entity'
+import { TagsService } from '../tags/tags.service'
 import { PublicPost } from './contracts/posts.contract'
-import { Post, PostVersion } from './posts.entity'
+import { diffPostContent } from './posts-diff'
+import { Post, POST_SEARCH_CONFIG, POST_SEARCH_CONTENT_PATH, PostCollaborator, PostCollaboratorRole, PostVersion } from './posts.entity'
+import { getPostAccessFilter, PostPermission } from './posts.policies'
+
+// Markers wrapping the matching words in the search headlines, split into snippet parts afterwards
+const SEARCH_HIGHLIGHT_START = '\uE000'
+const SEARCH_HIGHLIGHT_STOP = '\uE001'
+const SEARCH_HEADLINE_OPTIONS = `StartSel="${SEARCH_HIGHLIGHT_START}", StopSel="${SEARCH_HIGHLIGHT_STOP}", MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`
+
+function toSearchSnippet(headline: string): PublicPostSnippet {
+  return headline
+    .split(new RegExp(`${SEARCH_HIGHLIGHT_START}(.*?)${SEARCH_HIGHLIGHT_STOP}`, 'g'))
+    .map((text, index) => ({ text, highlighted: index % 2 === 1 }))
+    .filter(part => part.text.length > 0)
+}
 
 @Injectable()
 export class PostService {
-  constructor(private readonly em: EntityManager) {}
+  constructor(
+    private readonly em: EntityManager,
+    private readonly tagsService: TagsService,
+    private readonly reactionsService: ReactionsService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
 
   async createPost(userId: string, data: CreatePostInput): Promise<UserPost> {
     const user = await this.em.findOne(User, { id: userId })
@@ -26,20 +57,45 @@ export class PostService {
       throw new Error('User not found')
 
     const post = new Post()
+    // Known before the flush, for the audit log entry
+    post.id = randomUUID()
     post.user = user
+    if (data.tags)
+      post.tags.set(await this.tagsService.findOrCreateTags(data.tags))
+    if (data.commentModeration)
+      post.commentModeration = data.commentModeration
 
     const version = new PostVersion()
     version.post = post
     version.title = data.title
     version.content = data.content
 
-    await this.em.persistAndFlush([post, version])
+    const owner = new PostCollaborator()
+    owner.post = post
+    owner.user = user
+    owner.email = user.email
+    owner.role = 'owner'
+    owner.status = 'accepted'
+    owner.respondedAt = new Date()
+
+    this.auditLogService.record({
+      actorId: user.id,
+      action: 'post.created',
+      targetType: 'post',
+      targetId: post.id,
+      after: this.getAuditSnapshot(post, version),
+    })
+    await this.em.persistAndFlush([post, version, owner])
+
     return {
       id: post.id,
       title: version.title,
       content: version.content,
       type: 'draft',
       publishedAt: post.publishedAt,
+      tags: this.getPostTags(post.tags.getItems()),
+      commentModeration: post.commentModeration,
+      role: 'owner',
       versions: [
         {
           id: version.id,
@@ -52,13 +108,13 @@ export class PostService {
 
   async updatePost(
     postId: string,
-    userId: string,
+    actor: Actor,
     data: UpdatePostInput,
   ): Promise<UserPost> {
     const post = await this.em.findOne(
       Post,
-      { id: postId, user: userId },
-      { populate: ['versions'] },
+      this.getPostFilter(actor, postId, 'edit'),
+      { populate: ['versions', 'tags', 'collaborators'] },
     )
     if (!post)
       throw new Error('Post not found')
@@ -73,17 +129,27 @@ export class PostService {
     if (!latestVersion)
       throw new Error('No version found')
 
+    const before = this.getAuditSnapshot(post, latestVersion)
+
+    // Tags and comment settings are not versioned, they apply to the post right away
+    if (data.tags)
+      post.tags.set(await this.tagsService.findOrCreateTags(data.tags))
+    if (data.commentModeration)
+      post.commentModeration = data.commentModeration
+
     // We create a new version only if the post is published and the last version
     // was created before the publication
     const shouldCreateNewVersion
       = post.publishedAt && post.publishedAt < latestVersion.createdAt
 
+    let after: AuditLogSnapshot
     if (shouldCreateNewVersion) {
       const version = new PostVersion()
       version.post = post
       version.title = data.title ?? latestVersion.title
       version.content = data.content ?? latestVersion.content
-      await this.em.persistAndFlush(version)
+      this.em.persist(version)
+      after = this.getAuditSnapshot(post, version)
     }
     else {
       // Otherwise we update the last version
@@ -91,18 +157,29 @@ export class PostService {
         latestVersion.title = data.title
       if (data.content)
         latestVersion.content = data.content
-      await this.em.flush()
+      after = this.getAuditSnapshot(post, latestVersion)
     }
 
+    this.auditLogService.record({
+      actorId: actor.id,
+      action: 'post.updated',
+      targetType: 'post',
+      targetId: post.id,
+      before,
+      after,
+    })
+    await this.em.flush()
+
     return {
       id: post.id,
       title: latestVersion.title,
       content: latestVersion.content ?? [],
-      type:
-        post.publishedAt && post.publishedAt < latestVersion.createdAt
-          ? 'published'
-          : 'draft',
+      type: this.getPostType(post),
       publishedAt: post.publishedAt,
+      scheduledAt: post.scheduledAt,
+      tags: this.getPostTags(post.tags.getItems()),
+      commentModeration: post.commentModeration,
+      role: this.getCollaboratorRole(post.collaborators.getItems(), actor),
       versions: [
         {
           id: latestVersion.id,
@@ -125,11 +202,11 @@ export class PostService {
     return `${baseSlug}-${shortId}`
   }
 
-  async publishPost(userId: string, postId: string) {
+  async publishPost(actor: Actor, postId: string, data: PublishPostInput = {}) {
     const post = await this.em.findOne(
       Post,
-      { id: postId, user: userId },
-      { populate: ['versions'] },
+      this.getPostFilter(actor, postId, 'manage'),
+      { populate: ['versions', 'tags', 'collaborators'] },
     )
     if (!post)
       throw new Error('Post not found')
@@ -144,6 +221,7 @@ export class PostService {
     if (!latestVersion)
       throw new Error('No version found')
 
+    const before = this.getPublicationAuditSnapshot(post)
     const now = new Date()
     // We check that the last version is older than the publication date
     if (latestVersion.createdAt > now) {
@@ -152,21 +230,39 @@ export class PostService {
       )
     }
 
-    if (!post.publishedAt) {
-      post.slug = await this.computeSlug(post)
-    }
+    if (data.publishAt && data.publishAt > now) {
+      // Its publication date would be replaced, while it stays public until then
+      if (post.publishedAt)
+        throw new BadRequestException('A published post cannot be scheduled, unpublish it first')
 
-    post.publishedAt = now
+      // The post will be published by the publisher processor once the date is reached
+      post.scheduledAt = data.publishAt
+    }
+    else {
+      await this.markAsPublished(post, now)
+    }
 
+    this.auditLogService.record({
+      actorId: actor.id,
+      action: post.scheduledAt ? 'post.scheduled' : 'post.published',
+      targetType: 'post',
+      targetId: post.id,
+      before,
+      after: this.getPublicationAuditSnapshot(post),
+    })
     await this.em.flush()
 
     return {
       id: post.id,
       title: latestVersion.title,
       content: latestVersion.content ?? [],
-      type: 'published',
+      type: post.scheduledAt ? 'scheduled' : 'published',
       publishedAt: post.publishedAt,
+      scheduledAt: post.scheduledAt,
       slug: post.slug,
+      tags: this.getPostTags(post.tags.getItems()),
+      commentModeration: post.commentModeration,
+      role: this.getCollaboratorRole(post.collaborators.getItems(), actor),
       versions: [
         {
           id: latestVersion.id,
@@ -174,25 +270,124 @@ export class PostService {
           createdAt: latestVersion.createdAt,
         },
       ],
+    } satisfies UserPost
+  }
+
+  /**
+   * Publishes every post whose scheduled publication date has been reached.
+   * Called periodically by the PostPublisherProcessor.
+   * @returns The number of posts that have been published
+   */
+  async publishScheduledPosts(now: Date = new Date()): Promise<number> {
+    const posts = await this.em.find(
+      Post,
+      { scheduledAt: { $lte: now } },
+      { populate: ['versions'] },
+    )
+
+    const befores = posts.map(post => this.getPublicationAuditSnapshot(post))
+    for (const post of posts) {
+      await this.markAsPublished(post, post.scheduledAt!)
     }
+
+    // Published by the API itself, so without an actor
+    this.auditLogService.record(...posts.map((post, index) => ({
+      action: 'post.published' as const,
+      targetType: 'post' as const,
+      targetId: post.id,
+      before: befores[index],
+      after: this.getPublicationAuditSnapshot(post),
+    })))
+    await this.em.flush()
+    return posts.length
   }
 
-  async unpublishPost(userId: string, postId: string) {
-    const post = await this.em.findOne(Post, { id: postId, user: userId })
+  async unpublishPost(actor: Actor, postId: string) {
+    const post = await this.em.findOne(Post, this.getPostFilter(actor, postId, 'manage'))
     if (!post)
       throw new Error('Post not found')
 
+    const before = this.getPublicationAuditSnapshot(post)
+    // Unpublishing also cancels a pending schedule
     post.publishedAt = undefined
+    post.scheduledAt = undefined
+    this.auditLogService.record({
+      actorId: actor.id,
+      action: 'post.unpublished',
+      targetType: 'post',
+      targetId: post.id,
+      before,
+      after: this.getPublicationAuditSnapshot(post),
+    })
     await this.em.flush()
     return post
   }
 
-  async getUserPost(postId: string, userId: string): Promise<UserPost> {
+  async getPostVersion(
+    actor: Actor,
+    postId: string,
+    versionId: string,
+  ): Promise<PostVersionDetail> {
+    const version = await this.findUserPostVersion(actor, postId, versionId, 'view')
+
+    return {
+      id: version.id,
+      title: version.title,
+      content: version.content ?? [],
+      createdAt: version.createdAt,
+    }
+  }
+
+  async diffPostVersions(
+    actor: Actor,
+    postId: string,
+    fromVersionId: string,
+    toVersionId: string,
+  ): Promise<PostVersionDiff> {
+    const from = await this.findUserPostVersion(actor, postId, fromVersionId, 'view')
+    const to = await this.findUserPostVersion(actor, postId, toVersionId, 'view')
+
+    return {
+      from: { id: from.id, title: from.title, createdAt: from.createdAt },
+      to: { id: to.id, title: to.title, createdAt: to.createdAt },
+      titleChanged: from.title !== to.title,
+      blocks: diffPostContent(from.content ?? [], to.content ?? []),
+    }
+  }
+
+  /**
+   * Restores an old version by copying it into a new version.
+   * The new version is a draft until the post is published again.
+   */
+  async restorePostVersion(actor: Actor, postId: string, versionId: string) {
+    const version = await this.findUserPostVersion(actor, postId, versionId, 'edit')
+
+    const restoredVersion = new PostVersion()
+    // Known before the flush, for the audit log entry
+    restoredVersion.id = randomUUID()
+    restoredVersion.post = version.post
+    restoredVersion.title = version.title
+    restoredVersion.content = version.content
+    this.auditLogService.record({
+      actorId: actor.id,
+      action: 'post.version-restored',
+      targetType: 'post',
+      targetId: postId,
+      after: { restoredVersionId: version.id, versionId: restoredVersion.id, title: restoredVersion.title },
+    })
+    await this.em.persistAndFlush(restoredVersion)
+
+    return this.getUserPost(postId, actor)
+  }
+
+  async getUserPost(postId: string, actor: Actor): Promise<UserPost> {
     const post = await this.em.findOne(
       Post,
-      { id: postId, user: userId },
+      this.getPostFilter(actor, postId, 'view'),
       {
-        populate: ['versions', 'user'],
+        populate: ['versions', 'user', 'tags', 'collaborators'],
+        // The versions timeline is expected from the oldest to the latest
+        populateOrderBy: { versions: { createdAt: 'ASC' } },
       },
     )
     if (!post)
@@ -205,14 +400,12 @@ export class PostService {
       content:
         post.versions.getItems()[post.versions.getItems().length - 1].content
         ?? [],
-      type:
-        post.publishedAt
-        && post.publishedAt
-        < post.versions.getItems()[post.versions.getItems().length - 1]
-          .createdAt
-          ? 'published'
-          : 'draft',
+      type: this.getPostType(post),
       publishedAt: post.publishedAt,
+      scheduledAt: post.scheduledAt,
+      tags: this.getPostTags(post.tags.getItems()),
+      commentModeration: post.commentModeration,
+      role: this.getCollaboratorRole(post.collaborators.getItems(), actor),
       versions: post.versions.getItems().map(version => ({
         id: version.id,
         title: version.title,
@@ -222,12 +415,19 @@ export class PostService {
   }
 
   async getUserPosts(
-    userId: string,
+    actor: Actor,
     pagination: PostPagination,
     sort?: PostSorting,
     filter?: PostFiltering,
+    scope: UserPostsScope = 'own',
   ): Promise<UserPosts> {
-    const where: FilterQuery<Post> = { user: userId }
+    if (scope === 'all' && !canManageAllPosts(actor))
+      throw new ForbiddenException('You cannot list the posts of other users')
+
+    // The own posts are the ones the user collaborates on
+    const where: FilterQuery<Post> = scope === 'all'
+      ? {}
+      : { collaborators: { user: actor.id, status: 'accepted' } }
     const orderBy: Record<string, 'ASC' | 'DESC'> = { createdAt: 'DESC' }
 
     if (filter?.length) {
@@ -235,6 +435,9 @@ export class PostService {
         if (item.property === 'title') {
           where.versions = { title: { $like: `%${item.value}%` } }
         }
+        if (item.property === 'tag') {
+          where.tags = { slug: item.value }
+        }
       })
     }
 
@@ -249,17 +452,25 @@ export class PostService {
     }
 
     const [posts, total] = await this.em.findAndCount(Post, where, {
-      populate: ['versions'],
+      populate: ['versions', 'tags', 'user', 'collaborators'],
       orderBy,
       limit: pagination.pageSize,
       offset: pagination.offset,
       fields: [
         'id',
+        'user.id',
+        'user.name',
+        'collaborators.user',
+        'collaborators.role',
+        'collaborators.status',
         'slug',
         'publishedAt',
+        'scheduledAt',
         'versions.id',
         'versions.title',
         'versions.createdAt',
+        'tags.name',
+        'tags.slug',
       ],
     })
 
@@ -291,6 +502,7 @@ export class PostService {
 
         return {
           publishedAt: post.publishedAt,
+          scheduledAt: post.scheduledAt,
           title: latestVersion.title,
           slug: post.slug,
           id: post.id,
@@ -299,11 +511,14 @@ export class PostService {
             title: version.title,
             createdAt: version.createdAt,
           })),
-          type:
-            post.publishedAt && post.publishedAt < latestVersion.createdAt
-              ? 'published'
-              : 'draft',
+          type: this.getPostType(post),
+          tags: this.getPostTags(post.tags.getItems()),
           contentPreview,
+          role: this.getCollaboratorRole(post.collaborators.getItems(), actor),
+          author: {
+            id: post.user.id,
+            name: post.user.name,
+          },
         } satisfies UserPosts['data'][number]
       }),
     )
@@ -325,7 +540,7 @@ export class PostService {
       Post,
       { slug, publishedAt: { $ne: null } },
       {
-        populate: ['user'],
+        populate: ['user', 'tags', 'collaborators.user'],
       },
     )
 
@@ -347,21 +562,25 @@ export class PostService {
     if (!latestVersion)
       throw new Error('No valid version found')
 
-    // Get comment count
+    // Get comment count, only approved comments that haven't been deleted are public
     const commentCount = await this.em.count(Comment, {
       post: post.id,
+      status: 'approved',
+      deletedAt: null,
     })
+    const reactionCounts = await this.reactionsService.getPostsReactionCounts([post.id])
 
     // Return the public format
     return {
       publishedAt: post.publishedAt!,
       title: latestVersion.title,
       content: latestVersion.content || [],
-      author: {
-        name: post.user.name,
-      },
+      authors: this.getPostAuthors(post),
       slug: post.slug,
+      tags: this.getPostTags(post.tags.getItems()),
+      commentModeration: post.commentModeration,
       commentCount,
+      reactions: reactionCounts.get(post.id)!,
     }
   }
 
@@ -390,7 +609,12 @@ export class PostService {
     pagination: PostPagination,
     sort?: PostSorting,
     filter?: PostFiltering,
+    search?: string,
   ): Promise<PublicPosts> {
+    // A search query ranks the posts by relevance, so the sorting is ignored
+    if (search)
+      return this.searchPublicPosts(search, pagination, filter)
+
     // Build the base query for published posts
     const where: FilterQuery<Post> = { publishedAt: { $ne: null } }
     const orderBy: Record<string, 'ASC' | 'DESC'> = { publishedAt: 'DESC' }
@@ -402,6 +626,9 @@ export class PostService {
           // For the title filter, we must pass through the versions
           where.versions = { title: { $like: `%${item.value}%` } }
         }
+        if (item.property === 'tag') {
+          where.tags = { slug: item.value }
+        }
       })
     }
 
@@ -418,12 +645,140 @@ export class PostService {
 
     // Get the posts with pagination
     const [posts, total] = await this.em.findAndCount(Post, where, {
-      populate: ['user'],
+      populate: ['user', 'tags', 'collaborators.user'],
       orderBy,
       limit: pagination.pageSize,
       offset: pagination.offset,
     })
 
+    return {
+      data: await this.toPublicPostsItems(posts),
+      meta: {
+        itemCount: total,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: pagination.offset + pagination.pageSize < total,
+      },
+    }
+  }
+
+  /**
+   * Gets the published posts of an author, i.e. the posts they own or edit, from the newest.
+   */
+  async getAuthorPublicPosts(userId: string, pagination: PostPagination): Promise<PublicPosts> {
+    const [posts, total] = await this.em.findAndCount(
+      Post,
+      {
+        publishedAt: { $ne: null },
+        collaborators: { user: userId, status: 'accepted', role: { $in: ['owner', 'editor'] } },
+      },
+      {
+        populate: ['user', 'tags', 'collaborators.user'],
+        orderBy: { publishedAt: 'DESC' },
+        limit: pagination.pageSize,
+        offset: pagination.offset,
+      },
+    )
+
+    return {
+      data: await this.toPublicPostsItems(posts),
+      meta: {
+        itemCount: total,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: pagination.offset + pagination.pageSize < total,
+      },
+    }
+  }
+
+  /**
+   * Searches the published posts using the full-text search vector of their public version.
+   * Results are ranked by relevance and come with a highlighted snippet of the matching text.
+   */
+  private async searchPublicPosts(
+    search: string,
+    pagination: PostPagination,
+    filter?: PostFiltering,
+  ): Promise<PublicPosts> {
+    const params: unknown[] = [
+      POST_SEARCH_CONFIG,
+      // Every string of the searchable blocks, whatever their shape
+      `strict ${POST_SEARCH_CONTENT_PATH}.** ? (@.type() == "string")`,
+      SEARCH_HEADLINE_OPTIONS,
+      POST_SEARCH_CONFIG,
+      search,
+    ]
+    let filterConditions = ''
+    filter?.forEach((item) => {
+      if (item.property === 'title') {
+        filterConditions += ` and v."title" ilike ?`
+        params.push(`%${item.value}%`)
+      }
+      if (item.property === 'tag') {
+        filterConditions += ` and exists (
+          select 1 from "postTag" pt join "tag" t on t."id" = pt."tagId"
+          where pt."postId" = v."postId" and t."slug" = ?
+        )`
+        params.push(item.value)
+      }
+    })
+    params.push(pagination.pageSize, pagination.offset)
+
+    const rows: Array<{ postId: string, headline: string, total: string }> = await this.em.getConnection().execute(
+      // The matching versions are found with the index of their search vector first,
+      // then only the public ones are kept: the latest version created before the publication
+      `select
+        v."postId",
+        ts_headline(
+          ?::regconfig,
+          v."title" || ' ' || coalesce((
+            select string_agg(text #>> '{}', ' ')
+            from jsonb_path_query(v."content", ?::jsonpath) text
+          ), ''),
+          query,
+          ?
+        ) as "headline",
+        count(*) over() as "total"
+      from websearch_to_tsquery(?::regconfig, ?) query
+      join "postVersion" v on v."searchVector" @@ query
+      join "post" p on p."id" = v."postId"
+      where p."publishedAt" is not null
+        and v."createdAt" <= p."publishedAt"
+        and not exists (
+          select 1 from "postVersion" newer
+          where newer."postId" = v."postId" and newer."createdAt" > v."createdAt" and newer."createdAt" <= p."publishedAt"
+        )${filterConditions}
+      order by ts_rank(v."searchVector", query) desc, v."postId"
+      limit ? offset ?`,
+      params,
+    )
+
+    const posts = await this.em.find(
+      Post,
+      { id: { $in: rows.map(row => row.postId) } },
+      { populate: ['user', 'tags', 'collaborators.user'] },
+    )
+    const postsById = new Map(posts.map(post => [post.id, post]))
+    const items = await this.toPublicPostsItems(
+      rows.map(row => postsById.get(row.postId)!),
+    )
+    const total = rows.length ? Number(rows[0].total) : 0
+
+    return {
+      data: items.map((item, index) => ({
+        ...item,
+        snippet: toSearchSnippet(rows[index].headline),
+      })),
+      meta: {
+        itemCount: total,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: pagination.offset + pagination.pageSize < total,
+      },
+    }
+  }
+
+  private async toPublicPostsItems(posts: Post[]): Promise<PublicPosts['data']> {
     // Get the last valid versions for all posts in a single query
     const postIds = posts.map(p => p.id)
 
@@ -448,16 +803,17 @@ export class PostService {
 
     // Get comment counts for all posts
     const commentCountsPromises = posts.map(post =>
-      this.em.count(Comment, { post: post.id }),
+      this.em.count(Comment, { post: post.id, status: 'approved', deletedAt: null }),
     )
     const commentCounts = await Promise.all(commentCountsPromises)
     const commentCountByPostId = new Map<string, number>()
     posts.forEach((post, index) => {
       commentCountByPostId.set(post.id, commentCounts[index])
     })
+    const reactionCountsByPostId = await this.reactionsService.getPostsReactionCounts(postIds)
 
     // Build the response
-    const data = posts.map((post) => {
+    return posts.map((post) => {
       // Find the last valid version for this post
       const versions = versionsByPost.get(post.id) || []
       const validVersions = versions.filter(
@@ -481,22 +837,87 @@ export class PostService {
         title: latestVersion.title,
         publishedAt: post.publishedAt!,
         slug: post.slug,
-        author: {
-          name: post.user.name,
-        },
+        authors: this.getPostAuthors(post),
+        tags: this.getPostTags(post.tags.getItems()),
         contentPreview,
         commentCount: commentCountByPostId.get(post.id) || 0,
-      }
+        reactions: reactionCountsByPostId.get(post.id)!,
+      } satisfies PublicPosts['data'][number]
     })
+  }
 
+  private async findUserPostVersion(actor: Actor, postId: string, versionId: string, permission: PostPermission) {
+    const version = await this.em.findOne(PostVersion, {
+      id: versionId,
+      post: this.getPostFilter(actor, postId, permission),
+    })
+    if (!version)
+      throw new NotFoundException('Version not found')
+
+    return version
+  }
+
+  private getPostFilter(actor: Actor, postId: string, permission: PostPermission): FilterQuery<Post> {
+    return { id: postId, ...getPostAccessFilter(actor, permission) }
+  }
+
+  private getCollaboratorRole(
+    collaborators: Array<Pick<PostCollaborator, 'user' | 'role' | 'status'>>,
+    actor: Actor,
+  ): PostCollaboratorRole | null {
+    const collaborator = collaborators.find(collaborator =>
+      collaborator.user?.id === actor.id && collaborator.status === 'accepted',
+    )
+    return collaborator?.role ?? null
+  }
+
+  // The collaborators of the post and their users must be populated
+  private getPostAuthors(post: Post): PublicPost['authors'] {
+    return post.collaborators.getItems()
+      .filter(collaborator => collaborator.status === 'accepted' && collaborator.role !== 'viewer' && collaborator.user)
+      .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner') || a.createdAt.getTime() - b.createdAt.getTime())
+      .map(collaborator => ({ name: collaborator.user!.name, handle: collaborator.user!.handle }))
+  }
+
+  private getPostTags(tags: Array<Pick<Tag, 'name' | 'slug'>>) {
+    return tags.map(tag => ({
+      name: tag.name,
+      slug: tag.slug,
+    }))
+  }
+
+  // The versioned content and the settings of a post, as kept in the audit log
+  private getAuditSnapshot(post: Post, version: Pick<PostVersion, 'title' | 'content'>): AuditLogSnapshot {
     return {
-      data,
-      meta: {
-        itemCount: total,
-        pageSize: pagination.pageSize,
-        offset: pagination.offset,
-        hasMore: pagination.offset + pagination.pageSize < total,
-      },
+      title: version.title,
+      content: version.content ?? [],
+      tags: post.tags.getItems().map(tag => tag.slug),
+      commentModeration: post.commentModeration,
     }
   }
+
+  private getPublicationAuditSnapshot(post: Pick<Post, 'publishedAt' | 'scheduledAt' | 'slug'>): AuditLogSnapshot {
+    return {
+      publishedAt: post.publishedAt ?? null,
+      scheduledAt: post.scheduledAt ?? null,
+      slug: post.slug ?? null,
+    }
+  }
+
+  // A published post stays published while its newer versions are being edited
+  private getPostType(post: Pick<Post, 'publishedAt' | 'scheduledAt'>): UserPost['type'] {
+    if (post.scheduledAt)
+      return 'scheduled'
+
+    return post.publishedAt ? 'published' : 'draft'
+  }
+
+  private async markAsPublished(post: Post, publishedAt: Date) {
+    if (!post.publishedAt) {
+      post.slug = await this.computeSlug(post)
+    }
+
+    post.publishedAt = publishedAt
+    post.scheduledAt = undefined
+  }
 }
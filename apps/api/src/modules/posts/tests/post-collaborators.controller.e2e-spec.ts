@@ -0,0 +1,312 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import { createAuthMiddleware } from 'better-auth/plugins'
+import supertest from 'supertest'
+import { BetterAuthType } from '../../../config/better-auth.config'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  API_URL,
+  closeTestBetterAuth,
+  createTestBetterAuth,
+  getCookies,
+  initBetterAuthRequest,
+} from '../../../test/better-auth.utils'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { EmailJob } from '../../email/email.entity'
+import { PostCollaboratorsAuthHooks } from '../post-collaborators.hooks'
+import { PostCollaborator } from '../posts.entity'
+import { PostModule } from '../posts.module'
+
+describe('postCollaboratorsController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let owner: User
+  let collaborator: User
+  let ownerRequest: ReturnType<typeof initRequestWithAuth>
+  let collaboratorRequest: ReturnType<typeof initRequestWithAuth>
+  let postId: string
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    owner = await createUserData(em, { name: 'Owner' })
+    collaborator = await createUserData(em, { name: 'Collaborator' })
+    ownerRequest = initRequestWithAuth(app, owner.id)
+    collaboratorRequest = initRequestWithAuth(app, collaborator.id)
+
+    const createResponse = await ownerRequest('post', '/admin/posts').send({
+      title: 'Shared post',
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+    postId = createResponse.body.id
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  async function inviteAndAccept(role: 'editor' | 'viewer') {
+    const inviteResponse = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({
+      email: collaborator.email,
+      role,
+    })
+    await collaboratorRequest('post', `/invitations/${inviteResponse.body.id}/accept`)
+    return inviteResponse.body.id as string
+  }
+
+  describe('pOST /admin/posts/:postId/collaborators', () => {
+    it('should invite a collaborator by email', async () => {
+      const response = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({
+        email: collaborator.email.toUpperCase(),
+        role: 'editor',
+      })
+      const invitationsResponse = await collaboratorRequest('get', '/invitations')
+
+      expect(response.body).toMatchObject({ email: collaborator.email, role: 'editor', status: 'pending', user: null })
+      expect(invitationsResponse.body).toMatchObject([{
+        id: response.body.id,
+        role: 'editor',
+        post: { id: postId, title: 'Shared post' },
+        invitedBy: { name: 'Owner' },
+      }])
+      expect(await em.fork().find(EmailJob, {})).toMatchObject([{
+        to: collaborator.email,
+        subject: 'Owner invited you to collaborate on "Shared post"',
+        content: expect.stringContaining('/dashboard/invitations'),
+      }])
+    })
+
+    it('should only let the owner invite collaborators', async () => {
+      await inviteAndAccept('editor')
+
+      const response = await collaboratorRequest('post', `/admin/posts/${postId}/collaborators`).send({
+        email: 'someone@lonestone.com',
+        role: 'editor',
+      })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should not invite the same person twice', async () => {
+      await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: collaborator.email, role: 'viewer' })
+
+      const response = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: collaborator.email, role: 'editor' })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('invitations', () => {
+    it('should let editors edit the drafts once they accept', async () => {
+      const deniedResponse = await collaboratorRequest('put', `/admin/posts/${postId}`).send({ title: 'Too early' })
+      await inviteAndAccept('editor')
+
+      const updateResponse = await collaboratorRequest('put', `/admin/posts/${postId}`).send({ title: 'Edited together' })
+      const postsResponse = await collaboratorRequest('get', '/admin/posts')
+      const publishResponse = await collaboratorRequest('patch', `/admin/posts/${postId}/publish`).send({})
+
+      expect(deniedResponse.ok).toBe(false)
+      expect(updateResponse.body).toMatchObject({ title: 'Edited together', role: 'editor' })
+      expect(postsResponse.body.data).toMatchObject([{ id: postId, role: 'editor' }])
+      // Only the owner publishes the post
+      expect(publishResponse.ok).toBe(false)
+    })
+
+    it('should let viewers read the drafts but not edit them', async () => {
+      await inviteAndAccept('viewer')
+
+      const getResponse = await collaboratorRequest('get', `/admin/posts/${postId}`)
+      const updateResponse = await collaboratorRequest('put', `/admin/posts/${postId}`).send({ title: 'Not allowed' })
+
+      expect(getResponse.body).toMatchObject({ id: postId, role: 'viewer' })
+      expect(updateResponse.ok).toBe(false)
+    })
+
+    it('should decline an invitation', async () => {
+      const inviteResponse = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({
+        email: collaborator.email,
+        role: 'editor',
+      })
+
+      const declineResponse = await collaboratorRequest('post', `/invitations/${inviteResponse.body.id}/decline`)
+      const acceptResponse = await collaboratorRequest('post', `/invitations/${inviteResponse.body.id}/accept`)
+      const getResponse = await collaboratorRequest('get', `/admin/posts/${postId}`)
+
+      expect(declineResponse.body).toMatchObject({ status: 'declined' })
+      expect(acceptResponse.status).toBe(404)
+      expect(getResponse.ok).toBe(false)
+    })
+
+    it('should not let other users answer an invitation', async () => {
+      const inviteResponse = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({
+        email: collaborator.email,
+        role: 'editor',
+      })
+
+      const response = await ownerRequest('post', `/invitations/${inviteResponse.body.id}/accept`)
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should not let users with an unverified email see nor answer the invitations sent to it', async () => {
+      const unverifiedUser = await createUserData(em, { emailVerified: false })
+      const unverifiedRequest = initRequestWithAuth(app, unverifiedUser.id)
+      const inviteResponse = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({
+        email: unverifiedUser.email,
+        role: 'editor',
+      })
+
+      const listResponse = await unverifiedRequest('get', '/invitations')
+      const acceptResponse = await unverifiedRequest('post', `/invitations/${inviteResponse.body.id}/accept`)
+      const getResponse = await unverifiedRequest('get', `/admin/posts/${postId}`)
+
+      expect(listResponse.status).toBe(403)
+      expect(acceptResponse.status).toBe(403)
+      expect(getResponse.ok).toBe(false)
+    })
+  })
+
+  describe('email change', () => {
+    let auth: BetterAuthType
+    let post: ReturnType<typeof initBetterAuthRequest>
+    let changeEmailTokens: string[]
+
+    beforeAll(() => {
+      const postCollaboratorsAuthHooks = app.get(PostCollaboratorsAuthHooks)
+      auth = createTestBetterAuth(orm, {
+        sendChangeEmailVerification: async ({ token }) => {
+          changeEmailTokens.push(token)
+        },
+        // As the AuthModule does with the @AfterHook() methods
+        afterHook: createAuthMiddleware(async (ctx) => {
+          if (ctx.path === '/change-email')
+            await postCollaboratorsAuthHooks.afterEmailChange(ctx)
+          if (ctx.path === '/verify-email')
+            await postCollaboratorsAuthHooks.afterEmailVerification(ctx)
+        }),
+      })
+      post = initBetterAuthRequest(auth)
+    })
+
+    beforeEach(() => {
+      changeEmailTokens = []
+    })
+
+    afterAll(async () => {
+      await closeTestBetterAuth(auth)
+    })
+
+    async function signUp(email: string, { emailVerified }: { emailVerified: boolean }) {
+      const credentials = { email, password: 'password1234' }
+      await post('/sign-up/email', { name: 'Jane Doe', ...credentials })
+      await em.fork().nativeUpdate(User, { email }, { emailVerified })
+      const signInResponse = await post('/sign-in/email', credentials)
+      return getCookies(signInResponse)
+    }
+
+    it('should move the pending invitations to the new email once the change is approved', async () => {
+      const cookies = await signUp('jane@example.com', { emailVerified: true })
+      const inviteResponse = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: 'jane@example.com', role: 'editor' })
+
+      await post('/change-email', { newEmail: 'jane.doe@example.com' }, cookies)
+      await auth.handler(new Request(`${API_URL}/api/auth/verify-email?token=${changeEmailTokens[0]}`, { headers: { Cookie: cookies } }))
+
+      const jane = await em.fork().findOneOrFail(User, { email: 'jane.doe@example.com' })
+      await em.fork().nativeUpdate(User, { id: jane.id }, { emailVerified: true })
+      const listResponse = await initRequestWithAuth(app, jane.id)('get', '/invitations')
+      expect(listResponse.body).toMatchObject([{ id: inviteResponse.body.id, role: 'editor', post: { id: postId } }])
+    })
+
+    it('should move the pending invitations of the unverified emails changed right away', async () => {
+      const cookies = await signUp('jane@example.com', { emailVerified: false })
+      const inviteResponse = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: 'jane@example.com', role: 'viewer' })
+
+      await post('/change-email', { newEmail: 'jane.doe@example.com' }, cookies)
+
+      expect(await em.fork().findOneOrFail(PostCollaborator, { id: inviteResponse.body.id })).toMatchObject({
+        email: 'jane.doe@example.com',
+        status: 'pending',
+      })
+    })
+
+    it('should keep the invitation already sent to the new email', async () => {
+      const cookies = await signUp('jane@example.com', { emailVerified: false })
+      const previousInvitation = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: 'jane@example.com', role: 'viewer' })
+      const invitation = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: 'jane.doe@example.com', role: 'editor' })
+
+      const response = await post('/change-email', { newEmail: 'jane.doe@example.com' }, cookies)
+
+      expect(response.status).toBe(200)
+      expect(await em.fork().find(PostCollaborator, { id: [previousInvitation.body.id, invitation.body.id] }, { orderBy: { createdAt: 'ASC' } })).toMatchObject([
+        { email: 'jane@example.com', role: 'viewer' },
+        { email: 'jane.doe@example.com', role: 'editor' },
+      ])
+    })
+  })
+
+  describe('collaborators management', () => {
+    it('should list, update and remove the collaborators', async () => {
+      const collaboratorId = await inviteAndAccept('viewer')
+
+      const updateResponse = await ownerRequest('patch', `/admin/posts/${postId}/collaborators/${collaboratorId}`).send({ role: 'editor' })
+      const listResponse = await collaboratorRequest('get', `/admin/posts/${postId}/collaborators`)
+      const removeResponse = await ownerRequest('del', `/admin/posts/${postId}/collaborators/${collaboratorId}`)
+      const getResponse = await collaboratorRequest('get', `/admin/posts/${postId}`)
+
+      expect(updateResponse.body).toMatchObject({ role: 'editor' })
+      expect(listResponse.body).toMatchObject([
+        { role: 'owner', status: 'accepted', user: { id: owner.id, name: 'Owner' } },
+        { role: 'editor', status: 'accepted', user: { id: collaborator.id, name: 'Collaborator' } },
+      ])
+      expect(removeResponse.body).toEqual({ success: true })
+      expect(getResponse.ok).toBe(false)
+    })
+
+    it('should not remove the owner', async () => {
+      const listResponse = await ownerRequest('get', `/admin/posts/${postId}/collaborators`)
+
+      const response = await ownerRequest('del', `/admin/posts/${postId}/collaborators/${listResponse.body[0].id}`)
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('gET /public/posts/:slug', () => {
+    it('should list the owner and the editors as authors', async () => {
+      await inviteAndAccept('editor')
+      const viewer = await createUserData(em, { name: 'Viewer' })
+      const viewerInvitation = await ownerRequest('post', `/admin/posts/${postId}/collaborators`).send({ email: viewer.email, role: 'viewer' })
+      await initRequestWithAuth(app, viewer.id)('post', `/invitations/${viewerInvitation.body.id}/accept`)
+      const publishResponse = await ownerRequest('patch', `/admin/posts/${postId}/publish`).send({})
+
+      const response = await supertest(app.getHttpServer()).get(`/public/posts/${publishResponse.body.slug}`)
+      const listResponse = await supertest(app.getHttpServer()).get('/public/posts')
+
+      const authors = [
+        { name: 'Owner', handle: owner.handle },
+        { name: 'Collaborator', handle: collaborator.handle },
+      ]
+      expect(response.body.authors).toEqual(authors)
+      expect(listResponse.body.data[0].authors).toEqual(authors)
+    })
+  })
+})
@@ -10,6 +10,7 @@ import {
 import { User } from '../../auth/auth.entity'
 import { CreatePostInput } from '../contracts/posts.contract'
 import { PostModule } from '../posts.module'
+import { PostService } from '../posts.service'
 
 describe('postController (e2e)', () => {
   // We set a high timeout to have enough time to launch the testcontainers
@@ -80,6 +81,42 @@ describe('postController (e2e)', () => {
         throw error
       }
     })
+
+    it('should create a post with rich content blocks', async () => {
+      const content: CreatePostInput['content'] = [
+        { type: 'heading', data: { text: 'Introduction', level: 2 } },
+        { type: 'markdown', data: 'Some **bold** text and a [link](https://example.com)' },
+        { type: 'quote', data: { text: 'Simplicity is prerequisite for reliability', citation: 'Edsger Dijkstra' } },
+        { type: 'code', data: { code: 'console.log(\'hello\')', language: 'typescript' } },
+        { type: 'list', data: { ordered: true, items: ['First', 'Second'] } },
+      ]
+
+      const response = await requestWithAuth('post', '/admin/posts').send({ title: 'Rich post', content })
+
+      expect(response.status).toBe(201)
+      expect(response.body.content).toEqual(content)
+    })
+
+    it('should reject invalid content blocks', async () => {
+      const response = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Invalid post',
+        content: [{ type: 'heading', data: { text: 'Title', level: 1 } }],
+      })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should reject image placeholders that are not inline images', async () => {
+      const response = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Invalid post',
+        content: [{
+          type: 'image',
+          data: { src: 'https://example.com/image.png', alt: 'Image', placeholder: 'https://example.com/track.png") , url("x' },
+        }],
+      })
+
+      expect(response.status).toBe(400)
+    })
   })
 
   describe('pATCH /admin/posts/:id/publish', () => {
@@ -120,6 +157,105 @@ describe('postController (e2e)', () => {
         throw error
       }
     })
+
+    it('should schedule a post when publishAt is in the future', async () => {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Scheduled Post',
+        content: [
+          {
+            type: 'text',
+            data: 'This is a scheduled post content',
+          },
+        ],
+      })
+
+      const postId = createResponse.body.id
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000)
+
+      const scheduleResponse = await requestWithAuth('patch', `/admin/posts/${postId}/publish`).send({
+        publishAt: publishAt.toISOString(),
+      })
+
+      expect(scheduleResponse.body).toMatchObject({
+        id: postId,
+        type: 'scheduled',
+        scheduledAt: publishAt.toISOString(),
+      })
+      expect(scheduleResponse.body.publishedAt).toBeFalsy()
+    })
+
+    it('should publish scheduled posts once their date is reached', async () => {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Scheduled Post',
+        content: [
+          {
+            type: 'text',
+            data: 'This is a scheduled post content',
+          },
+        ],
+      })
+
+      const postId = createResponse.body.id
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000)
+
+      await requestWithAuth('patch', `/admin/posts/${postId}/publish`).send({
+        publishAt: publishAt.toISOString(),
+      })
+
+      // Run the publisher as if the scheduled date had been reached
+      const publishedCount = await app.get(PostService).publishScheduledPosts(new Date(publishAt.getTime() + 1000))
+
+      const getResponse = await requestWithAuth('get', `/admin/posts/${postId}`)
+
+      expect(publishedCount).toBe(1)
+      expect(getResponse.body).toMatchObject({
+        id: postId,
+        publishedAt: publishAt.toISOString(),
+        scheduledAt: null,
+      })
+      expect(getResponse.body.type).toBe('published')
+    })
+
+    it('should publish a post right away when publishAt is in the past', async () => {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Late Post',
+        content: [{ type: 'text', data: 'This post is published late' }],
+      })
+
+      const postId = createResponse.body.id
+      const publishResponse = await requestWithAuth('patch', `/admin/posts/${postId}/publish`).send({
+        publishAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      })
+
+      expect(publishResponse.body).toMatchObject({
+        id: postId,
+        type: 'published',
+        publishedAt: expect.any(String),
+      })
+      expect(publishResponse.body.scheduledAt).toBeFalsy()
+    })
+
+    it('should refuse to schedule a published post', async () => {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Published Post',
+        content: [{ type: 'text', data: 'This post is already published' }],
+      })
+
+      const postId = createResponse.body.id
+      const publishResponse = await requestWithAuth('patch', `/admin/posts/${postId}/publish`)
+
+      const scheduleResponse = await requestWithAuth('patch', `/admin/posts/${postId}/publish`).send({
+        publishAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      })
+      const getResponse = await requestWithAuth('get', `/admin/posts/${postId}`)
+
+      expect(scheduleResponse.status).toBe(400)
+      expect(getResponse.body).toMatchObject({
+        type: 'published',
+        publishedAt: publishResponse.body.publishedAt,
+        scheduledAt: null,
+      })
+    })
   })
 
   describe('pATCH /admin/posts/:id/unpublish', () => {
@@ -165,4 +301,181 @@ describe('postController (e2e)', () => {
       }
     })
   })
+
+  describe('admin/posts/:id/versions', () => {
+    it('should restore a version as a new draft and diff it with the original', async () => {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Test Post',
+        content: [
+          { type: 'text', data: 'First paragraph' },
+          { type: 'text', data: 'Second paragraph' },
+        ],
+      })
+
+      const postId = createResponse.body.id
+      const originalVersionId = createResponse.body.versions[0].id
+
+      const restoreResponse = await requestWithAuth('post', `/admin/posts/${postId}/versions/${originalVersionId}/restore`)
+
+      expect(restoreResponse.body.versions).toHaveLength(2)
+      expect(restoreResponse.body).toMatchObject({
+        id: postId,
+        title: 'Test Post',
+        type: 'draft',
+      })
+
+      const restoredVersionId = restoreResponse.body.versions[1].id
+
+      // Edit the restored draft
+      await requestWithAuth('put', `/admin/posts/${postId}`).send({
+        title: 'Updated Post',
+        content: [
+          { type: 'text', data: 'First paragraph' },
+          { type: 'text', data: 'Second paragraph, edited' },
+          { type: 'image', data: { src: 'https://example.com/image.png', alt: 'An image' } },
+        ],
+      })
+
+      const versionResponse = await requestWithAuth('get', `/admin/posts/${postId}/versions/${originalVersionId}`)
+
+      expect(versionResponse.body).toMatchObject({
+        id: originalVersionId,
+        title: 'Test Post',
+        content: [
+          { type: 'text', data: 'First paragraph' },
+          { type: 'text', data: 'Second paragraph' },
+        ],
+      })
+
+      const diffResponse = await requestWithAuth('get', `/admin/posts/${postId}/versions/diff`)
+        .query({ from: originalVersionId, to: restoredVersionId })
+
+      expect(diffResponse.body).toMatchObject({
+        from: { id: originalVersionId, title: 'Test Post' },
+        to: { id: restoredVersionId, title: 'Updated Post' },
+        titleChanged: true,
+        blocks: [
+          { status: 'unchanged', after: { type: 'text', data: 'First paragraph' } },
+          {
+            status: 'modified',
+            before: { type: 'text', data: 'Second paragraph' },
+            after: { type: 'text', data: 'Second paragraph, edited' },
+          },
+          { status: 'added', after: { type: 'image', data: { src: 'https://example.com/image.png', alt: 'An image' } } },
+        ],
+      })
+    })
+
+    it('should not return a version of another user\'s post', async () => {
+      const otherUser = await createUserData(em)
+      const createResponse = await initRequestWithAuth(app, otherUser.id)('post', '/admin/posts').send({
+        title: 'Other Post',
+        content: [],
+      })
+
+      const response = await requestWithAuth('get', `/admin/posts/${createResponse.body.id}/versions/${createResponse.body.versions[0].id}`)
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('admin role', () => {
+    it('should let admins list and edit the posts of other users', async () => {
+      const admin = await createUserData(em, { role: 'admin' })
+      const adminRequest = initRequestWithAuth(app, admin.id)
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'User Post',
+        content: [],
+      })
+
+      const listResponse = await adminRequest('get', '/admin/posts').query({ scope: 'all' })
+      const updateResponse = await adminRequest('put', `/admin/posts/${createResponse.body.id}`).send({
+        title: 'Edited by an admin',
+      })
+      const publishResponse = await adminRequest('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+
+      expect(listResponse.body.data).toMatchObject([{
+        id: createResponse.body.id,
+        author: { id: testUser.id, name: testUser.name },
+      }])
+      expect(updateResponse.body.title).toBe('Edited by an admin')
+      expect(publishResponse.body.type).toBe('published')
+    })
+
+    it('should not let other users list nor edit the posts of other users', async () => {
+      const otherUser = await createUserData(em, { role: 'editor' })
+      const otherRequest = initRequestWithAuth(app, otherUser.id)
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'User Post',
+        content: [],
+      })
+
+      const listResponse = await otherRequest('get', '/admin/posts').query({ scope: 'all' })
+      const ownListResponse = await otherRequest('get', '/admin/posts')
+      const getResponse = await otherRequest('get', `/admin/posts/${createResponse.body.id}`)
+
+      expect(listResponse.status).toBe(403)
+      expect(ownListResponse.body.data).toHaveLength(0)
+      expect(getResponse.ok).toBe(false)
+    })
+  })
+
+  describe('gET /public/posts?q=', () => {
+    async function createPublishedPost(title: string, text: string) {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title,
+        content: [{ type: 'text', data: text }],
+      })
+      await requestWithAuth('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+      return createResponse.body.id as string
+    }
+
+    it('should rank posts by relevance and highlight the matching words', async () => {
+      await createPublishedPost('Gardening tips', 'How to grow tomatoes in a small garden')
+      await createPublishedPost('Cooking tomatoes', 'Tomatoes are great. Tomatoes sauce recipe with fresh tomatoes')
+      await createPublishedPost('Travel notes', 'A trip to the mountains')
+
+      const response = await requestWithAuth('get', '/public/posts').query({ q: 'tomatoes' })
+
+      expect(response.body.meta.itemCount).toBe(2)
+      expect(response.body.data.map((post: { title: string }) => post.title)).toEqual([
+        'Cooking tomatoes',
+        'Gardening tips',
+      ])
+      expect(response.body.data[0].snippet).toContainEqual({ text: 'tomatoes', highlighted: true })
+    })
+
+    it('should search in the text of rich content blocks but not in code', async () => {
+      const createResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Kitchen notes',
+        content: [
+          { type: 'heading', data: { text: 'Growing basil', level: 2 } },
+          { type: 'list', data: { ordered: false, items: ['Water the parsley daily'] } },
+          { type: 'code', data: { code: 'const rosemary = true' } },
+        ],
+      })
+      await requestWithAuth('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+
+      const basilResponse = await requestWithAuth('get', '/public/posts').query({ q: 'basil' })
+      const parsleyResponse = await requestWithAuth('get', '/public/posts').query({ q: 'parsley' })
+      const rosemaryResponse = await requestWithAuth('get', '/public/posts').query({ q: 'rosemary' })
+
+      expect(basilResponse.body.meta.itemCount).toBe(1)
+      expect(basilResponse.body.data[0].snippet).toContainEqual({ text: 'basil', highlighted: true })
+      expect(parsleyResponse.body.meta.itemCount).toBe(1)
+      expect(rosemaryResponse.body.meta.itemCount).toBe(0)
+    })
+
+    it('should not search in drafts', async () => {
+      await requestWithAuth('post', '/admin/posts').send({
+        title: 'Draft about tomatoes',
+        content: [{ type: 'text', data: 'Not published yet' }],
+      })
+
+      const response = await requestWithAuth('get', '/public/posts').query({ q: 'tomatoes' })
+
+      expect(response.body.data).toHaveLength(0)
+      expect(response.body.meta.itemCount).toBe(0)
+    })
+  })
 })
@@ -0,0 +1,51 @@
+import { z } from 'zod'
+
+export const reactionKindSchema = z.enum(['like', 'love', 'laugh', 'wow', 'sad', 'celebrate']).meta({
+  title: 'ReactionKindSchema',
+  description: 'Kind of reaction, displayed as an emoji',
+})
+
+export type ReactionKindInput = z.infer<typeof reactionKindSchema>
+
+// Number of reactions of each kind on a post or a comment
+export const reactionCountsSchema = z.record(reactionKindSchema, z.number().int()).meta({
+  title: 'ReactionCountsSchema',
+  description: 'Number of reactions of each kind',
+})
+
+export type ReactionCounts = z.infer<typeof reactionCountsSchema>
+
+export const toggleReactionSchema = z.object({
+  kind: reactionKindSchema,
+}).meta({
+  title: 'ToggleReactionSchema',
+  description: 'Schema for adding a reaction, or removing it if it was already there',
+})
+
+export type ToggleReactionInput = z.infer<typeof toggleReactionSchema>
+
+export const reactionSummarySchema = z.object({
+  counts: reactionCountsSchema,
+  userReactions: z.array(reactionKindSchema).meta({
+    description: 'Reactions of the current user',
+  }),
+}).meta({
+  title: 'ReactionSummarySchema',
+  description: 'Reactions on a post or a comment',
+})
+
+export type ReactionSummary = z.infer<typeof reactionSummarySchema>
+
+// Reactions of the current user on a post and its comments, to highlight them
+export const userReactionsSchema = z.object({
+  post: z.array(reactionKindSchema),
+  comments: z.array(z.object({
+    commentId: z.string().uuid(),
+    kinds: z.array(reactionKindSchema),
+  })),
+}).meta({
+  title: 'UserReactionsSchema',
+  description: 'Reactions of the current user on a post and its comments',
+})
+
+export type UserReactions = z.infer<typeof userReactionsSchema>
@@ -0,0 +1,55 @@
+import {
+  TypedBody,
+  TypedController,
+  TypedParam,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { Session } from '../auth/auth.decorator'
+import { AuthGuard } from '../auth/auth.guard'
+import {
+  reactionSummarySchema,
+  ToggleReactionInput,
+  toggleReactionSchema,
+  userReactionsSchema,
+} from './contracts/reactions.contract'
+import { ReactionsService } from './reactions.service'
+
+@TypedController('posts/:postSlug', z.object({
+  postSlug: z.string(),
+}), {
+  tags: ['Reactions'],
+})
+@UseGuards(AuthGuard)
+export class ReactionsController {
+  constructor(private readonly reactionsService: ReactionsService) {}
+
+  @TypedRoute.Get('reactions/me', userReactionsSchema)
+  async getUserReactions(
+    @TypedParam('postSlug', z.string()) postSlug: string,
+    @Session() session: LoggedInBetterAuthSession,
+  ) {
+    return await this.reactionsService.getUserReactions(session.user.id, postSlug)
+  }
+
+  @TypedRoute.Post('reactions', reactionSummarySchema)
+  async togglePostReaction(
+    @TypedParam('postSlug', z.string()) postSlug: string,
+    @TypedBody(toggleReactionSchema) body: ToggleReactionInput,
+    @Session() session: LoggedInBetterAuthSession,
+  ) {
+    return await this.reactionsService.togglePostReaction(session.user.id, postSlug, body.kind)
+  }
+
+  @TypedRoute.Post('comments/:commentId/reactions', reactionSummarySchema)
+  async toggleCommentReaction(
+    @TypedParam('postSlug', z.string()) postSlug: string,
+    @TypedParam('commentId', z.string().uuid()) commentId: string,
+    @TypedBody(toggleReactionSchema) body: ToggleReactionInput,
+    @Session() session: LoggedInBetterAuthSession,
+  ) {
+    return await this.reactionsService.toggleCommentReaction(session.user.id, postSlug, commentId, body.kind)
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Check,
+  Entity,
+  Enum,
+  Index,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Unique,
+} from '@mikro-orm/core'
+import { User } from '../auth/auth.entity'
+import { Comment } from '../comments/comments.entity'
+import { Post } from '../posts/posts.entity'
+
+export const reactionKinds = ['like', 'love', 'laugh', 'wow', 'sad', 'celebrate'] as const
+
+export type ReactionKind = typeof reactionKinds[number]
+
+// A reaction targets either a post or a comment, and a user can only react once with each kind
+@Entity({ tableName: 'reaction' })
+@Unique({ properties: ['user', 'post', 'kind'] })
+@Unique({ properties: ['user', 'comment', 'kind'] })
+@Check({ name: 'reaction_target_check', expression: '("postId" is null) <> ("commentId" is null)' })
+export class Reaction {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @ManyToOne(() => User, { fieldName: 'userId', deleteRule: 'cascade' })
+  user!: User
+
+  @ManyToOne(() => Post, { fieldName: 'postId', nullable: true, deleteRule: 'cascade' })
+  @Index()
+  post?: Post
+
+  @ManyToOne(() => Comment, { fieldName: 'commentId', nullable: true, deleteRule: 'cascade' })
+  @Index()
+  comment?: Comment
+
+  @Enum({ items: [...reactionKinds] })
+  kind!: ReactionKind
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { ReactionsController } from './reactions.controller'
+import { ReactionsService } from './reactions.service'
+
+@Module({
+  controllers: [ReactionsController],
+  providers: [ReactionsService],
+  exports: [ReactionsService],
+})
+export class ReactionsModule {}
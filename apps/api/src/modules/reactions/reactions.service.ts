@@ -0,0 +1,155 @@
+import { EntityManager, UniqueConstraintViolationException } from '@mikro-orm/core'
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { User } from '../auth/auth.entity'
+import { Comment } from '../comments/comments.entity'
+import { Post } from '../posts/posts.entity'
+import {
+  ReactionCounts,
+  ReactionSummary,
+  UserReactions,
+} from './contracts/reactions.contract'
+import { Reaction, ReactionKind, reactionKinds } from './reactions.entity'
+
+type ReactionTarget = { post: Post } | { comment: Comment }
+
+export function emptyReactionCounts(): ReactionCounts {
+  return Object.fromEntries(reactionKinds.map(kind => [kind, 0])) as ReactionCounts
+}
+
+@Injectable()
+export class ReactionsService {
+  constructor(private readonly em: EntityManager) {}
+
+  async togglePostReaction(userId: string, postSlug: string, kind: ReactionKind): Promise<ReactionSummary> {
+    const post = await this.em.findOne(Post, { slug: postSlug, publishedAt: { $ne: null } })
+    if (!post)
+      throw new NotFoundException('Post not found')
+
+    await this.toggleReaction(userId, { post }, kind)
+    const counts = await this.getPostsReactionCounts([post.id])
+
+    return {
+      counts: counts.get(post.id)!,
+      userReactions: await this.getUserKinds(userId, { post }),
+    }
+  }
+
+  async toggleCommentReaction(
+    userId: string,
+    postSlug: string,
+    commentId: string,
+    kind: ReactionKind,
+  ): Promise<ReactionSummary> {
+    // Only public comments can get reactions
+    const comment = await this.em.findOne(Comment, {
+      id: commentId,
+      post: { slug: postSlug },
+      status: 'approved',
+      deletedAt: null,
+    })
+    if (!comment)
+      throw new NotFoundException('Comment not found')
+
+    await this.toggleReaction(userId, { comment }, kind)
+    const counts = await this.getCommentsReactionCounts([comment.id])
+
+    return {
+      counts: counts.get(comment.id)!,
+      userReactions: await this.getUserKinds(userId, { comment }),
+    }
+  }
+
+  async getUserReactions(userId: string, postSlug: string): Promise<UserReactions> {
+    const post = await this.em.findOne(Post, { slug: postSlug, publishedAt: { $ne: null } })
+    if (!post)
+      throw new NotFoundException('Post not found')
+
+    const reactions = await this.em.find(
+      Reaction,
+      { user: userId, $or: [{ post: post.id }, { comment: { post: post.id } }] },
+      { orderBy: { createdAt: 'ASC' } },
+    )
+
+    const kindsByCommentId = new Map<string, ReactionKind[]>()
+    reactions.forEach((reaction) => {
+      if (!reaction.comment)
+        return
+      kindsByCommentId.set(reaction.comment.id, [...(kindsByCommentId.get(reaction.comment.id) ?? []), reaction.kind])
+    })
+
+    return {
+      post: reactions.filter(reaction => reaction.post).map(reaction => reaction.kind),
+      comments: [...kindsByCommentId].map(([commentId, kinds]) => ({ commentId, kinds })),
+    }
+  }
+
+  /**
+   * Counts the reactions of each kind on the given posts.
+   * @returns The counts by post id, with all the given posts
+   */
+  async getPostsReactionCounts(postIds: string[]) {
+    return this.countReactions('postId', postIds)
+  }
+
+  /**
+   * Counts the reactions of each kind on the given comments.
+   * @returns The counts by comment id, with all the given comments
+   */
+  async getCommentsReactionCounts(commentIds: string[]) {
+    return this.countReactions('commentId', commentIds)
+  }
+
+  private async countReactions(targetColumn: 'postId' | 'commentId', targetIds: string[]) {
+    const countsByTargetId = new Map(targetIds.map(id => [id, emptyReactionCounts()]))
+    if (!targetIds.length)
+      return countsByTargetId
+
+    const rows: Array<{ targetId: string, kind: ReactionKind, count: string }> = await this.em.getConnection().execute(
+      `select "${targetColumn}" as "targetId", "kind", count(*) as "count"
+      from "reaction"
+      where "${targetColumn}" in (${targetIds.map(() => '?').join(', ')})
+      group by "${targetColumn}", "kind"`,
+      targetIds,
+    )
+
+    rows.forEach((row) => {
+      countsByTargetId.get(row.targetId)![row.kind] = Number(row.count)
+    })
+    return countsByTargetId
+  }
+
+  private async toggleReaction(userId: string, target: ReactionTarget, kind: ReactionKind) {
+    const existingReaction = await this.em.findOne(Reaction, { user: userId, kind, ...target })
+    if (existingReaction) {
+      await this.em.removeAndFlush(existingReaction)
+      return
+    }
+
+    const reaction = new Reaction()
+    reaction.user = this.em.getReference(User, userId)
+    reaction.kind = kind
+    if ('post' in target)
+      reaction.post = target.post
+    else
+      reaction.comment = target.comment
+
+    try {
+      await this.em.persistAndFlush(reaction)
+    }
+    catch (error) {
+      // The same reaction has been added concurrently, the result is the same
+      if (!(error instanceof UniqueConstraintViolationException))
+        throw error
+      this.em.clear()
+    }
+  }
+
+  private async getUserKinds(userId: string, target: ReactionTarget) {
+    const reactions = await this.em.find(
+      Reaction,
+      { user: userId, ...target },
+      { orderBy: { createdAt: 'ASC' } },
+    )
+    return reactions.map(reaction => reaction.kind)
+  }
+}
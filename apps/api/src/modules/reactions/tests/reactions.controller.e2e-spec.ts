@@ -0,0 +1,123 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import supertest from 'supertest'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { CommentsModule } from '../../comments/comments.module'
+import { PostModule } from '../../posts/posts.module'
+import { ReactionsModule } from '../reactions.module'
+
+describe('reactionsController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let testUser: User
+  let requestWithAuth: ReturnType<typeof initRequestWithAuth>
+  let postSlug: string
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule, CommentsModule, ReactionsModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    testUser = await createUserData(em)
+    requestWithAuth = initRequestWithAuth(app, testUser.id)
+
+    const createResponse = await requestWithAuth('post', '/admin/posts').send({
+      title: 'Post with reactions',
+      content: [{ type: 'text', data: 'Some content' }],
+    })
+    const publishResponse = await requestWithAuth('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+    postSlug = publishResponse.body.slug
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  describe('pOST /posts/:postSlug/reactions', () => {
+    it('should toggle a reaction on a post', async () => {
+      const addResponse = await requestWithAuth('post', `/posts/${postSlug}/reactions`).send({ kind: 'like' })
+      const postResponse = await supertest(app.getHttpServer()).get(`/public/posts/${postSlug}`)
+      const postsResponse = await supertest(app.getHttpServer()).get('/public/posts')
+
+      expect(addResponse.body).toEqual({
+        counts: { like: 1, love: 0, laugh: 0, wow: 0, sad: 0, celebrate: 0 },
+        userReactions: ['like'],
+      })
+      expect(postResponse.body.reactions).toMatchObject({ like: 1 })
+      expect(postsResponse.body.data[0].reactions).toMatchObject({ like: 1 })
+
+      const removeResponse = await requestWithAuth('post', `/posts/${postSlug}/reactions`).send({ kind: 'like' })
+
+      expect(removeResponse.body).toMatchObject({ counts: { like: 0 }, userReactions: [] })
+    })
+
+    it('should count the reactions of every user', async () => {
+      const otherUser = await createUserData(em)
+
+      await requestWithAuth('post', `/posts/${postSlug}/reactions`).send({ kind: 'love' })
+      await requestWithAuth('post', `/posts/${postSlug}/reactions`).send({ kind: 'celebrate' })
+      const response = await initRequestWithAuth(app, otherUser.id)('post', `/posts/${postSlug}/reactions`).send({ kind: 'love' })
+
+      expect(response.body).toMatchObject({
+        counts: { love: 2, celebrate: 1 },
+        userReactions: ['love'],
+      })
+    })
+
+    it('should require to be logged in', async () => {
+      const response = await supertest(app.getHttpServer())
+        .post(`/posts/${postSlug}/reactions`)
+        .send({ kind: 'like' })
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('pOST /posts/:postSlug/comments/:commentId/reactions', () => {
+    it('should toggle a reaction on a comment', async () => {
+      const comment = await requestWithAuth('post', `/posts/${postSlug}/comments`).send({ content: 'A comment' })
+
+      await requestWithAuth('post', `/posts/${postSlug}/comments/${comment.body.id}/reactions`).send({ kind: 'laugh' })
+      const commentsResponse = await supertest(app.getHttpServer()).get(`/posts/${postSlug}/comments`)
+      const userReactionsResponse = await requestWithAuth('get', `/posts/${postSlug}/reactions/me`)
+
+      expect(commentsResponse.body.data[0].reactions).toMatchObject({ laugh: 1 })
+      expect(userReactionsResponse.body).toEqual({
+        post: [],
+        comments: [{ commentId: comment.body.id, kinds: ['laugh'] }],
+      })
+    })
+
+    it('should not react to a comment of another post', async () => {
+      const otherPostResponse = await requestWithAuth('post', '/admin/posts').send({
+        title: 'Other post',
+        content: [],
+      })
+      const otherPublishResponse = await requestWithAuth('patch', `/admin/posts/${otherPostResponse.body.id}/publish`).send({})
+      const comment = await requestWithAuth('post', `/posts/${otherPublishResponse.body.slug}/comments`).send({ content: 'A comment' })
+
+      const response = await requestWithAuth('post', `/posts/${postSlug}/comments/${comment.body.id}/reactions`).send({ kind: 'like' })
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+
+export const tagSchema = z.object({
+  name: z.string(),
+  slug: z.string(),
+}).meta({
+  title: 'TagSchema',
+  description: 'Schema for a tag',
+})
+
+export type TagResponse = z.infer<typeof tagSchema>
+
+// Tags are given by name when creating or updating a post, and created on the fly if needed
+export const postTagsInputSchema = z.array(z.string().trim().min(1).max(32)).max(10).meta({
+  description: 'Names of the tags of the post',
+})
+
+// Schema for the public view of a tag
+export const publicTagSchema = tagSchema.extend({
+  postCount: z.number(),
+}).meta({
+  title: 'PublicTagSchema',
+  description: 'A tag with the number of published posts using it',
+})
+
+export const publicTagsSchema = z.array(publicTagSchema).meta({
+  title: 'PublicTagsSchema',
+  description: 'A list of tags with their number of published posts',
+})
+
+export type PublicTag = z.infer<typeof publicTagSchema>
+export type PublicTags = z.infer<typeof publicTagsSchema>
@@ -0,0 +1,25 @@
+import {
+  TypedController,
+  TypedParam,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { z } from 'zod'
+import { publicTagSchema, publicTagsSchema } from './contracts/tags.contract'
+import { TagsService } from './tags.service'
+
+@TypedController('public/tags', undefined, {
+  tags: ['Public Tags'],
+})
+export class PublicTagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @TypedRoute.Get('', publicTagsSchema)
+  async getTags() {
+    return await this.tagsService.getPublicTags()
+  }
+
+  @TypedRoute.Get(':slug', publicTagSchema)
+  async getTag(@TypedParam('slug', z.string()) slug: string) {
+    return await this.tagsService.getPublicTag(slug)
+  }
+}
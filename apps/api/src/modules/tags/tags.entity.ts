@@ -0,0 +1,28 @@
+import {
+  Collection,
+  Entity,
+  ManyToMany,
+  PrimaryKey,
+  Property,
+  Unique,
+} from '@mikro-orm/core'
+import { Post } from '../posts/posts.entity'
+
+@Entity({ tableName: 'tag' })
+export class Tag {
+  @PrimaryKey({ type: 'uuid', defaultRaw: 'gen_random_uuid()' })
+  id!: string
+
+  @Property()
+  name!: string
+
+  @Property()
+  @Unique()
+  slug!: string
+
+  @Property({ fieldName: 'createdAt' })
+  createdAt: Date = new Date()
+
+  @ManyToMany(() => Post, post => post.tags)
+  posts = new Collection<Post>(this)
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { PublicTagsController } from './tags.controller'
+import { TagsService } from './tags.service'
+
+@Module({
+  controllers: [PublicTagsController],
+  providers: [TagsService],
+  exports: [TagsService],
+})
+export class TagsModule {}
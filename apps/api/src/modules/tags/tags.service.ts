@@ -0,0 +1,77 @@
+import { EntityManager } from '@mikro-orm/core'
+import { Injectable, NotFoundException } from '@nestjs/common'
+import slugify from 'slugify'
+import { PublicTag, PublicTags } from './contracts/tags.contract'
+import { Tag } from './tags.entity'
+
+@Injectable()
+export class TagsService {
+  constructor(private readonly em: EntityManager) {}
+
+  /**
+   * Finds the tags matching the given names, creating the missing ones.
+   * Names are matched using their slug, so "Web Dev" and "web-dev" are the same tag.
+   */
+  async findOrCreateTags(names: string[]): Promise<Tag[]> {
+    const namesBySlug = new Map<string, string>()
+    for (const name of names) {
+      const slug = slugify(name, { lower: true, strict: true })
+      if (slug && !namesBySlug.has(slug))
+        namesBySlug.set(slug, name.trim())
+    }
+
+    if (!namesBySlug.size)
+      return []
+
+    const existingTags = await this.em.find(Tag, {
+      slug: { $in: [...namesBySlug.keys()] },
+    })
+    const tagsBySlug = new Map(existingTags.map(tag => [tag.slug, tag]))
+
+    return [...namesBySlug.entries()].map(([slug, name]) => {
+      const existingTag = tagsBySlug.get(slug)
+      if (existingTag)
+        return existingTag
+
+      const tag = new Tag()
+      tag.name = name
+      tag.slug = slug
+      this.em.persist(tag)
+      return tag
+    })
+  }
+
+  async getPublicTags(): Promise<PublicTags> {
+    return this.findPublicTags()
+  }
+
+  async getPublicTag(slug: string): Promise<PublicTag> {
+    const tag = await this.em.findOne(Tag, { slug })
+    if (!tag)
+      throw new NotFoundException('Tag not found')
+
+    const [publicTag] = await this.findPublicTags(slug)
+
+    return publicTag ?? { name: tag.name, slug: tag.slug, postCount: 0 }
+  }
+
+  // Only published posts are counted, and tags without any published post are left out
+  private async findPublicTags(slug?: string): Promise<PublicTags> {
+    const rows: Array<{ name: string, slug: string, postCount: number }> = await this.em.getConnection().execute(
+      `select t."name", t."slug", count(p."id")::int as "postCount"
+      from "tag" t
+      join "postTag" pt on pt."tagId" = t."id"
+      join "post" p on p."id" = pt."postId" and p."publishedAt" is not null
+      ${slug ? 'where t."slug" = ?' : ''}
+      group by t."id"
+      order by "postCount" desc, t."name" asc`,
+      slug ? [slug] : [],
+    )
+
+    return rows.map(row => ({
+      name: row.name,
+      slug: row.slug,
+      postCount: row.postCount,
+    }))
+  }
+}
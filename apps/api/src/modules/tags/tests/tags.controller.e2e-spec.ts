@@ -0,0 +1,109 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { PostModule } from '../../posts/posts.module'
+import { TagsModule } from '../tags.module'
+
+describe('tagsController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let testUser: User
+  let requestWithAuth: ReturnType<typeof initRequestWithAuth>
+
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [PostModule, TagsModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    testUser = await createUserData(em)
+    requestWithAuth = initRequestWithAuth(app, testUser.id)
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  async function createPost(title: string, tags: string[], publish = true) {
+    const createResponse = await requestWithAuth('post', '/admin/posts').send({
+      title,
+      content: [{ type: 'text', data: 'Some content' }],
+      tags,
+    })
+    if (publish)
+      await requestWithAuth('patch', `/admin/posts/${createResponse.body.id}/publish`).send({})
+    return createResponse
+  }
+
+  describe('pOST /admin/posts with tags', () => {
+    it('should create the missing tags and reuse the existing ones', async () => {
+      await createPost('First post', ['TypeScript'])
+
+      const response = await createPost('Second post', ['typescript', 'Web Dev', 'web-dev'], false)
+
+      expect(response.body.tags).toEqual([
+        { name: 'TypeScript', slug: 'typescript' },
+        { name: 'Web Dev', slug: 'web-dev' },
+      ])
+    })
+  })
+
+  describe('gET /public/tags', () => {
+    it('should list the tags with their number of published posts', async () => {
+      await createPost('First post', ['TypeScript', 'NestJS'])
+      await createPost('Second post', ['TypeScript'])
+      await createPost('Draft post', ['NestJS', 'Drafts'], false)
+
+      const response = await requestWithAuth('get', '/public/tags')
+
+      expect(response.body).toEqual([
+        { name: 'TypeScript', slug: 'typescript', postCount: 2 },
+        { name: 'NestJS', slug: 'nestjs', postCount: 1 },
+      ])
+    })
+  })
+
+  describe('gET /public/tags/:slug', () => {
+    it('should return 404 for an unknown tag', async () => {
+      const response = await requestWithAuth('get', '/public/tags/unknown')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('gET /public/posts filtered by tag', () => {
+    it('should only return the posts with the tag', async () => {
+      await createPost('First post', ['TypeScript', 'NestJS'])
+      await createPost('Second post', ['TypeScript'])
+
+      const response = await requestWithAuth('get', '/public/posts').query({ filter: 'tag:eq:nestjs' })
+
+      expect(response.body.meta.itemCount).toBe(1)
+      expect(response.body.data[0]).toMatchObject({
+        title: 'First post',
+        tags: [
+          { name: 'NestJS', slug: 'nestjs' },
+          { name: 'TypeScript', slug: 'typescript' },
+        ],
+      })
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import {
+  createPaginationQuerySchema,
+  paginatedSchema,
+} from '@lonestone/nzoth/server'
+import { z } from 'zod'
+import { userRoles } from '../../../config/better-auth.config'
+
+export const userRoleSchema = z.enum(userRoles).meta({
+  title: 'UserRoleSchema',
+  description: 'Users manage their own posts and comments, editors moderate all the comments, admins manage everything',
+})
+
+export const adminUserSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+  createdAt: z.date(),
+}).meta({
+  title: 'AdminUserSchema',
+  description: 'Schema for a user, as seen by the admins',
+})
+
+export type AdminUser = z.infer<typeof adminUserSchema>
+
+export const adminUsersSchema = paginatedSchema(adminUserSchema).meta({
+  title: 'AdminUsersSchema',
+  description: 'Schema for a paginated list of users, from the newest',
+})
+
+export type AdminUsers = z.infer<typeof adminUsersSchema>
+
+export const userPaginationSchema = createPaginationQuerySchema()
+
+export type UserPagination = z.infer<typeof userPaginationSchema>
+
+export const adminUsersSearchQuerySchema = z.string().trim().max(200).optional().meta({
+  description: 'Only return the users whose name or email contains this text',
+})
+
+export const updateUserRoleSchema = z.object({
+  role: userRoleSchema,
+}).meta({
+  title: 'UpdateUserRoleSchema',
+  description: 'Schema for changing the role of a user',
+})
+
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>
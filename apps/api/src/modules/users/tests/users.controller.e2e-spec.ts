@@ -0,0 +1,77 @@
+import { EntityManager, MikroORM } from '@mikro-orm/core'
+import { INestApplication } from '@nestjs/common'
+import { createUserData } from '../../../factories/user.factory'
+import {
+  closeTestApp,
+  initializeTestApp,
+  initRequestWithAuth,
+  TestAppContext,
+} from '../../../test/test.utils'
+import { User } from '../../auth/auth.entity'
+import { UsersModule } from '../users.module'
+
+describe('adminUsersController (e2e)', () => {
+  // We set a high timeout to have enough time to launch the testcontainers
+  jest.setTimeout(60000)
+
+  let testContext: TestAppContext
+  let app: INestApplication
+  let orm: MikroORM
+
+  let em: EntityManager
+  let admin: User
+  let user: User
+  let adminRequest: ReturnType<typeof initRequestWithAuth>
+  let userRequest: ReturnType<typeof initRequestWithAuth>
+  beforeAll(async () => {
+    testContext = await initializeTestApp({
+      imports: [UsersModule],
+    })
+    app = testContext.app
+    orm = testContext.orm
+    em = orm.em.fork()
+  })
+
+  beforeEach(async () => {
+    await orm.schema.refreshDatabase()
+    admin = await createUserData(em, { name: 'Admin', role: 'admin' })
+    user = await createUserData(em, { name: 'Jane Doe' })
+    adminRequest = initRequestWithAuth(app, admin.id)
+    userRequest = initRequestWithAuth(app, user.id)
+  })
+
+  afterAll(async () => {
+    await closeTestApp(testContext)
+  })
+
+  describe('gET /admin/users', () => {
+    it('should list and search the users', async () => {
+      const response = await adminRequest('get', '/admin/users')
+      const searchResponse = await adminRequest('get', '/admin/users').query({ q: 'jane' })
+
+      expect(response.body.meta).toMatchObject({ itemCount: 2, hasMore: false })
+      expect(searchResponse.body.data).toMatchObject([{ id: user.id, name: 'Jane Doe', role: 'user' }])
+    })
+
+    it('should be restricted to admins', async () => {
+      const response = await userRequest('get', '/admin/users')
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('pATCH /admin/users/:userId/role', () => {
+    it('should change the role of a user', async () => {
+      const response = await adminRequest('patch', `/admin/users/${user.id}/role`).send({ role: 'editor' })
+
+      expect(response.body).toMatchObject({ id: user.id, role: 'editor' })
+      expect(await em.fork().findOne(User, { id: user.id })).toMatchObject({ role: 'editor' })
+    })
+
+    it('should not let admins change their own role', async () => {
+      const response = await adminRequest('patch', `/admin/users/${admin.id}/role`).send({ role: 'user' })
+
+      expect(response.status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import {
+  PaginationParams,
+  TypedBody,
+  TypedController,
+  TypedParam,
+  TypedQuery,
+  TypedRoute,
+} from '@lonestone/nzoth/server'
+import { UseGuards } from '@nestjs/common'
+import { z } from 'zod'
+import { LoggedInBetterAuthSession } from '../../config/better-auth.config'
+import { Roles, Session } from '../auth/auth.decorator'
+import { AuthGuard, RolesGuard } from '../auth/auth.guard'
+import {
+  adminUserSchema,
+  adminUsersSchema,
+  adminUsersSearchQuerySchema,
+  UpdateUserRoleInput,
+  updateUserRoleSchema,
+  UserPagination,
+  userPaginationSchema,
+} from './contracts/users.contract'
+import { UsersService } from './users.service'
+
+@TypedController('admin/users', undefined, {
+  tags: ['Admin Users'],
+})
+@UseGuards(AuthGuard, RolesGuard)
+@Roles('admin')
+export class AdminUsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @TypedRoute.Get('', adminUsersSchema)
+  async getUsers(
+    @PaginationParams(userPaginationSchema) pagination: UserPagination,
+    @TypedQuery('q', adminUsersSearchQuerySchema) q?: string,
+  ) {
+    return await this.usersService.getUsers(pagination, q)
+  }
+
+  @TypedRoute.Patch(':userId/role', adminUserSchema)
+  async updateUserRole(
+    @Session() session: LoggedInBetterAuthSession,
+    @TypedParam('userId', z.string().uuid()) userId: string,
+    @TypedBody(updateUserRoleSchema) body: UpdateUserRoleInput,
+  ) {
+    return await this.usersService.updateUserRole(session.user.id, userId, body)
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common'
+import { AdminUsersController } from './users.controller'
+import { UsersService } from './users.service'
+
+@Module({
+  controllers: [AdminUsersController],
+  providers: [UsersService],
+})
+export class UsersModule {}
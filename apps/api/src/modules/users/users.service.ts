@@ -0,0 +1,63 @@
+import { EntityManager, FilterQuery } from '@mikro-orm/core'
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common'
+import { User } from '../auth/auth.entity'
+import {
+  AdminUser,
+  AdminUsers,
+  UpdateUserRoleInput,
+  UserPagination,
+} from './contracts/users.contract'
+
+@Injectable()
+export class UsersService {
+  constructor(private readonly em: EntityManager) {}
+
+  async getUsers(pagination: UserPagination, q?: string): Promise<AdminUsers> {
+    const where: FilterQuery<User> = q
+      ? { $or: [{ name: { $ilike: `%${q}%` } }, { email: { $ilike: `%${q}%` } }] }
+      : {}
+
+    const [users, itemCount] = await this.em.findAndCount(User, where, {
+      limit: pagination.pageSize,
+      offset: pagination.offset,
+      orderBy: { createdAt: 'DESC' },
+    })
+
+    return {
+      data: users.map(user => this.mapUserToResponse(user)),
+      meta: {
+        itemCount,
+        pageSize: pagination.pageSize,
+        offset: pagination.offset,
+        hasMore: itemCount > pagination.offset + pagination.pageSize,
+      },
+    }
+  }
+
+  /**
+   * Changes the role of a user. Admins cannot change their own role, so that there is always an admin left.
+   */
+  async updateUserRole(adminId: string, userId: string, data: UpdateUserRoleInput): Promise<AdminUser> {
+    if (adminId === userId)
+      throw new BadRequestException('You cannot change your own role')
+
+    const user = await this.em.findOne(User, { id: userId })
+    if (!user)
+      throw new NotFoundException('User not found')
+
+    user.role = data.role
+    await this.em.flush()
+
+    return this.mapUserToResponse(user)
+  }
+
+  private mapUserToResponse(user: User): AdminUser {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      createdAt: user.createdAt,
+    }
+  }
+}
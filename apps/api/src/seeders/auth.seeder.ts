@@ -3,6 +3,7 @@ import { Dictionary, EntityManager } from '@mikro-orm/core'
 import { Seeder } from '@mikro-orm/seeder'
 import { hashPassword } from 'better-auth/crypto'
 import { Account, User } from '../modules/auth/auth.entity'
+import { generateUserHandle } from '../modules/auth/user-handle'
 
 const password = 'Password123!'
 
@@ -26,6 +27,8 @@ export class AuthSeeder extends Seeder {
       const user = new User()
       user.name = userData.name
       user.email = userData.email.toLowerCase()
+      user.handle = await generateUserHandle(em, userData.name)
+      user.bio = faker.person.bio()
       user.emailVerified = true
       await em.persistAndFlush(user)
       context.users.push(user)
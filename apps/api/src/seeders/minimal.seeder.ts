@@ -3,7 +3,7 @@ import { Seeder } from '@mikro-orm/seeder'
 import { hashPassword } from 'better-auth/crypto'
 import { Account, User } from '../modules/auth/auth.entity'
 import { Comment } from '../modules/comments/comments.entity'
-import { Post, PostVersion } from '../modules/posts/posts.entity'
+import { Post, PostCollaborator, PostVersion } from '../modules/posts/posts.entity'
 
 /**
  * MinimalSeeder creates just a single user with a single post for quick testing
@@ -14,6 +14,7 @@ export class MinimalSeeder extends Seeder {
     const user = new User()
     user.name = 'Test User'
     user.email = 'test@example.com'
+    user.handle = 'test-user'
     user.emailVerified = true
     await em.persistAndFlush(user)
 
@@ -31,6 +32,14 @@ export class MinimalSeeder extends Seeder {
     post.createdAt = new Date()
     await em.persistAndFlush(post)
 
+    const owner = new PostCollaborator()
+    owner.post = post
+    owner.user = user
+    owner.email = user.email
+    owner.role = 'owner'
+    owner.status = 'accepted'
+    await em.persistAndFlush(owner)
+
     // Create post version
     const postVersion = new PostVersion()
     postVersion.post = post
@@ -3,7 +3,7 @@ import { Dictionary, EntityManager } from '@mikro-orm/core'
 import { Seeder } from '@mikro-orm/seeder'
 import { addDays } from 'date-fns'
 import slugify from 'slugify'
-import { Post, PostVersion } from '../modules/posts/posts.entity'
+import { Post, PostCollaborator, PostVersion } from '../modules/posts/posts.entity'
 
 function generateDatePublished(post: Post) {
   if (post.versions.getItems().length === 1) {
@@ -40,6 +40,15 @@ export class PostSeeder extends Seeder {
         post.createdAt = createdAt
         await em.persistAndFlush(post)
 
+        const owner = new PostCollaborator()
+        owner.post = post
+        owner.user = user
+        owner.email = user.email
+        owner.role = 'owner'
+        owner.status = 'accepted'
+        owner.createdAt = createdAt
+        await em.persistAndFlush(owner)
+
         // Create post versions
         for (let i = 0; i < faker.number.int({ min: 1, max: 3 }); i++) {
           const postVersion = new PostVersion()
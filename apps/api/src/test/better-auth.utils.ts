@@ -0,0 +1,54 @@
+// BETTER-AUTH TEST UTILS
+//
+// The auth flows are tested against a better-auth instance of their own, using the test database.
+// Its endpoints are called directly, as the AuthModule would from the /auth/* routes.
+
+import { MikroORM } from '@mikro-orm/core'
+import { BetterAuthType, createBetterAuth } from '../config/better-auth.config'
+import { config } from '../config/env.config'
+import { prepareNewUser } from '../modules/auth/user-handle'
+
+export const API_URL = 'http://localhost:3000'
+export const WEB_APP_URL = 'http://localhost:5173'
+
+type BetterAuthOptions = Parameters<typeof createBetterAuth>[0]
+
+/**
+ * Creates a better-auth instance on the test database, creating the users as the AuthService does
+ * @param orm The ORM of the test app
+ * @param options The options of the tested flows, e.g. the senders of the emails or the hooks
+ */
+export function createTestBetterAuth(orm: MikroORM, options: Partial<BetterAuthOptions> = {}): BetterAuthType {
+  return createBetterAuth({
+    secret: config.betterAuth.secret,
+    trustedOrigins: [WEB_APP_URL],
+    connectionStringUrl: `postgresql://${orm.config.get('user')}:${orm.config.get('password')}@${orm.config.get('host')}:${orm.config.get('port')}/${orm.config.get('dbName')}`,
+    twoFactorUrl: `${WEB_APP_URL}/two-factor`,
+    databaseHooks: {
+      user: {
+        create: {
+          before: async user => ({ data: await prepareNewUser(orm.em.fork(), user) }),
+        },
+      },
+    },
+    ...options,
+  })
+}
+
+export function initBetterAuthRequest(auth: BetterAuthType) {
+  return (path: string, body: object, cookies?: string) => auth.handler(new Request(`${API_URL}/api/auth${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Origin': WEB_APP_URL, ...(cookies && { Cookie: cookies }) },
+    body: JSON.stringify(body),
+  }))
+}
+
+// The cookies set by a response, to send them with the next requests as a browser would
+export function getCookies(response: Response) {
+  return response.headers.getSetCookie().map(cookie => cookie.split(';')[0]).join('; ')
+}
+
+export async function closeTestBetterAuth(auth: BetterAuthType): Promise<void> {
+  // Its connections would otherwise be terminated when stopping the database
+  await auth.options.database.end()
+}
@@ -1,23 +1,26 @@
+import { EntityManager } from '@mikro-orm/core'
 import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
-import { Observable } from 'rxjs'
 import { LoggedInBetterAuthSession } from '../config/better-auth.config'
+import { User } from '../modules/auth/auth.entity'
 
 export const MOCK_AUTH_TOKEN = 'test-auth-token'
 
 @Injectable()
 export class MockAuthGuard implements CanActivate {
-  constructor(private readonly reflector: Reflector) {}
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly em: EntityManager,
+  ) {}
 
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest()
     const authHeader = request.headers.authorization
     // Allow override via custom header for tests
     const testUserId = request.headers['x-test-user-id']
 
     const isPublic = this.reflector.get('PUBLIC', context.getHandler())
+    const isOptional = this.reflector.get('OPTIONAL', context.getHandler())
 
     // Verify if the token is present and valid
     if (authHeader && authHeader === `Bearer ${MOCK_AUTH_TOKEN}`) {
@@ -27,6 +30,9 @@ export class MockAuthGuard implements CanActivate {
         throw new UnauthorizedException('Unauthorized')
       }
 
+      // The user is read from the database, so that tests can create users with any role or email
+      const user = await this.em.fork().findOne(User, { id: testUserId }, { fields: ['role', 'email', 'name', 'emailVerified', 'twoFactorEnabled'] })
+
       request.session = {
         session: {
           id: 'test-session-id',
@@ -39,9 +45,11 @@ export class MockAuthGuard implements CanActivate {
         },
         user: {
           id: testUserId,
-          email: 'test@lonestone.com',
-          name: 'Test User',
-          emailVerified: true,
+          email: user?.email ?? 'test@lonestone.com',
+          name: user?.name ?? 'Test User',
+          emailVerified: user?.emailVerified ?? true,
+          role: user?.role ?? 'user',
+          twoFactorEnabled: user?.twoFactorEnabled ?? false,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -50,7 +58,7 @@ export class MockAuthGuard implements CanActivate {
       return true
     }
 
-    if (isPublic) {
+    if (isPublic || isOptional) {
       return true
     }
 
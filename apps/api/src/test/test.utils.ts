@@ -14,6 +14,7 @@ import { json } from 'express'
 import * as express from 'express'
 import supertest, { Request, Response } from 'supertest'
 import { createTestMikroOrmOptions } from '../config/mikro-orm.config'
+import { auditLogContextMiddleware } from '../modules/audit-log/audit-log.context'
 import { AuthGuard } from '../modules/auth/auth.guard'
 import { AuthModule } from '../modules/auth/auth.module'
 import { MOCK_AUTH_TOKEN, MockAuthGuard } from './test-auth-guard.mock'
@@ -101,6 +102,7 @@ export async function initializeTestApp(
   )
 
   // Configure the app as in main.ts
+  app.use(auditLogContextMiddleware)
   app.use(json({ limit: '50mb' }))
   app.use(
     (
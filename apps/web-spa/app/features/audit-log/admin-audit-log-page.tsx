@@ -0,0 +1,252 @@
+import type { AuditLogActionSchema, AuditLogSchema, AuditLogTargetTypeSchema } from '@lonestone/openapi-generator'
+import { adminAuditLogControllerGetAuditLogs } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@lonestone/ui/components/primitives/table'
+import { useQuery } from '@tanstack/react-query'
+import { ChevronLeft, ChevronRight, SearchIcon } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { selectClassName } from '@/features/user-posts/user-post-block-inputs'
+import { authClient } from '@/lib/auth-client'
+
+const PAGE_SIZE = 20
+
+const actionLabels: Record<AuditLogActionSchema, string> = {
+  'post.created': 'Post created',
+  'post.updated': 'Post updated',
+  'post.published': 'Post published',
+  'post.scheduled': 'Post scheduled',
+  'post.unpublished': 'Post unpublished',
+  'post.version-restored': 'Post version restored',
+  'comment.created': 'Comment created',
+  'comment.edited': 'Comment edited',
+  'comment.deleted': 'Comment deleted',
+  'comment.status-changed': 'Comment status changed',
+  'auth.signed-up': 'Signed up',
+  'auth.signed-in': 'Signed in',
+  'auth.sign-in-failed': 'Sign in failed',
+  'auth.password-changed': 'Password changed',
+  'auth.two-factor-disabled': 'Two-factor authentication disabled',
+}
+
+const targetTypeOptions: Array<{ targetType: AuditLogTargetTypeSchema, label: string }> = [
+  { targetType: 'post', label: 'Posts' },
+  { targetType: 'comment', label: 'Comments' },
+  { targetType: 'user', label: 'Users' },
+]
+
+function AuditLogChanges({ auditLog }: { auditLog: AuditLogSchema }) {
+  if (!auditLog.before && !auditLog.after)
+    return <span className="text-muted-foreground">-</span>
+
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm">Show</summary>
+      <div className="mt-2 grid gap-2 md:grid-cols-2">
+        {([['Before', auditLog.before], ['After', auditLog.after]] as const).map(([label, snapshot]) => (
+          <div key={label} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{label}</p>
+            <pre className="max-h-64 max-w-md overflow-auto rounded-md bg-muted p-2 text-xs">
+              {snapshot ? JSON.stringify(snapshot, null, 2) : 'Nothing'}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </details>
+  )
+}
+
+export default function AdminAuditLogPage() {
+  const { data: sessionData } = authClient.useSession()
+  const isAdmin = sessionData?.user.role === 'admin'
+  const [actionValue, setActionValue] = useState<AuditLogActionSchema | ''>('')
+  const [targetTypeValue, setTargetTypeValue] = useState<AuditLogTargetTypeSchema | ''>('')
+  const [targetIdValue, setTargetIdValue] = useState('')
+  const [pageValue, setPageValue] = useState(1)
+
+  const { data: auditLogs } = useQuery({
+    queryKey: ['adminAuditLog', pageValue, actionValue, targetTypeValue, targetIdValue],
+    enabled: isAdmin,
+    queryFn: async () => {
+      const response = await adminAuditLogControllerGetAuditLogs({
+        query: {
+          offset: (pageValue - 1) * PAGE_SIZE,
+          pageSize: PAGE_SIZE,
+          action: actionValue || undefined,
+          targetType: targetTypeValue || undefined,
+          targetId: targetIdValue.trim() || undefined,
+        },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const totalPages = useMemo(() => {
+    if (!auditLogs?.meta)
+      return 0
+    return Math.ceil(auditLogs.meta.itemCount / PAGE_SIZE)
+  }, [auditLogs])
+
+  if (sessionData && !isAdmin) {
+    return <div className="text-muted-foreground">Only the admins can see the audit log</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-xl font-bold">Audit log</h2>
+        <p className="text-muted-foreground">
+          Who did what to the posts, the comments and the accounts, and from where
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2 md:flex-row">
+        <select
+          aria-label="Action"
+          className={selectClassName}
+          value={actionValue}
+          onChange={(e) => {
+            setActionValue(e.target.value as AuditLogActionSchema | '')
+            setPageValue(1)
+          }}
+        >
+          <option value="">All the actions</option>
+          {Object.entries(actionLabels).map(([action, label]) => (
+            <option key={action} value={action}>{label}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Target"
+          className={selectClassName}
+          value={targetTypeValue}
+          onChange={(e) => {
+            setTargetTypeValue(e.target.value as AuditLogTargetTypeSchema | '')
+            setPageValue(1)
+          }}
+        >
+          <option value="">All the targets</option>
+          {targetTypeOptions.map(option => (
+            <option key={option.targetType} value={option.targetType}>{option.label}</option>
+          ))}
+        </select>
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground z-20" />
+          <Input
+            placeholder="Target id..."
+            value={targetIdValue}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setTargetIdValue(e.target.value)
+              setPageValue(1)
+            }}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      {auditLogs && auditLogs.data.length > 0
+        ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditLogs.data.map(auditLog => (
+                    <TableRow key={auditLog.id} className="align-top">
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {new Date(auditLog.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {auditLog.actor
+                          ? (
+                              <div>
+                                <p className="font-medium">{auditLog.actor.name}</p>
+                                <p className="text-xs text-muted-foreground">{auditLog.actor.email}</p>
+                              </div>
+                            )
+                          : <span className="text-muted-foreground">Anonymous or system</span>}
+                      </TableCell>
+                      <TableCell>{actionLabels[auditLog.action]}</TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="text-left text-xs hover:underline"
+                          title="Only show the entries about this target"
+                          onClick={() => {
+                            setTargetTypeValue(auditLog.targetType)
+                            setTargetIdValue(auditLog.targetId)
+                            setPageValue(1)
+                          }}
+                        >
+                          <span className="text-muted-foreground">{auditLog.targetType}</span>
+                          {' '}
+                          <code className="break-all">{auditLog.targetId}</code>
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <p>{auditLog.ip ?? 'Unknown IP'}</p>
+                        {auditLog.userAgent && <p className="max-w-48 truncate" title={auditLog.userAgent}>{auditLog.userAgent}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <AuditLogChanges auditLog={auditLog} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex items-center justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageValue(pageValue - 1)}
+                  disabled={pageValue <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <div className="text-sm text-muted-foreground">
+                  Page
+                  {' '}
+                  {pageValue}
+                  {' '}
+                  of
+                  {' '}
+                  {totalPages}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageValue(pageValue + 1)}
+                  disabled={pageValue >= totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </>
+          )
+        : (
+            <div className="text-muted-foreground">No entries found</div>
+          )}
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { publicAuthControllerGetAuthPolicy } from '@lonestone/openapi-generator/client/sdk.gen'
+import { useQuery } from '@tanstack/react-query'
+
+// The authentication rules of the API, e.g. whether two-factor authentication is required
+export function useAuthPolicy() {
+  return useQuery({
+    queryKey: ['auth', 'policy'],
+    queryFn: async () => {
+      const response = await publicAuthControllerGetAuthPolicy()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    staleTime: Infinity,
+  })
+}
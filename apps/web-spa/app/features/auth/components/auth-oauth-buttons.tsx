@@ -0,0 +1,68 @@
+import type { OAuthProviderSchema } from '@lonestone/openapi-generator'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Separator } from '@lonestone/ui/components/primitives/separator'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { authClient } from '@/lib/auth-client'
+import { oauthProviderIcons, useOAuthProviders } from '../oauth-providers'
+
+// The user comes back to the app after signing in with the provider, so the URLs must be absolute
+async function signInWithProvider(provider: OAuthProviderSchema) {
+  const callbackURL = `${window.location.origin}/dashboard`
+  const errorCallbackURL = `${window.location.origin}/login`
+
+  const response = provider.type === 'social'
+    ? await authClient.signIn.social({ provider: provider.id, callbackURL, errorCallbackURL })
+    : await authClient.signIn.oauth2({ providerId: provider.id, callbackURL, errorCallbackURL })
+
+  if (response.error) {
+    throw new Error(response.error.message || `Failed to continue with ${provider.name}`)
+  }
+}
+
+export function AuthOAuthButtons() {
+  const { data: providers } = useOAuthProviders()
+
+  const { mutate: signIn, isPending, variables: pendingProvider } = useMutation({
+    mutationFn: signInWithProvider,
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  if (!providers?.length) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs uppercase text-muted-foreground">
+        <Separator className="flex-1" />
+        or
+        <Separator className="flex-1" />
+      </div>
+      {providers.map((provider) => {
+        const Icon = oauthProviderIcons[provider.id]
+
+        return (
+          <Button
+            key={provider.id}
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={isPending}
+            onClick={() => signIn(provider)}
+          >
+            {isPending && pendingProvider?.id === provider.id
+              ? <Loader2 className="h-4 w-4 animate-spin" />
+              : <Icon className="h-4 w-4" />}
+            Continue with
+            {' '}
+            {provider.name}
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+
+const emailCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'The code is made of 6 digits'),
+})
+
+export type AuthEmailCodeFormData = z.infer<typeof emailCodeSchema>
+
+interface AuthEmailCodeFormProps {
+  onSubmit: (data: AuthEmailCodeFormData) => void
+  isPending: boolean
+}
+
+export const AuthEmailCodeForm: React.FC<AuthEmailCodeFormProps> = ({ onSubmit, isPending }) => {
+  const form = useForm<AuthEmailCodeFormData>({
+    resolver: zodResolver(emailCodeSchema),
+    defaultValues: { code: '' },
+  })
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="code">Code</FormLabel>
+              <FormControl>
+                <Input id="code" {...field} autoComplete="one-time-code" inputMode="numeric" placeholder="123456" autoFocus />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isPending}>
+          Log in
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,51 @@
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+
+const emailSchema = z.object({
+  email: z.string().email(),
+})
+
+export type AuthEmailFormData = z.infer<typeof emailSchema>
+
+interface AuthEmailFormProps {
+  onSubmit: (data: AuthEmailFormData) => void
+  isPending: boolean
+  submitLabel: string
+}
+
+// Asks for the email only, to send a login link or code
+export const AuthEmailForm: React.FC<AuthEmailFormProps> = ({ onSubmit, isPending, submitLabel }) => {
+  const form = useForm<AuthEmailFormData>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: '' },
+  })
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="email">Email</FormLabel>
+              <FormControl>
+                <Input id="email" {...field} type="email" autoComplete="email" placeholder="your@email.com" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -6,6 +6,7 @@ import React from 'react'
 import { useForm } from 'react-hook-form'
 import { Link } from 'react-router'
 import { z } from 'zod'
+import { AuthOAuthButtons } from '../components/auth-oauth-buttons'
 
 const loginSchema = z.object({
   email: z.string().email(),
@@ -62,6 +63,7 @@ export const AuthLoginForm: React.FC<AuthLoginFormProps> = ({ onSubmit, isPendin
         <Button className="w-full" type="submit" disabled={isPending}>
           Sign In
         </Button>
+        <AuthOAuthButtons />
       </form>
     </Form>
   )
@@ -5,6 +5,7 @@ import { Input } from '@lonestone/ui/components/primitives/input'
 import React from 'react'
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
+import { AuthOAuthButtons } from '../components/auth-oauth-buttons'
 
 const registerSchema = z.object({
   email: z.string().email(),
@@ -87,6 +88,7 @@ export const AuthRegisterForm: React.FC<AuthRegisterFormProps> = ({ onSubmit, is
         <Button className="w-full" type="submit" disabled={isPending}>
           Sign Up
         </Button>
+        <AuthOAuthButtons />
       </form>
     </Form>
   )
@@ -0,0 +1,68 @@
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { Switch } from '@lonestone/ui/components/primitives/switch'
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+
+export type AuthTwoFactorMethod = 'totp' | 'backup-code'
+
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(1, 'The code is required'),
+  trustDevice: z.boolean(),
+})
+
+export type AuthTwoFactorFormData = z.infer<typeof twoFactorSchema>
+
+interface AuthTwoFactorFormProps {
+  method: AuthTwoFactorMethod
+  onSubmit: (data: AuthTwoFactorFormData) => void
+  isPending: boolean
+}
+
+export const AuthTwoFactorForm: React.FC<AuthTwoFactorFormProps> = ({ method, onSubmit, isPending }) => {
+  const form = useForm<AuthTwoFactorFormData>({
+    resolver: zodResolver(twoFactorSchema),
+    defaultValues: { code: '', trustDevice: false },
+  })
+
+  return (
+    <Form {...form}>
+      <form className="mt-8 space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="code">{method === 'totp' ? 'Authentication code' : 'Backup code'}</FormLabel>
+              <FormControl>
+                {method === 'totp'
+                  ? <Input id="code" {...field} autoComplete="one-time-code" inputMode="numeric" placeholder="123456" autoFocus />
+                  : <Input id="code" {...field} autoComplete="off" placeholder="XXXXX-XXXXX" autoFocus />}
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="trustDevice"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between gap-4">
+              <FormLabel htmlFor="trustDevice" className="font-normal">Do not ask again on this device for 30 days</FormLabel>
+              <FormControl>
+                <Switch id="trustDevice" checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button className="w-full" type="submit" disabled={isPending}>
+          Verify
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,28 @@
+import type { OAuthProviderSchema } from '@lonestone/openapi-generator'
+import type { LucideIcon } from 'lucide-react'
+import { publicAuthControllerGetOAuthProviders } from '@lonestone/openapi-generator/client/sdk.gen'
+import { useQuery } from '@tanstack/react-query'
+import { Github, Globe, KeyRound } from 'lucide-react'
+
+export const oauthProviderIcons: Record<OAuthProviderSchema['id'], LucideIcon> = {
+  github: Github,
+  google: Globe,
+  oidc: KeyRound,
+}
+
+// The providers enabled in the API, an empty list hides the OAuth buttons
+export function useOAuthProviders() {
+  return useQuery({
+    queryKey: ['auth', 'providers'],
+    queryFn: async () => {
+      const response = await publicAuthControllerGetOAuthProviders()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    staleTime: Infinity,
+  })
+}
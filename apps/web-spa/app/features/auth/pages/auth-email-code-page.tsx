@@ -0,0 +1,100 @@
+import type { AuthEmailCodeFormData } from '../forms/auth-email-code-form'
+import type { AuthEmailFormData } from '../forms/auth-email-form'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router'
+import { authClient } from '@/lib/auth-client'
+import { AuthPageHeader } from '../components/auth-page-header'
+import { AuthEmailCodeForm } from '../forms/auth-email-code-form'
+import { AuthEmailForm } from '../forms/auth-email-form'
+
+export default function AuthEmailCodePage() {
+  const navigate = useNavigate()
+  const [email, setEmail] = useState<string | null>(null)
+
+  const { mutate: sendCodeMutate, isPending: isSendPending, error: sendError } = useMutation({
+    mutationFn: async (data: AuthEmailFormData) => {
+      const response = await authClient.emailOtp.sendVerificationOtp({ email: data.email, type: 'sign-in' })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to send the login code')
+      }
+
+      return data.email
+    },
+    onSuccess: (sentTo) => {
+      setEmail(sentTo)
+    },
+  })
+
+  const { mutate: signInMutate, isPending: isSignInPending, error: signInError, reset: resetSignIn } = useMutation({
+    mutationFn: async (data: AuthEmailCodeFormData) => {
+      const response = await authClient.signIn.emailOtp({ email: email!, otp: data.code })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Invalid code')
+      }
+
+      return response.data
+    },
+    onSuccess: (data) => {
+      // The code is right, but the account asks for a two-factor code too
+      if ('twoFactorRedirect' in data && data.twoFactorRedirect) {
+        navigate('/two-factor')
+        return
+      }
+
+      toast.success('Logged in successfully')
+      navigate('/dashboard')
+    },
+  })
+
+  const changeEmail = () => {
+    resetSignIn()
+    setEmail(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <AuthPageHeader
+        title="Login code"
+        description={email ? `Enter the code we sent to ${email}.` : 'We will email you a code to log in, no password needed.'}
+      />
+      {email
+        ? (
+            <>
+              <AuthEmailCodeForm onSubmit={data => signInMutate(data)} isPending={isSignInPending} />
+              <div className="h-10">
+                {signInError ? <div className="text-sm font-medium text-red-500">{signInError.message}</div> : null}
+              </div>
+            </>
+          )
+        : (
+            <>
+              <AuthEmailForm onSubmit={data => sendCodeMutate(data)} isPending={isSendPending} submitLabel="Send me a code" />
+              <div className="h-10">
+                {sendError ? <div className="text-sm font-medium text-red-500">{sendError.message}</div> : null}
+              </div>
+            </>
+          )}
+      <div className="flex flex-col items-center gap-2 text-sm">
+        {email
+          ? (
+              <Button variant="link" size="sm" onClick={changeEmail}>
+                Use another email or get a new code
+              </Button>
+            )
+          : (
+              <Link to="/login/magic" className="text-muted-foreground transition-colors">
+                Get a link instead
+              </Link>
+            )}
+        <Link to="/login" className="font-medium transition-colors">
+          Back to Login
+        </Link>
+      </div>
+    </div>
+  )
+}
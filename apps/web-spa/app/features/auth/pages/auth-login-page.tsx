@@ -1,13 +1,16 @@
 import type { AuthLoginFormData } from '../forms/auth-login-form'
 import { toast } from '@lonestone/ui/components/primitives/sonner'
 import { useMutation } from '@tanstack/react-query'
-import { Link, useNavigate } from 'react-router'
+import { Link, useNavigate, useSearchParams } from 'react-router'
 import { authClient } from '@/lib/auth-client'
 import { AuthPageHeader } from '../components/auth-page-header'
 import { AuthLoginForm } from '../forms/auth-login-form'
 
 export default function Login() {
   const navigate = useNavigate()
+  // Set when signing in with an OAuth provider failed
+  const [searchParams] = useSearchParams()
+  const oauthError = searchParams.get('error')
 
   const { mutate: loginMutate, isPending: isLoginPending, error } = useMutation({
     mutationFn: async (data: AuthLoginFormData) => {
@@ -22,11 +25,17 @@ export default function Login() {
         throw new Error(response.error.code)
       }
 
-      toast.success('Logged in successfully')
       return response.data
     },
     onSuccess: (data) => {
-      navigate(data.url || '/')
+      // The password is right, but the account asks for a code too
+      if ('twoFactorRedirect' in data && data.twoFactorRedirect) {
+        navigate('/two-factor')
+        return
+      }
+
+      toast.success('Logged in successfully')
+      navigate(('url' in data && data.url) || '/')
     },
   })
 
@@ -43,6 +52,15 @@ export default function Login() {
       />
       <div className="h-10">
         {error ? <div className="text-sm font-medium text-red-500">{error.message === 'BANNED_USER' ? 'Banned user' : 'Bad credentials'}</div> : null}
+        {!error && oauthError ? <div className="text-sm font-medium text-red-500">Could not sign in with this provider</div> : null}
+      </div>
+      <div className="flex flex-col items-center gap-2 text-sm">
+        <Link to="/login/magic" className="text-muted-foreground transition-colors">
+          Email me a login link
+        </Link>
+        <Link to="/login/code" className="text-muted-foreground transition-colors">
+          Email me a login code
+        </Link>
       </div>
       <div className="text-sm text-center">
         <Link to="/register" className="font-medium transition-colors">
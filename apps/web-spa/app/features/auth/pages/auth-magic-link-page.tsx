@@ -0,0 +1,66 @@
+import type { AuthEmailFormData } from '../forms/auth-email-form'
+import { useMutation } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import { authClient } from '@/lib/auth-client'
+import { AuthPageHeader } from '../components/auth-page-header'
+import { AuthEmailForm } from '../forms/auth-email-form'
+
+export default function AuthMagicLinkPage() {
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  // Set by the API when the link of the email is invalid or expired
+  const [searchParams] = useSearchParams()
+  const linkError = searchParams.get('error')
+
+  const { mutate: sendLinkMutate, isPending, error } = useMutation({
+    mutationFn: async (data: AuthEmailFormData) => {
+      // The API verifies the link, then redirects to these pages
+      const response = await authClient.signIn.magicLink({
+        email: data.email,
+        callbackURL: `${window.location.origin}/dashboard`,
+        errorCallbackURL: `${window.location.origin}/login/magic`,
+      })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to send the login link')
+      }
+
+      return data.email
+    },
+    onSuccess: (email) => {
+      setSentTo(email)
+    },
+  })
+
+  return (
+    <div className="space-y-6">
+      <AuthPageHeader title="Login link" description="We will email you a link to log in, no password needed." />
+      {sentTo
+        ? (
+            <p className="text-sm">
+              A login link has been sent to
+              {' '}
+              <strong>{sentTo}</strong>
+              . Open it on this device to log in.
+            </p>
+          )
+        : (
+            <>
+              <AuthEmailForm onSubmit={data => sendLinkMutate(data)} isPending={isPending} submitLabel="Send me a link" />
+              <div className="h-10">
+                {error ? <div className="text-sm font-medium text-red-500">{error.message}</div> : null}
+                {!error && linkError ? <div className="text-sm font-medium text-red-500">This link is invalid or has expired, please ask for a new one</div> : null}
+              </div>
+            </>
+          )}
+      <div className="flex flex-col items-center gap-2 text-sm">
+        <Link to="/login/code" className="text-muted-foreground transition-colors">
+          Get a code instead
+        </Link>
+        <Link to="/login" className="font-medium transition-colors">
+          Back to Login
+        </Link>
+      </div>
+    </div>
+  )
+}
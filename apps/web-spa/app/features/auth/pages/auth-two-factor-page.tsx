@@ -0,0 +1,62 @@
+import type { AuthTwoFactorFormData, AuthTwoFactorMethod } from '../forms/auth-two-factor-form'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router'
+import { authClient } from '@/lib/auth-client'
+import { AuthPageHeader } from '../components/auth-page-header'
+import { AuthTwoFactorForm } from '../forms/auth-two-factor-form'
+
+// Second step of the login, for the accounts having two-factor authentication enabled
+export default function AuthTwoFactorPage() {
+  const navigate = useNavigate()
+  const [method, setMethod] = useState<AuthTwoFactorMethod>('totp')
+
+  const { mutate: verifyMutate, isPending, error, reset } = useMutation({
+    mutationFn: async (data: AuthTwoFactorFormData) => {
+      const response = method === 'totp'
+        ? await authClient.twoFactor.verifyTotp({ code: data.code, trustDevice: data.trustDevice })
+        : await authClient.twoFactor.verifyBackupCode({ code: data.code, trustDevice: data.trustDevice })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Invalid code')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Logged in successfully')
+      navigate('/dashboard')
+    },
+  })
+
+  const switchMethod = () => {
+    reset()
+    setMethod(method === 'totp' ? 'backup-code' : 'totp')
+  }
+
+  return (
+    <div className="space-y-6">
+      <AuthPageHeader
+        title="Two-factor authentication"
+        description={method === 'totp'
+          ? 'Enter the code shown by your authenticator app.'
+          : 'Enter one of the backup codes you saved when enabling two-factor authentication.'}
+      />
+      {/* The key remounts the form, to clear the code when switching */}
+      <AuthTwoFactorForm key={method} method={method} onSubmit={data => verifyMutate(data)} isPending={isPending} />
+      <div className="h-10">
+        {error ? <div className="text-sm font-medium text-red-500">{error.message}</div> : null}
+      </div>
+      <div className="flex flex-col items-center gap-2 text-sm">
+        <Button variant="link" size="sm" onClick={switchMethod}>
+          {method === 'totp' ? 'Use a backup code instead' : 'Use my authenticator app instead'}
+        </Button>
+        <Link to="/login" className="font-medium transition-colors">
+          Back to Login
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,9 @@ import { AuthPageHeader } from '../components/auth-page-header'
 export default function AuthVerifyEmailPage() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
+  // Changing the email of an account is approved from this page too, while being logged in
+  const { data: sessionData } = authClient.useSession()
+  const redirectPath = sessionData ? '/dashboard/settings/account' : '/login'
   const { mutate: verifyEmailMutation, isPending, isSuccess } = useMutation({
     mutationFn: async (token: string) => {
       const response = await authClient.verifyEmail({
@@ -24,7 +27,7 @@ export default function AuthVerifyEmailPage() {
     },
     onSuccess: () => {
       setTimeout(() => {
-        navigate('/login')
+        navigate(redirectPath)
       }, 3000)
     },
   })
@@ -51,12 +54,12 @@ export default function AuthVerifyEmailPage() {
   if (isSuccess) {
     return (
       <div>
-        <AuthPageHeader title="Email verified" description="Redirecting to login..." />
+        <AuthPageHeader title="Email verified" description={sessionData ? 'Redirecting to your settings...' : 'Redirecting to login...'} />
         <div className="flex h-full">
           <Loader2 className="w-10 h-10 animate-spin" />
         </div>
         <div className="text-sm text-center mt-4">
-          <Link to="/login" className="font-medium transition-colors">
+          <Link to={redirectPath} className="font-medium transition-colors">
             Redirect now
           </Link>
         </div>
@@ -64,5 +67,5 @@ export default function AuthVerifyEmailPage() {
     )
   }
 
-  return <Navigate to="/login" />
+  return <Navigate to={redirectPath} />
 }
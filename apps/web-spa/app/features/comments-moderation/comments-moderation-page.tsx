@@ -0,0 +1,243 @@
+import type { CommentStatusSchema } from '@lonestone/openapi-generator'
+import {
+  adminCommentsControllerGetComments,
+  adminCommentsControllerGetCounts,
+  adminCommentsControllerUpdateStatus,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@lonestone/ui/components/primitives/table'
+import { cn } from '@lonestone/ui/lib/utils'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Ban, Check, ChevronLeft, ChevronRight, ShieldAlert } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import { queryClient } from '@/lib/query-client'
+
+const PAGE_SIZE = 20
+
+const statusTabs: Array<{ status: CommentStatusSchema, label: string }> = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+  { status: 'spam', label: 'Spam' },
+]
+
+const bulkActions: Array<{ status: CommentStatusSchema, label: string, icon: typeof Check }> = [
+  { status: 'approved', label: 'Approve', icon: Check },
+  { status: 'rejected', label: 'Reject', icon: Ban },
+  { status: 'spam', label: 'Mark as spam', icon: ShieldAlert },
+]
+
+export default function CommentsModerationPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const status = (searchParams.get('status') as CommentStatusSchema | null) ?? 'pending'
+  const [pageValue, setPageValue] = useState(1)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const { data: counts } = useQuery({
+    queryKey: ['commentCounts'],
+    queryFn: async () => {
+      const response = await adminCommentsControllerGetCounts()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { data: comments } = useQuery({
+    queryKey: ['comments', status, pageValue],
+    queryFn: async () => {
+      const response = await adminCommentsControllerGetComments({
+        query: {
+          status,
+          offset: (pageValue - 1) * PAGE_SIZE,
+          pageSize: PAGE_SIZE,
+        },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { mutate: updateStatus, isPending } = useMutation({
+    mutationFn: (newStatus: CommentStatusSchema) =>
+      adminCommentsControllerUpdateStatus({
+        body: { ids: selectedIds, status: newStatus },
+      }),
+    onSuccess: () => {
+      setSelectedIds([])
+      queryClient.invalidateQueries({ queryKey: ['comments'] })
+      queryClient.invalidateQueries({ queryKey: ['commentCounts'] })
+    },
+  })
+
+  const handleStatusChange = (newStatus: CommentStatusSchema) => {
+    setPageValue(1)
+    setSelectedIds([])
+    setSearchParams({ status: newStatus })
+  }
+
+  const handlePageChange = (newPage: number) => {
+    setPageValue(newPage)
+    setSelectedIds([])
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(selectedId => selectedId !== id) : [...ids, id])
+  }
+
+  const pageIds = comments?.data.map(comment => comment.id) ?? []
+  const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id))
+
+  const totalPages = useMemo(() => {
+    if (!comments?.meta)
+      return 0
+    return Math.ceil(comments.meta.itemCount / PAGE_SIZE)
+  }, [comments])
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-xl font-bold">Comments</h2>
+        <p className="text-muted-foreground">Moderate the comments left on your posts</p>
+      </div>
+
+      <div className="bg-muted rounded-md p-1 inline-flex">
+        {statusTabs.map(tab => (
+          <button
+            key={tab.status}
+            type="button"
+            aria-pressed={status === tab.status}
+            onClick={() => handleStatusChange(tab.status)}
+            className={cn(
+              'px-3 py-1 rounded-md text-sm flex items-center gap-2',
+              status === tab.status ? 'bg-background shadow-sm' : 'hover:bg-background/50',
+            )}
+          >
+            {tab.label}
+            {counts && <Badge variant="secondary">{counts[tab.status] ?? 0}</Badge>}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">
+          {selectedIds.length}
+          {' '}
+          selected
+        </span>
+        {bulkActions
+          .filter(action => action.status !== status)
+          .map(({ status: actionStatus, label, icon: Icon }) => (
+            <Button
+              key={actionStatus}
+              variant="outline"
+              size="sm"
+              onClick={() => updateStatus(actionStatus)}
+              disabled={!selectedIds.length || isPending}
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+      </div>
+
+      {comments && comments.data.length > 0
+        ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all comments"
+                        checked={isPageSelected}
+                        onChange={() => setSelectedIds(isPageSelected ? [] : pageIds)}
+                      />
+                    </TableHead>
+                    <TableHead>Author</TableHead>
+                    <TableHead>Comment</TableHead>
+                    <TableHead>Post</TableHead>
+                    <TableHead>Date</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comments.data.map(comment => (
+                    <TableRow key={comment.id} data-state={selectedIds.includes(comment.id) ? 'selected' : undefined}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          aria-label="Select comment"
+                          checked={selectedIds.includes(comment.id)}
+                          onChange={() => toggleSelected(comment.id)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {comment.user?.name || comment.authorName || 'Anonymous'}
+                      </TableCell>
+                      <TableCell className="max-w-md whitespace-pre-line">{comment.content}</TableCell>
+                      <TableCell>
+                        <Link to={`/dashboard/posts/${comment.post.id}/edit`} className="hover:underline">
+                          {comment.post.title}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(comment.createdAt).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex items-center justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(pageValue - 1)}
+                  disabled={pageValue <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <div className="text-sm text-muted-foreground">
+                  Page
+                  {' '}
+                  {pageValue}
+                  {' '}
+                  of
+                  {' '}
+                  {totalPages}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(pageValue + 1)}
+                  disabled={pageValue >= totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </>
+          )
+        : (
+            <div className="text-muted-foreground">No comments found</div>
+          )}
+    </div>
+  )
+}
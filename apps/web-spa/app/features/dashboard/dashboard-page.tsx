@@ -10,23 +10,31 @@ import {
 } from '@lonestone/ui/components/primitives/dropdown-menu'
 import { Switch } from '@lonestone/ui/components/primitives/switch'
 import {
+  History,
   LayoutDashboard,
   LogOut,
+  MailPlus,
+  MessageSquare,
   MoonStar,
   PlusCircle,
   Settings,
   Sun,
   User,
   UserIcon,
+  Users,
 } from 'lucide-react'
 import { useEffect } from 'react'
-import { Link, Outlet, useNavigate } from 'react-router'
+import { Link, Outlet, useLocation, useNavigate } from 'react-router'
+import { useAuthPolicy } from '@/features/auth/auth-policy'
+import { NotificationsMenu } from '@/features/notifications/notifications-menu'
 import useTheme from '@/hooks/useTheme'
 import { authClient } from '@/lib/auth-client'
 
 export default function DashboardPage() {
   const { data: sessionData, isPending } = authClient.useSession()
   const navigate = useNavigate()
+  const location = useLocation()
+  const { data: policy } = useAuthPolicy()
 
   const [theme, setTheme] = useTheme()
 
@@ -36,6 +44,15 @@ export default function DashboardPage() {
     }
   }, [sessionData, navigate, isPending])
 
+  // The API is closed to the users who have not enabled two-factor authentication when it is required
+  const mustEnableTwoFactor = !!policy?.twoFactorRequired && !!sessionData && !sessionData.user.twoFactorEnabled
+
+  useEffect(() => {
+    if (mustEnableTwoFactor && location.pathname !== '/dashboard/settings/account') {
+      navigate('/dashboard/settings/account')
+    }
+  }, [mustEnableTwoFactor, location.pathname, navigate])
+
   const handleThemeChange = (checked: boolean) => {
     setTheme(checked ? 'dark' : 'light')
   }
@@ -55,6 +72,40 @@ export default function DashboardPage() {
           </div>
 
           <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" asChild>
+              <Link
+                to="/dashboard/comments"
+                className="flex items-center gap-2"
+              >
+                <MessageSquare className="h-4 w-4" />
+                <span>Comments</span>
+              </Link>
+            </Button>
+
+            {sessionData?.user.role === 'admin' && (
+              <Button variant="ghost" size="sm" asChild>
+                <Link
+                  to="/dashboard/users"
+                  className="flex items-center gap-2"
+                >
+                  <Users className="h-4 w-4" />
+                  <span>Users</span>
+                </Link>
+              </Button>
+            )}
+
+            {sessionData?.user.role === 'admin' && (
+              <Button variant="ghost" size="sm" asChild>
+                <Link
+                  to="/dashboard/audit-log"
+                  className="flex items-center gap-2"
+                >
+                  <History className="h-4 w-4" />
+                  <span>Audit log</span>
+                </Link>
+              </Button>
+            )}
+
             <Button variant="outline" size="sm" asChild>
               <Link
                 to="/dashboard/posts/new"
@@ -65,6 +116,8 @@ export default function DashboardPage() {
               </Link>
             </Button>
 
+            <NotificationsMenu />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button
@@ -90,6 +143,15 @@ export default function DashboardPage() {
                     <span>Settings</span>
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link
+                    to="/dashboard/invitations"
+                    className="flex w-full items-center"
+                  >
+                    <MailPlus className="h-4 w-4" />
+                    <span>Invitations</span>
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild onSelect={e => e.preventDefault()}>
                   <div className="flex items-center gap-2">
                     <Sun className={theme === 'dark' ? 'text-foreground/50' : 'text-foreground'} />
@@ -0,0 +1,112 @@
+import {
+  postInvitationsControllerAcceptInvitation,
+  postInvitationsControllerDeclineInvitation,
+  postInvitationsControllerGetInvitations,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@lonestone/ui/components/primitives/card'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Check, X } from 'lucide-react'
+import { useNavigate } from 'react-router'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+
+export default function InvitationsPage() {
+  const navigate = useNavigate()
+  const { data: sessionData } = authClient.useSession()
+  // Invitations are sent to an email, they are only shown once it is verified
+  const isEmailVerified = !!sessionData?.user.emailVerified
+
+  const { data: invitations, isLoading } = useQuery({
+    queryKey: ['invitations'],
+    queryFn: async () => {
+      const response = await postInvitationsControllerGetInvitations()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    enabled: isEmailVerified,
+  })
+
+  const { mutate: respond, isPending } = useMutation({
+    mutationFn: async ({ invitationId, accept }: { invitationId: string, accept: boolean }) => {
+      const options = { path: { invitationId } }
+      const response = accept
+        ? await postInvitationsControllerAcceptInvitation(options)
+        : await postInvitationsControllerDeclineInvitation(options)
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: (_collaborator, { invitationId, accept }) => {
+      queryClient.invalidateQueries({ queryKey: ['invitations'] })
+      if (accept) {
+        queryClient.invalidateQueries({ queryKey: ['posts'] })
+        const invitation = invitations?.find(invitation => invitation.id === invitationId)
+        navigate(`/dashboard/posts/${invitation?.post.id}/edit`)
+      }
+      else {
+        toast.success('Invitation declined')
+      }
+    },
+    onError: () => {
+      toast.error('Failed to answer the invitation')
+    },
+  })
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div className="space-y-2">
+        <h2 className="text-xl font-bold">Invitations</h2>
+        <p className="text-muted-foreground">Posts you have been invited to collaborate on</p>
+      </div>
+
+      {sessionData && !isEmailVerified && (
+        <div className="text-muted-foreground">Verify your email to see the invitations sent to it</div>
+      )}
+
+      {isLoading && <Skeleton className="h-24 w-full" />}
+
+      {invitations && invitations.length === 0 && (
+        <div className="text-muted-foreground">No pending invitations</div>
+      )}
+
+      {invitations?.map(invitation => (
+        <Card key={invitation.id}>
+          <CardHeader>
+            <CardTitle>{invitation.post.title}</CardTitle>
+            <CardDescription>
+              {invitation.invitedBy?.name ?? 'Someone'}
+              {' '}
+              invited you as
+              {' '}
+              {invitation.role === 'editor' ? 'an editor' : 'a viewer'}
+              {' '}
+              on
+              {' '}
+              {new Date(invitation.createdAt).toLocaleDateString()}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="gap-2">
+            <Button size="sm" disabled={isPending} onClick={() => respond({ invitationId: invitation.id, accept: true })}>
+              <Check className="size-4" />
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" disabled={isPending} onClick={() => respond({ invitationId: invitation.id, accept: false })}>
+              <X className="size-4" />
+              Decline
+            </Button>
+          </CardFooter>
+        </Card>
+      ))}
+    </div>
+  )
+}
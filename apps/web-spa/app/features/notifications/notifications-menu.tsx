@@ -0,0 +1,167 @@
+import type { NotificationSchema } from '@lonestone/openapi-generator'
+import {
+  notificationsControllerGetNotifications,
+  notificationsControllerGetUnreadCount,
+  notificationsControllerMarkAllAsRead,
+  notificationsControllerMarkAsRead,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@lonestone/ui/components/primitives/dropdown-menu'
+import { cn } from '@lonestone/ui/lib/utils'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Bell, CheckCheck } from 'lucide-react'
+import { useState } from 'react'
+import { queryClient } from '@/lib/query-client'
+
+const PAGE_SIZE = 10
+// The unread count is refreshed regularly, as there is no live update of the notifications
+const UNREAD_COUNT_REFRESH_INTERVAL = 60 * 1000
+
+function getNotificationMessage(notification: NotificationSchema) {
+  return notification.type === 'reply'
+    ? `${notification.actorName} replied to your comment on ${notification.post.title}`
+    : `${notification.actorName} commented on ${notification.post.title}`
+}
+
+export function NotificationsMenu() {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const { data: unreadCount } = useQuery({
+    queryKey: ['notifications', 'unreadCount'],
+    queryFn: async () => {
+      const response = await notificationsControllerGetUnreadCount()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data?.count ?? 0
+    },
+    refetchInterval: UNREAD_COUNT_REFRESH_INTERVAL,
+  })
+
+  // Notifications are only loaded when the menu is opened
+  const { data: notifications, isLoading } = useQuery({
+    queryKey: ['notifications', 'list'],
+    queryFn: async () => {
+      const response = await notificationsControllerGetNotifications({
+        query: {
+          offset: 0,
+          pageSize: PAGE_SIZE,
+        },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    enabled: isOpen,
+  })
+
+  const { mutate: markAsRead } = useMutation({
+    mutationFn: (notificationId: string) =>
+      notificationsControllerMarkAsRead({
+        path: { notificationId },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] })
+    },
+  })
+
+  const { mutate: markAllAsRead, isPending: isMarkingAllAsRead } = useMutation({
+    mutationFn: () => notificationsControllerMarkAllAsRead(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] })
+    },
+  })
+
+  const handleSelect = (notification: NotificationSchema) => {
+    if (!notification.readAt) {
+      markAsRead(notification.id)
+    }
+
+    if (notification.url) {
+      window.open(notification.url, '_blank', 'noopener')
+    }
+  }
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8 rounded-md"
+        >
+          <Bell className="h-4 w-4" />
+          {!!unreadCount && (
+            <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Open notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => markAllAsRead()}
+            disabled={!unreadCount || isMarkingAllAsRead}
+          >
+            <CheckCheck className="h-3.5 w-3.5" />
+            Mark all as read
+          </Button>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {isLoading && (
+          <div className="px-2 py-4 text-center text-sm text-muted-foreground">Loading...</div>
+        )}
+        {notifications && notifications.data.length === 0 && (
+          <div className="px-2 py-4 text-center text-sm text-muted-foreground">No notifications yet</div>
+        )}
+        {notifications?.data.map(notification => (
+          <DropdownMenuItem
+            key={notification.id}
+            onSelect={() => handleSelect(notification)}
+            className="flex flex-col items-start gap-1"
+          >
+            <div className="flex w-full items-start gap-2">
+              <span
+                className={cn(
+                  'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                  notification.readAt ? 'bg-transparent' : 'bg-primary',
+                )}
+              />
+              <div className="space-y-1">
+                <p className={cn('text-sm', !notification.readAt && 'font-medium')}>
+                  {getNotificationMessage(notification)}
+                </p>
+                {notification.comment.excerpt && (
+                  <p className="line-clamp-2 text-xs text-muted-foreground">
+                    {notification.comment.excerpt}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(notification.createdAt).toLocaleString()}
+                </p>
+              </div>
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,67 @@
+import { publicNotificationsControllerUnsubscribe } from '@lonestone/openapi-generator/client/sdk.gen'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useEffect } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import { AuthPageHeader } from '@/features/auth/components/auth-page-header'
+
+export default function UnsubscribePage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const { mutate: unsubscribe, isSuccess, isError } = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await publicNotificationsControllerUnsubscribe({
+        query: {
+          token,
+        },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  useEffect(() => {
+    if (token) {
+      unsubscribe(token)
+    }
+  }, [token, unsubscribe])
+
+  if (!token || isError) {
+    return (
+      <div>
+        <AuthPageHeader title="Invalid link" description="This unsubscribe link is invalid or has expired." />
+        <div className="text-sm text-center mt-4">
+          <Link to="/dashboard/settings/notifications" className="font-medium transition-colors">
+            Manage your email notifications
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  if (isSuccess) {
+    return (
+      <div>
+        <AuthPageHeader title="Unsubscribed" description="You will no longer receive notification emails." />
+        <div className="text-sm text-center mt-4">
+          <Link to="/dashboard/settings/notifications" className="font-medium transition-colors">
+            Manage your email notifications
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <AuthPageHeader title="Unsubscribing" description="Please wait..." />
+      <div className="flex h-full">
+        <Loader2 className="w-10 h-10 animate-spin" />
+      </div>
+    </div>
+  )
+}
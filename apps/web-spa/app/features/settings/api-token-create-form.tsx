@@ -0,0 +1,141 @@
+import type { ApiTokenScopeSchema, CreatedApiTokenSchema } from '@lonestone/openapi-generator'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { apiTokensControllerCreateApiToken } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { Switch } from '@lonestone/ui/components/primitives/switch'
+import { cn } from '@lonestone/ui/lib/utils'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { selectClassName } from '@/features/user-posts/user-post-block-inputs'
+import { queryClient } from '@/lib/query-client'
+
+export const apiTokenScopeOptions: Array<{ value: ApiTokenScopeSchema, label: string }> = [
+  { value: 'posts:read', label: 'Read my posts' },
+  { value: 'posts:write', label: 'Create, edit and publish my posts' },
+  { value: 'comments:read', label: 'Read the comments I moderate' },
+  { value: 'comments:write', label: 'Write and moderate comments' },
+]
+
+const expiryOptions = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+]
+
+const createApiTokenFormSchema = z.object({
+  name: z.string().trim().min(1, 'The name is required').max(100),
+  scopes: z.array(z.enum(['posts:read', 'posts:write', 'comments:read', 'comments:write'])).min(1, 'Choose at least one scope'),
+  // The select holds strings
+  expiresInDays: z.string(),
+})
+
+type CreateApiTokenFormData = z.infer<typeof createApiTokenFormSchema>
+
+interface ApiTokenCreateFormProps {
+  onCreated: (apiToken: CreatedApiTokenSchema) => void
+}
+
+export function ApiTokenCreateForm({ onCreated }: ApiTokenCreateFormProps) {
+  const form = useForm<CreateApiTokenFormData>({
+    resolver: zodResolver(createApiTokenFormSchema),
+    defaultValues: { name: '', scopes: [], expiresInDays: '30' },
+  })
+
+  const { mutate: createApiToken, isPending } = useMutation({
+    mutationFn: async (data: CreateApiTokenFormData) => {
+      const response = await apiTokensControllerCreateApiToken({
+        body: { ...data, expiresInDays: Number(data.expiresInDays) },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: (apiToken) => {
+      form.reset()
+      if (!apiToken)
+        return
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] })
+      onCreated(apiToken)
+    },
+    onError: () => {
+      toast.error('Failed to create the token')
+    },
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => createApiToken(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="apiTokenName">Name</FormLabel>
+              <FormControl>
+                <Input id="apiTokenName" placeholder="e.g. Publish from CI" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="scopes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Scopes</FormLabel>
+              <div className="space-y-2">
+                {apiTokenScopeOptions.map(option => (
+                  <div key={option.value} className="flex items-center justify-between gap-4">
+                    <label htmlFor={`scope-${option.value}`} className="text-sm">
+                      {option.label}
+                      {' '}
+                      <code className="text-xs text-muted-foreground">{option.value}</code>
+                    </label>
+                    <Switch
+                      id={`scope-${option.value}`}
+                      checked={field.value.includes(option.value)}
+                      onCheckedChange={checked => field.onChange(checked
+                        ? [...field.value, option.value]
+                        : field.value.filter(scope => scope !== option.value))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="expiresInDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="apiTokenExpiry">Expires in</FormLabel>
+              <FormControl>
+                <select id="apiTokenExpiry" className={cn(selectClassName, 'w-full')} {...field}>
+                  {expiryOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Create the token
+        </Button>
+      </form>
+    </Form>
+  )
+}
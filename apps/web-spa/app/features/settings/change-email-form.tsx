@@ -0,0 +1,80 @@
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { authClient } from '@/lib/auth-client'
+
+const changeEmailSchema = z.object({
+  newEmail: z.string().email(),
+})
+
+type ChangeEmailFormData = z.infer<typeof changeEmailSchema>
+
+export function ChangeEmailForm() {
+  const { data: sessionData } = authClient.useSession()
+  const form = useForm<ChangeEmailFormData>({
+    resolver: zodResolver(changeEmailSchema),
+    defaultValues: { newEmail: '' },
+  })
+
+  const { mutate: changeEmail, isPending } = useMutation({
+    mutationFn: async (data: ChangeEmailFormData) => {
+      const response = await authClient.changeEmail({ newEmail: data.newEmail })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to change your email')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      // Verified addresses must approve the change, the others are changed right away and verified afterwards
+      toast.success(sessionData?.user.emailVerified
+        ? `We sent a link to ${sessionData.user.email} to approve the change`
+        : 'We sent a verification link to your new address')
+      form.reset()
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => changeEmail(data))} className="space-y-4">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Current email:</span>
+          <span className="font-medium">{sessionData?.user.email}</span>
+          {sessionData && (
+            <Badge variant={sessionData.user.emailVerified ? 'secondary' : 'destructive'}>
+              {sessionData.user.emailVerified ? 'Verified' : 'Not verified'}
+            </Badge>
+          )}
+        </div>
+        <FormField
+          control={form.control}
+          name="newEmail"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="newEmail">New email</FormLabel>
+              <FormControl>
+                <Input id="newEmail" type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Change my email
+        </Button>
+      </form>
+    </Form>
+  )
+}
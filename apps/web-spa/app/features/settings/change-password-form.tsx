@@ -0,0 +1,117 @@
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { Switch } from '@lonestone/ui/components/primitives/switch'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Your current password is required'),
+  newPassword: z.string().min(6),
+  confirmPassword: z.string(),
+  revokeOtherSessions: z.boolean(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+})
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>
+
+export function ChangePasswordForm() {
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: '', newPassword: '', confirmPassword: '', revokeOtherSessions: true },
+  })
+
+  const { mutate: changePassword, isPending } = useMutation({
+    mutationFn: async (data: ChangePasswordFormData) => {
+      const response = await authClient.changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+        revokeOtherSessions: data.revokeOtherSessions,
+      })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to change your password')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Your password has been changed')
+      form.reset()
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => changePassword(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="currentPassword">Current password</FormLabel>
+              <FormControl>
+                <Input id="currentPassword" type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="newPassword">New password</FormLabel>
+              <FormControl>
+                <Input id="newPassword" type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="confirmPassword">Confirm the new password</FormLabel>
+              <FormControl>
+                <Input id="confirmPassword" type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="revokeOtherSessions"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between gap-4">
+              <FormLabel htmlFor="revokeOtherSessions" className="font-normal">Log out of my other devices</FormLabel>
+              <FormControl>
+                <Switch id="revokeOtherSessions" checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Change my password
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,83 @@
+import { Button } from '@lonestone/ui/components/primitives/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@lonestone/ui/components/primitives/dialog'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useNavigate } from 'react-router'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+
+export function DeleteAccountDialog() {
+  const navigate = useNavigate()
+  const [password, setPassword] = useState('')
+
+  const { mutate: deleteAccount, isPending, error } = useMutation({
+    mutationFn: async () => {
+      const response = await authClient.deleteUser({ password })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to delete your account')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.clear()
+      navigate('/login')
+    },
+  })
+
+  return (
+    <Dialog onOpenChange={() => setPassword('')}>
+      <DialogTrigger asChild>
+        <Button variant="destructive">
+          <Trash2 className="h-4 w-4" />
+          Delete my account
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            deleteAccount()
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Delete your account?</DialogTitle>
+            <DialogDescription>
+              Your account and your data will be deleted right away. Enter your password to confirm.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            autoComplete="current-password"
+            placeholder="Password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+          />
+          {error && <p className="text-sm text-destructive">{error.message}</p>}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button type="submit" variant="destructive" disabled={!password || isPending}>
+              {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Delete my account
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
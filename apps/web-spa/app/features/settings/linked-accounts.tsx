@@ -0,0 +1,115 @@
+import type { OAuthProviderSchema } from '@lonestone/openapi-generator'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { oauthProviderIcons, useOAuthProviders } from '@/features/auth/oauth-providers'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+
+// The user comes back to this page once the provider has been connected
+async function connectProvider(provider: OAuthProviderSchema) {
+  const callbackURL = `${window.location.origin}/dashboard/settings/account`
+
+  const response = provider.type === 'social'
+    ? await authClient.linkSocial({ provider: provider.id, callbackURL })
+    : await authClient.oauth2.link({ providerId: provider.id, callbackURL })
+
+  if (response.error) {
+    throw new Error(response.error.message || `Failed to connect ${provider.name}`)
+  }
+}
+
+export function LinkedAccounts() {
+  const { data: providers, isLoading: isProvidersLoading } = useOAuthProviders()
+  const { data: accounts, isLoading: isAccountsLoading } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: async () => {
+      const response = await authClient.listAccounts()
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to load your connected accounts')
+      }
+
+      return response.data
+    },
+  })
+
+  const { mutate: connect, isPending: isConnecting, variables: connectingProvider } = useMutation({
+    mutationFn: connectProvider,
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const { mutate: disconnect, isPending: isDisconnecting, variables: disconnectingProvider } = useMutation({
+    mutationFn: async (provider: OAuthProviderSchema) => {
+      const response = await authClient.unlinkAccount({ providerId: provider.id })
+
+      if (response.error) {
+        throw new Error(response.error.message || `Failed to disconnect ${provider.name}`)
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts'] })
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  if (isProvidersLoading || isAccountsLoading) {
+    return <Skeleton className="h-24 w-full" />
+  }
+
+  if (!providers?.length) {
+    return <p className="text-sm text-muted-foreground">No provider is available.</p>
+  }
+
+  // The last way to sign in cannot be disconnected
+  const canDisconnect = (accounts?.length ?? 0) > 1
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {providers.map((provider) => {
+        const Icon = oauthProviderIcons[provider.id]
+        const isConnected = !!accounts?.some(account => account.provider === provider.id)
+        const isPending = (isConnecting && connectingProvider?.id === provider.id)
+          || (isDisconnecting && disconnectingProvider?.id === provider.id)
+
+        return (
+          <li key={provider.id} className="flex items-center justify-between gap-4 p-4">
+            <div className="flex items-center gap-3">
+              <Icon className="h-5 w-5 text-muted-foreground" />
+              <span className="text-sm font-medium">{provider.name}</span>
+              {isConnected && <Badge variant="secondary">Connected</Badge>}
+            </div>
+            {isConnected
+              ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!canDisconnect || isPending}
+                    title={canDisconnect ? undefined : 'Set a password or connect another provider first'}
+                    onClick={() => disconnect(provider)}
+                  >
+                    {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Disconnect
+                  </Button>
+                )
+              : (
+                  <Button variant="outline" size="sm" disabled={isPending} onClick={() => connect(provider)}>
+                    {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Connect
+                  </Button>
+                )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
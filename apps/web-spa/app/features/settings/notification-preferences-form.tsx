@@ -0,0 +1,138 @@
+import type { EmailFrequencySchema, UpdateNotificationPreferencesSchema } from '@lonestone/openapi-generator'
+import {
+  notificationsControllerGetPreferences,
+  notificationsControllerUpdatePreferences,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { Switch } from '@lonestone/ui/components/primitives/switch'
+import { cn } from '@lonestone/ui/lib/utils'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useEffect } from 'react'
+import { Controller, useForm } from 'react-hook-form'
+import { selectClassName } from '@/features/user-posts/user-post-block-inputs'
+import { queryClient } from '@/lib/query-client'
+
+const emailFrequencyOptions: Array<{ value: EmailFrequencySchema, label: string }> = [
+  { value: 'never', label: 'Never' },
+  { value: 'immediate', label: 'Right away' },
+  { value: 'daily', label: 'Daily digest' },
+  { value: 'weekly', label: 'Weekly digest' },
+]
+
+export function NotificationPreferencesForm() {
+  const { data: preferences, isLoading } = useQuery({
+    queryKey: ['notifications', 'preferences'],
+    queryFn: async () => {
+      const response = await notificationsControllerGetPreferences()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { register, control, handleSubmit, reset, watch } = useForm<UpdateNotificationPreferencesSchema>({
+    defaultValues: {
+      emailFrequency: 'never',
+      emailComments: true,
+      emailReplies: true,
+    },
+  })
+
+  useEffect(() => {
+    if (preferences) {
+      reset(preferences)
+    }
+  }, [preferences, reset])
+
+  const { mutate: updatePreferences, isPending } = useMutation({
+    mutationFn: async (data: UpdateNotificationPreferencesSchema) => {
+      const response = await notificationsControllerUpdatePreferences({ body: data })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Notification preferences saved')
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'preferences'] })
+    },
+    onError: () => {
+      toast.error('Failed to save the notification preferences')
+    },
+  })
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />
+  }
+
+  const isEmailDisabled = watch('emailFrequency') === 'never'
+
+  return (
+    <form onSubmit={handleSubmit(data => updatePreferences(data))} className="space-y-4">
+      <div className="space-y-2">
+        <label htmlFor="emailFrequency" className="block text-sm font-medium">
+          Email me my notifications
+        </label>
+        <select
+          id="emailFrequency"
+          className={cn(selectClassName, 'w-full')}
+          {...register('emailFrequency')}
+        >
+          {emailFrequencyOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className={cn('space-y-3', isEmailDisabled && 'opacity-50')}>
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="emailComments" className="text-sm">
+            New comments on my posts
+          </label>
+          <Controller
+            control={control}
+            name="emailComments"
+            render={({ field }) => (
+              <Switch
+                id="emailComments"
+                checked={field.value}
+                onCheckedChange={field.onChange}
+                disabled={isEmailDisabled}
+              />
+            )}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="emailReplies" className="text-sm">
+            Replies to my comments
+          </label>
+          <Controller
+            control={control}
+            name="emailReplies"
+            render={({ field }) => (
+              <Switch
+                id="emailReplies"
+                checked={field.value}
+                onCheckedChange={field.onChange}
+                disabled={isEmailDisabled}
+              />
+            )}
+          />
+        </div>
+      </div>
+
+      <Button type="submit" disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,125 @@
+import type { UpdateAuthorProfileSchema } from '@lonestone/openapi-generator'
+import {
+  profileControllerGetProfile,
+  profileControllerUpdateProfile,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { Textarea } from '@lonestone/ui/components/primitives/textarea'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { useEffect } from 'react'
+import { useFieldArray, useForm } from 'react-hook-form'
+import { queryClient } from '@/lib/query-client'
+
+const MAX_LINKS = 5
+
+interface ProfileFormValues {
+  handle: string
+  bio: string
+  links: UpdateAuthorProfileSchema['links']
+}
+
+export function ProfileForm() {
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['profile'],
+    queryFn: async () => {
+      const response = await profileControllerGetProfile()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { register, control, handleSubmit, reset } = useForm<ProfileFormValues>({
+    defaultValues: {
+      handle: '',
+      bio: '',
+      links: [],
+    },
+  })
+  const { fields, append, remove } = useFieldArray({ control, name: 'links' })
+
+  useEffect(() => {
+    if (profile) {
+      reset({ handle: profile.handle, bio: profile.bio ?? '', links: profile.links })
+    }
+  }, [profile, reset])
+
+  const { mutate: updateProfile, isPending } = useMutation({
+    mutationFn: async (data: ProfileFormValues) => {
+      const response = await profileControllerUpdateProfile({
+        body: { ...data, bio: data.bio.trim() || null },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Profile saved')
+      queryClient.invalidateQueries({ queryKey: ['profile'] })
+    },
+    onError: () => {
+      toast.error('Failed to save the profile, the handle may already be taken')
+    },
+  })
+
+  if (isLoading) {
+    return <Skeleton className="h-60 w-full" />
+  }
+
+  return (
+    <form onSubmit={handleSubmit(data => updateProfile(data))} className="space-y-4">
+      <div className="space-y-2">
+        <label htmlFor="handle" className="block text-sm font-medium">
+          Handle
+        </label>
+        <Input id="handle" {...register('handle', { required: true })} />
+        <p className="text-xs text-muted-foreground">
+          Your profile is public at /authors/
+          {profile?.handle}
+          . Lowercase letters, digits and dashes only.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="bio" className="block text-sm font-medium">
+          Bio
+        </label>
+        <Textarea id="bio" rows={4} maxLength={1000} {...register('bio')} />
+      </div>
+
+      <div className="space-y-2">
+        <span className="block text-sm font-medium">Links</span>
+        {fields.map((field, index) => (
+          <div key={field.id} className="flex items-center gap-2">
+            <Input placeholder="Label" className="w-40" {...register(`links.${index}.label`, { required: true })} />
+            <Input placeholder="https://" type="url" {...register(`links.${index}.url`, { required: true })} />
+            <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {fields.length < MAX_LINKS && (
+          <Button type="button" variant="outline" size="sm" onClick={() => append({ label: '', url: '' })}>
+            <Plus className="h-4 w-4" />
+            Add a link
+          </Button>
+        )}
+      </div>
+
+      <Button type="submit" disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,36 @@
+import { ChangeEmailForm } from './change-email-form'
+import { ChangePasswordForm } from './change-password-form'
+import { DeleteAccountDialog } from './delete-account-dialog'
+import { LinkedAccounts } from './linked-accounts'
+import { SettingsSection } from './settings-section'
+import { TwoFactorSettings } from './two-factor-settings'
+
+export default function SettingsAccountPage() {
+  return (
+    <div className="space-y-6">
+      <SettingsSection title="Email" description="The address you log in with, and where we send your notifications">
+        <ChangeEmailForm />
+      </SettingsSection>
+
+      <SettingsSection title="Password" description="Choose a new password, and log out of your other devices if needed">
+        <ChangePasswordForm />
+      </SettingsSection>
+
+      <SettingsSection title="Two-factor authentication" description="Ask for a code of your authenticator app when logging in with your password">
+        <TwoFactorSettings />
+      </SettingsSection>
+
+      <SettingsSection title="Connected accounts" description="The providers you can sign in with, in addition to your password">
+        <LinkedAccounts />
+      </SettingsSection>
+
+      <SettingsSection
+        title="Delete my account"
+        description="Your posts, files and reactions are deleted, your comments are kept anonymously. This cannot be undone."
+        className="border-destructive/50"
+      >
+        <DeleteAccountDialog />
+      </SettingsSection>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import type { CreatedApiTokenSchema } from '@lonestone/openapi-generator'
+import { apiTokensControllerDeleteApiToken, apiTokensControllerGetApiTokens } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Alert, AlertDescription, AlertTitle } from '@lonestone/ui/components/primitives/alert'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { KeyRound, Loader2, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { queryClient } from '@/lib/query-client'
+import { ApiTokenCreateForm } from './api-token-create-form'
+import { SettingsSection } from './settings-section'
+
+export default function SettingsApiTokensPage() {
+  // The value of the token is only returned on creation
+  const [createdApiToken, setCreatedApiToken] = useState<CreatedApiTokenSchema | null>(null)
+
+  const { data: apiTokens, isLoading } = useQuery({
+    queryKey: ['api-tokens'],
+    queryFn: async () => {
+      const response = await apiTokensControllerGetApiTokens()
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { mutate: deleteApiToken, isPending: isDeleting, variables: deletedId } = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiTokensControllerDeleteApiToken({ path: { id } })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: (_data, id) => {
+      if (createdApiToken?.id === id)
+        setCreatedApiToken(null)
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] })
+    },
+    onError: () => {
+      toast.error('Failed to revoke the token')
+    },
+  })
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection title="New token" description="Tokens let your scripts use the API on your behalf, within their scopes">
+        {createdApiToken && (
+          <Alert>
+            <KeyRound />
+            <AlertTitle>Copy your token now, it will not be shown again</AlertTitle>
+            <AlertDescription>
+              <code className="break-all text-foreground">{createdApiToken.token}</code>
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(createdApiToken.token)}>
+                Copy
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+        <ApiTokenCreateForm onCreated={setCreatedApiToken} />
+      </SettingsSection>
+
+      <SettingsSection title="Your tokens" description="Revoke the tokens you do not use anymore">
+        {isLoading
+          ? <Skeleton className="h-24 w-full" />
+          : apiTokens?.length
+            ? (
+                <ul className="divide-y rounded-md border">
+                  {apiTokens.map(apiToken => (
+                    <li key={apiToken.id} className="flex items-center justify-between gap-4 p-4">
+                      <div className="min-w-0 space-y-1">
+                        <p className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                          {apiToken.name}
+                          <code className="text-xs text-muted-foreground">
+                            {apiToken.start}
+                            …
+                          </code>
+                          {new Date(apiToken.expiresAt) < new Date() && <Badge variant="destructive">Expired</Badge>}
+                        </p>
+                        <p className="flex flex-wrap gap-1">
+                          {apiToken.scopes.map(scope => <Badge key={scope} variant="secondary">{scope}</Badge>)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {'Expires on '}
+                          {new Date(apiToken.expiresAt).toLocaleDateString()}
+                          {' · '}
+                          {apiToken.lastUsedAt ? `Last used ${new Date(apiToken.lastUsedAt).toLocaleString()}` : 'Never used'}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isDeleting && deletedId === apiToken.id}
+                        onClick={() => deleteApiToken(apiToken.id)}
+                      >
+                        {isDeleting && deletedId === apiToken.id
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Trash2 className="h-4 w-4" />}
+                        Revoke
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )
+            : <p className="text-sm text-muted-foreground">You have no tokens yet.</p>}
+      </SettingsSection>
+    </div>
+  )
+}
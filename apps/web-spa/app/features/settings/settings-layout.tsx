@@ -0,0 +1,39 @@
+import { cn } from '@lonestone/ui/lib/utils'
+import { NavLink, Outlet } from 'react-router'
+
+const settingsTabs = [
+  { to: '/dashboard/settings', label: 'Profile', end: true },
+  { to: '/dashboard/settings/account', label: 'Account', end: false },
+  { to: '/dashboard/settings/sessions', label: 'Sessions', end: false },
+  { to: '/dashboard/settings/notifications', label: 'Notifications', end: false },
+  { to: '/dashboard/settings/api-tokens', label: 'API tokens', end: false },
+]
+
+export default function SettingsLayout() {
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div className="space-y-2">
+        <h2 className="text-xl font-bold">Settings</h2>
+        <p className="text-muted-foreground">Manage your profile, your account and your preferences</p>
+      </div>
+
+      <nav className="flex gap-1 border-b">
+        {settingsTabs.map(tab => (
+          <NavLink
+            key={tab.to}
+            to={tab.to}
+            end={tab.end}
+            className={({ isActive }) => cn(
+              '-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+              isActive ? 'border-primary text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground',
+            )}
+          >
+            {tab.label}
+          </NavLink>
+        ))}
+      </nav>
+
+      <Outlet />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { NotificationPreferencesForm } from './notification-preferences-form'
+import { SettingsSection } from './settings-section'
+
+export default function SettingsNotificationsPage() {
+  return (
+    <SettingsSection
+      title="Email notifications"
+      description="Choose whether you receive your notifications by email, right away or as a digest"
+    >
+      <NotificationPreferencesForm />
+    </SettingsSection>
+  )
+}
@@ -0,0 +1,17 @@
+import { ProfileForm } from './profile-form'
+import { SettingsSection } from './settings-section'
+import { UserDetailsForm } from './user-details-form'
+
+export default function SettingsProfilePage() {
+  return (
+    <div className="space-y-6">
+      <SettingsSection title="Your details" description="Your name and avatar, shown next to your posts and comments">
+        <UserDetailsForm />
+      </SettingsSection>
+
+      <SettingsSection title="Public profile" description="Shown to the readers on your author page, next to your published posts">
+        <ProfileForm />
+      </SettingsSection>
+    </div>
+  )
+}
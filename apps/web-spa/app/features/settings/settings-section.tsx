@@ -0,0 +1,21 @@
+import type { ReactNode } from 'react'
+import { cn } from '@lonestone/ui/lib/utils'
+
+interface SettingsSectionProps {
+  title: string
+  description: string
+  children: ReactNode
+  className?: string
+}
+
+export function SettingsSection({ title, description, children, className }: SettingsSectionProps) {
+  return (
+    <section className={cn('space-y-4 rounded-lg border p-6', className)}>
+      <div className="space-y-1">
+        <h3 className="font-semibold">{title}</h3>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      {children}
+    </section>
+  )
+}
@@ -0,0 +1,146 @@
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Loader2, LogOut, Monitor } from 'lucide-react'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+import { SettingsSection } from './settings-section'
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+const operatingSystems: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Mac OS X/, 'macOS'],
+  [/Android/, 'Android'],
+  [/Linux/, 'Linux'],
+]
+
+// A short description of the device, e.g. "Firefox on Linux", the full user agent is shown on hover
+function describeUserAgent(userAgent?: string | null) {
+  if (!userAgent)
+    return 'Unknown device'
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const os = operatingSystems.find(([pattern]) => pattern.test(userAgent))?.[1]
+  if (!browser && !os)
+    return userAgent
+
+  return [browser ?? 'Unknown browser', os].filter(Boolean).join(' on ')
+}
+
+export default function SettingsSessionsPage() {
+  const { data: sessionData } = authClient.useSession()
+
+  const { data: sessions, isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await authClient.listSessions()
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to load your sessions')
+      }
+
+      // The most recent first
+      return [...response.data].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    },
+  })
+
+  const { mutate: revokeSession, isPending: isRevoking, variables: revokedToken } = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await authClient.revokeSession({ token })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to log out of this session')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const { mutate: revokeOtherSessions, isPending: isRevokingOthers } = useMutation({
+    mutationFn: async () => {
+      const response = await authClient.revokeOtherSessions()
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to log out of the other sessions')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('You have been logged out of your other devices')
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  return (
+    <SettingsSection title="Active sessions" description="The devices you are logged in with. Log out of the ones you do not recognize.">
+      {isLoading
+        ? <Skeleton className="h-40 w-full" />
+        : (
+            <ul className="divide-y rounded-md border">
+              {sessions?.map((session) => {
+                const isCurrent = session.id === sessionData?.session.id
+
+                return (
+                  <li key={session.id} className="flex items-center justify-between gap-4 p-4">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Monitor className="h-5 w-5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="flex items-center gap-2 text-sm font-medium">
+                          <span className="truncate" title={session.userAgent ?? undefined}>
+                            {describeUserAgent(session.userAgent)}
+                          </span>
+                          {isCurrent && <Badge variant="secondary">This device</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {session.ipAddress || 'Unknown IP address'}
+                          {' · Last active '}
+                          {new Date(session.updatedAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                    {!isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isRevoking && revokedToken === session.token}
+                        onClick={() => revokeSession(session.token)}
+                      >
+                        {isRevoking && revokedToken === session.token
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <LogOut className="h-4 w-4" />}
+                        Log out
+                      </Button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+      {!!sessions && sessions.length > 1 && (
+        <Button variant="outline" disabled={isRevokingOthers} onClick={() => revokeOtherSessions()}>
+          {isRevokingOthers && <Loader2 className="h-4 w-4 animate-spin" />}
+          Log out of all the other devices
+        </Button>
+      )}
+    </SettingsSection>
+  )
+}
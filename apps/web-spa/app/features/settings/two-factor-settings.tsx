@@ -0,0 +1,228 @@
+import { Alert, AlertDescription, AlertTitle } from '@lonestone/ui/components/primitives/alert'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2, ShieldAlert } from 'lucide-react'
+import { useState } from 'react'
+import QRCode from 'react-qr-code'
+import { useAuthPolicy } from '@/features/auth/auth-policy'
+import { authClient } from '@/lib/auth-client'
+
+function BackupCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Save these backup codes somewhere safe. Each of them lets you log in once if you lose access to your authenticator app.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(codes.join('\n'))}>
+        Copy the codes
+      </Button>
+    </div>
+  )
+}
+
+// Scanning the QR code adds the account to the authenticator app, verifying its first code enables two-factor authentication
+function TwoFactorSetup({ totpURI, backupCodes, onEnabled }: { totpURI: string, backupCodes: string[], onEnabled: () => void }) {
+  const [code, setCode] = useState('')
+  const secret = new URL(totpURI).searchParams.get('secret')
+
+  const { mutate: verify, isPending, error } = useMutation({
+    mutationFn: async () => {
+      const response = await authClient.twoFactor.verifyTotp({ code })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Invalid code')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Two-factor authentication is enabled')
+      onEnabled()
+    },
+  })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start gap-6">
+        <div className="rounded-md bg-white p-2">
+          <QRCode value={totpURI} size={160} />
+        </div>
+        <div className="space-y-2 text-sm">
+          <p>Scan this QR code with your authenticator app, e.g. 1Password or Google Authenticator.</p>
+          <p className="text-muted-foreground">
+            Or enter this key:
+            {' '}
+            <code className="break-all">{secret}</code>
+          </p>
+        </div>
+      </div>
+      <BackupCodes codes={backupCodes} />
+      <form
+        className="flex max-w-sm gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          verify()
+        }}
+      >
+        <Input
+          autoComplete="one-time-code"
+          inputMode="numeric"
+          placeholder="Code of the app"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+        />
+        <Button type="submit" disabled={!code || isPending}>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Enable
+        </Button>
+      </form>
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+    </div>
+  )
+}
+
+export function TwoFactorSettings() {
+  const { data: sessionData, refetch: refetchSession } = authClient.useSession()
+  const { data: policy } = useAuthPolicy()
+  const [password, setPassword] = useState('')
+  const [setup, setSetup] = useState<{ totpURI: string, backupCodes: string[] } | null>(null)
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null)
+  const isEnabled = !!sessionData?.user.twoFactorEnabled
+
+  const { mutate: enable, isPending: isEnabling } = useMutation({
+    mutationFn: async () => {
+      const response = await authClient.twoFactor.enable({ password })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to enable two-factor authentication')
+      }
+
+      return response.data
+    },
+    onSuccess: (data) => {
+      setPassword('')
+      setSetup(data)
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const { mutate: generateBackupCodes, isPending: isGenerating } = useMutation({
+    mutationFn: async () => {
+      const response = await authClient.twoFactor.generateBackupCodes({ password })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to generate new backup codes')
+      }
+
+      return response.data
+    },
+    onSuccess: (data) => {
+      setPassword('')
+      setNewBackupCodes(data.backupCodes)
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const { mutate: disable, isPending: isDisabling } = useMutation({
+    mutationFn: async () => {
+      const response = await authClient.twoFactor.disable({ password })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to disable two-factor authentication')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      setPassword('')
+      setNewBackupCodes(null)
+      toast.success('Two-factor authentication is disabled')
+      refetchSession()
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  if (setup && !isEnabled) {
+    return (
+      <TwoFactorSetup
+        {...setup}
+        onEnabled={() => {
+          setSetup(null)
+          refetchSession()
+        }}
+      />
+    )
+  }
+
+  const passwordInput = (
+    <Input
+      type="password"
+      autoComplete="current-password"
+      placeholder="Password"
+      className="max-w-sm"
+      value={password}
+      onChange={e => setPassword(e.target.value)}
+    />
+  )
+
+  if (!isEnabled) {
+    return (
+      <div className="space-y-4">
+        {policy?.twoFactorRequired && (
+          <Alert variant="destructive">
+            <ShieldAlert />
+            <AlertTitle>Two-factor authentication is required</AlertTitle>
+            <AlertDescription>Enable it to keep using the dashboard.</AlertDescription>
+          </Alert>
+        )}
+        <p className="text-sm text-muted-foreground">Enter your password to set up an authenticator app.</p>
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            enable()
+          }}
+        >
+          {passwordInput}
+          <Button type="submit" disabled={!password || isEnabling}>
+            {isEnabling && <Loader2 className="h-4 w-4 animate-spin" />}
+            Set up
+          </Button>
+        </form>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Badge variant="secondary">Enabled</Badge>
+      {newBackupCodes && <BackupCodes codes={newBackupCodes} />}
+      <p className="text-sm text-muted-foreground">Enter your password to generate new backup codes, which replace the previous ones, or to disable two-factor authentication.</p>
+      <div className="flex flex-wrap gap-2">
+        {passwordInput}
+        <Button variant="outline" disabled={!password || isGenerating} onClick={() => generateBackupCodes()}>
+          {isGenerating && <Loader2 className="h-4 w-4 animate-spin" />}
+          New backup codes
+        </Button>
+        {!policy?.twoFactorRequired && (
+          <Button variant="destructive" disabled={!password || isDisabling} onClick={() => disable()}>
+            {isDisabling && <Loader2 className="h-4 w-4 animate-spin" />}
+            Disable
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@lonestone/ui/components/primitives/form'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { FileUploadInput } from '@/features/user-posts/file-upload-input'
+import { authClient } from '@/lib/auth-client'
+
+const userDetailsSchema = z.object({
+  name: z.string().trim().min(1, 'Your name is required'),
+  image: z.string(),
+})
+
+type UserDetailsFormData = z.infer<typeof userDetailsSchema>
+
+export function UserDetailsForm() {
+  const { data: sessionData, isPending: isSessionPending } = authClient.useSession()
+
+  const form = useForm<UserDetailsFormData>({
+    resolver: zodResolver(userDetailsSchema),
+    defaultValues: { name: '', image: '' },
+  })
+
+  useEffect(() => {
+    if (sessionData) {
+      form.reset({ name: sessionData.user.name, image: sessionData.user.image ?? '' })
+    }
+  }, [sessionData, form])
+
+  const { mutate: updateUser, isPending } = useMutation({
+    mutationFn: async (data: UserDetailsFormData) => {
+      const response = await authClient.updateUser({
+        name: data.name,
+        image: data.image || null,
+      })
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to save your details')
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Your details have been saved')
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  if (isSessionPending) {
+    return <Skeleton className="h-60 w-full" />
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => updateUser(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="name">Name</FormLabel>
+              <FormControl>
+                <Input id="name" autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="image"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Avatar</FormLabel>
+              <FileUploadInput
+                kind="image"
+                value={field.value}
+                onUpload={file => field.onChange(file.url)}
+                onClear={() => field.onChange('')}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,110 @@
+import type { FileSchema } from '@lonestone/openapi-generator'
+import { filesControllerUploadFile } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { cn } from '@lonestone/ui/lib/utils'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2, Upload, X } from 'lucide-react'
+import { useRef, useState } from 'react'
+
+interface FileUploadInputProps {
+  kind: 'image' | 'video'
+  // URL of the current file, used for the preview
+  value: string
+  onUpload: (file: FileSchema) => void
+  onClear: () => void
+  invalid?: boolean
+}
+
+export function FileUploadInput({ kind, value, onUpload, onClear, invalid }: FileUploadInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  const { mutate: uploadFile, isPending, error } = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await filesControllerUploadFile({
+        body: { file },
+      })
+
+      if (response.error) {
+        throw new Error((response.error as { message?: string }).message || 'Upload failed')
+      }
+
+      return response.data
+    },
+    onSuccess: (file) => {
+      if (file) {
+        onUpload(file)
+      }
+    },
+  })
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0]
+    if (file) {
+      uploadFile(file)
+    }
+  }
+
+  if (value) {
+    return (
+      <div className="relative rounded-md overflow-hidden border">
+        {kind === 'image'
+          ? <img src={value} alt="Preview" className="max-h-[200px] w-full object-cover" />
+          : <video src={value} controls className="max-h-[200px] w-full" />}
+        <Button
+          type="button"
+          variant="destructive"
+          size="icon"
+          className="absolute top-2 right-2 size-7 opacity-80 hover:opacity-100"
+          onClick={onClear}
+          aria-label={`Remove ${kind}`}
+        >
+          <X className="size-3.5" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <button
+        type="button"
+        disabled={isPending}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          handleFiles(e.dataTransfer.files)
+        }}
+        className={cn(
+          'w-full flex flex-col items-center justify-center gap-2 rounded-md border border-dashed py-8 text-sm text-muted-foreground transition-colors cursor-pointer hover:bg-muted/50 disabled:cursor-not-allowed',
+          isDragging && 'bg-muted/50 border-ring',
+          invalid && 'border-destructive',
+        )}
+      >
+        {isPending
+          ? <Loader2 className="size-5 animate-spin" />
+          : <Upload className="size-5" />}
+        {isPending ? 'Uploading...' : `Drop ${kind === 'image' ? 'an image' : 'a video'} here or click to upload`}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${kind}/*`}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files)
+          e.target.value = ''
+        }}
+      />
+      {error && (
+        <p className="text-sm text-destructive">{error.message}</p>
+      )}
+    </div>
+  )
+}
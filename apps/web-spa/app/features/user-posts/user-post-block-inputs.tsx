@@ -0,0 +1,135 @@
+import type { PostContentSchema } from '@lonestone/openapi-generator'
+import PostContent from '@lonestone/ui/components/posts/PostContent'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { cn } from '@lonestone/ui/lib/utils'
+import { Eye, Pencil } from 'lucide-react'
+import { useState } from 'react'
+
+type BlockData<T extends PostContentSchema['type']> = Extract<PostContentSchema, { type: T }>['data']
+
+interface BlockInputProps<T extends PostContentSchema['type']> {
+  value: BlockData<T>
+  onChange: (value: BlockData<T>) => void
+  invalid?: boolean
+}
+
+export const textareaClassName = cn(
+  'border-input placeholder:text-muted-foreground selection:bg-primary selection:text-primary-foreground flex w-full min-w-0 rounded-md border bg-transparent px-3 py-2 text-base shadow-xs transition-[color,box-shadow] outline-none disabled:pointer-events-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm min-h-[120px] resize-y',
+  'focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]',
+  'aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive',
+)
+
+export const selectClassName = 'border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]'
+
+export function MarkdownBlockInput({ value, onChange, invalid }: BlockInputProps<'markdown'>) {
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsPreviewing(!isPreviewing)}>
+          {isPreviewing ? <Pencil className="size-3.5" /> : <Eye className="size-3.5" />}
+          {isPreviewing ? 'Edit' : 'Preview'}
+        </Button>
+      </div>
+      {isPreviewing
+        ? (
+            <div className="rounded-md border p-3 min-h-[120px]">
+              <PostContent content={[{ type: 'markdown', data: value }]} />
+            </div>
+          )
+        : (
+            <textarea
+              value={value}
+              onChange={e => onChange(e.target.value)}
+              placeholder="Write some Markdown: **bold**, _italic_, [links](https://example.com), tables..."
+              className={cn(textareaClassName, 'font-mono', invalid && 'border-destructive')}
+            />
+          )}
+    </div>
+  )
+}
+
+export function HeadingBlockInput({ value, onChange, invalid }: BlockInputProps<'heading'>) {
+  return (
+    <div className="flex gap-2">
+      <select
+        aria-label="Heading level"
+        value={value.level}
+        onChange={e => onChange({ ...value, level: Number(e.target.value) })}
+        className={selectClassName}
+      >
+        <option value={2}>H2</option>
+        <option value={3}>H3</option>
+        <option value={4}>H4</option>
+      </select>
+      <Input
+        value={value.text}
+        onChange={e => onChange({ ...value, text: e.target.value })}
+        placeholder="Heading"
+        className={cn(invalid && 'border-destructive')}
+      />
+    </div>
+  )
+}
+
+export function QuoteBlockInput({ value, onChange, invalid }: BlockInputProps<'quote'>) {
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={value.text}
+        onChange={e => onChange({ ...value, text: e.target.value })}
+        placeholder="Quote"
+        className={cn(textareaClassName, 'italic', invalid && 'border-destructive')}
+      />
+      <Input
+        value={value.citation ?? ''}
+        onChange={e => onChange({ ...value, citation: e.target.value || undefined })}
+        placeholder="Author or source (optional)"
+      />
+    </div>
+  )
+}
+
+export function CodeBlockInput({ value, onChange, invalid }: BlockInputProps<'code'>) {
+  return (
+    <div className="space-y-2">
+      <Input
+        value={value.language ?? ''}
+        onChange={e => onChange({ ...value, language: e.target.value || undefined })}
+        placeholder="Language (optional), e.g. typescript"
+        maxLength={32}
+      />
+      <textarea
+        value={value.code}
+        onChange={e => onChange({ ...value, code: e.target.value })}
+        placeholder="Paste your code here..."
+        spellCheck={false}
+        className={cn(textareaClassName, 'font-mono', invalid && 'border-destructive')}
+      />
+    </div>
+  )
+}
+
+export function ListBlockInput({ value, onChange, invalid }: BlockInputProps<'list'>) {
+  return (
+    <div className="space-y-2">
+      <select
+        aria-label="List style"
+        value={value.ordered ? 'ordered' : 'unordered'}
+        onChange={e => onChange({ ...value, ordered: e.target.value === 'ordered' })}
+        className={selectClassName}
+      >
+        <option value="unordered">Bullet list</option>
+        <option value="ordered">Numbered list</option>
+      </select>
+      <textarea
+        value={value.items.join('\n')}
+        onChange={e => onChange({ ...value, items: e.target.value.split('\n') })}
+        placeholder="One item per line"
+        className={cn(textareaClassName, invalid && 'border-destructive')}
+      />
+    </div>
+  )
+}
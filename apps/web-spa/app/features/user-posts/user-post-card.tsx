@@ -6,9 +6,14 @@ import {
   CardHeader,
   CardTitle,
 } from '@lonestone/ui/components/primitives/card'
+import { ClockIcon } from '@lonestone/ui/icons'
 import { Link } from 'react-router'
 
-export function UserPostCard({ post }: { post: Omit<UserPostSchema, 'content'> }) {
+export function UserPostCard({ post, author }: {
+  post: Omit<UserPostSchema, 'content' | 'commentModeration'>
+  // Shown when listing the posts of every user
+  author?: string
+}) {
   return (
     <Card className="hover:bg-background transition-colors bg-background/50 duration-200 backdrop-blur-sm" asChild>
       <Link to={`/dashboard/posts/${post.id}/edit`}>
@@ -16,8 +21,33 @@ export function UserPostCard({ post }: { post: Omit<UserPostSchema, 'content'> }
           <CardTitle>
             {post.title}
             {' '}
-            <Badge variant={post.publishedAt ? 'default' : 'secondary'} className="text-xs ml-2">{post.publishedAt ? 'Published' : 'Draft'}</Badge>
+            {post.scheduledAt
+              ? (
+                  <Badge variant="outline" className="text-xs ml-2">
+                    <ClockIcon />
+                    Scheduled for
+                    {' '}
+                    {new Date(post.scheduledAt).toLocaleString()}
+                  </Badge>
+                )
+              : (
+                  <Badge variant={post.publishedAt ? 'default' : 'secondary'} className="text-xs ml-2">{post.publishedAt ? 'Published' : 'Draft'}</Badge>
+                )}
           </CardTitle>
+          {post.role && post.role !== 'owner' && (
+            <span className="text-sm text-muted-foreground">
+              Shared with you as
+              {' '}
+              {post.role}
+            </span>
+          )}
+          {author && (
+            <span className="text-sm text-muted-foreground">
+              By
+              {' '}
+              {author}
+            </span>
+          )}
         </CardHeader>
         <CardFooter>
           <div className="w-full flex items-center justify-between gap-2">
@@ -0,0 +1,201 @@
+import type { InvitePostCollaboratorSchema, PostCollaboratorRoleSchema } from '@lonestone/openapi-generator'
+import {
+  postCollaboratorsControllerGetCollaborators,
+  postCollaboratorsControllerInviteCollaborator,
+  postCollaboratorsControllerRemoveCollaborator,
+  postCollaboratorsControllerUpdateCollaborator,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@lonestone/ui/components/primitives/card'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Loader2, Trash2, UserPlus, Users, X } from 'lucide-react'
+import { useForm } from 'react-hook-form'
+import { useNavigate } from 'react-router'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+import { selectClassName } from './user-post-block-inputs'
+
+const invitedRoleOptions: Array<{ value: InvitePostCollaboratorSchema['role'], label: string }> = [
+  { value: 'editor', label: 'Editor: edits the drafts' },
+  { value: 'viewer', label: 'Viewer: reads the drafts' },
+]
+
+const roleLabels: Record<PostCollaboratorRoleSchema, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+}
+
+interface UserPostCollaboratorsPanelProps {
+  postId: string
+  // Owners and admins manage the collaborators, the others can only leave the post
+  canManage: boolean
+  onClose: () => void
+}
+
+export function UserPostCollaboratorsPanel({ postId, canManage, onClose }: UserPostCollaboratorsPanelProps) {
+  const navigate = useNavigate()
+  const { data: sessionData } = authClient.useSession()
+
+  const { data: collaborators, isLoading } = useQuery({
+    queryKey: ['userPostCollaborators', postId],
+    queryFn: async () => {
+      const response = await postCollaboratorsControllerGetCollaborators({
+        path: { postId },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { register, handleSubmit, reset } = useForm<InvitePostCollaboratorSchema>({
+    defaultValues: { email: '', role: 'editor' },
+  })
+
+  const { mutate: inviteCollaborator, isPending: isInviting } = useMutation({
+    mutationFn: async (data: InvitePostCollaboratorSchema) => {
+      const response = await postCollaboratorsControllerInviteCollaborator({
+        path: { postId },
+        body: data,
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Invitation sent')
+      reset()
+      queryClient.invalidateQueries({ queryKey: ['userPostCollaborators', postId] })
+    },
+    onError: () => {
+      toast.error('Failed to send the invitation')
+    },
+  })
+
+  const { mutate: updateCollaborator, isPending: isUpdating } = useMutation({
+    mutationFn: ({ collaboratorId, role }: { collaboratorId: string, role: InvitePostCollaboratorSchema['role'] }) =>
+      postCollaboratorsControllerUpdateCollaborator({
+        path: { postId, collaboratorId },
+        body: { role },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['userPostCollaborators', postId] })
+    },
+  })
+
+  const { mutate: removeCollaborator, isPending: isRemoving } = useMutation({
+    mutationFn: (collaboratorId: string) =>
+      postCollaboratorsControllerRemoveCollaborator({
+        path: { postId, collaboratorId },
+      }),
+    onSuccess: (_result, collaboratorId) => {
+      const isLeaving = collaborators?.find(collaborator => collaborator.id === collaboratorId)?.user?.id === sessionData?.user.id
+      if (isLeaving) {
+        toast.success('You left the post')
+        queryClient.invalidateQueries({ queryKey: ['posts'] })
+        navigate('/dashboard')
+        return
+      }
+      queryClient.invalidateQueries({ queryKey: ['userPostCollaborators', postId] })
+    },
+  })
+
+  return (
+    <Card className="gap-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Users className="size-4" />
+          Collaborators
+        </CardTitle>
+        <Button type="button" variant="ghost" size="icon" onClick={onClose} aria-label="Close collaborators">
+          <X className="size-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !collaborators
+          ? <Skeleton className="h-24 w-full" />
+          : (
+              <ul className="space-y-3">
+                {collaborators.map(collaborator => (
+                  <li key={collaborator.id} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{collaborator.user?.name ?? collaborator.email}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        {collaborator.status === 'accepted' ? roleLabels[collaborator.role] : `Invited as ${roleLabels[collaborator.role].toLowerCase()}`}
+                        {collaborator.status === 'declined' && <Badge variant="outline">Declined</Badge>}
+                      </p>
+                    </div>
+                    {collaborator.role !== 'owner' && (
+                      <div className="flex items-center gap-1 shrink-0">
+                        {canManage && (
+                          <select
+                            aria-label={`Role of ${collaborator.email}`}
+                            className={selectClassName}
+                            value={collaborator.role}
+                            disabled={isUpdating}
+                            onChange={e => updateCollaborator({
+                              collaboratorId: collaborator.id,
+                              role: e.target.value as InvitePostCollaboratorSchema['role'],
+                            })}
+                          >
+                            {invitedRoleOptions.map(option => (
+                              <option key={option.value} value={option.value}>{roleLabels[option.value]}</option>
+                            ))}
+                          </select>
+                        )}
+                        {(canManage || collaborator.user?.id === sessionData?.user.id) && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            disabled={isRemoving}
+                            onClick={() => removeCollaborator(collaborator.id)}
+                            aria-label={collaborator.user?.id === sessionData?.user.id ? 'Leave the post' : `Remove ${collaborator.email}`}
+                          >
+                            <Trash2 className="size-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+        {canManage && (
+          <form onSubmit={handleSubmit(data => inviteCollaborator(data))} className="space-y-2 border-t pt-4">
+            <label htmlFor="collaborator-email" className="block text-sm font-medium">
+              Invite a collaborator
+            </label>
+            <Input
+              id="collaborator-email"
+              type="email"
+              placeholder="Email address"
+              {...register('email', { required: true })}
+            />
+            <select className={`${selectClassName} w-full`} aria-label="Role" {...register('role')}>
+              {invitedRoleOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <Button type="submit" size="sm" className="w-full" disabled={isInviting}>
+              {isInviting ? <Loader2 className="size-4 animate-spin" /> : <UserPlus className="size-4" />}
+              Send the invitation
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,15 +3,23 @@ import type {
 } from '@lonestone/openapi-generator'
 import { postControllerGetUserPost, postControllerPublishPost, postControllerUnpublishPost, postControllerUpdatePost } from '@lonestone/openapi-generator/client/sdk.gen'
 import { Button } from '@lonestone/ui/components/primitives/button'
-import { SendIcon } from '@lonestone/ui/icons'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { ClockIcon, HistoryIcon, SendIcon, Users } from '@lonestone/ui/icons'
 import { useMutation, useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
 import { useNavigate, useParams } from 'react-router'
+import { authClient } from '@/lib/auth-client'
 import { queryClient } from '@/lib/query-client'
+import { UserPostCollaboratorsPanel } from './user-post-collaborators-panel'
 import UserPostForm, { UserPostFormSkeleton } from './user-post-form'
+import { UserPostHistoryPanel } from './user-post-history-panel'
 
 export default function UserPostEditPage() {
   const { userPostId } = useParams()
   const navigate = useNavigate()
+  const [publishAt, setPublishAt] = useState('')
+  const [openPanel, setOpenPanel] = useState<'history' | 'collaborators'>()
+  const { data: sessionData } = authClient.useSession()
 
   const { data: post, isLoading } = useQuery({
     queryKey: ['userPost', userPostId],
@@ -44,11 +52,13 @@ export default function UserPostEditPage() {
   })
 
   const { mutate: PublishPost, isPending: isPublishing } = useMutation({
-    mutationFn: () =>
+    mutationFn: (publishAt?: Date) =>
       postControllerPublishPost({
         path: { id: userPostId as string },
+        body: { publishAt: publishAt?.toISOString() },
       }),
     onSuccess: () => {
+      setPublishAt('')
       queryClient.invalidateQueries({ queryKey: ['userPost', userPostId] })
     },
   })
@@ -74,11 +84,11 @@ export default function UserPostEditPage() {
 
   const onPublish = async () => {
     try {
-      if (post?.publishedAt) {
+      if (post?.publishedAt || post?.scheduledAt) {
         await UnpublishPost()
       }
       else {
-        await PublishPost()
+        await PublishPost(undefined)
       }
     }
     catch (error) {
@@ -86,46 +96,134 @@ export default function UserPostEditPage() {
     }
   }
 
+  const onSchedule = async () => {
+    try {
+      await PublishPost(new Date(publishAt))
+    }
+    catch (error) {
+      console.error(error)
+    }
+  }
+
+  // Owners publish the post and manage its collaborators, editors edit its drafts, viewers only read them
+  const canManage = post?.role === 'owner' || sessionData?.user.role === 'admin'
+  const canEdit = canManage || post?.role === 'editor'
+
+  const togglePanel = (panel: 'history' | 'collaborators') => {
+    setOpenPanel(openPanel === panel ? undefined : panel)
+  }
+
   // Show skeleton while loading
   if (isLoading) {
     return <UserPostFormSkeleton />
   }
 
   return (
-    <div className="space-y-4 max-w-3xl">
-      <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-2xl font-bold">Edit Post</h1>
-          <p className="text-sm text-muted-foreground mt-1">
-            Share your thoughts, images, and videos with the world.
-          </p>
-        </div>
-        <div>
-          <Button size="sm" onClick={onPublish} disabled={isPublishing || isUnpublishing || isPending}>
-            {post?.publishedAt
-              ? (
-                  <>
-                    <SendIcon className="size-4" />
-                    Unpublish
-                  </>
-                )
-              : (
-                  <>
-                    <SendIcon className="size-4" />
-                    Publish
-                  </>
-                )}
-          </Button>
+    <div className="flex flex-col lg:flex-row gap-6 items-start">
+      <div className="space-y-4 max-w-3xl w-full">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">Edit Post</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Share your thoughts, images, and videos with the world.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => togglePanel('history')}>
+              <HistoryIcon className="size-4" />
+              History
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => togglePanel('collaborators')}>
+              <Users className="size-4" />
+              Collaborators
+            </Button>
+            {post?.scheduledAt && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                <ClockIcon className="size-4" />
+                Scheduled for
+                {' '}
+                {new Date(post.scheduledAt).toLocaleString()}
+              </span>
+            )}
+            {canManage && !post?.publishedAt && !post?.scheduledAt && (
+              <>
+                <Input
+                  type="datetime-local"
+                  className="h-8 w-auto"
+                  aria-label="Publication date"
+                  value={publishAt}
+                  onChange={e => setPublishAt(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={onSchedule}
+                  disabled={!publishAt || isPublishing || isUnpublishing || isPending}
+                >
+                  <ClockIcon className="size-4" />
+                  Schedule
+                </Button>
+              </>
+            )}
+            {canManage && (
+              <Button size="sm" onClick={onPublish} disabled={isPublishing || isUnpublishing || isPending}>
+                {post?.scheduledAt
+                  ? (
+                      <>
+                        <ClockIcon className="size-4" />
+                        Cancel schedule
+                      </>
+                    )
+                  : post?.publishedAt
+                    ? (
+                        <>
+                          <SendIcon className="size-4" />
+                          Unpublish
+                        </>
+                      )
+                    : (
+                        <>
+                          <SendIcon className="size-4" />
+                          Publish
+                        </>
+                      )}
+              </Button>
+            )}
+          </div>
         </div>
+        <UserPostForm
+        // Remount the form when a new version is created, e.g. after a restore
+          key={post?.versions[post.versions.length - 1]?.id}
+          onSubmit={onSubmit}
+          initialData={{
+            title: post?.title ?? '',
+            content: post?.content ?? [],
+            tags: post?.tags.map(tag => tag.name) ?? [],
+            commentModeration: post?.commentModeration ?? 'open',
+          }}
+          isSubmitting={isPending}
+          readOnly={!canEdit}
+        />
       </div>
-      <UserPostForm
-        onSubmit={onSubmit}
-        initialData={{
-          title: post?.title ?? '',
-          content: post?.content ?? [],
-        }}
-        isSubmitting={isPending}
-      />
+      {openPanel === 'history' && post && (
+        <div className="w-full lg:w-80 shrink-0">
+          <UserPostHistoryPanel
+            postId={post.id}
+            versions={post.versions}
+            canRestore={canEdit}
+            onClose={() => setOpenPanel(undefined)}
+          />
+        </div>
+      )}
+      {openPanel === 'collaborators' && post && (
+        <div className="w-full lg:w-80 shrink-0">
+          <UserPostCollaboratorsPanel
+            postId={post.id}
+            canManage={canManage}
+            onClose={() => setOpenPanel(undefined)}
+          />
+        </div>
+      )}
     </div>
   )
 }
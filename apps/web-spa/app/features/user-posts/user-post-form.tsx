@@ -1,33 +1,104 @@
+import type { CommentModerationSchema, FileSchema, PostContentSchema } from '@lonestone/openapi-generator'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
 import { Button } from '@lonestone/ui/components/primitives/button'
 import { Input } from '@lonestone/ui/components/primitives/input'
 import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
 import { cn } from '@lonestone/ui/lib/utils'
-import { Image, Loader2, MoveDown, MoveUp, Plus, Trash2, Type, Video, X } from 'lucide-react'
+import { Code, Heading, Image, List, Loader2, MoveDown, MoveUp, Plus, Quote, SquareM, Trash2, Type, Video, X } from 'lucide-react'
 import { useState } from 'react'
 import { Controller, useFieldArray, useForm } from 'react-hook-form'
+import { FileUploadInput } from './file-upload-input'
+import {
+  CodeBlockInput,
+  HeadingBlockInput,
+  ListBlockInput,
+  MarkdownBlockInput,
+  QuoteBlockInput,
+  selectClassName,
+  textareaClassName,
+} from './user-post-block-inputs'
 
-interface PostContentItem {
-  type: 'text' | 'image' | 'video'
-  data: string
+type PostContentItem = PostContentSchema
+type PostContentType = PostContentItem['type']
+type PostContentData<T extends PostContentType> = Extract<PostContentItem, { type: T }>['data']
+type PostImageData = PostContentData<'image'>
+
+const contentTypes = [
+  { type: 'text', label: 'Text', icon: Type },
+  { type: 'markdown', label: 'Markdown', icon: SquareM },
+  { type: 'heading', label: 'Heading', icon: Heading },
+  { type: 'quote', label: 'Quote', icon: Quote },
+  { type: 'list', label: 'List', icon: List },
+  { type: 'code', label: 'Code', icon: Code },
+  { type: 'image', label: 'Image', icon: Image },
+  { type: 'video', label: 'Video', icon: Video },
+] as const satisfies { type: PostContentType, label: string, icon: typeof Type }[]
+
+const emptyContentData: { [T in PostContentType]: PostContentData<T> } = {
+  text: '',
+  markdown: '',
+  heading: { text: '', level: 2 },
+  quote: { text: '' },
+  list: { ordered: false, items: [''] },
+  code: { code: '' },
+  image: { src: '', alt: '' },
+  video: '',
+}
+
+function isContentFilled(item: PostContentItem) {
+  switch (item.type) {
+    case 'text':
+    case 'markdown':
+    case 'video':
+      return !!item.data.trim()
+    case 'image':
+      return !!item.data.src
+    case 'heading':
+    case 'quote':
+      return !!item.data.text.trim()
+    case 'code':
+      return !!item.data.code.trim()
+    case 'list':
+      return item.data.items.some(listItem => !!listItem.trim())
+  }
+}
+
+// Removes the empty lines of the lists, which are kept while editing
+function cleanContentItem(item: PostContentItem): PostContentItem {
+  if (item.type === 'list') {
+    return { ...item, data: { ...item.data, items: item.data.items.filter(listItem => !!listItem.trim()) } }
+  }
+  return item
 }
 
 interface PostFormData {
   title: string
   content: PostContentItem[]
+  tags: string[]
+  commentModeration: CommentModerationSchema
 }
 
+const commentModerationOptions: Array<{ value: CommentModerationSchema, label: string }> = [
+  { value: 'open', label: 'Open: comments are published right away' },
+  { value: 'moderated', label: 'Moderated: I approve comments before they are published' },
+  { value: 'closed', label: 'Closed: nobody can comment' },
+]
+
 interface UserPostFormProps {
   onSubmit: (data: PostFormData) => Promise<void>
   initialData?: PostFormData
   isSubmitting?: boolean
+  // Viewers of a post can read its drafts but not edit them
+  readOnly?: boolean
 }
 
 export default function UserPostForm({
   onSubmit,
   initialData,
   isSubmitting = false,
+  readOnly = false,
 }: UserPostFormProps) {
-  const [activeContentType, setActiveContentType] = useState<'text' | 'image' | 'video'>('text')
+  const [activeContentType, setActiveContentType] = useState<PostContentType>('text')
 
   const {
     register,
@@ -38,6 +109,8 @@ export default function UserPostForm({
     defaultValues: initialData || {
       title: '',
       content: [{ type: 'text', data: '' }],
+      tags: [],
+      commentModeration: 'open',
     },
   })
 
@@ -48,7 +121,7 @@ export default function UserPostForm({
 
   const handleFormSubmit = async (data: PostFormData) => {
     try {
-      await onSubmit(data)
+      await onSubmit({ ...data, content: data.content.map(cleanContentItem) })
       // Optionally reset the form after successful submission
       // reset();
     }
@@ -58,274 +131,405 @@ export default function UserPostForm({
   }
 
   const addContentItem = () => {
-    append({ type: activeContentType, data: '' })
+    append({ type: activeContentType, data: emptyContentData[activeContentType] } as PostContentItem)
   }
 
   return (
     <div className="space-y-8 max-w-3xl">
-      <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
-        {/* Title Input */}
-        <div className="space-y-2">
-          <label htmlFor="title" className="block text-sm font-medium">
-            Title
-          </label>
-          <Input
-            id="title"
-            placeholder="Enter a captivating title..."
-            className="w-full"
-            {...register('title', {
-              required: 'Title is required',
-              minLength: {
-                value: 3,
-                message: 'Title must be at least 3 characters',
-              },
-            })}
-          />
-          {errors.title && (
-            <p className="text-sm text-destructive mt-1">{errors.title.message}</p>
-          )}
-        </div>
+      <form onSubmit={handleSubmit(handleFormSubmit)}>
+        <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+          {/* Title Input */}
+          <div className="space-y-2">
+            <label htmlFor="title" className="block text-sm font-medium">
+              Title
+            </label>
+            <Input
+              id="title"
+              placeholder="Enter a captivating title..."
+              className="w-full"
+              {...register('title', {
+                required: 'Title is required',
+                minLength: {
+                  value: 3,
+                  message: 'Title must be at least 3 characters',
+                },
+              })}
+            />
+            {errors.title && (
+              <p className="text-sm text-destructive mt-1">{errors.title.message}</p>
+            )}
+          </div>
 
-        {/* Content Items */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <label className="block text-sm font-medium">Content</label>
-            <div className="flex items-center space-x-2">
-              <div className="bg-muted rounded-md p-1 flex">
-                <button
-                  type="button"
-                  onClick={() => setActiveContentType('text')}
-                  className={cn(
-                    'p-1.5 rounded-md flex items-center justify-center',
-                    activeContentType === 'text' ? 'bg-background shadow-sm' : 'hover:bg-background/50',
-                  )}
-                >
-                  <Type className="size-4" />
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setActiveContentType('image')}
-                  className={cn(
-                    'p-1.5 rounded-md flex items-center justify-center',
-                    activeContentType === 'image' ? 'bg-background shadow-sm' : 'hover:bg-background/50',
-                  )}
-                >
-                  <Image className="size-4" />
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setActiveContentType('video')}
-                  className={cn(
-                    'p-1.5 rounded-md flex items-center justify-center',
-                    activeContentType === 'video' ? 'bg-background shadow-sm' : 'hover:bg-background/50',
-                  )}
-                >
-                  <Video className="size-4" />
-                </button>
-              </div>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={addContentItem}
-                className="flex items-center gap-1"
-              >
-                <Plus className="size-3.5" />
-                Add
-                {' '}
-                {activeContentType}
-              </Button>
-            </div>
+          {/* Tags */}
+          <div className="space-y-2">
+            <label htmlFor="tags" className="block text-sm font-medium">
+              Tags
+            </label>
+            <Controller
+              control={control}
+              name="tags"
+              render={({ field }) => (
+                <TagsInput value={field.value ?? []} onChange={field.onChange} />
+              )}
+            />
           </div>
 
-          {fields.length === 0 && (
-            <div className="text-center py-8 border border-dashed rounded-md">
-              <p className="text-muted-foreground">
-                No content added yet. Use the buttons above to add content.
-              </p>
-            </div>
-          )}
+          {/* Comments */}
+          <div className="space-y-2">
+            <label htmlFor="commentModeration" className="block text-sm font-medium">
+              Comments
+            </label>
+            <select
+              id="commentModeration"
+              className={cn(selectClassName, 'w-full')}
+              {...register('commentModeration')}
+            >
+              {commentModerationOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
 
+          {/* Content Items */}
           <div className="space-y-4">
-            {fields.map((field, index) => (
-              <div
-                key={field.id}
-                className="border rounded-md p-4 relative bg-card"
-              >
-                <div className="absolute right-2 top-2 flex items-center gap-1">
-                  {index > 0 && (
-                    <Button
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium">Content</label>
+              <div className="flex items-center space-x-2">
+                <div className="bg-muted rounded-md p-1 flex">
+                  {contentTypes.map(({ type, label, icon: Icon }) => (
+                    <button
+                      key={type}
                       type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => move(index, index - 1)}
-                      className="size-7"
+                      title={label}
+                      aria-label={label}
+                      aria-pressed={activeContentType === type}
+                      onClick={() => setActiveContentType(type)}
+                      className={cn(
+                        'p-1.5 rounded-md flex items-center justify-center',
+                        activeContentType === type ? 'bg-background shadow-sm' : 'hover:bg-background/50',
+                      )}
                     >
-                      <MoveUp className="size-3.5" />
-                    </Button>
-                  )}
-                  {index < fields.length - 1 && (
+                      <Icon className="size-4" />
+                    </button>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addContentItem}
+                  className="flex items-center gap-1"
+                >
+                  <Plus className="size-3.5" />
+                  Add
+                  {' '}
+                  {activeContentType}
+                </Button>
+              </div>
+            </div>
+
+            {fields.length === 0 && (
+              <div className="text-center py-8 border border-dashed rounded-md">
+                <p className="text-muted-foreground">
+                  No content added yet. Use the buttons above to add content.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              {fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="border rounded-md p-4 relative bg-card"
+                >
+                  <div className="absolute right-2 top-2 flex items-center gap-1">
+                    {index > 0 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => move(index, index - 1)}
+                        className="size-7"
+                      >
+                        <MoveUp className="size-3.5" />
+                      </Button>
+                    )}
+                    {index < fields.length - 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => move(index, index + 1)}
+                        className="size-7"
+                      >
+                        <MoveDown className="size-3.5" />
+                      </Button>
+                    )}
                     <Button
                       type="button"
                       variant="ghost"
                       size="icon"
-                      onClick={() => move(index, index + 1)}
-                      className="size-7"
+                      onClick={() => remove(index)}
+                      className="size-7 text-destructive hover:text-destructive/90"
                     >
-                      <MoveDown className="size-3.5" />
+                      <Trash2 className="size-3.5" />
                     </Button>
-                  )}
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => remove(index)}
-                    className="size-7 text-destructive hover:text-destructive/90"
-                  >
-                    <Trash2 className="size-3.5" />
-                  </Button>
-                </div>
+                  </div>
 
-                <div className="mb-3 flex items-center gap-2">
-                  {field.type === 'text' && <Type className="size-4" />}
-                  {field.type === 'image' && <Image className="size-4" />}
-                  {field.type === 'video' && <Video className="size-4" />}
-                  <span className="text-sm font-medium capitalize">
-                    {field.type}
-                    {' '}
-                    Content
-                  </span>
-                </div>
+                  <div className="mb-3 flex items-center gap-2">
+                    <ContentTypeIcon type={field.type} />
+                    <span className="text-sm font-medium capitalize">
+                      {field.type}
+                      {' '}
+                      Content
+                    </span>
+                  </div>
 
-                <Controller
-                  control={control}
-                  name={`content.${index}.type`}
-                  render={({ field }) => (
-                    <input type="hidden" {...field} />
-                  )}
-                />
-
-                <Controller
-                  control={control}
-                  name={`content.${index}.data`}
-                  rules={{ required: `${field.type} content is required` }}
-                  render={({ field: controllerField, fieldState }) => (
-                    <div>
-                      {field.type === 'text' && (
-                        <div className="space-y-1">
-                          <textarea
-                            {...controllerField}
-                            placeholder="Enter your text content here..."
-                            className={cn(
-                              'border-input placeholder:text-muted-foreground selection:bg-primary selection:text-primary-foreground flex w-full min-w-0 rounded-md border bg-transparent px-3 py-2 text-base shadow-xs transition-[color,box-shadow] outline-none disabled:pointer-events-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm min-h-[120px] resize-y',
-                              'focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]',
-                              'aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive',
-                              fieldState.error && 'border-destructive',
+                  <Controller
+                    control={control}
+                    name={`content.${index}.type`}
+                    render={({ field }) => (
+                      <input type="hidden" {...field} />
+                    )}
+                  />
+
+                  <Controller
+                    control={control}
+                    name={`content.${index}.data`}
+                    rules={{
+                      validate: value => isContentFilled({ type: field.type, data: value } as PostContentItem) || `${field.type} content is required`,
+                    }}
+                    render={({ field: controllerField, fieldState }) => (
+                      <div>
+                        {field.type === 'text' && (
+                          <div className="space-y-1">
+                            <textarea
+                              {...controllerField}
+                              value={controllerField.value as string}
+                              placeholder="Enter your text content here..."
+                              className={cn(textareaClassName, fieldState.error && 'border-destructive')}
+                            />
+                            {fieldState.error && (
+                              <p className="text-sm text-destructive">
+                                {fieldState.error.message}
+                              </p>
                             )}
+                          </div>
+                        )}
+
+                        {field.type === 'markdown' && (
+                          <MarkdownBlockInput
+                            value={controllerField.value as PostContentData<'markdown'>}
+                            onChange={controllerField.onChange}
+                            invalid={!!fieldState.error}
                           />
-                          {fieldState.error && (
-                            <p className="text-sm text-destructive">
-                              {fieldState.error.message}
-                            </p>
-                          )}
-                        </div>
-                      )}
+                        )}
 
-                      {field.type === 'image' && (
-                        <div className="space-y-1">
-                          <Input
-                            {...controllerField}
-                            placeholder="Enter image URL or upload..."
-                            className={cn(
-                              fieldState.error && 'border-destructive',
-                            )}
+                        {field.type === 'heading' && (
+                          <HeadingBlockInput
+                            value={controllerField.value as PostContentData<'heading'>}
+                            onChange={controllerField.onChange}
+                            invalid={!!fieldState.error}
                           />
-                          {fieldState.error && (
-                            <p className="text-sm text-destructive">
-                              {fieldState.error.message}
-                            </p>
-                          )}
-                          {controllerField.value && (
-                            <div className="mt-2 relative rounded-md overflow-hidden border">
-                              <img
-                                src={controllerField.value}
-                                alt="Preview"
-                                className="max-h-[200px] w-full object-cover"
-                                onError={(e) => {
-                                  e.currentTarget.src = 'https://placehold.co/600x400?text=Invalid+Image+URL'
-                                }}
-                              />
-                              <Button
-                                type="button"
-                                variant="destructive"
-                                size="icon"
-                                className="absolute top-2 right-2 size-7 opacity-80 hover:opacity-100"
-                                onClick={() => controllerField.onChange('')}
-                              >
-                                <X className="size-3.5" />
-                              </Button>
-                            </div>
-                          )}
-                        </div>
-                      )}
+                        )}
 
-                      {field.type === 'video' && (
-                        <div className="space-y-1">
-                          <Input
-                            {...controllerField}
-                            placeholder="Enter video URL (YouTube, Vimeo, etc.)"
-                            className={cn(
-                              fieldState.error && 'border-destructive',
-                            )}
+                        {field.type === 'quote' && (
+                          <QuoteBlockInput
+                            value={controllerField.value as PostContentData<'quote'>}
+                            onChange={controllerField.onChange}
+                            invalid={!!fieldState.error}
+                          />
+                        )}
+
+                        {field.type === 'code' && (
+                          <CodeBlockInput
+                            value={controllerField.value as PostContentData<'code'>}
+                            onChange={controllerField.onChange}
+                            invalid={!!fieldState.error}
                           />
-                          {fieldState.error && (
-                            <p className="text-sm text-destructive">
-                              {fieldState.error.message}
-                            </p>
-                          )}
-                          {controllerField.value && (
-                            <div className="mt-2 p-2 bg-muted/50 rounded-md">
-                              <p className="text-sm">
-                                Video URL:
-                                {controllerField.value}
+                        )}
+
+                        {field.type === 'list' && (
+                          <ListBlockInput
+                            value={controllerField.value as PostContentData<'list'>}
+                            onChange={controllerField.onChange}
+                            invalid={!!fieldState.error}
+                          />
+                        )}
+
+                        {field.type !== 'text' && field.type !== 'image' && field.type !== 'video' && fieldState.error && (
+                          <p className="text-sm text-destructive mt-1">
+                            {fieldState.error.message}
+                          </p>
+                        )}
+
+                        {field.type === 'image' && (
+                          <div className="space-y-1">
+                            <ImageContentInput
+                              value={controllerField.value as PostImageData}
+                              onChange={controllerField.onChange}
+                              invalid={!!fieldState.error}
+                            />
+                            {fieldState.error && (
+                              <p className="text-sm text-destructive">
+                                {fieldState.error.message}
                               </p>
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  )}
-                />
-              </div>
-            ))}
+                            )}
+                          </div>
+                        )}
+
+                        {field.type === 'video' && (
+                          <div className="space-y-1">
+                            <FileUploadInput
+                              kind="video"
+                              value={controllerField.value as string}
+                              onUpload={file => controllerField.onChange(file.url)}
+                              onClear={() => controllerField.onChange('')}
+                              invalid={!!fieldState.error}
+                            />
+                            {fieldState.error && (
+                              <p className="text-sm text-destructive">
+                                {fieldState.error.message}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  />
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
 
-        {/* Submit Button */}
-        <div className="pt-4">
-          <Button
-            type="submit"
-            className="w-full"
-            disabled={isSubmitting}
-            id="button"
-          >
-            {isSubmitting
-              ? (
-                  <span className="flex items-center gap-2">
-                    <Loader2 className="size-4 animate-spin" />
-                    Saving post...
-                  </span>
-                )
-              : (
-                  'Save Post'
-                )}
-          </Button>
-        </div>
+          {/* Submit Button */}
+          {!readOnly && (
+            <div className="pt-4">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSubmitting}
+                id="button"
+              >
+                {isSubmitting
+                  ? (
+                      <span className="flex items-center gap-2">
+                        <Loader2 className="size-4 animate-spin" />
+                        Saving post...
+                      </span>
+                    )
+                  : (
+                      'Save Post'
+                    )}
+              </Button>
+            </div>
+          )}
+        </fieldset>
       </form>
     </div>
   )
 }
 
+function ContentTypeIcon({ type }: { type: PostContentType }) {
+  const Icon = contentTypes.find(contentType => contentType.type === type)?.icon ?? Type
+  return <Icon className="size-4" />
+}
+
+function ImageContentInput({ value, onChange, invalid }: {
+  value: PostImageData
+  onChange: (image: PostImageData) => void
+  invalid?: boolean
+}) {
+  const handleUpload = (file: FileSchema) => {
+    onChange({
+      src: file.url,
+      // Keeps the alternative text when replacing an image
+      alt: value.alt,
+      width: file.width ?? undefined,
+      height: file.height ?? undefined,
+      placeholder: file.placeholder ?? undefined,
+      variants: file.variants.map(variant => ({
+        src: variant.url,
+        width: variant.width,
+        height: variant.height,
+      })),
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <FileUploadInput
+        kind="image"
+        value={value.src}
+        onUpload={handleUpload}
+        onClear={() => onChange({ src: '', alt: value.alt })}
+        invalid={invalid}
+      />
+      <Input
+        placeholder="Describe the image for screen readers..."
+        aria-label="Alternative text"
+        value={value.alt}
+        onChange={e => onChange({ ...value, alt: e.target.value })}
+      />
+    </div>
+  )
+}
+
+const MAX_TAGS = 10
+
+function TagsInput({ value, onChange }: { value: string[], onChange: (tags: string[]) => void }) {
+  const [inputValue, setInputValue] = useState('')
+
+  const addTag = () => {
+    const tag = inputValue.trim()
+    const alreadyAdded = value.some(existingTag => existingTag.toLowerCase() === tag.toLowerCase())
+    if (tag && !alreadyAdded && value.length < MAX_TAGS) {
+      onChange([...value, tag])
+    }
+    setInputValue('')
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove ${tag}`}
+                onClick={() => onChange(value.filter(existingTag => existingTag !== tag))}
+                className="hover:text-destructive"
+              >
+                <X className="size-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id="tags"
+        placeholder={value.length < MAX_TAGS ? 'Add a tag and press Enter...' : `Up to ${MAX_TAGS} tags`}
+        value={inputValue}
+        maxLength={32}
+        disabled={value.length >= MAX_TAGS}
+        onChange={e => setInputValue(e.target.value.replace(',', ''))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault()
+            addTag()
+          }
+          else if (e.key === 'Backspace' && !inputValue && value.length) {
+            onChange(value.slice(0, -1))
+          }
+        }}
+        onBlur={addTag}
+      />
+    </div>
+  )
+}
+
 export function UserPostFormSkeleton() {
   return (
     <div className="space-y-8 max-w-3xl">
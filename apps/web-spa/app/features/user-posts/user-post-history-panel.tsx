@@ -0,0 +1,199 @@
+import type { PostContentDiffSchema, PostContentSchema, PostVersionSchema } from '@lonestone/openapi-generator'
+import { postControllerDiffPostVersions, postControllerRestorePostVersion } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@lonestone/ui/components/primitives/card'
+import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import { cn } from '@lonestone/ui/lib/utils'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { History, RotateCcw, X } from 'lucide-react'
+import { useState } from 'react'
+import { queryClient } from '@/lib/query-client'
+
+interface UserPostHistoryPanelProps {
+  postId: string
+  versions: PostVersionSchema[]
+  // Viewers of a post can compare its versions but not restore them
+  canRestore?: boolean
+  onClose: () => void
+}
+
+const diffStatusStyles: Record<PostContentDiffSchema['status'], string> = {
+  added: 'border-green-500/50 bg-green-500/10',
+  removed: 'border-red-500/50 bg-red-500/10',
+  modified: 'border-amber-500/50 bg-amber-500/10',
+  unchanged: 'border-border',
+}
+
+export function UserPostHistoryPanel({ postId, versions, canRestore = true, onClose }: UserPostHistoryPanelProps) {
+  const [selectedVersionId, setSelectedVersionId] = useState<string>()
+
+  const latestVersion = versions[versions.length - 1]
+  // The selected version is compared to the latest one
+  const isComparing = !!selectedVersionId && selectedVersionId !== latestVersion?.id
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['userPostVersionDiff', postId, selectedVersionId, latestVersion?.id],
+    enabled: isComparing,
+    queryFn: async () => {
+      const response = await postControllerDiffPostVersions({
+        path: { id: postId },
+        query: { from: selectedVersionId as string, to: latestVersion.id },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { mutate: restoreVersion, isPending: isRestoring } = useMutation({
+    mutationFn: (versionId: string) =>
+      postControllerRestorePostVersion({
+        path: { id: postId, versionId },
+      }),
+    onSuccess: () => {
+      toast.success('Version restored as a new draft')
+      setSelectedVersionId(undefined)
+      queryClient.invalidateQueries({ queryKey: ['userPost', postId] })
+    },
+  })
+
+  return (
+    <Card className="gap-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <History className="size-4" />
+          History
+        </CardTitle>
+        <Button type="button" variant="ghost" size="icon" onClick={onClose} aria-label="Close history">
+          <X className="size-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="relative border-l border-border ml-2 space-y-3">
+          {[...versions].reverse().map(version => (
+            <li key={version.id} className="ml-4">
+              <span
+                className={cn(
+                  'absolute -left-1.5 mt-1.5 size-3 rounded-full border border-background',
+                  version.id === selectedVersionId ? 'bg-primary' : 'bg-muted-foreground/50',
+                )}
+              />
+              <button
+                type="button"
+                className="text-left w-full cursor-pointer"
+                onClick={() => setSelectedVersionId(version.id)}
+              >
+                <p className="text-sm font-medium">
+                  {version.title}
+                  {version.id === latestVersion?.id && (
+                    <Badge variant="secondary" className="ml-2">Current</Badge>
+                  )}
+                </p>
+                <time className="text-xs text-muted-foreground">
+                  {new Date(version.createdAt).toLocaleString()}
+                </time>
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {isComparing && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Changes since this version</p>
+              {canRestore && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={isRestoring}
+                  onClick={() => restoreVersion(selectedVersionId)}
+                >
+                  <RotateCcw className="size-4" />
+                  Restore
+                </Button>
+              )}
+            </div>
+            {isDiffLoading || !diff
+              ? <Skeleton className="h-24 w-full" />
+              : (
+                  <div className="space-y-2">
+                    {diff.titleChanged && (
+                      <div className={cn('rounded-md border p-2 text-sm', diffStatusStyles.modified)}>
+                        <p className="line-through text-muted-foreground">{diff.from.title}</p>
+                        <p>{diff.to.title}</p>
+                      </div>
+                    )}
+                    {diff.blocks.map((block, index) => (
+                      // eslint-disable-next-line react/no-array-index-key
+                      <div key={index} className={cn('rounded-md border p-2 text-sm', diffStatusStyles[block.status])}>
+                        {block.status === 'modified' && block.before && (
+                          <div className="line-through text-muted-foreground">
+                            <DiffBlockContent block={block.before} />
+                          </div>
+                        )}
+                        {block.status === 'removed' && block.before
+                          ? (
+                              <div className="line-through">
+                                <DiffBlockContent block={block.before} />
+                              </div>
+                            )
+                          : block.after && <DiffBlockContent block={block.after} />}
+                      </div>
+                    ))}
+                    {/* The unchanged blocks are part of the diff, so that it reads as the whole post */}
+                    {!diff.titleChanged && diff.blocks.every(block => block.status === 'unchanged') && (
+                      <p className="text-sm text-muted-foreground">No changes</p>
+                    )}
+                  </div>
+                )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function DiffBlockContent({ block }: { block: PostContentSchema }) {
+  if (block.type === 'text' || block.type === 'markdown') {
+    return <p className="whitespace-pre-wrap">{block.data}</p>
+  }
+
+  if (block.type === 'code') {
+    return <pre className="whitespace-pre-wrap font-mono text-xs">{block.data.code}</pre>
+  }
+
+  if (block.type === 'image') {
+    return (
+      <div className="flex items-center gap-2">
+        <img src={block.data.src} alt={block.data.alt} className="size-10 rounded object-cover" />
+        <p className="truncate">{block.data.alt || block.data.src}</p>
+      </div>
+    )
+  }
+
+  return (
+    <p className="truncate">
+      <span className="font-medium capitalize">{block.type}</span>
+      {': '}
+      {getBlockSummary(block)}
+    </p>
+  )
+}
+
+function getBlockSummary(block: Extract<PostContentSchema, { type: 'video' | 'heading' | 'quote' | 'list' }>) {
+  switch (block.type) {
+    case 'video':
+      return block.data
+    case 'heading':
+    case 'quote':
+      return block.data.text
+    case 'list':
+      return block.data.items.join(', ')
+  }
+}
@@ -1,6 +1,8 @@
 import { postControllerGetUserPosts } from '@lonestone/openapi-generator/client/sdk.gen'
 import { Button } from '@lonestone/ui/components/primitives/button'
 import { Input } from '@lonestone/ui/components/primitives/input'
+import { Label } from '@lonestone/ui/components/primitives/label'
+import { Switch } from '@lonestone/ui/components/primitives/switch'
 import { useQuery } from '@tanstack/react-query'
 import {
   ChevronLeft,
@@ -11,6 +13,7 @@ import {
 import { useMemo, useState } from 'react'
 import { Link, useSearchParams } from 'react-router'
 import { UserPostCard } from '@/features/user-posts/user-post-card'
+import { authClient } from '@/lib/auth-client'
 
 const PAGE_SIZE = 12
 
@@ -21,6 +24,10 @@ export default function PostsListPage() {
   )
 
   const [pageValue, setPageValue] = useState(1)
+  const { data: sessionData } = authClient.useSession()
+  const isAdmin = sessionData?.user.role === 'admin'
+  // Admins can also browse and edit the posts of every user
+  const showAllPosts = isAdmin && searchParams.get('scope') === 'all'
 
   const handleSearch = (value: string) => {
     setSearchValue(value)
@@ -35,6 +42,19 @@ export default function PostsListPage() {
     setSearchParams(newParams)
   }
 
+  const handleShowAllPostsChange = (checked: boolean) => {
+    setPageValue(1)
+    const newParams = new URLSearchParams(searchParams)
+    if (checked) {
+      newParams.set('scope', 'all')
+    }
+    else {
+      newParams.delete('scope')
+    }
+    newParams.set('page', '1')
+    setSearchParams(newParams)
+  }
+
   const handlePageChange = (newPage: number) => {
     setPageValue(newPage)
     const newParams = new URLSearchParams(searchParams)
@@ -43,13 +63,14 @@ export default function PostsListPage() {
   }
 
   const { data: posts } = useQuery({
-    queryKey: ['posts', pageValue, searchValue],
+    queryKey: ['posts', pageValue, searchValue, showAllPosts],
     queryFn: async () => {
       const response = await postControllerGetUserPosts({
         query: {
           offset: (pageValue - 1) * PAGE_SIZE,
           pageSize: PAGE_SIZE,
           filter: searchValue ? [{ property: 'title', rule: 'like', value: searchValue }] : [],
+          scope: showAllPosts ? 'all' : undefined,
         },
       })
 
@@ -85,13 +106,23 @@ export default function PostsListPage() {
             className="pl-9"
           />
         </div>
+        {isAdmin && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="show-all-posts"
+              checked={showAllPosts}
+              onCheckedChange={handleShowAllPostsChange}
+            />
+            <Label htmlFor="show-all-posts">All posts</Label>
+          </div>
+        )}
       </div>
       {posts && posts.data.length > 0
         ? (
             <>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {posts.data.map(post => (
-                  <UserPostCard key={post.id} post={post} />
+                  <UserPostCard key={post.id} post={post} author={showAllPosts ? post.author.name : undefined} />
                 ))}
               </div>
               <div className="flex items-center justify-between">
@@ -0,0 +1,189 @@
+import type { UserRoleSchema } from '@lonestone/openapi-generator'
+import {
+  adminUsersControllerGetUsers,
+  adminUsersControllerUpdateUserRole,
+} from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { Input } from '@lonestone/ui/components/primitives/input'
+import { toast } from '@lonestone/ui/components/primitives/sonner'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@lonestone/ui/components/primitives/table'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { ChevronLeft, ChevronRight, SearchIcon } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { selectClassName } from '@/features/user-posts/user-post-block-inputs'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+
+const PAGE_SIZE = 20
+
+const roleOptions: Array<{ role: UserRoleSchema, label: string }> = [
+  { role: 'user', label: 'User' },
+  { role: 'editor', label: 'Editor' },
+  { role: 'admin', label: 'Admin' },
+]
+
+export default function AdminUsersPage() {
+  const { data: sessionData } = authClient.useSession()
+  const isAdmin = sessionData?.user.role === 'admin'
+  const [searchValue, setSearchValue] = useState('')
+  const [pageValue, setPageValue] = useState(1)
+
+  const { data: users } = useQuery({
+    queryKey: ['adminUsers', pageValue, searchValue],
+    enabled: isAdmin,
+    queryFn: async () => {
+      const response = await adminUsersControllerGetUsers({
+        query: {
+          offset: (pageValue - 1) * PAGE_SIZE,
+          pageSize: PAGE_SIZE,
+          q: searchValue || undefined,
+        },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+  })
+
+  const { mutate: updateRole, isPending } = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string, role: UserRoleSchema }) => {
+      const response = await adminUsersControllerUpdateUserRole({
+        path: { userId },
+        body: { role },
+      })
+
+      if (response.error) {
+        throw response.error
+      }
+
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('The role has been updated')
+      queryClient.invalidateQueries({ queryKey: ['adminUsers'] })
+    },
+    onError: () => {
+      toast.error('Could not change the role of this user')
+    },
+  })
+
+  const handleSearch = (value: string) => {
+    setSearchValue(value)
+    setPageValue(1)
+  }
+
+  const totalPages = useMemo(() => {
+    if (!users?.meta)
+      return 0
+    return Math.ceil(users.meta.itemCount / PAGE_SIZE)
+  }, [users])
+
+  if (sessionData && !isAdmin) {
+    return <div className="text-muted-foreground">Only the admins can manage the users</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-xl font-bold">Users</h2>
+        <p className="text-muted-foreground">
+          Editors moderate the comments of every post, admins also manage every post and the users
+        </p>
+      </div>
+
+      <div className="relative">
+        <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground z-20" />
+        <Input
+          placeholder="Search by name or email..."
+          value={searchValue}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {users && users.data.length > 0
+        ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Joined</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.data.map(user => (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">{user.name}</TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>
+                        <select
+                          aria-label={`Role of ${user.name}`}
+                          className={selectClassName}
+                          value={user.role}
+                          // Admins cannot demote themselves, so that there is always an admin left
+                          disabled={isPending || user.id === sessionData?.user.id}
+                          onChange={e => updateRole({ userId: user.id, role: e.target.value as UserRoleSchema })}
+                        >
+                          {roleOptions.map(option => (
+                            <option key={option.role} value={option.role}>{option.label}</option>
+                          ))}
+                        </select>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(user.createdAt).toLocaleDateString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex items-center justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageValue(pageValue - 1)}
+                  disabled={pageValue <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <div className="text-sm text-muted-foreground">
+                  Page
+                  {' '}
+                  {pageValue}
+                  {' '}
+                  of
+                  {' '}
+                  {totalPages}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageValue(pageValue + 1)}
+                  disabled={pageValue >= totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </>
+          )
+        : (
+            <div className="text-muted-foreground">No users found</div>
+          )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 // eslint-disable-next-line ts/ban-ts-comment -- ignore
 // @ts-ignore
 import type { BetterAuthType } from '../../../api/src/config/better-auth.config'
-import { customSessionClient, inferAdditionalFields } from 'better-auth/client/plugins'
+import { customSessionClient, emailOTPClient, genericOAuthClient, inferAdditionalFields, magicLinkClient, twoFactorClient } from 'better-auth/client/plugins'
 import { createAuthClient } from 'better-auth/react' // make sure to import from better-auth/react
 
 const authClient = createAuthClient({
@@ -11,6 +11,13 @@ const authClient = createAuthClient({
     customSessionClient<BetterAuthType>(),
     // If additional fields have been added to BetterAuth, we infer them
     inferAdditionalFields<BetterAuthType>(),
+    // Signs in with the generic OpenID Connect provider
+    genericOAuthClient(),
+    // The login page redirects to the two-factor challenge itself
+    twoFactorClient(),
+    // Passwordless sign in, with a link or a code sent by email
+    magicLinkClient(),
+    emailOTPClient(),
   ],
 })
 
@@ -7,12 +7,27 @@ export default [
     index('features/user-posts/user-posts-page.tsx'),
     route('posts/new', 'features/user-posts/user-post-create-page.tsx'),
     route('posts/:userPostId/edit', 'features/user-posts/user-post-edit-page.tsx'),
+    route('comments', 'features/comments-moderation/comments-moderation-page.tsx'),
+    route('settings', 'features/settings/settings-layout.tsx', [
+      index('features/settings/settings-profile-page.tsx'),
+      route('account', 'features/settings/settings-account-page.tsx'),
+      route('sessions', 'features/settings/settings-sessions-page.tsx'),
+      route('notifications', 'features/settings/settings-notifications-page.tsx'),
+      route('api-tokens', 'features/settings/settings-api-tokens-page.tsx'),
+    ]),
+    route('users', 'features/users/admin-users-page.tsx'),
+    route('audit-log', 'features/audit-log/admin-audit-log-page.tsx'),
+    route('invitations', 'features/invitations/invitations-page.tsx'),
   ]),
   layout('features/auth/components/auth-layout.tsx', [
     route('login', 'features/auth/pages/auth-login-page.tsx'),
+    route('login/magic', 'features/auth/pages/auth-magic-link-page.tsx'),
+    route('login/code', 'features/auth/pages/auth-email-code-page.tsx'),
+    route('two-factor', 'features/auth/pages/auth-two-factor-page.tsx'),
     route('register', 'features/auth/pages/auth-register-page.tsx'),
     route('verify-email', 'features/auth/pages/auth-verify-email-page.tsx'),
     route('forgot-password', 'features/auth/pages/auth-forgot-password-page.tsx'),
     route('reset-password', 'features/auth/pages/auth-reset-password-page.tsx'),
+    route('unsubscribe', 'features/notifications/unsubscribe-page.tsx'),
   ]),
 ] satisfies RouteConfig
@@ -0,0 +1,23 @@
+import { Fragment } from 'react'
+import { Link } from 'react-router'
+
+interface AuthorLinksProps {
+  authors: Array<{ name: string, handle: string }>
+  className?: string
+}
+
+// The authors of a post, each one linking to their profile
+export default function AuthorLinks({ authors, className }: AuthorLinksProps) {
+  return (
+    <span>
+      {authors.map((author, index) => (
+        <Fragment key={author.handle}>
+          {index > 0 && ', '}
+          <Link to={`/authors/${author.handle}`} className={`hover:underline ${className ?? ''}`}>
+            {author.name}
+          </Link>
+        </Fragment>
+      ))}
+    </span>
+  )
+}
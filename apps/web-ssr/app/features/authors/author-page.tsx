@@ -0,0 +1,147 @@
+import type { Route } from './+types/author-page'
+import { publicAuthorsControllerGetAuthor } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { ArrowLeft, ChevronLeft, ChevronRight, ExternalLink, User } from 'lucide-react'
+import { useMemo } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import PostCard from '../posts/post-card'
+
+const PAGE_SIZE = 10
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const url = new URL(request.url)
+  const page = Number.parseInt(url.searchParams.get('page') || '1')
+
+  const author = await publicAuthorsControllerGetAuthor({
+    path: { handle: params.handle },
+    query: {
+      offset: (page - 1) * PAGE_SIZE,
+      pageSize: PAGE_SIZE,
+    },
+  })
+
+  if (author.error) {
+    throw author.error
+  }
+
+  return {
+    author: author.data,
+    page,
+  }
+}
+
+export default function AuthorPage({ loaderData }: Route.ComponentProps) {
+  const { author, page } = loaderData
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const handlePageChange = (newPage: number) => {
+    const newParams = new URLSearchParams(searchParams)
+    newParams.set('page', newPage.toString())
+    setSearchParams(newParams)
+  }
+
+  const totalPages = useMemo(() => {
+    if (!author?.posts.meta.itemCount)
+      return 0
+    return Math.ceil(author.posts.meta.itemCount / PAGE_SIZE)
+  }, [author])
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Button variant="outline" asChild>
+        <Link to="/posts">
+          <ArrowLeft className="h-4 w-4" />
+          Back to posts
+        </Link>
+      </Button>
+
+      <div className="flex items-start gap-6">
+        {author?.image
+          ? <img src={author.image} alt={author.name} className="h-24 w-24 rounded-full object-cover" />
+          : (
+              <div className="flex h-24 w-24 shrink-0 items-center justify-center rounded-full bg-muted text-muted-foreground">
+                <User className="h-10 w-10" />
+              </div>
+            )}
+        <div className="space-y-2">
+          <h2 className="text-3xl font-bold">{author?.name}</h2>
+          <p className="text-muted-foreground">
+            @
+            {author?.handle}
+            {' · '}
+            {author?.posts.meta.itemCount}
+            {' '}
+            {author?.posts.meta.itemCount === 1 ? 'post' : 'posts'}
+          </p>
+          {author?.bio && <p className="whitespace-pre-line">{author.bio}</p>}
+          {!!author?.links.length && (
+            <ul className="flex flex-wrap gap-4 text-sm">
+              {author.links.map(link => (
+                <li key={link.url}>
+                  <a href={link.url} target="_blank" rel="noopener noreferrer nofollow" className="flex items-center gap-1 hover:underline">
+                    <ExternalLink className="h-4 w-4" />
+                    {link.label}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4">
+        {author?.posts.data.map(post => (
+          <PostCard key={post.slug} post={post} />
+        ))}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handlePageChange(page - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <div className="text-sm text-muted-foreground">
+            Page
+            {' '}
+            {page}
+            {' '}
+            of
+            {' '}
+            {totalPages}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handlePageChange(page + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    {
+      title: `${data.author?.name} (@${data.author?.handle})`,
+    },
+    {
+      property: 'og:title',
+      content: data.author?.name,
+    },
+    {
+      name: 'description',
+      content: data.author?.bio || `Posts by ${data.author?.name}`,
+    },
+  ]
+}
@@ -2,6 +2,7 @@ import type {
   CommentSchema,
   CommentsControllerGetCommentRepliesResponse,
   CreateCommentSchema,
+  ReactionKindSchema,
 } from '@lonestone/openapi-generator'
 import { commentsControllerGetCommentReplies } from '@lonestone/openapi-generator/client/sdk.gen'
 import { Button } from '@lonestone/ui/components/primitives/button'
@@ -12,18 +13,21 @@ import {
   CardHeader,
 } from '@lonestone/ui/components/primitives/card'
 import { Separator } from '@lonestone/ui/components/primitives/separator'
+import { Textarea } from '@lonestone/ui/components/primitives/textarea'
 import { cn } from '@lonestone/ui/lib/utils'
 import { useQuery } from '@tanstack/react-query'
 import {
   ChevronDown,
   ChevronUp,
   Loader2,
+  Pencil,
   Reply,
   Trash2,
   User,
 } from 'lucide-react'
 import { useMemo, useState } from 'react'
 import { CommentForm } from '@/features/comments/comment-form'
+import { ReactionBar } from '@/features/reactions/reaction-bar'
 import { queryClient } from '@/lib/query-client'
 
 function Replies({
@@ -33,7 +37,10 @@ function Replies({
   isAddingComment,
   depth,
   onDelete,
+  onEdit,
   onReplySubmit,
+  userReactions,
+  onReact,
   onLoadMoreReplies,
 }: {
   commentId: string
@@ -42,7 +49,10 @@ function Replies({
   isAddingComment: boolean
   depth: number
   onDelete: (commentId: string) => void
-  onReplySubmit: (data: CreateCommentSchema) => Promise<void>
+  onEdit: (commentId: string, content: string) => Promise<void>
+  onReplySubmit?: (data: CreateCommentSchema) => Promise<void>
+  userReactions?: Record<string, ReactionKindSchema[]>
+  onReact?: (commentId: string, kind: ReactionKindSchema) => void
   onLoadMoreReplies: (commentId: string) => void
 }) {
   const { data: replies, isLoading: isLoadingReplies } = useQuery({
@@ -91,7 +101,10 @@ function Replies({
           isAddingComment={isAddingComment}
           depth={depth + 1}
           onDelete={onDelete}
+          onEdit={onEdit}
           onReplySubmit={onReplySubmit}
+          userReactions={userReactions}
+          onReact={onReact}
         />
       ))}
 
@@ -120,7 +133,13 @@ interface CommentItemProps {
   isAddingComment: boolean
   depth?: number
   onDelete: (commentId: string) => void
-  onReplySubmit: (data: CreateCommentSchema) => Promise<void>
+  onEdit: (commentId: string, content: string) => Promise<void>
+  // Replies are disabled when not set, e.g. when comments are closed
+  onReplySubmit?: (data: CreateCommentSchema) => Promise<void>
+  // Reactions of the logged in user, by comment id
+  userReactions?: Record<string, ReactionKindSchema[]>
+  // Reactions are read only when not set
+  onReact?: (commentId: string, kind: ReactionKindSchema) => void
 }
 
 export function CommentItem({
@@ -130,14 +149,21 @@ export function CommentItem({
   isAddingComment,
   depth = 0,
   onDelete,
+  onEdit,
   onReplySubmit,
+  userReactions,
+  onReact,
 }: CommentItemProps) {
   const [isReplying, setIsReplying] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editedContent, setEditedContent] = useState(comment.content)
   const [showReplies, setShowReplies] = useState(false)
   const replyCount = comment.replyCount ?? 0
   const isAuthor = currentUserId && comment.user?.id === currentUserId
   const isPostAuthor = currentUserId === postAuthorId
-  const canDelete = isAuthor || isPostAuthor
+  // Deleted comments stay in the thread to keep their replies, but can't be changed anymore
+  const canDelete = (isAuthor || isPostAuthor) && !comment.deleted
+  const canEdit = isAuthor && !comment.deleted && new Date(comment.editableUntil) > new Date()
   const formattedDate = new Date(comment.createdAt).toLocaleDateString(
     undefined,
     {
@@ -153,6 +179,11 @@ export function CommentItem({
   // Calculate indentation based on depth
   const isNested = depth > 0
 
+  const saveEdit = async () => {
+    await onEdit(comment.id, editedContent)
+    setIsEditing(false)
+  }
+
   const toggleReplies = () => {
     setShowReplies(prev => !prev)
   }
@@ -238,8 +269,8 @@ export function CommentItem({
                 />
               </div>
               <div>
-                <span className="font-semibold text-sm">
-                  {comment.user?.name || 'Anonymous'}
+                <span className={cn('font-semibold text-sm', comment.deleted && 'text-muted-foreground')}>
+                  {comment.deleted ? 'Deleted' : comment.user?.name || 'Anonymous'}
                 </span>
                 {isPostAuthor && comment.user?.id === postAuthorId && (
                   <span className="ml-2 text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded-full">
@@ -248,38 +279,90 @@ export function CommentItem({
                 )}
                 <div className="text-xs text-muted-foreground">
                   {formattedDate}
+                  {comment.editedAt && !comment.deleted && (
+                    <span title={new Date(comment.editedAt).toLocaleString()}>
+                      {' · edited'}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         </CardHeader>
         <CardContent className={cn('py-2', isNested && 'py-1')}>
-          <p
-            className={cn(
-              'whitespace-pre-line',
-              isNested ? 'text-xs' : 'text-sm',
-            )}
-          >
-            {comment.content}
-          </p>
+          {isEditing
+            ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editedContent}
+                    onChange={e => setEditedContent(e.target.value)}
+                    maxLength={1000}
+                    className={cn('resize-none', isNested ? 'min-h-[60px] text-xs' : 'min-h-[80px] text-sm')}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => {
+                        setEditedContent(comment.content)
+                        setIsEditing(false)
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={saveEdit}
+                      disabled={!editedContent.trim()}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              )
+            : (
+                <p
+                  className={cn(
+                    'whitespace-pre-line',
+                    isNested ? 'text-xs' : 'text-sm',
+                    comment.deleted && 'italic text-muted-foreground',
+                  )}
+                >
+                  {comment.deleted ? 'Comment removed' : comment.content}
+                </p>
+              )}
+          {!comment.deleted && (
+            <div className="mt-2">
+              <ReactionBar
+                size="sm"
+                counts={comment.reactions}
+                userReactions={userReactions?.[comment.id]}
+                onToggle={onReact && (kind => onReact(comment.id, kind))}
+              />
+            </div>
+          )}
         </CardContent>
         <CardFooter className={cn(isNested && 'pt-0 pb-2')}>
           <div className="flex gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsReplying(true)}
-              className={cn(
-                'text-xs h-7 px-2 transition-opacity',
-                isHovered || isReplying ? 'opacity-100' : 'opacity-70',
-                isNested && 'h-6 px-1.5',
-              )}
-            >
-              <Reply
-                className={cn('mr-1', isNested ? 'h-2.5 w-2.5' : 'h-3 w-3')}
-              />
-              Reply
-            </Button>
+            {onReplySubmit && !comment.deleted && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsReplying(true)}
+                className={cn(
+                  'text-xs h-7 px-2 transition-opacity',
+                  isHovered || isReplying ? 'opacity-100' : 'opacity-70',
+                  isNested && 'h-6 px-1.5',
+                )}
+              >
+                <Reply
+                  className={cn('mr-1', isNested ? 'h-2.5 w-2.5' : 'h-3 w-3')}
+                />
+                Reply
+              </Button>
+            )}
 
             {hasReplies && (
               <Button
@@ -313,26 +396,46 @@ export function CommentItem({
             )}
           </div>
 
-          {canDelete && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => onDelete(comment.id)}
-              className={cn(
-                'text-xs h-7 px-2 text-destructive transition-opacity',
-                isHovered ? 'opacity-100' : 'opacity-0',
-                isNested && 'h-6 px-1.5',
-              )}
-            >
-              <Trash2
-                className={cn('mr-1', isNested ? 'h-2.5 w-2.5' : 'h-3 w-3')}
-              />
-              Delete
-            </Button>
-          )}
+          <div className="flex gap-2">
+            {canEdit && !isEditing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                className={cn(
+                  'text-xs h-7 px-2 transition-opacity',
+                  isHovered ? 'opacity-100' : 'opacity-0',
+                  isNested && 'h-6 px-1.5',
+                )}
+              >
+                <Pencil
+                  className={cn('mr-1', isNested ? 'h-2.5 w-2.5' : 'h-3 w-3')}
+                />
+                Edit
+              </Button>
+            )}
+
+            {canDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(comment.id)}
+                className={cn(
+                  'text-xs h-7 px-2 text-destructive transition-opacity',
+                  isHovered ? 'opacity-100' : 'opacity-0',
+                  isNested && 'h-6 px-1.5',
+                )}
+              >
+                <Trash2
+                  className={cn('mr-1', isNested ? 'h-2.5 w-2.5' : 'h-3 w-3')}
+                />
+                Delete
+              </Button>
+            )}
+          </div>
         </CardFooter>
 
-        {isReplying && (
+        {isReplying && onReplySubmit && (
           <div className="px-4 pb-4 animate-in fade-in slide-in-from-top-1 duration-200">
             <Separator className="my-2" />
             <CommentForm
@@ -359,7 +462,10 @@ export function CommentItem({
           isAddingComment={isAddingComment}
           depth={depth}
           onDelete={onDelete}
+          onEdit={onEdit}
           onReplySubmit={onReplySubmit}
+          userReactions={userReactions}
+          onReact={onReact}
           onLoadMoreReplies={loadMoreReplies}
         />
       )}
@@ -1,7 +1,9 @@
 import type {
+  CommentModerationSchema,
   CreateCommentSchema,
+  ReactionKindSchema,
 } from '@lonestone/openapi-generator'
-import { commentsControllerCreateComment, commentsControllerDeleteComment, commentsControllerGetComments } from '@lonestone/openapi-generator/client/sdk.gen'
+import { commentsControllerCreateComment, commentsControllerDeleteComment, commentsControllerEditComment, commentsControllerGetComments, reactionsControllerToggleCommentReaction } from '@lonestone/openapi-generator/client/sdk.gen'
 import {
   Alert,
   AlertDescription,
@@ -12,24 +14,30 @@ import { Skeleton } from '@lonestone/ui/components/primitives/skeleton'
 import { useInView } from '@lonestone/ui/hooks/use-in-view'
 import { cn } from '@lonestone/ui/lib/utils'
 import { useInfiniteQuery, useMutation } from '@tanstack/react-query'
-import { Loader2, MessageSquare } from 'lucide-react'
-import { useMemo } from 'react'
+import { Clock, Loader2, Lock, MessageSquare } from 'lucide-react'
+import { useMemo, useState } from 'react'
 import { CommentItem } from '@/features/comments/comment-item'
+import { userReactionsQueryKey, useUserReactions } from '@/features/reactions/use-user-reactions'
 import { queryClient } from '@/lib/query-client'
 import { CommentForm } from './comment-form'
+import { useCommentsStream } from './use-comments-stream'
 
 interface CommentsListProps {
   postId: string
   postAuthorId?: string
   currentUserId?: string
+  commentModeration?: CommentModerationSchema
 }
 
 export function CommentsList({
   postId,
   postAuthorId,
   currentUserId,
+  commentModeration = 'open',
 }: CommentsListProps) {
   const { ref, inView } = useInView()
+  const [isAwaitingModeration, setIsAwaitingModeration] = useState(false)
+  const isClosed = commentModeration === 'closed'
 
   // Add comment mutation
   const { mutateAsync: addComment, isPending: isAddingComment } = useMutation({
@@ -42,6 +50,9 @@ export function CommentsList({
       })
     },
     onSuccess: (result) => {
+      // Comments of moderated posts are only listed once approved by the author
+      setIsAwaitingModeration(result.data?.status === 'pending')
+
       // Invalidate comments query to refetch
       queryClient.invalidateQueries({ queryKey: ['comments', postId] })
 
@@ -101,6 +112,9 @@ export function CommentsList({
     initialPageParam: 0,
   })
 
+  // Comments published, edited and removed by other readers show up without reloading
+  useCommentsStream(postId)
+
   // Delete comment mutation
   const deleteCommentMutation = useMutation({
     mutationFn: async (commentId: string) => {
@@ -112,13 +126,63 @@ export function CommentsList({
       })
     },
     onSuccess: () => {
+      // Deleted comments are kept in the thread, wherever they are
       queryClient.invalidateQueries({ queryKey: ['comments', postId] })
+      queryClient.invalidateQueries({ queryKey: ['replies'] })
     },
     onError: (error) => {
       console.error('Error deleting comment:', error)
     },
   })
 
+  // Edit comment mutation
+  const { mutateAsync: editComment } = useMutation({
+    mutationFn: async ({ commentId, content }: { commentId: string, content: string }) => {
+      return commentsControllerEditComment({
+        body: { content },
+        path: {
+          commentId,
+          postSlug: postId,
+        },
+      })
+    },
+    onSuccess: (result) => {
+      // Edited comments of moderated posts are only listed again once approved by the author
+      setIsAwaitingModeration(result.data?.status === 'pending')
+
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] })
+
+      if (result.data?.parentId) {
+        queryClient.invalidateQueries({
+          queryKey: ['replies', result.data.parentId],
+        })
+      }
+    },
+  })
+
+  // Reactions of the logged in user, to highlight them
+  const { data: userReactions } = useUserReactions(postId, !!currentUserId)
+  const userReactionsByCommentId = useMemo(() => {
+    return Object.fromEntries(userReactions?.comments.map(comment => [comment.commentId, comment.kinds]) ?? [])
+  }, [userReactions])
+
+  const { mutate: toggleCommentReaction } = useMutation({
+    mutationFn: async ({ commentId, kind }: { commentId: string, kind: ReactionKindSchema }) => {
+      return reactionsControllerToggleCommentReaction({
+        body: { kind },
+        path: {
+          commentId,
+          postSlug: postId,
+        },
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] })
+      queryClient.invalidateQueries({ queryKey: ['replies'] })
+      queryClient.invalidateQueries({ queryKey: userReactionsQueryKey(postId) })
+    },
+  })
+
   const allComments = useMemo(() => {
     return commentsPages?.pages.flatMap(page => page?.data || []) || []
   }, [commentsPages])
@@ -148,13 +212,29 @@ export function CommentsList({
         )}
       </div>
 
-      <CommentForm
-        initialData={{
-          content: '',
-        }}
-        onSubmit={onSubmit}
-        isPending={isAddingComment}
-      />
+      {isClosed
+        ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Lock className="h-4 w-4" />
+              <span>Comments are closed on this post.</span>
+            </div>
+          )
+        : (
+            <CommentForm
+              initialData={{
+                content: '',
+              }}
+              onSubmit={onSubmit}
+              isPending={isAddingComment}
+            />
+          )}
+
+      {isAwaitingModeration && (
+        <Alert className="mt-4">
+          <Clock className="h-4 w-4" />
+          <AlertDescription>Your comment has been sent and will be published once approved by the author.</AlertDescription>
+        </Alert>
+      )}
 
       <Separator className="my-6" />
 
@@ -177,9 +257,18 @@ export function CommentsList({
                     postAuthorId={postAuthorId}
                     isAddingComment={isAddingComment}
                     onDelete={commentId => deleteCommentMutation.mutate(commentId)}
-                    onReplySubmit={async (data) => {
-                      await onSubmit(data)
+                    onEdit={async (commentId, content) => {
+                      await editComment({ commentId, content })
                     }}
+                    userReactions={userReactionsByCommentId}
+                    onReact={currentUserId
+                      ? (commentId, kind) => toggleCommentReaction({ commentId, kind })
+                      : undefined}
+                    onReplySubmit={isClosed
+                      ? undefined
+                      : async (data) => {
+                        await onSubmit(data)
+                      }}
                   />
                 ))}
 
@@ -209,9 +298,11 @@ export function CommentsList({
                   <p className="text-center text-muted-foreground font-medium mb-1">
                     No comments yet
                   </p>
-                  <p className="text-center text-sm text-muted-foreground/70">
-                    Be the first to share your thoughts!
-                  </p>
+                  {!isClosed && (
+                    <p className="text-center text-sm text-muted-foreground/70">
+                      Be the first to share your thoughts!
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -0,0 +1,107 @@
+import type { CommentSchema, CommentsSchema } from '@lonestone/openapi-generator'
+import type { InfiniteData } from '@tanstack/react-query'
+import { commentsControllerStreamComments } from '@lonestone/openapi-generator/client/sdk.gen'
+import { useEffect } from 'react'
+import { queryClient } from '@/lib/query-client'
+
+function updateComments(
+  comments: CommentsSchema | undefined,
+  commentId: string,
+  update: (comment: CommentSchema) => CommentSchema,
+) {
+  if (!comments)
+    return comments
+
+  return {
+    ...comments,
+    data: comments.data.map(comment => comment.id === commentId ? update(comment) : comment),
+  }
+}
+
+// Applies an update to a comment wherever it is displayed, in the top level comments or in the replies
+function updateCachedComment(
+  postSlug: string,
+  commentId: string,
+  update: (comment: CommentSchema) => CommentSchema,
+) {
+  queryClient.setQueryData<InfiniteData<CommentsSchema>>(['comments', postSlug], data => data && {
+    ...data,
+    pages: data.pages.map(page => updateComments(page, commentId, update)!),
+  })
+  queryClient.setQueriesData<CommentsSchema>({ queryKey: ['replies'] }, data => updateComments(data, commentId, update))
+}
+
+function insertComment(postSlug: string, comment: CommentSchema) {
+  // Replies are loaded when they are shown, we only update the number of replies of their parent
+  if (comment.parentId) {
+    updateCachedComment(postSlug, comment.parentId, (parent) => {
+      if (parent.replyIds?.includes(comment.id))
+        return parent
+
+      return {
+        ...parent,
+        replyIds: [...(parent.replyIds ?? []), comment.id],
+        replyCount: (parent.replyCount ?? 0) + 1,
+      }
+    })
+    queryClient.invalidateQueries({ queryKey: ['replies', comment.parentId] })
+    return
+  }
+
+  // Comments are sorted from the newest, so new comments go at the top of the first page
+  queryClient.setQueryData<InfiniteData<CommentsSchema>>(['comments', postSlug], (data) => {
+    const isAlreadyListed = data?.pages.some(page => page.data.some(listed => listed.id === comment.id))
+    if (!data || !data.pages.length || isAlreadyListed)
+      return data
+
+    const [firstPage, ...otherPages] = data.pages
+    return {
+      ...data,
+      pages: [{ ...firstPage, data: [comment, ...firstPage.data] }, ...otherPages],
+    }
+  })
+}
+
+/**
+ * Keeps the comments of a post up to date with the ones published, edited and removed by other readers,
+ * as long as the component is mounted.
+ */
+export function useCommentsStream(postSlug: string) {
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const listen = async () => {
+      const { stream } = await commentsControllerStreamComments({
+        path: { postSlug },
+        signal: controller.signal,
+      })
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'created':
+            insertComment(postSlug, event.comment)
+            break
+          case 'edited':
+            updateCachedComment(postSlug, event.comment.id, () => event.comment)
+            break
+          case 'deleted':
+            updateCachedComment(postSlug, event.commentId, comment => ({
+              ...comment,
+              content: '',
+              authorName: null,
+              user: null,
+              deleted: true,
+            }))
+            break
+        }
+      }
+    }
+
+    listen().catch((error) => {
+      if (!controller.signal.aborted)
+        console.error('Error streaming comments:', error)
+    })
+
+    return () => controller.abort()
+  }, [postSlug])
+}
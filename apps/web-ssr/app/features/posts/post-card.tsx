@@ -6,10 +6,11 @@ import {
   CardHeader,
   CardTitle,
 } from '@lonestone/ui/components/primitives/card'
-import { ArrowUpRight, Calendar, MessageCircle, User } from 'lucide-react'
+import { ArrowUpRight, Calendar, MessageCircle, Tag, User } from 'lucide-react'
 
 import { useMemo } from 'react'
 import { Link } from 'react-router'
+import AuthorLinks from '../authors/author-links'
 
 interface PostCardProps {
   post: PublicPostsSchema['data'][number]
@@ -26,40 +27,60 @@ export default function PostCard({ post }: PostCardProps) {
   }, [post.contentPreview])
 
   return (
-    <Card className="group/card-post overflow-hidden transition-all hover:shadow-lg" asChild>
-      <Link to={`/posts/${post.slug}`} className="block p-6 hover:bg-muted/50">
-        <CardHeader className="flex flex-row justify-between">
-          <CardTitle>{post.title}</CardTitle>
-          <div className="flex items-center gap-2 group-hover/card-post:bg-primary group-hover/card-post:text-primary-foreground text-muted-foreground rounded-full p-1">
-            <ArrowUpRight className="h-5 w-5" />
+    // The whole card links to the post, except the authors which link to their profile
+    <Card className="group/card-post relative block overflow-hidden p-6 transition-all hover:shadow-lg hover:bg-muted/50">
+      <CardHeader className="flex flex-row justify-between">
+        <CardTitle>
+          <Link to={`/posts/${post.slug}`} className="after:absolute after:inset-0">
+            {post.title}
+          </Link>
+        </CardTitle>
+        <div className="flex items-center gap-2 group-hover/card-post:bg-primary group-hover/card-post:text-primary-foreground text-muted-foreground rounded-full p-1">
+          <ArrowUpRight className="h-5 w-5" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {post.snippet
+          ? (
+              <p className="text-muted-foreground text-sm">
+                {post.snippet.map((part, index) => part.highlighted
+                // eslint-disable-next-line react/no-array-index-key
+                  ? <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                    // eslint-disable-next-line react/no-array-index-key
+                  : <span key={index}>{part.text}</span>,
+                )}
+              </p>
+            )
+          : <p className="text-muted-foreground text-sm">{getFirstTextContent}</p>}
+      </CardContent>
+      <CardFooter>
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <User className="h-4 w-4" />
+            <AuthorLinks authors={post.authors} className="relative z-10" />
           </div>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground text-sm">{getFirstTextContent}</p>
-        </CardContent>
-        <CardFooter>
-          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <Calendar className="h-4 w-4" />
+            <span>{new Date(post.publishedAt).toLocaleDateString()}</span>
+          </div>
+          {post.commentCount !== undefined && (
             <div className="flex items-center gap-1">
-              <User className="h-4 w-4" />
-              <span>{post.author.name}</span>
+              <MessageCircle className="h-4 w-4" />
+              <span>
+                {post.commentCount}
+                {' '}
+                {post.commentCount === 1 ? 'comment' : 'comments'}
+              </span>
             </div>
+          )}
+          {post.tags.length > 0 && (
             <div className="flex items-center gap-1">
-              <Calendar className="h-4 w-4" />
-              <span>{new Date(post.publishedAt).toLocaleDateString()}</span>
+              <Tag className="h-4 w-4" />
+              <span>{post.tags.map(tag => tag.name).join(', ')}</span>
             </div>
-            {post.commentCount !== undefined && (
-              <div className="flex items-center gap-1">
-                <MessageCircle className="h-4 w-4" />
-                <span>
-                  {post.commentCount}
-                  {' '}
-                  {post.commentCount === 1 ? 'comment' : 'comments'}
-                </span>
-              </div>
-            )}
-          </div>
-        </CardFooter>
-      </Link>
+          )}
+        </div>
+      </CardFooter>
     </Card>
   )
 }
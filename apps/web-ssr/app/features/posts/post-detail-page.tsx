@@ -1,9 +1,18 @@
+import type { ReactionCountsSchema, ReactionKindSchema, UserReactionsSchema } from '@lonestone/openapi-generator'
 import type { Route } from './+types/post-detail-page'
-import { publicPostControllerGetPost } from '@lonestone/openapi-generator/client/sdk.gen'
+import { publicPostControllerGetPost, reactionsControllerTogglePostReaction } from '@lonestone/openapi-generator/client/sdk.gen'
 import PostContent from '@lonestone/ui/components/posts/PostContent'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
 import { Button } from '@lonestone/ui/components/primitives/button'
-import { ArrowLeft, Calendar, User } from 'lucide-react'
+import { useMutation } from '@tanstack/react-query'
+import { ArrowLeft, Calendar, Tag, User } from 'lucide-react'
+import { useState } from 'react'
 import { Link } from 'react-router'
+import { ReactionBar } from '@/features/reactions/reaction-bar'
+import { userReactionsQueryKey, useUserReactions } from '@/features/reactions/use-user-reactions'
+import { authClient } from '@/lib/auth-client'
+import { queryClient } from '@/lib/query-client'
+import AuthorLinks from '../authors/author-links'
 import { CommentsList } from '../comments/comments-list'
 
 export async function loader({ params }: { params: { slug: string } }) {
@@ -23,8 +32,33 @@ export async function loader({ params }: { params: { slug: string } }) {
 }
 
 export default function PostPage({ loaderData }: Route.ComponentProps) {
+  const { data: sessionData } = authClient.useSession()
   // Get the post slug to use as a unique identifier for comments
   const postSlug = loaderData.post?.slug || ''
+  const isLoggedIn = !!sessionData
+
+  const { data: userReactions } = useUserReactions(postSlug, isLoggedIn)
+  // Counts returned by the last toggle, more recent than the loaded post
+  const [reactionCounts, setReactionCounts] = useState<ReactionCountsSchema>()
+
+  const { mutate: toggleReaction } = useMutation({
+    mutationFn: (kind: ReactionKindSchema) =>
+      reactionsControllerTogglePostReaction({
+        path: { postSlug },
+        body: { kind },
+      }),
+    onSuccess: (result) => {
+      if (!result.data)
+        return
+
+      const { counts, userReactions } = result.data
+      setReactionCounts(counts)
+      queryClient.setQueryData<UserReactionsSchema>(
+        userReactionsQueryKey(postSlug),
+        previous => previous && { ...previous, post: userReactions },
+      )
+    },
+  })
 
   return (
     <div className="container mx-auto py-8 px-4 space-y-6">
@@ -38,7 +72,7 @@ export default function PostPage({ loaderData }: Route.ComponentProps) {
       <div className="flex items-center gap-6 text-sm text-muted-foreground">
         <div className="flex items-center gap-2">
           <User className="h-4 w-4" />
-          <span>{loaderData.post?.author.name}</span>
+          {loaderData.post && <AuthorLinks authors={loaderData.post.authors} />}
         </div>
         <div className="flex items-center gap-2">
           <Calendar className="h-4 w-4" />
@@ -50,14 +84,37 @@ export default function PostPage({ loaderData }: Route.ComponentProps) {
         </div>
       </div>
 
+      {!!loaderData.post?.tags.length && (
+        <div className="flex flex-wrap gap-2">
+          {loaderData.post.tags.map(tag => (
+            <Badge key={tag.slug} variant="secondary" asChild>
+              <Link to={`/tags/${tag.slug}`}>
+                <Tag />
+                {tag.name}
+              </Link>
+            </Badge>
+          ))}
+        </div>
+      )}
+
       {loaderData.post?.content && (
         <PostContent content={loaderData.post?.content} />
       )}
 
+      {loaderData.post && (
+        <ReactionBar
+          counts={reactionCounts ?? loaderData.post.reactions}
+          userReactions={userReactions?.post}
+          onToggle={isLoggedIn ? toggleReaction : undefined}
+        />
+      )}
+
       {loaderData.post && (
         <CommentsList
           postId={postSlug}
-          postAuthorId={loaderData.post.author.name}
+          postAuthorId={loaderData.post.authors[0]?.name}
+          currentUserId={sessionData?.user.id}
+          commentModeration={loaderData.post.commentModeration}
         />
       )}
     </div>
@@ -1,11 +1,12 @@
 import type { Route } from './+types/posts-list-page'
-import { publicPostControllerGetPosts } from '@lonestone/openapi-generator/client/sdk.gen'
+import { publicPostControllerGetPosts, publicTagsControllerGetTags } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Badge } from '@lonestone/ui/components/primitives/badge'
 import { Button } from '@lonestone/ui/components/primitives/button'
 import { Input } from '@lonestone/ui/components/primitives/input'
 import { ChevronLeft, ChevronRight, Search } from 'lucide-react'
 
 import { useMemo, useState } from 'react'
-import { useSearchParams } from 'react-router'
+import { Link, useSearchParams } from 'react-router'
 
 import PostCard from './post-card'
 
@@ -15,13 +16,16 @@ export async function loader({ request }: Route.LoaderArgs) {
   const search = searchParams.get('search') || ''
   const page = Number.parseInt(searchParams.get('page') || '1')
 
-  const posts = await publicPostControllerGetPosts({
-    query: {
-      filter: search ? [{ property: 'title', rule: 'like', value: search }] : [],
-      offset: (page - 1) * 10,
-      pageSize: 10,
-    },
-  })
+  const [posts, tags] = await Promise.all([
+    publicPostControllerGetPosts({
+      query: {
+        q: search || undefined,
+        offset: (page - 1) * 10,
+        pageSize: 10,
+      },
+    }),
+    publicTagsControllerGetTags(),
+  ])
 
   if (posts.error) {
     throw posts.error
@@ -29,13 +33,15 @@ export async function loader({ request }: Route.LoaderArgs) {
 
   return {
     posts,
+    // The tags are a secondary navigation, the page still works without them
+    tags: tags.data?.slice(0, 20) ?? [],
     search,
     page,
   }
 }
 
 export default function PostsListPage({ loaderData }: Route.ComponentProps) {
-  const { posts, search, page } = loaderData
+  const { posts, tags, search, page } = loaderData
   const [searchParams, setSearchParams] = useSearchParams()
   const [searchValue, setSearchValue] = useState(search || '')
 
@@ -86,6 +92,27 @@ export default function PostsListPage({ loaderData }: Route.ComponentProps) {
         </div>
       </div>
 
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <Badge key={tag.slug} variant="outline" asChild>
+              <Link to={`/tags/${tag.slug}`}>
+                {tag.name}
+                <span className="text-muted-foreground">{tag.postCount}</span>
+              </Link>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {search && (
+        <p className="text-sm text-muted-foreground">
+          {posts?.data?.meta.itemCount
+            ? `Most relevant results for "${search}"`
+            : `No results for "${search}"`}
+        </p>
+      )}
+
       <div className="grid gap-4">
         {posts?.data?.data.map(post => (
           <PostCard key={post.slug} post={post} />
@@ -0,0 +1,63 @@
+import type { ReactionCountsSchema, ReactionKindSchema } from '@lonestone/openapi-generator'
+import { cn } from '@lonestone/ui/lib/utils'
+
+const reactionEmojis: Record<ReactionKindSchema, { emoji: string, label: string }> = {
+  like: { emoji: '👍', label: 'Like' },
+  love: { emoji: '❤️', label: 'Love' },
+  laugh: { emoji: '😂', label: 'Laugh' },
+  wow: { emoji: '😮', label: 'Wow' },
+  sad: { emoji: '😢', label: 'Sad' },
+  celebrate: { emoji: '🎉', label: 'Celebrate' },
+}
+
+interface ReactionBarProps {
+  counts: ReactionCountsSchema
+  userReactions?: ReactionKindSchema[]
+  // Reactions are read only when not set, e.g. for logged out visitors
+  onToggle?: (kind: ReactionKindSchema) => void
+  size?: 'sm' | 'default'
+}
+
+export function ReactionBar({
+  counts,
+  userReactions,
+  onToggle,
+  size = 'default',
+}: ReactionBarProps) {
+  const kinds = Object.keys(reactionEmojis) as ReactionKindSchema[]
+  // Logged out visitors only see the reactions that have been used
+  const visibleKinds = onToggle ? kinds : kinds.filter(kind => (counts[kind] ?? 0) > 0)
+
+  if (!visibleKinds.length)
+    return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {visibleKinds.map((kind) => {
+        const count = counts[kind] ?? 0
+        const hasReacted = userReactions?.includes(kind) ?? false
+
+        return (
+          <button
+            key={kind}
+            type="button"
+            title={reactionEmojis[kind].label}
+            aria-label={reactionEmojis[kind].label}
+            aria-pressed={hasReacted}
+            disabled={!onToggle}
+            onClick={() => onToggle?.(kind)}
+            className={cn(
+              'flex items-center gap-1 rounded-full border px-2 transition-colors',
+              size === 'sm' ? 'h-6 text-xs' : 'h-8 text-sm',
+              hasReacted ? 'border-primary/40 bg-primary/10' : 'bg-background',
+              onToggle ? 'hover:border-primary/30 cursor-pointer' : 'cursor-default',
+            )}
+          >
+            <span>{reactionEmojis[kind].emoji}</span>
+            {count > 0 && <span className="text-muted-foreground tabular-nums">{count}</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
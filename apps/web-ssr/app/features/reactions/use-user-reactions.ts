@@ -0,0 +1,25 @@
+import { reactionsControllerGetUserReactions } from '@lonestone/openapi-generator/client/sdk.gen'
+import { useQuery } from '@tanstack/react-query'
+
+export function userReactionsQueryKey(postSlug: string) {
+  return ['userReactions', postSlug]
+}
+
+// Reactions of the logged in user on a post and its comments
+export function useUserReactions(postSlug: string, enabled: boolean) {
+  return useQuery({
+    queryKey: userReactionsQueryKey(postSlug),
+    queryFn: async () => {
+      const res = await reactionsControllerGetUserReactions({
+        path: { postSlug },
+      })
+
+      if (res.error) {
+        throw res.error
+      }
+
+      return res.data
+    },
+    enabled,
+  })
+}
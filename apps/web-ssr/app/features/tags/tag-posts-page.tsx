@@ -0,0 +1,139 @@
+import type { Route } from './+types/tag-posts-page'
+import { publicPostControllerGetPosts, publicTagsControllerGetTag } from '@lonestone/openapi-generator/client/sdk.gen'
+import { Button } from '@lonestone/ui/components/primitives/button'
+import { ArrowLeft, ChevronLeft, ChevronRight, Tag } from 'lucide-react'
+import { useMemo } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import PostCard from '../posts/post-card'
+
+const PAGE_SIZE = 10
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const url = new URL(request.url)
+  const page = Number.parseInt(url.searchParams.get('page') || '1')
+
+  const [tag, posts] = await Promise.all([
+    publicTagsControllerGetTag({
+      path: { slug: params.tag },
+    }),
+    publicPostControllerGetPosts({
+      query: {
+        filter: [{ property: 'tag', rule: 'eq', value: params.tag }],
+        offset: (page - 1) * PAGE_SIZE,
+        pageSize: PAGE_SIZE,
+      },
+    }),
+  ])
+
+  if (tag.error) {
+    throw tag.error
+  }
+
+  if (posts.error) {
+    throw posts.error
+  }
+
+  return {
+    tag: tag.data,
+    posts: posts.data,
+    page,
+  }
+}
+
+export default function TagPostsPage({ loaderData }: Route.ComponentProps) {
+  const { tag, posts, page } = loaderData
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const handlePageChange = (newPage: number) => {
+    const newParams = new URLSearchParams(searchParams)
+    newParams.set('page', newPage.toString())
+    setSearchParams(newParams)
+  }
+
+  const totalPages = useMemo(() => {
+    if (!posts?.meta.itemCount)
+      return 0
+    return Math.ceil(posts.meta.itemCount / PAGE_SIZE)
+  }, [posts])
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Button variant="outline" asChild>
+        <Link to="/posts">
+          <ArrowLeft className="h-4 w-4" />
+          Back to posts
+        </Link>
+      </Button>
+
+      <div className="space-y-2">
+        <h2 className="text-3xl font-bold flex items-center gap-2">
+          <Tag className="h-6 w-6" />
+          {tag?.name}
+        </h2>
+        <p className="text-muted-foreground">
+          {tag?.postCount}
+          {' '}
+          {tag?.postCount === 1 ? 'post' : 'posts'}
+          {' '}
+          tagged with
+          {' '}
+          {tag?.name}
+        </p>
+      </div>
+
+      <div className="grid gap-4">
+        {posts?.data.map(post => (
+          <PostCard key={post.slug} post={post} />
+        ))}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handlePageChange(page - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <div className="text-sm text-muted-foreground">
+            Page
+            {' '}
+            {page}
+            {' '}
+            of
+            {' '}
+            {totalPages}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handlePageChange(page + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    {
+      title: `Posts tagged ${data.tag?.name}`,
+    },
+    {
+      property: 'og:title',
+      content: `Posts tagged ${data.tag?.name}`,
+    },
+    {
+      name: 'description',
+      content: `Posts tagged ${data.tag?.name}`,
+    },
+  ]
+}
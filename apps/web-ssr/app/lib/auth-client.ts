@@ -0,0 +1,8 @@
+import { createAuthClient } from 'better-auth/react'
+
+// Only used to know who is logged in, the auth pages live in the web app
+const authClient = createAuthClient({
+  baseURL: import.meta.env.VITE_API_URL,
+})
+
+export { authClient }
@@ -11,5 +11,7 @@ export default [
     index('features/home/home-page.tsx'),
     route('posts', 'features/posts/posts-list-page.tsx'),
     route('posts/:slug', 'features/posts/post-detail-page.tsx'),
+    route('tags/:tag', 'features/tags/tag-posts-page.tsx'),
+    route('authors/:handle', 'features/authors/author-page.tsx'),
   ]),
 ] satisfies RouteConfig
@@ -1,9 +1,34 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
-import type { Options as ClientOptions, TDataShape, Client } from "./client";
+import {
+  type Options as ClientOptions,
+  type TDataShape,
+  type Client,
+  formDataBodySerializer,
+} from "./client";
 import type {
   AppControllerGetHelloData,
   AppControllerGetHelloResponses,
+  PublicAuthControllerGetOAuthProvidersData,
+  PublicAuthControllerGetOAuthProvidersResponses,
+  PublicAuthControllerGetAuthPolicyData,
+  PublicAuthControllerGetAuthPolicyResponses,
+  ApiTokensControllerGetApiTokensData,
+  ApiTokensControllerGetApiTokensResponses,
+  ApiTokensControllerCreateApiTokenData,
+  ApiTokensControllerCreateApiTokenResponses,
+  ApiTokensControllerDeleteApiTokenData,
+  ApiTokensControllerDeleteApiTokenResponses,
+  FilesControllerGetFilesData,
+  FilesControllerGetFilesResponses,
+  FilesControllerUploadFileData,
+  FilesControllerUploadFileResponses,
+  FilesControllerDeleteFileData,
+  FilesControllerDeleteFileResponses,
+  PublicFilesControllerGetFileData,
+  PublicFilesControllerGetFileResponses,
+  PublicFilesControllerGetFileVariantData,
+  PublicFilesControllerGetFileVariantResponses,
   PostControllerGetUserPostsData,
   PostControllerGetUserPostsResponses,
   PostControllerCreatePostData,
@@ -16,22 +41,90 @@ import type {
   PostControllerPublishPostResponses,
   PostControllerUnpublishPostData,
   PostControllerUnpublishPostResponses,
+  PostControllerDiffPostVersionsData,
+  PostControllerDiffPostVersionsResponses,
+  PostControllerGetPostVersionData,
+  PostControllerGetPostVersionResponses,
+  PostControllerRestorePostVersionData,
+  PostControllerRestorePostVersionResponses,
   PublicPostControllerGetRandomPostData,
   PublicPostControllerGetRandomPostResponses,
   PublicPostControllerGetPostData,
   PublicPostControllerGetPostResponses,
   PublicPostControllerGetPostsData,
   PublicPostControllerGetPostsResponses,
+  PostCollaboratorsControllerGetCollaboratorsData,
+  PostCollaboratorsControllerGetCollaboratorsResponses,
+  PostCollaboratorsControllerInviteCollaboratorData,
+  PostCollaboratorsControllerInviteCollaboratorResponses,
+  PostCollaboratorsControllerRemoveCollaboratorData,
+  PostCollaboratorsControllerRemoveCollaboratorResponses,
+  PostCollaboratorsControllerUpdateCollaboratorData,
+  PostCollaboratorsControllerUpdateCollaboratorResponses,
+  PostInvitationsControllerGetInvitationsData,
+  PostInvitationsControllerGetInvitationsResponses,
+  PostInvitationsControllerAcceptInvitationData,
+  PostInvitationsControllerAcceptInvitationResponses,
+  PostInvitationsControllerDeclineInvitationData,
+  PostInvitationsControllerDeclineInvitationResponses,
+  PublicTagsControllerGetTagsData,
+  PublicTagsControllerGetTagsResponses,
+  PublicTagsControllerGetTagData,
+  PublicTagsControllerGetTagResponses,
+  ReactionsControllerGetUserReactionsData,
+  ReactionsControllerGetUserReactionsResponses,
+  ReactionsControllerTogglePostReactionData,
+  ReactionsControllerTogglePostReactionResponses,
+  ReactionsControllerToggleCommentReactionData,
+  ReactionsControllerToggleCommentReactionResponses,
+  AdminAuditLogControllerGetAuditLogsData,
+  AdminAuditLogControllerGetAuditLogsResponses,
   CommentsControllerGetCommentsData,
   CommentsControllerGetCommentsResponses,
   CommentsControllerCreateCommentData,
   CommentsControllerCreateCommentResponses,
   CommentsControllerGetCommentCountData,
   CommentsControllerGetCommentCountResponses,
+  CommentsControllerStreamCommentsData,
+  CommentsControllerStreamCommentsResponses,
   CommentsControllerGetCommentRepliesData,
   CommentsControllerGetCommentRepliesResponses,
   CommentsControllerDeleteCommentData,
   CommentsControllerDeleteCommentResponses,
+  CommentsControllerEditCommentData,
+  CommentsControllerEditCommentResponses,
+  CommentsControllerGetCommentRevisionsData,
+  CommentsControllerGetCommentRevisionsResponses,
+  AdminCommentsControllerGetCommentsData,
+  AdminCommentsControllerGetCommentsResponses,
+  AdminCommentsControllerGetCountsData,
+  AdminCommentsControllerGetCountsResponses,
+  AdminCommentsControllerUpdateStatusData,
+  AdminCommentsControllerUpdateStatusResponses,
+  NotificationsControllerGetNotificationsData,
+  NotificationsControllerGetNotificationsResponses,
+  NotificationsControllerGetUnreadCountData,
+  NotificationsControllerGetUnreadCountResponses,
+  NotificationsControllerMarkAllAsReadData,
+  NotificationsControllerMarkAllAsReadResponses,
+  NotificationsControllerGetPreferencesData,
+  NotificationsControllerGetPreferencesResponses,
+  NotificationsControllerUpdatePreferencesData,
+  NotificationsControllerUpdatePreferencesResponses,
+  NotificationsControllerMarkAsReadData,
+  NotificationsControllerMarkAsReadResponses,
+  PublicNotificationsControllerUnsubscribeData,
+  PublicNotificationsControllerUnsubscribeResponses,
+  AdminUsersControllerGetUsersData,
+  AdminUsersControllerGetUsersResponses,
+  AdminUsersControllerUpdateUserRoleData,
+  AdminUsersControllerUpdateUserRoleResponses,
+  ProfileControllerGetProfileData,
+  ProfileControllerGetProfileResponses,
+  ProfileControllerUpdateProfileData,
+  ProfileControllerUpdateProfileResponses,
+  PublicAuthorsControllerGetAuthorData,
+  PublicAuthorsControllerGetAuthorResponses,
 } from "./types.gen";
 import { client as _heyApiClient } from "./client.gen";
 
@@ -65,6 +158,159 @@ export const appControllerGetHello = <ThrowOnError extends boolean = false>(
   });
 };
 
+export const publicAuthControllerGetOAuthProviders = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<PublicAuthControllerGetOAuthProvidersData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    PublicAuthControllerGetOAuthProvidersResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/auth/providers",
+    ...options,
+  });
+};
+
+export const publicAuthControllerGetAuthPolicy = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<PublicAuthControllerGetAuthPolicyData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    PublicAuthControllerGetAuthPolicyResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/auth/policy",
+    ...options,
+  });
+};
+
+export const apiTokensControllerGetApiTokens = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<ApiTokensControllerGetApiTokensData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    ApiTokensControllerGetApiTokensResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/api-tokens",
+    ...options,
+  });
+};
+
+export const apiTokensControllerCreateApiToken = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<ApiTokensControllerCreateApiTokenData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    ApiTokensControllerCreateApiTokenResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/api-tokens",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const apiTokensControllerDeleteApiToken = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<ApiTokensControllerDeleteApiTokenData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    ApiTokensControllerDeleteApiTokenResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/api-tokens/{id}",
+    ...options,
+  });
+};
+
+export const filesControllerGetFiles = <ThrowOnError extends boolean = false>(
+  options: Options<FilesControllerGetFilesData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    FilesControllerGetFilesResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/files",
+    ...options,
+  });
+};
+
+export const filesControllerUploadFile = <ThrowOnError extends boolean = false>(
+  options: Options<FilesControllerUploadFileData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    FilesControllerUploadFileResponses,
+    unknown,
+    ThrowOnError
+  >({
+    ...formDataBodySerializer,
+    url: "/api/admin/files",
+    ...options,
+    headers: {
+      "Content-Type": null,
+      ...options.headers,
+    },
+  });
+};
+
+export const filesControllerDeleteFile = <ThrowOnError extends boolean = false>(
+  options: Options<FilesControllerDeleteFileData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    FilesControllerDeleteFileResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/files/{id}",
+    ...options,
+  });
+};
+
+export const publicFilesControllerGetFile = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PublicFilesControllerGetFileData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    PublicFilesControllerGetFileResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/files/{id}",
+    ...options,
+  });
+};
+
+export const publicFilesControllerGetFileVariant = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PublicFilesControllerGetFileVariantData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    PublicFilesControllerGetFileVariantResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/files/{id}/variants/{width}",
+    ...options,
+  });
+};
+
 export const postControllerGetUserPosts = <
   ThrowOnError extends boolean = false,
 >(
@@ -137,6 +383,10 @@ export const postControllerPublishPost = <ThrowOnError extends boolean = false>(
   >({
     url: "/api/admin/posts/{id}/publish",
     ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
   });
 };
 
@@ -155,6 +405,51 @@ export const postControllerUnpublishPost = <
   });
 };
 
+export const postControllerDiffPostVersions = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PostControllerDiffPostVersionsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    PostControllerDiffPostVersionsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/posts/{id}/versions/diff",
+    ...options,
+  });
+};
+
+export const postControllerGetPostVersion = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PostControllerGetPostVersionData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    PostControllerGetPostVersionResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/posts/{id}/versions/{versionId}",
+    ...options,
+  });
+};
+
+export const postControllerRestorePostVersion = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PostControllerRestorePostVersionData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostControllerRestorePostVersionResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/posts/{id}/versions/{versionId}/restore",
+    ...options,
+  });
+};
+
 export const publicPostControllerGetRandomPost = <
   ThrowOnError extends boolean = false,
 >(
@@ -200,32 +495,38 @@ export const publicPostControllerGetPosts = <
   });
 };
 
-export const commentsControllerGetComments = <
+export const postCollaboratorsControllerGetCollaborators = <
   ThrowOnError extends boolean = false,
 >(
-  options: Options<CommentsControllerGetCommentsData, ThrowOnError>,
+  options: Options<
+    PostCollaboratorsControllerGetCollaboratorsData,
+    ThrowOnError
+  >,
 ) => {
   return (options.client ?? _heyApiClient).get<
-    CommentsControllerGetCommentsResponses,
+    PostCollaboratorsControllerGetCollaboratorsResponses,
     unknown,
     ThrowOnError
   >({
-    url: "/api/posts/{postSlug}/comments",
+    url: "/api/admin/posts/{postId}/collaborators",
     ...options,
   });
 };
 
-export const commentsControllerCreateComment = <
+export const postCollaboratorsControllerInviteCollaborator = <
   ThrowOnError extends boolean = false,
 >(
-  options: Options<CommentsControllerCreateCommentData, ThrowOnError>,
+  options: Options<
+    PostCollaboratorsControllerInviteCollaboratorData,
+    ThrowOnError
+  >,
 ) => {
   return (options.client ?? _heyApiClient).post<
-    CommentsControllerCreateCommentResponses,
+    PostCollaboratorsControllerInviteCollaboratorResponses,
     unknown,
     ThrowOnError
   >({
-    url: "/api/posts/{postSlug}/comments",
+    url: "/api/admin/posts/{postId}/collaborators",
     ...options,
     headers: {
       "Content-Type": "application/json",
@@ -234,47 +535,557 @@ export const commentsControllerCreateComment = <
   });
 };
 
-export const commentsControllerGetCommentCount = <
+export const postCollaboratorsControllerRemoveCollaborator = <
   ThrowOnError extends boolean = false,
 >(
-  options: Options<CommentsControllerGetCommentCountData, ThrowOnError>,
+  options: Options<
+    PostCollaboratorsControllerRemoveCollaboratorData,
+    ThrowOnError
+  >,
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    PostCollaboratorsControllerRemoveCollaboratorResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/posts/{postId}/collaborators/{collaboratorId}",
+    ...options,
+  });
+};
+
+export const postCollaboratorsControllerUpdateCollaborator = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<
+    PostCollaboratorsControllerUpdateCollaboratorData,
+    ThrowOnError
+  >,
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    PostCollaboratorsControllerUpdateCollaboratorResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/posts/{postId}/collaborators/{collaboratorId}",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const postInvitationsControllerGetInvitations = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<PostInvitationsControllerGetInvitationsData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    PostInvitationsControllerGetInvitationsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/invitations",
+    ...options,
+  });
+};
+
+export const postInvitationsControllerAcceptInvitation = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PostInvitationsControllerAcceptInvitationData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInvitationsControllerAcceptInvitationResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/invitations/{invitationId}/accept",
+    ...options,
+  });
+};
+
+export const postInvitationsControllerDeclineInvitation = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<
+    PostInvitationsControllerDeclineInvitationData,
+    ThrowOnError
+  >,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInvitationsControllerDeclineInvitationResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/invitations/{invitationId}/decline",
+    ...options,
+  });
+};
+
+export const publicTagsControllerGetTags = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<PublicTagsControllerGetTagsData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    PublicTagsControllerGetTagsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/tags",
+    ...options,
+  });
+};
+
+export const publicTagsControllerGetTag = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PublicTagsControllerGetTagData, ThrowOnError>,
 ) => {
   return (options.client ?? _heyApiClient).get<
-    CommentsControllerGetCommentCountResponses,
+    PublicTagsControllerGetTagResponses,
     unknown,
     ThrowOnError
   >({
-    url: "/api/posts/{postSlug}/comments/count",
+    url: "/api/public/tags/{slug}",
     ...options,
   });
 };
 
-export const commentsControllerGetCommentReplies = <
+export const reactionsControllerGetUserReactions = <
   ThrowOnError extends boolean = false,
 >(
-  options: Options<CommentsControllerGetCommentRepliesData, ThrowOnError>,
+  options: Options<ReactionsControllerGetUserReactionsData, ThrowOnError>,
 ) => {
   return (options.client ?? _heyApiClient).get<
-    CommentsControllerGetCommentRepliesResponses,
+    ReactionsControllerGetUserReactionsResponses,
     unknown,
     ThrowOnError
   >({
-    url: "/api/posts/{postSlug}/comments/{commentId}/replies",
+    url: "/api/posts/{postSlug}/reactions/me",
     ...options,
   });
 };
 
-export const commentsControllerDeleteComment = <
+export const reactionsControllerTogglePostReaction = <
   ThrowOnError extends boolean = false,
 >(
-  options: Options<CommentsControllerDeleteCommentData, ThrowOnError>,
+  options: Options<ReactionsControllerTogglePostReactionData, ThrowOnError>,
 ) => {
-  return (options.client ?? _heyApiClient).delete<
-    CommentsControllerDeleteCommentResponses,
+  return (options.client ?? _heyApiClient).post<
+    ReactionsControllerTogglePostReactionResponses,
     unknown,
     ThrowOnError
   >({
-    url: "/api/posts/{postSlug}/comments/{commentId}",
+    url: "/api/posts/{postSlug}/reactions",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const reactionsControllerToggleCommentReaction = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<ReactionsControllerToggleCommentReactionData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    ReactionsControllerToggleCommentReactionResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/{commentId}/reactions",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const adminAuditLogControllerGetAuditLogs = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<AdminAuditLogControllerGetAuditLogsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    AdminAuditLogControllerGetAuditLogsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/audit-log",
+    ...options,
+  });
+};
+
+export const commentsControllerGetComments = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerGetCommentsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    CommentsControllerGetCommentsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments",
+    ...options,
+  });
+};
+
+export const commentsControllerCreateComment = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerCreateCommentData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    CommentsControllerCreateCommentResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const commentsControllerGetCommentCount = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerGetCommentCountData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    CommentsControllerGetCommentCountResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/count",
+    ...options,
+  });
+};
+
+export const commentsControllerStreamComments = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerStreamCommentsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).sse.get<
+    CommentsControllerStreamCommentsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/stream",
+    ...options,
+  });
+};
+
+export const commentsControllerGetCommentReplies = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerGetCommentRepliesData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    CommentsControllerGetCommentRepliesResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/{commentId}/replies",
+    ...options,
+  });
+};
+
+export const commentsControllerDeleteComment = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerDeleteCommentData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    CommentsControllerDeleteCommentResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/{commentId}",
+    ...options,
+  });
+};
+
+export const commentsControllerEditComment = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerEditCommentData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    CommentsControllerEditCommentResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/{commentId}",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const commentsControllerGetCommentRevisions = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<CommentsControllerGetCommentRevisionsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    CommentsControllerGetCommentRevisionsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/posts/{postSlug}/comments/{commentId}/revisions",
+    ...options,
+  });
+};
+
+export const adminCommentsControllerGetComments = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<AdminCommentsControllerGetCommentsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    AdminCommentsControllerGetCommentsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/comments",
+    ...options,
+  });
+};
+
+export const adminCommentsControllerGetCounts = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<AdminCommentsControllerGetCountsData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    AdminCommentsControllerGetCountsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/comments/counts",
+    ...options,
+  });
+};
+
+export const adminCommentsControllerUpdateStatus = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<AdminCommentsControllerUpdateStatusData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    AdminCommentsControllerUpdateStatusResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/comments/status",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const notificationsControllerGetNotifications = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<NotificationsControllerGetNotificationsData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    NotificationsControllerGetNotificationsResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/notifications",
+    ...options,
+  });
+};
+
+export const notificationsControllerGetUnreadCount = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<NotificationsControllerGetUnreadCountData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    NotificationsControllerGetUnreadCountResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/notifications/unread-count",
+    ...options,
+  });
+};
+
+export const notificationsControllerMarkAllAsRead = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<NotificationsControllerMarkAllAsReadData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).patch<
+    NotificationsControllerMarkAllAsReadResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/notifications/read",
+    ...options,
+  });
+};
+
+export const notificationsControllerGetPreferences = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<NotificationsControllerGetPreferencesData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    NotificationsControllerGetPreferencesResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/notifications/preferences",
+    ...options,
+  });
+};
+
+export const notificationsControllerUpdatePreferences = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<NotificationsControllerUpdatePreferencesData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).put<
+    NotificationsControllerUpdatePreferencesResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/notifications/preferences",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const notificationsControllerMarkAsRead = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<NotificationsControllerMarkAsReadData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    NotificationsControllerMarkAsReadResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/notifications/{notificationId}/read",
+    ...options,
+  });
+};
+
+export const publicNotificationsControllerUnsubscribe = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PublicNotificationsControllerUnsubscribeData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PublicNotificationsControllerUnsubscribeResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/notifications/unsubscribe",
+    ...options,
+  });
+};
+
+export const adminUsersControllerGetUsers = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<AdminUsersControllerGetUsersData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    AdminUsersControllerGetUsersResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/users",
+    ...options,
+  });
+};
+
+export const adminUsersControllerUpdateUserRole = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<AdminUsersControllerUpdateUserRoleData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    AdminUsersControllerUpdateUserRoleResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/admin/users/{userId}/role",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const profileControllerGetProfile = <
+  ThrowOnError extends boolean = false,
+>(
+  options?: Options<ProfileControllerGetProfileData, ThrowOnError>,
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    ProfileControllerGetProfileResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/profile",
+    ...options,
+  });
+};
+
+export const profileControllerUpdateProfile = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<ProfileControllerUpdateProfileData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).put<
+    ProfileControllerUpdateProfileResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/profile",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+};
+
+export const publicAuthorsControllerGetAuthor = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<PublicAuthorsControllerGetAuthorData, ThrowOnError>,
+) => {
+  return (options.client ?? _heyApiClient).get<
+    PublicAuthorsControllerGetAuthorResponses,
+    unknown,
+    ThrowOnError
+  >({
+    url: "/api/public/authors/{handle}",
     ...options,
   });
 };
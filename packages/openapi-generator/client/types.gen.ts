@@ -1,12 +1,38 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
 /**
- * CreateCommentSchema
- * Schema for creating a comment
+ * CreateApiTokenSchema
+ * Schema for creating a personal API token
  */
-export type CreateCommentSchema = {
-  content: string;
-  parentId?: string;
+export type CreateApiTokenSchema = {
+  name: string;
+  scopes: Array<ApiTokenScopeSchema>;
+  expiresInDays: number;
+};
+
+/**
+ * ToggleReactionSchema
+ * Schema for adding a reaction, or removing it if it was already there
+ */
+export type ToggleReactionSchema = {
+  kind: ReactionKindSchema;
+};
+
+/**
+ * InvitePostCollaboratorSchema
+ * Schema for inviting someone to collaborate on a post
+ */
+export type InvitePostCollaboratorSchema = {
+  email: string;
+  role: "editor" | "viewer";
+};
+
+/**
+ * UpdatePostCollaboratorSchema
+ * Schema for changing the role of a collaborator
+ */
+export type UpdatePostCollaboratorSchema = {
+  role: "editor" | "viewer";
 };
 
 /**
@@ -16,6 +42,11 @@ export type CreateCommentSchema = {
 export type CreatePostSchema = {
   title: string;
   content: Array<PostContentSchema>;
+  /**
+   * Names of the tags of the post
+   */
+  tags?: Array<string>;
+  commentModeration?: CommentModerationSchema;
 };
 
 /**
@@ -25,136 +56,93 @@ export type CreatePostSchema = {
 export type UpdatePostSchema = {
   title?: string;
   content?: Array<PostContentSchema>;
+  /**
+   * Names of the tags of the post
+   */
+  tags?: Array<string>;
+  commentModeration?: CommentModerationSchema;
 };
 
 /**
- * CommentSchema
- * Schema for a comment
+ * PublishPostSchema
+ * Schema for publishing or scheduling a post
  */
-export type CommentSchema = {
-  id: string;
-  content: string;
-  authorName: string | null;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string;
-  } | null;
-  parentId: string | null;
-  replyIds?: Array<string>;
-  replyCount?: number;
+export type PublishPostSchema = {
+  /**
+   * Publication date. If in the future, the post is scheduled instead of published right away
+   */
+  publishAt?: string;
 };
 
 /**
- * CommentsSchema
- * Schema for a paginated list of comments
+ * UpdateAuthorProfileSchema
+ * Schema for updating the public profile of the logged in user
  */
-export type CommentsSchema = {
-  data: Array<CommentSchema>;
-  meta: {
-    offset: number;
-    pageSize: number;
-    itemCount: number;
-    hasMore: boolean;
-  };
+export type UpdateAuthorProfileSchema = {
+  /**
+   * Identifies the author in the URL of their profile
+   */
+  handle: string;
+  bio: string | null;
+  links: Array<AuthorLinkSchema>;
 };
 
 /**
- * UserPostSchema
- * Schema for a user's post
+ * UpdateNotificationPreferencesSchema
+ * Schema for updating the email notification settings of a user
  */
-export type UserPostSchema = {
-  id: string;
-  slug?: string | null;
-  title: string;
-  content: Array<PostContentSchema>;
-  versions: Array<PostVersionSchema>;
-  publishedAt?: string | null;
-  type: "published" | "draft";
-  commentCount?: number;
+export type UpdateNotificationPreferencesSchema = {
+  emailFrequency: EmailFrequencySchema;
+  /**
+   * Send the comments on my posts by email
+   */
+  emailComments: boolean;
+  /**
+   * Send the replies to my comments by email
+   */
+  emailReplies: boolean;
 };
 
 /**
- * PostContentSchema
- * Schema for content items (text, image, video)
+ * CreateCommentSchema
+ * Schema for creating a comment
  */
-export type PostContentSchema =
-  | {
-      type: "text";
-      data: string;
-    }
-  | {
-      type: "image";
-      data: string;
-    }
-  | {
-      type: "video";
-      data: string;
-    };
+export type CreateCommentSchema = {
+  content: string;
+  parentId?: string;
+};
 
 /**
- * PostVersionSchema
- * Schema for a post version
+ * UpdateCommentSchema
+ * Schema for editing a comment
  */
-export type PostVersionSchema = {
-  id: string;
-  title: string;
-  createdAt: string;
+export type UpdateCommentSchema = {
+  content: string;
 };
 
 /**
- * UserPostsSchema
- * Schema for a list of user's posts
+ * UpdateCommentsStatusSchema
+ * Schema for changing the moderation status of several comments
  */
-export type UserPostsSchema = {
-  data: Array<{
-    id: string;
-    slug?: string | null;
-    title: string;
-    versions: Array<PostVersionSchema>;
-    publishedAt?: string | null;
-    type: "published" | "draft";
-    commentCount?: number;
-    contentPreview: PostContentSchema;
-  }>;
-  meta: {
-    offset: number;
-    pageSize: number;
-    itemCount: number;
-    hasMore: boolean;
-  };
+export type UpdateCommentsStatusSchema = {
+  ids: Array<string>;
+  status: CommentStatusSchema;
 };
 
 /**
- * PublicPostSchema
- * A public post
+ * UpdateUserRoleSchema
+ * Schema for changing the role of a user
  */
-export type PublicPostSchema = {
-  title: string;
-  author: {
-    name: string;
-  };
-  content: Array<PostContentSchema>;
-  publishedAt: string;
-  slug?: string;
-  commentCount?: number;
+export type UpdateUserRoleSchema = {
+  role: UserRoleSchema;
 };
 
 /**
- * PublicPostsSchema
- * A list of public posts
+ * AuditLogsSchema
+ * Schema for a paginated list of audit log entries, from the newest
  */
-export type PublicPostsSchema = {
-  data: Array<{
-    title: string;
-    author: {
-      name: string;
-    };
-    publishedAt: string;
-    slug?: string;
-    commentCount?: number;
-    contentPreview: PostContentSchema;
-  }>;
+export type AuditLogsSchema = {
+  data: Array<AuditLogSchema>;
   meta: {
     offset: number;
     pageSize: number;
@@ -164,382 +152,2725 @@ export type PublicPostsSchema = {
 };
 
 /**
- * PaginationQuerySchema
- * Schema for pagination query
+ * AuditLogSchema
+ * Schema for an entry of the audit log. Actions without an actor are anonymous, or done by the API itself
  */
-export type PaginationQuerySchema = {
+export type AuditLogSchema = {
+  id: string;
+  actor: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
   /**
-   * Starting position of the query
+   * AuditLogActionSchema
+   * What has been done, prefixed by the kind of target
    */
-  offset: number;
+  action:
+    | "post.created"
+    | "post.updated"
+    | "post.published"
+    | "post.scheduled"
+    | "post.unpublished"
+    | "post.version-restored"
+    | "comment.created"
+    | "comment.edited"
+    | "comment.deleted"
+    | "comment.status-changed"
+    | "auth.signed-up"
+    | "auth.signed-in"
+    | "auth.sign-in-failed"
+    | "auth.password-changed"
+    | "auth.two-factor-disabled";
   /**
-   * Number of items to return
+   * AuditLogTargetTypeSchema
+   * The kind of entity the action applies to
    */
-  pageSize: number;
+  targetType: "post" | "comment" | "user";
+  targetId: string;
+  before: {
+    [key: string]: unknown;
+  } | null;
+  after: {
+    [key: string]: unknown;
+  } | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
 };
 
 /**
- * SortingQueryStringSchema
- * Schema for sorting items
+ * AuditLogActionSchema
+ * What has been done, prefixed by the kind of target
  */
-export type SortingQueryStringSchema = Array<{
-  property: "title" | "createdAt";
-  direction: "asc" | "desc";
-}>;
+export const AuditLogActionSchema = {
+  POST_CREATED: "post.created",
+  POST_UPDATED: "post.updated",
+  POST_PUBLISHED: "post.published",
+  POST_SCHEDULED: "post.scheduled",
+  POST_UNPUBLISHED: "post.unpublished",
+  POST_VERSION_RESTORED: "post.version-restored",
+  COMMENT_CREATED: "comment.created",
+  COMMENT_EDITED: "comment.edited",
+  COMMENT_DELETED: "comment.deleted",
+  COMMENT_STATUS_CHANGED: "comment.status-changed",
+  AUTH_SIGNED_UP: "auth.signed-up",
+  AUTH_SIGNED_IN: "auth.signed-in",
+  AUTH_SIGN_IN_FAILED: "auth.sign-in-failed",
+  AUTH_PASSWORD_CHANGED: "auth.password-changed",
+  AUTH_TWO_FACTOR_DISABLED: "auth.two-factor-disabled",
+} as const;
 
 /**
- * FilterQueryStringSchema
- * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
- * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
- * <br> Available properties: title
+ * AuditLogActionSchema
+ * What has been done, prefixed by the kind of target
  */
-export type FilterQueryStringSchema = Array<{
-  property: "title";
-  rule:
-    | "eq"
-    | "neq"
-    | "gt"
-    | "gte"
-    | "lt"
-    | "lte"
-    | "like"
-    | "nlike"
-    | "in"
-    | "nin"
-    | "isnull"
-    | "isnotnull";
-  value?: string;
-}>;
+export type AuditLogActionSchema =
+  (typeof AuditLogActionSchema)[keyof typeof AuditLogActionSchema];
 
-export type CommentsControllerPostSlug = string;
+/**
+ * AuditLogTargetTypeSchema
+ * The kind of entity the action applies to
+ */
+export const AuditLogTargetTypeSchema = {
+  POST: "post",
+  COMMENT: "comment",
+  USER: "user",
+} as const;
 
-export type AppControllerGetHelloData = {
-  body?: never;
-  path?: never;
-  query?: never;
-  url: "/api";
+/**
+ * AuditLogTargetTypeSchema
+ * The kind of entity the action applies to
+ */
+export type AuditLogTargetTypeSchema =
+  (typeof AuditLogTargetTypeSchema)[keyof typeof AuditLogTargetTypeSchema];
+
+/**
+ * FileSchema
+ * Schema for an uploaded file
+ */
+export type FileSchema = {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  url: string;
+  width?: number | null;
+  height?: number | null;
+  /**
+   * Blurry low quality version of the image, as a data URL
+   */
+  placeholder?: string | null;
+  variants: Array<{
+    width: number;
+    height: number;
+    url: string;
+  }>;
+  createdAt: string;
 };
 
-export type AppControllerGetHelloResponses = {
-  200: unknown;
+/**
+ * FileVariantSchema
+ * Schema for a resized variant of an uploaded image
+ */
+export type FileVariantSchema = {
+  width: number;
+  height: number;
+  url: string;
 };
 
-export type PostControllerGetUserPostsData = {
-  body?: never;
-  path?: never;
-  query: {
-    /**
-     * FilterQueryStringSchema
-     * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
-     * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
-     * <br> Available properties: title
-     */
-    filter?: Array<{
-      property: "title";
-      rule:
-        | "eq"
-        | "neq"
-        | "gt"
-        | "gte"
-        | "lt"
-        | "lte"
-        | "like"
-        | "nlike"
-        | "in"
-        | "nin"
-        | "isnull"
-        | "isnotnull";
-      value?: string;
-    }>;
-    /**
-     * SortingQueryStringSchema
-     * Schema for sorting items
-     */
-    sort?: Array<{
-      property: "title" | "createdAt";
-      direction: "asc" | "desc";
-    }>;
-    /**
-     * Starting position of the query
-     */
+/**
+ * FilesSchema
+ * Schema for a paginated list of uploaded files
+ */
+export type FilesSchema = {
+  data: Array<FileSchema>;
+  meta: {
     offset: number;
-    /**
-     * Number of items to return
-     */
     pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
   };
-  url: "/api/admin/posts";
 };
 
-export type PostControllerGetUserPostsResponses = {
+/**
+ * ApiTokensSchema
+ * The personal API tokens of the logged in user, from the newest
+ */
+export type ApiTokensSchema = Array<ApiTokenSchema>;
+
+/**
+ * ApiTokenSchema
+ * A personal API token of the logged in user
+ */
+export type ApiTokenSchema = {
+  id: string;
+  name: string;
   /**
-   * Schema for a list of user's posts
+   * The first characters of the token, the token itself is only returned on creation
    */
-  200: UserPostsSchema;
+  start: string;
+  scopes: Array<
+    "posts:read" | "posts:write" | "comments:read" | "comments:write"
+  >;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
 };
 
-export type PostControllerGetUserPostsResponse =
-  PostControllerGetUserPostsResponses[keyof PostControllerGetUserPostsResponses];
+/**
+ * ApiTokenScopeSchema
+ * What a personal API token can do, e.g. "posts:write" to create and publish posts
+ */
+export const ApiTokenScopeSchema = {
+  "POSTS:READ": "posts:read",
+  "POSTS:WRITE": "posts:write",
+  "COMMENTS:READ": "comments:read",
+  "COMMENTS:WRITE": "comments:write",
+} as const;
 
-export type PostControllerCreatePostData = {
+/**
+ * ApiTokenScopeSchema
+ * What a personal API token can do, e.g. "posts:write" to create and publish posts
+ */
+export type ApiTokenScopeSchema =
+  (typeof ApiTokenScopeSchema)[keyof typeof ApiTokenScopeSchema];
+
+/**
+ * CreatedApiTokenSchema
+ * A personal API token, with its value
+ */
+export type CreatedApiTokenSchema = {
+  id: string;
+  name: string;
   /**
-   * CreatePostSchema
+   * The first characters of the token, the token itself is only returned on creation
+   */
+  start: string;
+  scopes: Array<ApiTokenScopeSchema>;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+  /**
+   * To send in the "Authorization: Bearer" header, it cannot be shown again
+   */
+  token: string;
+};
+
+/**
+ * OAuthProvidersSchema
+ * The enabled OAuth providers
+ */
+export type OAuthProvidersSchema = Array<OAuthProviderSchema>;
+
+/**
+ * OAuthProviderSchema
+ * An OAuth provider users can sign in with
+ */
+export type OAuthProviderSchema = {
+  id: "github" | "google" | "oidc";
+  name: string;
+  /**
+   * Social providers are used with signIn.social, the others with signIn.oauth2
+   */
+  type: "social" | "oauth2";
+};
+
+/**
+ * AuthPolicySchema
+ * The authentication rules the clients must enforce
+ */
+export type AuthPolicySchema = {
+  /**
+   * Whether the users must enable two-factor authentication to use the API
+   */
+  twoFactorRequired: boolean;
+};
+
+/**
+ * UserReactionsSchema
+ * Reactions of the current user on a post and its comments
+ */
+export type UserReactionsSchema = {
+  post: Array<ReactionKindSchema>;
+  comments: Array<{
+    commentId: string;
+    kinds: Array<ReactionKindSchema>;
+  }>;
+};
+
+/**
+ * ReactionKindSchema
+ * Kind of reaction, displayed as an emoji
+ */
+export const ReactionKindSchema = {
+  LIKE: "like",
+  LOVE: "love",
+  LAUGH: "laugh",
+  WOW: "wow",
+  SAD: "sad",
+  CELEBRATE: "celebrate",
+} as const;
+
+/**
+ * ReactionKindSchema
+ * Kind of reaction, displayed as an emoji
+ */
+export type ReactionKindSchema =
+  (typeof ReactionKindSchema)[keyof typeof ReactionKindSchema];
+
+/**
+ * ReactionSummarySchema
+ * Reactions on a post or a comment
+ */
+export type ReactionSummarySchema = {
+  counts: ReactionCountsSchema;
+  /**
+   * Reactions of the current user
+   */
+  userReactions: Array<ReactionKindSchema>;
+};
+
+/**
+ * ReactionCountsSchema
+ * Number of reactions of each kind
+ */
+export type ReactionCountsSchema = {
+  [key: string]: number;
+};
+
+/**
+ * PublicTagsSchema
+ * A list of tags with their number of published posts
+ */
+export type PublicTagsSchema = Array<PublicTagSchema>;
+
+/**
+ * PublicTagSchema
+ * A tag with the number of published posts using it
+ */
+export type PublicTagSchema = {
+  name: string;
+  slug: string;
+  postCount: number;
+};
+
+/**
+ * PostCollaboratorsSchema
+ * The collaborators of a post, the owner first
+ */
+export type PostCollaboratorsSchema = Array<PostCollaboratorSchema>;
+
+/**
+ * PostCollaboratorSchema
+ * A collaborator of a post, or an invitation to collaborate on it
+ */
+export type PostCollaboratorSchema = {
+  id: string;
+  email: string;
+  role: PostCollaboratorRoleSchema;
+  status: "pending" | "accepted" | "declined";
+  user: {
+    id: string;
+    name: string;
+  } | null;
+  createdAt: string;
+};
+
+/**
+ * PostCollaboratorRoleSchema
+ * owner: manages the post and its collaborators, editor: edits the drafts, viewer: only reads the drafts
+ */
+export const PostCollaboratorRoleSchema = {
+  OWNER: "owner",
+  EDITOR: "editor",
+  VIEWER: "viewer",
+} as const;
+
+/**
+ * PostCollaboratorRoleSchema
+ * owner: manages the post and its collaborators, editor: edits the drafts, viewer: only reads the drafts
+ */
+export type PostCollaboratorRoleSchema =
+  (typeof PostCollaboratorRoleSchema)[keyof typeof PostCollaboratorRoleSchema];
+
+/**
+ * PostInvitationsSchema
+ * The pending invitations of the logged in user, from the newest
+ */
+export type PostInvitationsSchema = Array<PostInvitationSchema>;
+
+/**
+ * PostInvitationSchema
+ * A pending invitation to collaborate on a post
+ */
+export type PostInvitationSchema = {
+  id: string;
+  /**
+   * PostCollaboratorRoleSchema
+   * owner: manages the post and its collaborators, editor: edits the drafts, viewer: only reads the drafts
+   */
+  role: "owner" | "editor" | "viewer";
+  post: {
+    id: string;
+    title: string;
+  };
+  invitedBy: {
+    name: string;
+  } | null;
+  createdAt: string;
+};
+
+/**
+ * UserPostSchema
+ * Schema for a user's post
+ */
+export type UserPostSchema = {
+  id: string;
+  slug?: string | null;
+  title: string;
+  content: Array<PostContentSchema>;
+  versions: Array<PostVersionSchema>;
+  publishedAt?: string | null;
+  scheduledAt?: string | null;
+  type: "published" | "draft" | "scheduled";
+  tags: Array<TagSchema>;
+  commentModeration: CommentModerationSchema;
+  commentCount?: number;
+  /**
+   * Role of the logged in user on the post, null for the admins who do not collaborate on it
+   */
+  role: ("owner" | "editor" | "viewer") | null;
+};
+
+/**
+ * PostContentSchema
+ * Schema for content items (text, image, video, markdown, heading, quote, code, list)
+ */
+export type PostContentSchema =
+  | {
+      type: "text";
+      data: string;
+    }
+  | {
+      type: "image";
+      /**
+       * PostImageSchema
+       * Schema for the data of an image content item
+       */
+      data: {
+        src: string;
+        alt: string;
+        width?: number;
+        height?: number;
+        /**
+         * Blurry low quality version of the image, as a data URL
+         */
+        placeholder?: string;
+        variants?: Array<{
+          src: string;
+          width: number;
+          height: number;
+        }>;
+      };
+    }
+  | {
+      type: "video";
+      data: string;
+    }
+  | {
+      type: "markdown";
+      /**
+       * GitHub Flavored Markdown. Raw HTML is not rendered
+       */
+      data: string;
+    }
+  | {
+      type: "heading";
+      data: {
+        text: string;
+        level: number;
+      };
+    }
+  | {
+      type: "quote";
+      data: {
+        text: string;
+        citation?: string;
+      };
+    }
+  | {
+      type: "code";
+      data: {
+        code: string;
+        language?: string;
+      };
+    }
+  | {
+      type: "list";
+      data: {
+        ordered: boolean;
+        items: Array<string>;
+      };
+    };
+
+/**
+ * PostVersionSchema
+ * Schema for a post version
+ */
+export type PostVersionSchema = {
+  id: string;
+  title: string;
+  createdAt: string;
+};
+
+/**
+ * TagSchema
+ * Schema for a tag
+ */
+export type TagSchema = {
+  name: string;
+  slug: string;
+};
+
+/**
+ * CommentModerationSchema
+ * open: comments are published right away, moderated: comments wait for the author approval, closed: no new comments
+ */
+export const CommentModerationSchema = {
+  OPEN: "open",
+  MODERATED: "moderated",
+  CLOSED: "closed",
+} as const;
+
+/**
+ * CommentModerationSchema
+ * open: comments are published right away, moderated: comments wait for the author approval, closed: no new comments
+ */
+export type CommentModerationSchema =
+  (typeof CommentModerationSchema)[keyof typeof CommentModerationSchema];
+
+/**
+ * PostVersionDiffSchema
+ * Schema for a block-level diff between two post versions
+ */
+export type PostVersionDiffSchema = {
+  from: PostVersionSchema;
+  to: PostVersionSchema;
+  titleChanged: boolean;
+  blocks: Array<PostContentDiffSchema>;
+};
+
+/**
+ * PostContentDiffSchema
+ * Schema for a content block in a diff between two post versions
+ */
+export type PostContentDiffSchema = {
+  status: "added" | "removed" | "modified" | "unchanged";
+  /**
+   * PostContentSchema
+   * Schema for content items (text, image, video, markdown, heading, quote, code, list)
+   */
+  before?:
+    | {
+        type: "text";
+        data: string;
+      }
+    | {
+        type: "image";
+        /**
+         * PostImageSchema
+         * Schema for the data of an image content item
+         */
+        data: {
+          src: string;
+          alt: string;
+          width?: number;
+          height?: number;
+          /**
+           * Blurry low quality version of the image, as a data URL
+           */
+          placeholder?: string;
+          variants?: Array<{
+            src: string;
+            width: number;
+            height: number;
+          }>;
+        };
+      }
+    | {
+        type: "video";
+        data: string;
+      }
+    | {
+        type: "markdown";
+        /**
+         * GitHub Flavored Markdown. Raw HTML is not rendered
+         */
+        data: string;
+      }
+    | {
+        type: "heading";
+        data: {
+          text: string;
+          level: number;
+        };
+      }
+    | {
+        type: "quote";
+        data: {
+          text: string;
+          citation?: string;
+        };
+      }
+    | {
+        type: "code";
+        data: {
+          code: string;
+          language?: string;
+        };
+      }
+    | {
+        type: "list";
+        data: {
+          ordered: boolean;
+          items: Array<string>;
+        };
+      };
+  /**
+   * PostContentSchema
+   * Schema for content items (text, image, video, markdown, heading, quote, code, list)
+   */
+  after?:
+    | {
+        type: "text";
+        data: string;
+      }
+    | {
+        type: "image";
+        /**
+         * PostImageSchema
+         * Schema for the data of an image content item
+         */
+        data: {
+          src: string;
+          alt: string;
+          width?: number;
+          height?: number;
+          /**
+           * Blurry low quality version of the image, as a data URL
+           */
+          placeholder?: string;
+          variants?: Array<{
+            src: string;
+            width: number;
+            height: number;
+          }>;
+        };
+      }
+    | {
+        type: "video";
+        data: string;
+      }
+    | {
+        type: "markdown";
+        /**
+         * GitHub Flavored Markdown. Raw HTML is not rendered
+         */
+        data: string;
+      }
+    | {
+        type: "heading";
+        data: {
+          text: string;
+          level: number;
+        };
+      }
+    | {
+        type: "quote";
+        data: {
+          text: string;
+          citation?: string;
+        };
+      }
+    | {
+        type: "code";
+        data: {
+          code: string;
+          language?: string;
+        };
+      }
+    | {
+        type: "list";
+        data: {
+          ordered: boolean;
+          items: Array<string>;
+        };
+      };
+};
+
+/**
+ * PostVersionDetailSchema
+ * Schema for a post version with its content
+ */
+export type PostVersionDetailSchema = {
+  id: string;
+  title: string;
+  createdAt: string;
+  content: Array<PostContentSchema>;
+};
+
+/**
+ * UserPostsSchema
+ * Schema for a list of user's posts
+ */
+export type UserPostsSchema = {
+  data: Array<{
+    id: string;
+    slug?: string | null;
+    title: string;
+    versions: Array<PostVersionSchema>;
+    publishedAt?: string | null;
+    scheduledAt?: string | null;
+    type: "published" | "draft" | "scheduled";
+    tags: Array<TagSchema>;
+    commentCount?: number;
+    /**
+     * Role of the logged in user on the post, null for the admins who do not collaborate on it
+     */
+    role: ("owner" | "editor" | "viewer") | null;
+    contentPreview: PostTextContentSchema;
+    author: {
+      id: string;
+      name: string;
+    };
+  }>;
+  meta: {
+    offset: number;
+    pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * PostTextContentSchema
+ * Schema for a text content item
+ */
+export type PostTextContentSchema = {
+  type: "text";
+  data: string;
+};
+
+/**
+ * PublicPostSchema
+ * A public post
+ */
+export type PublicPostSchema = {
+  title: string;
+  authors: Array<{
+    name: string;
+    handle: string;
+  }>;
+  content: Array<PostContentSchema>;
+  publishedAt: string;
+  slug?: string;
+  tags: Array<TagSchema>;
+  commentModeration: CommentModerationSchema;
+  commentCount?: number;
+  reactions: ReactionCountsSchema;
+};
+
+/**
+ * PublicPostsSchema
+ * A list of public posts
+ */
+export type PublicPostsSchema = {
+  data: Array<{
+    title: string;
+    authors: Array<{
+      name: string;
+      handle: string;
+    }>;
+    publishedAt: string;
+    slug?: string;
+    tags: Array<{
+      name: string;
+      slug: string;
+    }>;
+    commentCount?: number;
+    /**
+     * ReactionCountsSchema
+     * Number of reactions of each kind
+     */
+    reactions: {
+      [key: string]: number;
+    };
+    /**
+     * PostTextContentSchema
+     * Schema for a text content item
+     */
+    contentPreview: {
+      type: "text";
+      data: string;
+    };
+    /**
+     * PublicPostSnippetSchema
+     * A snippet of the text matching a search query
+     */
+    snippet?: Array<{
+      text: string;
+      highlighted: boolean;
+    }>;
+  }>;
+  meta: {
+    offset: number;
+    pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * PublicPostSnippetSchema
+ * A snippet of the text matching a search query
+ */
+export type PublicPostSnippetSchema = Array<{
+  text: string;
+  highlighted: boolean;
+}>;
+
+/**
+ * PublicAuthorSchema
+ * The public profile of an author
+ */
+export type PublicAuthorSchema = {
+  name: string;
+  handle: string;
+  bio: string | null;
+  image: string | null;
+  links: Array<AuthorLinkSchema>;
+};
+
+/**
+ * AuthorLinkSchema
+ * A link of an author profile, e.g. a website or a social network
+ */
+export type AuthorLinkSchema = {
+  label: string;
+  url: string;
+};
+
+/**
+ * PublicAuthorWithPostsSchema
+ * The public profile of an author, with a page of their published posts
+ */
+export type PublicAuthorWithPostsSchema = {
+  name: string;
+  handle: string;
+  bio: string | null;
+  image: string | null;
+  links: Array<AuthorLinkSchema>;
+  posts: PublicPostsSchema;
+};
+
+/**
+ * NotificationsSchema
+ * Schema for a paginated list of notifications, from the newest
+ */
+export type NotificationsSchema = {
+  data: Array<NotificationSchema>;
+  meta: {
+    offset: number;
+    pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * NotificationSchema
+ * Schema for a notification
+ */
+export type NotificationSchema = {
+  id: string;
+  type: NotificationTypeSchema;
+  /**
+   * Name of the author of the comment
+   */
+  actorName: string;
+  post: {
+    id: string;
+    title: string;
+    slug?: string | null;
+  };
+  comment: {
+    id: string;
+    /**
+     * Beginning of the comment, empty if it has been removed
+     */
+    excerpt: string;
+  };
+  /**
+   * Link to the post on the public website, null if the post is not published
+   */
+  url: string | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+/**
+ * NotificationTypeSchema
+ * A comment on one of your posts, or a reply to one of your comments
+ */
+export const NotificationTypeSchema = {
+  COMMENT: "comment",
+  REPLY: "reply",
+} as const;
+
+/**
+ * NotificationTypeSchema
+ * A comment on one of your posts, or a reply to one of your comments
+ */
+export type NotificationTypeSchema =
+  (typeof NotificationTypeSchema)[keyof typeof NotificationTypeSchema];
+
+/**
+ * UnreadNotificationsCountSchema
+ * Number of notifications not read yet
+ */
+export type UnreadNotificationsCountSchema = {
+  count: number;
+};
+
+/**
+ * MarkNotificationsReadResultSchema
+ * Number of notifications marked as read
+ */
+export type MarkNotificationsReadResultSchema = {
+  updated: number;
+};
+
+/**
+ * NotificationPreferencesSchema
+ * Schema for the email notification settings of a user
+ */
+export type NotificationPreferencesSchema = {
+  emailFrequency: EmailFrequencySchema;
+  /**
+   * Send the comments on my posts by email
+   */
+  emailComments: boolean;
+  /**
+   * Send the replies to my comments by email
+   */
+  emailReplies: boolean;
+};
+
+/**
+ * EmailFrequencySchema
+ * How often the notifications are sent by email: never, right away, or in a daily or weekly digest
+ */
+export const EmailFrequencySchema = {
+  NEVER: "never",
+  IMMEDIATE: "immediate",
+  DAILY: "daily",
+  WEEKLY: "weekly",
+} as const;
+
+/**
+ * EmailFrequencySchema
+ * How often the notifications are sent by email: never, right away, or in a daily or weekly digest
+ */
+export type EmailFrequencySchema =
+  (typeof EmailFrequencySchema)[keyof typeof EmailFrequencySchema];
+
+/**
+ * UnsubscribeResultSchema
+ * Whether the user has been unsubscribed from the notification emails
+ */
+export type UnsubscribeResultSchema = {
+  success: boolean;
+};
+
+/**
+ * CommentSchema
+ * Schema for a comment
+ */
+export type CommentSchema = {
+  id: string;
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+  } | null;
+  parentId: string | null;
+  status: CommentStatusSchema;
+  /**
+   * Date of the last edit, null if the comment has never been edited
+   */
+  editedAt: string | null;
+  /**
+   * Date until which the author can edit the comment
+   */
+  editableUntil: string;
+  /**
+   * Deleted comments are kept in the thread without their content and author
+   */
+  deleted: boolean;
+  reactions: ReactionCountsSchema;
+  replyIds?: Array<string>;
+  replyCount?: number;
+};
+
+/**
+ * CommentStatusSchema
+ * Moderation status of a comment. Only approved comments are public
+ */
+export const CommentStatusSchema = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  SPAM: "spam",
+} as const;
+
+/**
+ * CommentStatusSchema
+ * Moderation status of a comment. Only approved comments are public
+ */
+export type CommentStatusSchema =
+  (typeof CommentStatusSchema)[keyof typeof CommentStatusSchema];
+
+/**
+ * CommentsSchema
+ * Schema for a paginated list of comments
+ */
+export type CommentsSchema = {
+  data: Array<CommentSchema>;
+  meta: {
+    offset: number;
+    pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * CommentRevisionsSchema
+ * Schema for the previous contents of a comment, from the latest to the oldest
+ */
+export type CommentRevisionsSchema = Array<CommentRevisionSchema>;
+
+/**
+ * CommentRevisionSchema
+ * Schema for a previous content of an edited comment
+ */
+export type CommentRevisionSchema = {
+  id: string;
+  content: string;
+  createdAt: string;
+};
+
+/**
+ * AdminCommentsSchema
+ * Schema for a paginated list of comments to moderate
+ */
+export type AdminCommentsSchema = {
+  data: Array<AdminCommentSchema>;
+  meta: {
+    offset: number;
+    pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * AdminCommentSchema
+ * Schema for a comment in the moderation queue
+ */
+export type AdminCommentSchema = {
+  id: string;
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+  } | null;
+  parentId: string | null;
+  /**
+   * CommentStatusSchema
+   * Moderation status of a comment. Only approved comments are public
+   */
+  status: "pending" | "approved" | "rejected" | "spam";
+  /**
+   * Date of the last edit, null if the comment has never been edited
+   */
+  editedAt: string | null;
+  /**
+   * Date until which the author can edit the comment
+   */
+  editableUntil: string;
+  /**
+   * Deleted comments are kept in the thread without their content and author
+   */
+  deleted: boolean;
+  post: {
+    id: string;
+    title: string;
+    slug?: string | null;
+  };
+};
+
+/**
+ * CommentStatusCountsSchema
+ * Number of comments per moderation status
+ */
+export type CommentStatusCountsSchema = {
+  [key: string]: number;
+};
+
+/**
+ * UpdateCommentsStatusResultSchema
+ * Number of comments whose status has been changed
+ */
+export type UpdateCommentsStatusResultSchema = {
+  updated: number;
+};
+
+/**
+ * AdminUsersSchema
+ * Schema for a paginated list of users, from the newest
+ */
+export type AdminUsersSchema = {
+  data: Array<AdminUserSchema>;
+  meta: {
+    offset: number;
+    pageSize: number;
+    itemCount: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * AdminUserSchema
+ * Schema for a user, as seen by the admins
+ */
+export type AdminUserSchema = {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRoleSchema;
+  createdAt: string;
+};
+
+/**
+ * UserRoleSchema
+ * Users manage their own posts and comments, editors moderate all the comments, admins manage everything
+ */
+export const UserRoleSchema = {
+  USER: "user",
+  EDITOR: "editor",
+  ADMIN: "admin",
+} as const;
+
+/**
+ * UserRoleSchema
+ * Users manage their own posts and comments, editors moderate all the comments, admins manage everything
+ */
+export type UserRoleSchema =
+  (typeof UserRoleSchema)[keyof typeof UserRoleSchema];
+
+/**
+ * PaginationQuerySchema
+ * Schema for pagination query
+ */
+export type PaginationQuerySchema = {
+  /**
+   * Starting position of the query
+   */
+  offset: number;
+  /**
+   * Number of items to return
+   */
+  pageSize: number;
+};
+
+export type ReactionsControllerPostSlug = string;
+
+export type PostCollaboratorsControllerPostId = string;
+
+/**
+ * SortingQueryStringSchema
+ * Schema for sorting items
+ */
+export type SortingQueryStringSchema = Array<{
+  property: "createdAt" | "authorName";
+  direction: "asc" | "desc";
+}>;
+
+/**
+ * FilterQueryStringSchema
+ * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
+ * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
+ * <br> Available properties: content
+ */
+export type FilterQueryStringSchema = Array<{
+  property: "content";
+  rule:
+    | "eq"
+    | "neq"
+    | "gt"
+    | "gte"
+    | "lt"
+    | "lte"
+    | "like"
+    | "nlike"
+    | "in"
+    | "nin"
+    | "isnull"
+    | "isnotnull";
+  value?: string;
+}>;
+
+/**
+ * CommentEventSchema
+ * Schema for a comment published, edited or removed on a post
+ */
+export type CommentEventSchema =
+  | {
+      type: "created";
+      /**
+       * CommentSchema
+       * Schema for a comment
+       */
+      comment: {
+        id: string;
+        content: string;
+        authorName: string | null;
+        createdAt: string;
+        user: {
+          id: string;
+          name: string;
+        } | null;
+        parentId: string | null;
+        /**
+         * CommentStatusSchema
+         * Moderation status of a comment. Only approved comments are public
+         */
+        status: "pending" | "approved" | "rejected" | "spam";
+        /**
+         * Date of the last edit, null if the comment has never been edited
+         */
+        editedAt: string | null;
+        /**
+         * Date until which the author can edit the comment
+         */
+        editableUntil: string;
+        /**
+         * Deleted comments are kept in the thread without their content and author
+         */
+        deleted: boolean;
+        /**
+         * ReactionCountsSchema
+         * Number of reactions of each kind
+         */
+        reactions: {
+          [key: string]: number;
+        };
+        replyIds?: Array<string>;
+        replyCount?: number;
+      };
+    }
+  | {
+      type: "edited";
+      /**
+       * CommentSchema
+       * Schema for a comment
+       */
+      comment: {
+        id: string;
+        content: string;
+        authorName: string | null;
+        createdAt: string;
+        user: {
+          id: string;
+          name: string;
+        } | null;
+        parentId: string | null;
+        /**
+         * CommentStatusSchema
+         * Moderation status of a comment. Only approved comments are public
+         */
+        status: "pending" | "approved" | "rejected" | "spam";
+        /**
+         * Date of the last edit, null if the comment has never been edited
+         */
+        editedAt: string | null;
+        /**
+         * Date until which the author can edit the comment
+         */
+        editableUntil: string;
+        /**
+         * Deleted comments are kept in the thread without their content and author
+         */
+        deleted: boolean;
+        /**
+         * ReactionCountsSchema
+         * Number of reactions of each kind
+         */
+        reactions: {
+          [key: string]: number;
+        };
+        replyIds?: Array<string>;
+        replyCount?: number;
+      };
+    }
+  | {
+      type: "deleted";
+      commentId: string;
+      parentId: string | null;
+    };
+
+export type CommentsControllerPostSlug = string;
+
+export type AppControllerGetHelloData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api";
+};
+
+export type AppControllerGetHelloResponses = {
+  200: unknown;
+};
+
+export type PublicAuthControllerGetOAuthProvidersData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api/public/auth/providers";
+};
+
+export type PublicAuthControllerGetOAuthProvidersResponses = {
+  /**
+   * The enabled OAuth providers
+   */
+  200: OAuthProvidersSchema;
+};
+
+export type PublicAuthControllerGetOAuthProvidersResponse =
+  PublicAuthControllerGetOAuthProvidersResponses[keyof PublicAuthControllerGetOAuthProvidersResponses];
+
+export type PublicAuthControllerGetAuthPolicyData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api/public/auth/policy";
+};
+
+export type PublicAuthControllerGetAuthPolicyResponses = {
+  /**
+   * The authentication rules the clients must enforce
+   */
+  200: AuthPolicySchema;
+};
+
+export type PublicAuthControllerGetAuthPolicyResponse =
+  PublicAuthControllerGetAuthPolicyResponses[keyof PublicAuthControllerGetAuthPolicyResponses];
+
+export type ApiTokensControllerGetApiTokensData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api/api-tokens";
+};
+
+export type ApiTokensControllerGetApiTokensResponses = {
+  /**
+   * The personal API tokens of the logged in user, from the newest
+   */
+  200: ApiTokensSchema;
+};
+
+export type ApiTokensControllerGetApiTokensResponse =
+  ApiTokensControllerGetApiTokensResponses[keyof ApiTokensControllerGetApiTokensResponses];
+
+export type ApiTokensControllerCreateApiTokenData = {
+  /**
+   * CreateApiTokenSchema
+   * Schema for creating a personal API token
+   */
+  body: {
+    name: string;
+    scopes: Array<
+      "posts:read" | "posts:write" | "comments:read" | "comments:write"
+    >;
+    expiresInDays: number;
+  };
+  path?: never;
+  query?: never;
+  url: "/api/api-tokens";
+};
+
+export type ApiTokensControllerCreateApiTokenResponses = {
+  /**
+   * A personal API token, with its value
+   */
+  200: CreatedApiTokenSchema;
+};
+
+export type ApiTokensControllerCreateApiTokenResponse =
+  ApiTokensControllerCreateApiTokenResponses[keyof ApiTokensControllerCreateApiTokenResponses];
+
+export type ApiTokensControllerDeleteApiTokenData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/api-tokens/{id}";
+};
+
+export type ApiTokensControllerDeleteApiTokenResponses = {
+  200: unknown;
+};
+
+export type FilesControllerGetFilesData = {
+  body?: never;
+  path?: never;
+  query: {
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
+  };
+  url: "/api/admin/files";
+};
+
+export type FilesControllerGetFilesResponses = {
+  /**
+   * Schema for a paginated list of uploaded files
+   */
+  200: FilesSchema;
+};
+
+export type FilesControllerGetFilesResponse =
+  FilesControllerGetFilesResponses[keyof FilesControllerGetFilesResponses];
+
+export type FilesControllerUploadFileData = {
+  body: {
+    file: Blob | File;
+  };
+  path?: never;
+  query?: never;
+  url: "/api/admin/files";
+};
+
+export type FilesControllerUploadFileResponses = {
+  /**
+   * Schema for an uploaded file
+   */
+  200: FileSchema;
+};
+
+export type FilesControllerUploadFileResponse =
+  FilesControllerUploadFileResponses[keyof FilesControllerUploadFileResponses];
+
+export type FilesControllerDeleteFileData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/files/{id}";
+};
+
+export type FilesControllerDeleteFileResponses = {
+  200: unknown;
+};
+
+export type PublicFilesControllerGetFileData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/public/files/{id}";
+};
+
+export type PublicFilesControllerGetFileResponses = {
+  200: unknown;
+};
+
+export type PublicFilesControllerGetFileVariantData = {
+  body?: never;
+  path: {
+    width: number;
+    id: string;
+  };
+  query?: never;
+  url: "/api/public/files/{id}/variants/{width}";
+};
+
+export type PublicFilesControllerGetFileVariantResponses = {
+  200: unknown;
+};
+
+export type PostControllerGetUserPostsData = {
+  body?: never;
+  path?: never;
+  query: {
+    /**
+     * own: the posts of the logged in user (default), all: the posts of every user, for admins only
+     */
+    scope?: "own" | "all";
+    /**
+     * FilterQueryStringSchema
+     * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
+     * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
+     * <br> Available properties: title, tag
+     */
+    filter?: Array<{
+      property: "title" | "tag";
+      rule:
+        | "eq"
+        | "neq"
+        | "gt"
+        | "gte"
+        | "lt"
+        | "lte"
+        | "like"
+        | "nlike"
+        | "in"
+        | "nin"
+        | "isnull"
+        | "isnotnull";
+      value?: string;
+    }>;
+    /**
+     * SortingQueryStringSchema
+     * Schema for sorting items
+     */
+    sort?: Array<{
+      property: "title" | "createdAt";
+      direction: "asc" | "desc";
+    }>;
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
+  };
+  url: "/api/admin/posts";
+};
+
+export type PostControllerGetUserPostsResponses = {
+  /**
+   * Schema for a list of user's posts
+   */
+  200: UserPostsSchema;
+};
+
+export type PostControllerGetUserPostsResponse =
+  PostControllerGetUserPostsResponses[keyof PostControllerGetUserPostsResponses];
+
+export type PostControllerCreatePostData = {
+  /**
+   * CreatePostSchema
    * Schema for creating/updating a post
    */
   body: {
-    title: string;
+    title: string;
+    /**
+     * PostContentSchema
+     * Schema for content items (text, image, video, markdown, heading, quote, code, list)
+     */
+    content: Array<
+      | {
+          type: "text";
+          data: string;
+        }
+      | {
+          type: "image";
+          /**
+           * PostImageSchema
+           * Schema for the data of an image content item
+           */
+          data: {
+            src: string;
+            alt: string;
+            width?: number;
+            height?: number;
+            /**
+             * Blurry low quality version of the image, as a data URL
+             */
+            placeholder?: string;
+            variants?: Array<{
+              src: string;
+              width: number;
+              height: number;
+            }>;
+          };
+        }
+      | {
+          type: "video";
+          data: string;
+        }
+      | {
+          type: "markdown";
+          /**
+           * GitHub Flavored Markdown. Raw HTML is not rendered
+           */
+          data: string;
+        }
+      | {
+          type: "heading";
+          data: {
+            text: string;
+            level: number;
+          };
+        }
+      | {
+          type: "quote";
+          data: {
+            text: string;
+            citation?: string;
+          };
+        }
+      | {
+          type: "code";
+          data: {
+            code: string;
+            language?: string;
+          };
+        }
+      | {
+          type: "list";
+          data: {
+            ordered: boolean;
+            items: Array<string>;
+          };
+        }
+    >;
+    /**
+     * Names of the tags of the post
+     */
+    tags?: Array<string>;
+    /**
+     * CommentModerationSchema
+     * open: comments are published right away, moderated: comments wait for the author approval, closed: no new comments
+     */
+    commentModeration?: "open" | "moderated" | "closed";
+  };
+  path?: never;
+  query?: never;
+  url: "/api/admin/posts";
+};
+
+export type PostControllerCreatePostResponses = {
+  /**
+   * Schema for a user's post
+   */
+  200: UserPostSchema;
+};
+
+export type PostControllerCreatePostResponse =
+  PostControllerCreatePostResponses[keyof PostControllerCreatePostResponses];
+
+export type PostControllerGetUserPostData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{id}";
+};
+
+export type PostControllerGetUserPostResponses = {
+  /**
+   * Schema for a user's post
+   */
+  200: UserPostSchema;
+};
+
+export type PostControllerGetUserPostResponse =
+  PostControllerGetUserPostResponses[keyof PostControllerGetUserPostResponses];
+
+export type PostControllerUpdatePostData = {
+  /**
+   * UpdatePostSchema
+   * Schema for updating a post
+   */
+  body: {
+    title?: string;
+    /**
+     * PostContentSchema
+     * Schema for content items (text, image, video, markdown, heading, quote, code, list)
+     */
+    content?: Array<
+      | {
+          type: "text";
+          data: string;
+        }
+      | {
+          type: "image";
+          /**
+           * PostImageSchema
+           * Schema for the data of an image content item
+           */
+          data: {
+            src: string;
+            alt: string;
+            width?: number;
+            height?: number;
+            /**
+             * Blurry low quality version of the image, as a data URL
+             */
+            placeholder?: string;
+            variants?: Array<{
+              src: string;
+              width: number;
+              height: number;
+            }>;
+          };
+        }
+      | {
+          type: "video";
+          data: string;
+        }
+      | {
+          type: "markdown";
+          /**
+           * GitHub Flavored Markdown. Raw HTML is not rendered
+           */
+          data: string;
+        }
+      | {
+          type: "heading";
+          data: {
+            text: string;
+            level: number;
+          };
+        }
+      | {
+          type: "quote";
+          data: {
+            text: string;
+            citation?: string;
+          };
+        }
+      | {
+          type: "code";
+          data: {
+            code: string;
+            language?: string;
+          };
+        }
+      | {
+          type: "list";
+          data: {
+            ordered: boolean;
+            items: Array<string>;
+          };
+        }
+    >;
+    /**
+     * Names of the tags of the post
+     */
+    tags?: Array<string>;
+    /**
+     * CommentModerationSchema
+     * open: comments are published right away, moderated: comments wait for the author approval, closed: no new comments
+     */
+    commentModeration?: "open" | "moderated" | "closed";
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{id}";
+};
+
+export type PostControllerUpdatePostResponses = {
+  /**
+   * Schema for a user's post
+   */
+  200: UserPostSchema;
+};
+
+export type PostControllerUpdatePostResponse =
+  PostControllerUpdatePostResponses[keyof PostControllerUpdatePostResponses];
+
+export type PostControllerPublishPostData = {
+  body?: PublishPostSchema;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{id}/publish";
+};
+
+export type PostControllerPublishPostResponses = {
+  /**
+   * Schema for a user's post
+   */
+  200: UserPostSchema;
+};
+
+export type PostControllerPublishPostResponse =
+  PostControllerPublishPostResponses[keyof PostControllerPublishPostResponses];
+
+export type PostControllerUnpublishPostData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{id}/unpublish";
+};
+
+export type PostControllerUnpublishPostResponses = {
+  200: unknown;
+};
+
+export type PostControllerDiffPostVersionsData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query: {
+    to: string;
+    from: string;
+  };
+  url: "/api/admin/posts/{id}/versions/diff";
+};
+
+export type PostControllerDiffPostVersionsResponses = {
+  /**
+   * Schema for a block-level diff between two post versions
+   */
+  200: PostVersionDiffSchema;
+};
+
+export type PostControllerDiffPostVersionsResponse =
+  PostControllerDiffPostVersionsResponses[keyof PostControllerDiffPostVersionsResponses];
+
+export type PostControllerGetPostVersionData = {
+  body?: never;
+  path: {
+    versionId: string;
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{id}/versions/{versionId}";
+};
+
+export type PostControllerGetPostVersionResponses = {
+  /**
+   * Schema for a post version with its content
+   */
+  200: PostVersionDetailSchema;
+};
+
+export type PostControllerGetPostVersionResponse =
+  PostControllerGetPostVersionResponses[keyof PostControllerGetPostVersionResponses];
+
+export type PostControllerRestorePostVersionData = {
+  body?: never;
+  path: {
+    versionId: string;
+    id: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{id}/versions/{versionId}/restore";
+};
+
+export type PostControllerRestorePostVersionResponses = {
+  /**
+   * Schema for a user's post
+   */
+  200: UserPostSchema;
+};
+
+export type PostControllerRestorePostVersionResponse =
+  PostControllerRestorePostVersionResponses[keyof PostControllerRestorePostVersionResponses];
+
+export type PublicPostControllerGetRandomPostData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api/public/posts/random";
+};
+
+export type PublicPostControllerGetRandomPostResponses = {
+  /**
+   * A public post
+   */
+  200: PublicPostSchema;
+};
+
+export type PublicPostControllerGetRandomPostResponse =
+  PublicPostControllerGetRandomPostResponses[keyof PublicPostControllerGetRandomPostResponses];
+
+export type PublicPostControllerGetPostData = {
+  body?: never;
+  path: {
+    slug: string;
+  };
+  query?: never;
+  url: "/api/public/posts/{slug}";
+};
+
+export type PublicPostControllerGetPostResponses = {
+  /**
+   * A public post
+   */
+  200: PublicPostSchema;
+};
+
+export type PublicPostControllerGetPostResponse =
+  PublicPostControllerGetPostResponses[keyof PublicPostControllerGetPostResponses];
+
+export type PublicPostControllerGetPostsData = {
+  body?: never;
+  path?: never;
+  query: {
+    /**
+     * Full-text search query. When set, posts are ranked by relevance
+     */
+    q?: string;
+    /**
+     * FilterQueryStringSchema
+     * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
+     * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
+     * <br> Available properties: title, tag
+     */
+    filter?: Array<{
+      property: "title" | "tag";
+      rule:
+        | "eq"
+        | "neq"
+        | "gt"
+        | "gte"
+        | "lt"
+        | "lte"
+        | "like"
+        | "nlike"
+        | "in"
+        | "nin"
+        | "isnull"
+        | "isnotnull";
+      value?: string;
+    }>;
+    /**
+     * SortingQueryStringSchema
+     * Schema for sorting items
+     */
+    sort?: Array<{
+      property: "title" | "createdAt";
+      direction: "asc" | "desc";
+    }>;
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
+  };
+  url: "/api/public/posts";
+};
+
+export type PublicPostControllerGetPostsResponses = {
+  /**
+   * A list of public posts
+   */
+  200: PublicPostsSchema;
+};
+
+export type PublicPostControllerGetPostsResponse =
+  PublicPostControllerGetPostsResponses[keyof PublicPostControllerGetPostsResponses];
+
+export type PostCollaboratorsControllerGetCollaboratorsData = {
+  body?: never;
+  path: {
+    postId: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{postId}/collaborators";
+};
+
+export type PostCollaboratorsControllerGetCollaboratorsResponses = {
+  /**
+   * The collaborators of a post, the owner first
+   */
+  200: PostCollaboratorsSchema;
+};
+
+export type PostCollaboratorsControllerGetCollaboratorsResponse =
+  PostCollaboratorsControllerGetCollaboratorsResponses[keyof PostCollaboratorsControllerGetCollaboratorsResponses];
+
+export type PostCollaboratorsControllerInviteCollaboratorData = {
+  /**
+   * InvitePostCollaboratorSchema
+   * Schema for inviting someone to collaborate on a post
+   */
+  body: {
+    email: string;
+    role: "editor" | "viewer";
+  };
+  path: {
+    postId: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{postId}/collaborators";
+};
+
+export type PostCollaboratorsControllerInviteCollaboratorResponses = {
+  /**
+   * A collaborator of a post, or an invitation to collaborate on it
+   */
+  200: PostCollaboratorSchema;
+};
+
+export type PostCollaboratorsControllerInviteCollaboratorResponse =
+  PostCollaboratorsControllerInviteCollaboratorResponses[keyof PostCollaboratorsControllerInviteCollaboratorResponses];
+
+export type PostCollaboratorsControllerRemoveCollaboratorData = {
+  body?: never;
+  path: {
+    collaboratorId: string;
+    postId: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{postId}/collaborators/{collaboratorId}";
+};
+
+export type PostCollaboratorsControllerRemoveCollaboratorResponses = {
+  200: unknown;
+};
+
+export type PostCollaboratorsControllerUpdateCollaboratorData = {
+  /**
+   * UpdatePostCollaboratorSchema
+   * Schema for changing the role of a collaborator
+   */
+  body: {
+    role: "editor" | "viewer";
+  };
+  path: {
+    collaboratorId: string;
+    postId: string;
+  };
+  query?: never;
+  url: "/api/admin/posts/{postId}/collaborators/{collaboratorId}";
+};
+
+export type PostCollaboratorsControllerUpdateCollaboratorResponses = {
+  /**
+   * A collaborator of a post, or an invitation to collaborate on it
+   */
+  200: PostCollaboratorSchema;
+};
+
+export type PostCollaboratorsControllerUpdateCollaboratorResponse =
+  PostCollaboratorsControllerUpdateCollaboratorResponses[keyof PostCollaboratorsControllerUpdateCollaboratorResponses];
+
+export type PostInvitationsControllerGetInvitationsData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api/invitations";
+};
+
+export type PostInvitationsControllerGetInvitationsResponses = {
+  /**
+   * The pending invitations of the logged in user, from the newest
+   */
+  200: PostInvitationsSchema;
+};
+
+export type PostInvitationsControllerGetInvitationsResponse =
+  PostInvitationsControllerGetInvitationsResponses[keyof PostInvitationsControllerGetInvitationsResponses];
+
+export type PostInvitationsControllerAcceptInvitationData = {
+  body?: never;
+  path: {
+    invitationId: string;
+  };
+  query?: never;
+  url: "/api/invitations/{invitationId}/accept";
+};
+
+export type PostInvitationsControllerAcceptInvitationResponses = {
+  /**
+   * A collaborator of a post, or an invitation to collaborate on it
+   */
+  200: PostCollaboratorSchema;
+};
+
+export type PostInvitationsControllerAcceptInvitationResponse =
+  PostInvitationsControllerAcceptInvitationResponses[keyof PostInvitationsControllerAcceptInvitationResponses];
+
+export type PostInvitationsControllerDeclineInvitationData = {
+  body?: never;
+  path: {
+    invitationId: string;
+  };
+  query?: never;
+  url: "/api/invitations/{invitationId}/decline";
+};
+
+export type PostInvitationsControllerDeclineInvitationResponses = {
+  /**
+   * A collaborator of a post, or an invitation to collaborate on it
+   */
+  200: PostCollaboratorSchema;
+};
+
+export type PostInvitationsControllerDeclineInvitationResponse =
+  PostInvitationsControllerDeclineInvitationResponses[keyof PostInvitationsControllerDeclineInvitationResponses];
+
+export type PublicTagsControllerGetTagsData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/api/public/tags";
+};
+
+export type PublicTagsControllerGetTagsResponses = {
+  /**
+   * A list of tags with their number of published posts
+   */
+  200: PublicTagsSchema;
+};
+
+export type PublicTagsControllerGetTagsResponse =
+  PublicTagsControllerGetTagsResponses[keyof PublicTagsControllerGetTagsResponses];
+
+export type PublicTagsControllerGetTagData = {
+  body?: never;
+  path: {
+    slug: string;
+  };
+  query?: never;
+  url: "/api/public/tags/{slug}";
+};
+
+export type PublicTagsControllerGetTagResponses = {
+  /**
+   * A tag with the number of published posts using it
+   */
+  200: PublicTagSchema;
+};
+
+export type PublicTagsControllerGetTagResponse =
+  PublicTagsControllerGetTagResponses[keyof PublicTagsControllerGetTagResponses];
+
+export type ReactionsControllerGetUserReactionsData = {
+  body?: never;
+  path: {
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/reactions/me";
+};
+
+export type ReactionsControllerGetUserReactionsResponses = {
+  /**
+   * Reactions of the current user on a post and its comments
+   */
+  200: UserReactionsSchema;
+};
+
+export type ReactionsControllerGetUserReactionsResponse =
+  ReactionsControllerGetUserReactionsResponses[keyof ReactionsControllerGetUserReactionsResponses];
+
+export type ReactionsControllerTogglePostReactionData = {
+  /**
+   * ToggleReactionSchema
+   * Schema for adding a reaction, or removing it if it was already there
+   */
+  body: {
+    /**
+     * ReactionKindSchema
+     * Kind of reaction, displayed as an emoji
+     */
+    kind: "like" | "love" | "laugh" | "wow" | "sad" | "celebrate";
+  };
+  path: {
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/reactions";
+};
+
+export type ReactionsControllerTogglePostReactionResponses = {
+  /**
+   * Reactions on a post or a comment
+   */
+  200: ReactionSummarySchema;
+};
+
+export type ReactionsControllerTogglePostReactionResponse =
+  ReactionsControllerTogglePostReactionResponses[keyof ReactionsControllerTogglePostReactionResponses];
+
+export type ReactionsControllerToggleCommentReactionData = {
+  /**
+   * ToggleReactionSchema
+   * Schema for adding a reaction, or removing it if it was already there
+   */
+  body: {
+    /**
+     * ReactionKindSchema
+     * Kind of reaction, displayed as an emoji
+     */
+    kind: "like" | "love" | "laugh" | "wow" | "sad" | "celebrate";
+  };
+  path: {
+    commentId: string;
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/comments/{commentId}/reactions";
+};
+
+export type ReactionsControllerToggleCommentReactionResponses = {
+  /**
+   * Reactions on a post or a comment
+   */
+  200: ReactionSummarySchema;
+};
+
+export type ReactionsControllerToggleCommentReactionResponse =
+  ReactionsControllerToggleCommentReactionResponses[keyof ReactionsControllerToggleCommentReactionResponses];
+
+export type AdminAuditLogControllerGetAuditLogsData = {
+  body?: never;
+  path?: never;
+  query: {
+    /**
+     * Only return the entries of the actions done by this user
+     */
+    actorId?: string;
+    /**
+     * Only return the entries about this entity
+     */
+    targetId?: string;
+    /**
+     * AuditLogTargetTypeSchema
+     * Only return the entries about this kind of entity
+     */
+    targetType?: "post" | "comment" | "user";
+    /**
+     * AuditLogActionSchema
+     * Only return the entries of this action
+     */
+    action?:
+      | "post.created"
+      | "post.updated"
+      | "post.published"
+      | "post.scheduled"
+      | "post.unpublished"
+      | "post.version-restored"
+      | "comment.created"
+      | "comment.edited"
+      | "comment.deleted"
+      | "comment.status-changed"
+      | "auth.signed-up"
+      | "auth.signed-in"
+      | "auth.sign-in-failed"
+      | "auth.password-changed"
+      | "auth.two-factor-disabled";
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
+  };
+  url: "/api/admin/audit-log";
+};
+
+export type AdminAuditLogControllerGetAuditLogsResponses = {
+  /**
+   * Schema for a paginated list of audit log entries, from the newest
+   */
+  200: AuditLogsSchema;
+};
+
+export type AdminAuditLogControllerGetAuditLogsResponse =
+  AdminAuditLogControllerGetAuditLogsResponses[keyof AdminAuditLogControllerGetAuditLogsResponses];
+
+export type CommentsControllerGetCommentsData = {
+  body?: never;
+  path: {
+    postSlug: string;
+  };
+  query: {
+    /**
+     * FilterQueryStringSchema
+     * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
+     * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
+     * <br> Available properties: content
+     */
+    filter?: Array<{
+      property: "content";
+      rule:
+        | "eq"
+        | "neq"
+        | "gt"
+        | "gte"
+        | "lt"
+        | "lte"
+        | "like"
+        | "nlike"
+        | "in"
+        | "nin"
+        | "isnull"
+        | "isnotnull";
+      value?: string;
+    }>;
+    /**
+     * SortingQueryStringSchema
+     * Schema for sorting items
+     */
+    sort?: Array<{
+      property: "createdAt" | "authorName";
+      direction: "asc" | "desc";
+    }>;
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
+  };
+  url: "/api/posts/{postSlug}/comments";
+};
+
+export type CommentsControllerGetCommentsResponses = {
+  /**
+   * Schema for a paginated list of comments
+   */
+  200: CommentsSchema;
+};
+
+export type CommentsControllerGetCommentsResponse =
+  CommentsControllerGetCommentsResponses[keyof CommentsControllerGetCommentsResponses];
+
+export type CommentsControllerCreateCommentData = {
+  /**
+   * CreateCommentSchema
+   * Schema for creating a comment
+   */
+  body: {
+    content: string;
+    parentId?: string;
+  };
+  path: {
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/comments";
+};
+
+export type CommentsControllerCreateCommentResponses = {
+  /**
+   * Schema for a comment
+   */
+  200: CommentSchema;
+};
+
+export type CommentsControllerCreateCommentResponse =
+  CommentsControllerCreateCommentResponses[keyof CommentsControllerCreateCommentResponses];
+
+export type CommentsControllerGetCommentCountData = {
+  body?: never;
+  path: {
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/comments/count";
+};
+
+export type CommentsControllerGetCommentCountResponses = {
+  200: unknown;
+};
+
+export type CommentsControllerStreamCommentsData = {
+  body?: never;
+  path: {
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/comments/stream";
+};
+
+export type CommentsControllerStreamCommentsResponses = {
+  /**
+   * Stream of the comments published, edited and removed on the post
+   */
+  200: CommentEventSchema;
+};
+
+export type CommentsControllerStreamCommentsResponse =
+  CommentsControllerStreamCommentsResponses[keyof CommentsControllerStreamCommentsResponses];
+
+export type CommentsControllerGetCommentRepliesData = {
+  body?: never;
+  path: {
+    commentId: string;
+    postSlug: string;
+  };
+  query: {
     /**
-     * PostContentSchema
-     * Schema for content items (text, image, video)
+     * SortingQueryStringSchema
+     * Schema for sorting items
      */
-    content: Array<
-      | {
-          type: "text";
-          data: string;
-        }
-      | {
-          type: "image";
-          data: string;
-        }
-      | {
-          type: "video";
-          data: string;
-        }
-    >;
+    sort?: Array<{
+      property: "createdAt" | "authorName";
+      direction: "asc" | "desc";
+    }>;
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
+  };
+  url: "/api/posts/{postSlug}/comments/{commentId}/replies";
+};
+
+export type CommentsControllerGetCommentRepliesResponses = {
+  /**
+   * Schema for a paginated list of comments
+   */
+  200: CommentsSchema;
+};
+
+export type CommentsControllerGetCommentRepliesResponse =
+  CommentsControllerGetCommentRepliesResponses[keyof CommentsControllerGetCommentRepliesResponses];
+
+export type CommentsControllerDeleteCommentData = {
+  body?: never;
+  path: {
+    commentId: string;
+    postSlug: string;
   };
-  path?: never;
   query?: never;
-  url: "/api/admin/posts";
+  url: "/api/posts/{postSlug}/comments/{commentId}";
 };
 
-export type PostControllerCreatePostResponses = {
+export type CommentsControllerDeleteCommentResponses = {
+  200: unknown;
+};
+
+export type CommentsControllerEditCommentData = {
   /**
-   * Schema for a user's post
+   * UpdateCommentSchema
+   * Schema for editing a comment
    */
-  200: UserPostSchema;
+  body: {
+    content: string;
+  };
+  path: {
+    commentId: string;
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/comments/{commentId}";
 };
 
-export type PostControllerCreatePostResponse =
-  PostControllerCreatePostResponses[keyof PostControllerCreatePostResponses];
+export type CommentsControllerEditCommentResponses = {
+  /**
+   * Schema for a comment
+   */
+  200: CommentSchema;
+};
 
-export type PostControllerGetUserPostData = {
+export type CommentsControllerEditCommentResponse =
+  CommentsControllerEditCommentResponses[keyof CommentsControllerEditCommentResponses];
+
+export type CommentsControllerGetCommentRevisionsData = {
   body?: never;
   path: {
-    id: string;
+    commentId: string;
+    postSlug: string;
+  };
+  query?: never;
+  url: "/api/posts/{postSlug}/comments/{commentId}/revisions";
+};
+
+export type CommentsControllerGetCommentRevisionsResponses = {
+  /**
+   * Schema for the previous contents of a comment, from the latest to the oldest
+   */
+  200: CommentRevisionsSchema;
+};
+
+export type CommentsControllerGetCommentRevisionsResponse =
+  CommentsControllerGetCommentRevisionsResponses[keyof CommentsControllerGetCommentRevisionsResponses];
+
+export type AdminCommentsControllerGetCommentsData = {
+  body?: never;
+  path?: never;
+  query: {
+    /**
+     * Only return the comments of this post
+     */
+    postId?: string;
+    /**
+     * CommentStatusSchema
+     * Only return the comments with this status
+     */
+    status?: "pending" | "approved" | "rejected" | "spam";
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
   };
+  url: "/api/admin/comments";
+};
+
+export type AdminCommentsControllerGetCommentsResponses = {
+  /**
+   * Schema for a paginated list of comments to moderate
+   */
+  200: AdminCommentsSchema;
+};
+
+export type AdminCommentsControllerGetCommentsResponse =
+  AdminCommentsControllerGetCommentsResponses[keyof AdminCommentsControllerGetCommentsResponses];
+
+export type AdminCommentsControllerGetCountsData = {
+  body?: never;
+  path?: never;
   query?: never;
-  url: "/api/admin/posts/{id}";
+  url: "/api/admin/comments/counts";
 };
 
-export type PostControllerGetUserPostResponses = {
+export type AdminCommentsControllerGetCountsResponses = {
   /**
-   * Schema for a user's post
+   * Number of comments per moderation status
    */
-  200: UserPostSchema;
+  200: CommentStatusCountsSchema;
 };
 
-export type PostControllerGetUserPostResponse =
-  PostControllerGetUserPostResponses[keyof PostControllerGetUserPostResponses];
+export type AdminCommentsControllerGetCountsResponse =
+  AdminCommentsControllerGetCountsResponses[keyof AdminCommentsControllerGetCountsResponses];
 
-export type PostControllerUpdatePostData = {
+export type AdminCommentsControllerUpdateStatusData = {
   /**
-   * UpdatePostSchema
-   * Schema for updating a post
+   * UpdateCommentsStatusSchema
+   * Schema for changing the moderation status of several comments
    */
   body: {
-    title?: string;
+    ids: Array<string>;
     /**
-     * PostContentSchema
-     * Schema for content items (text, image, video)
+     * CommentStatusSchema
+     * Moderation status of a comment. Only approved comments are public
      */
-    content?: Array<
-      | {
-          type: "text";
-          data: string;
-        }
-      | {
-          type: "image";
-          data: string;
-        }
-      | {
-          type: "video";
-          data: string;
-        }
-    >;
-  };
-  path: {
-    id: string;
+    status: "pending" | "approved" | "rejected" | "spam";
   };
+  path?: never;
   query?: never;
-  url: "/api/admin/posts/{id}";
+  url: "/api/admin/comments/status";
 };
 
-export type PostControllerUpdatePostResponses = {
+export type AdminCommentsControllerUpdateStatusResponses = {
   /**
-   * Schema for a user's post
+   * Number of comments whose status has been changed
    */
-  200: UserPostSchema;
+  200: UpdateCommentsStatusResultSchema;
 };
 
-export type PostControllerUpdatePostResponse =
-  PostControllerUpdatePostResponses[keyof PostControllerUpdatePostResponses];
+export type AdminCommentsControllerUpdateStatusResponse =
+  AdminCommentsControllerUpdateStatusResponses[keyof AdminCommentsControllerUpdateStatusResponses];
 
-export type PostControllerPublishPostData = {
+export type NotificationsControllerGetNotificationsData = {
   body?: never;
-  path: {
-    id: string;
+  path?: never;
+  query: {
+    /**
+     * Starting position of the query
+     */
+    offset: number;
+    /**
+     * Number of items to return
+     */
+    pageSize: number;
   };
-  query?: never;
-  url: "/api/admin/posts/{id}/publish";
+  url: "/api/notifications";
 };
 
-export type PostControllerPublishPostResponses = {
-  200: unknown;
+export type NotificationsControllerGetNotificationsResponses = {
+  /**
+   * Schema for a paginated list of notifications, from the newest
+   */
+  200: NotificationsSchema;
 };
 
-export type PostControllerUnpublishPostData = {
+export type NotificationsControllerGetNotificationsResponse =
+  NotificationsControllerGetNotificationsResponses[keyof NotificationsControllerGetNotificationsResponses];
+
+export type NotificationsControllerGetUnreadCountData = {
   body?: never;
-  path: {
-    id: string;
-  };
+  path?: never;
   query?: never;
-  url: "/api/admin/posts/{id}/unpublish";
+  url: "/api/notifications/unread-count";
 };
 
-export type PostControllerUnpublishPostResponses = {
-  200: unknown;
+export type NotificationsControllerGetUnreadCountResponses = {
+  /**
+   * Number of notifications not read yet
+   */
+  200: UnreadNotificationsCountSchema;
 };
 
-export type PublicPostControllerGetRandomPostData = {
+export type NotificationsControllerGetUnreadCountResponse =
+  NotificationsControllerGetUnreadCountResponses[keyof NotificationsControllerGetUnreadCountResponses];
+
+export type NotificationsControllerMarkAllAsReadData = {
   body?: never;
   path?: never;
   query?: never;
-  url: "/api/public/posts/random";
+  url: "/api/notifications/read";
 };
 
-export type PublicPostControllerGetRandomPostResponses = {
+export type NotificationsControllerMarkAllAsReadResponses = {
   /**
-   * A public post
+   * Number of notifications marked as read
    */
-  200: PublicPostSchema;
+  200: MarkNotificationsReadResultSchema;
 };
 
-export type PublicPostControllerGetRandomPostResponse =
-  PublicPostControllerGetRandomPostResponses[keyof PublicPostControllerGetRandomPostResponses];
+export type NotificationsControllerMarkAllAsReadResponse =
+  NotificationsControllerMarkAllAsReadResponses[keyof NotificationsControllerMarkAllAsReadResponses];
 
-export type PublicPostControllerGetPostData = {
+export type NotificationsControllerGetPreferencesData = {
   body?: never;
-  path: {
-    slug: string;
-  };
+  path?: never;
   query?: never;
-  url: "/api/public/posts/{slug}";
+  url: "/api/notifications/preferences";
 };
 
-export type PublicPostControllerGetPostResponses = {
+export type NotificationsControllerGetPreferencesResponses = {
   /**
-   * A public post
+   * Schema for the email notification settings of a user
    */
-  200: PublicPostSchema;
+  200: NotificationPreferencesSchema;
 };
 
-export type PublicPostControllerGetPostResponse =
-  PublicPostControllerGetPostResponses[keyof PublicPostControllerGetPostResponses];
+export type NotificationsControllerGetPreferencesResponse =
+  NotificationsControllerGetPreferencesResponses[keyof NotificationsControllerGetPreferencesResponses];
 
-export type PublicPostControllerGetPostsData = {
-  body?: never;
-  path?: never;
-  query: {
-    /**
-     * FilterQueryStringSchema
-     * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
-     * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
-     * <br> Available properties: title
-     */
-    filter?: Array<{
-      property: "title";
-      rule:
-        | "eq"
-        | "neq"
-        | "gt"
-        | "gte"
-        | "lt"
-        | "lte"
-        | "like"
-        | "nlike"
-        | "in"
-        | "nin"
-        | "isnull"
-        | "isnotnull";
-      value?: string;
-    }>;
+export type NotificationsControllerUpdatePreferencesData = {
+  /**
+   * UpdateNotificationPreferencesSchema
+   * Schema for updating the email notification settings of a user
+   */
+  body: {
     /**
-     * SortingQueryStringSchema
-     * Schema for sorting items
+     * EmailFrequencySchema
+     * How often the notifications are sent by email: never, right away, or in a daily or weekly digest
      */
-    sort?: Array<{
-      property: "title" | "createdAt";
-      direction: "asc" | "desc";
-    }>;
+    emailFrequency: "never" | "immediate" | "daily" | "weekly";
     /**
-     * Starting position of the query
+     * Send the comments on my posts by email
      */
-    offset: number;
+    emailComments: boolean;
     /**
-     * Number of items to return
+     * Send the replies to my comments by email
      */
-    pageSize: number;
+    emailReplies: boolean;
   };
-  url: "/api/public/posts";
+  path?: never;
+  query?: never;
+  url: "/api/notifications/preferences";
 };
 
-export type PublicPostControllerGetPostsResponses = {
+export type NotificationsControllerUpdatePreferencesResponses = {
   /**
-   * A list of public posts
+   * Schema for the email notification settings of a user
    */
-  200: PublicPostsSchema;
+  200: NotificationPreferencesSchema;
 };
 
-export type PublicPostControllerGetPostsResponse =
-  PublicPostControllerGetPostsResponses[keyof PublicPostControllerGetPostsResponses];
+export type NotificationsControllerUpdatePreferencesResponse =
+  NotificationsControllerUpdatePreferencesResponses[keyof NotificationsControllerUpdatePreferencesResponses];
 
-export type CommentsControllerGetCommentsData = {
+export type NotificationsControllerMarkAsReadData = {
   body?: never;
   path: {
-    postSlug: string;
+    notificationId: string;
   };
+  query?: never;
+  url: "/api/notifications/{notificationId}/read";
+};
+
+export type NotificationsControllerMarkAsReadResponses = {
+  /**
+   * Schema for a notification
+   */
+  200: NotificationSchema;
+};
+
+export type NotificationsControllerMarkAsReadResponse =
+  NotificationsControllerMarkAsReadResponses[keyof NotificationsControllerMarkAsReadResponses];
+
+export type PublicNotificationsControllerUnsubscribeData = {
+  body?: never;
+  path?: never;
   query: {
     /**
-     * FilterQueryStringSchema
-     * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
-     * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
-     * <br> Available properties: content
+     * Signed token of the unsubscribe link
      */
-    filter?: Array<{
-      property: "content";
-      rule:
-        | "eq"
-        | "neq"
-        | "gt"
-        | "gte"
-        | "lt"
-        | "lte"
-        | "like"
-        | "nlike"
-        | "in"
-        | "nin"
-        | "isnull"
-        | "isnotnull";
-      value?: string;
-    }>;
+    token: string;
+  };
+  url: "/api/public/notifications/unsubscribe";
+};
+
+export type PublicNotificationsControllerUnsubscribeResponses = {
+  /**
+   * Whether the user has been unsubscribed from the notification emails
+   */
+  200: UnsubscribeResultSchema;
+};
+
+export type PublicNotificationsControllerUnsubscribeResponse =
+  PublicNotificationsControllerUnsubscribeResponses[keyof PublicNotificationsControllerUnsubscribeResponses];
+
+export type AdminUsersControllerGetUsersData = {
+  body?: never;
+  path?: never;
+  query: {
     /**
-     * SortingQueryStringSchema
-     * Schema for sorting items
+     * Only return the users whose name or email contains this text
      */
-    sort?: Array<{
-      property: "createdAt" | "authorName";
-      direction: "asc" | "desc";
-    }>;
+    q?: string;
     /**
      * Starting position of the query
      */
@@ -549,73 +2880,102 @@ export type CommentsControllerGetCommentsData = {
      */
     pageSize: number;
   };
-  url: "/api/posts/{postSlug}/comments";
+  url: "/api/admin/users";
 };
 
-export type CommentsControllerGetCommentsResponses = {
+export type AdminUsersControllerGetUsersResponses = {
   /**
-   * Schema for a paginated list of comments
+   * Schema for a paginated list of users, from the newest
    */
-  200: CommentsSchema;
+  200: AdminUsersSchema;
 };
 
-export type CommentsControllerGetCommentsResponse =
-  CommentsControllerGetCommentsResponses[keyof CommentsControllerGetCommentsResponses];
+export type AdminUsersControllerGetUsersResponse =
+  AdminUsersControllerGetUsersResponses[keyof AdminUsersControllerGetUsersResponses];
 
-export type CommentsControllerCreateCommentData = {
+export type AdminUsersControllerUpdateUserRoleData = {
   /**
-   * CreateCommentSchema
-   * Schema for creating a comment
+   * UpdateUserRoleSchema
+   * Schema for changing the role of a user
    */
   body: {
-    content: string;
-    parentId?: string;
+    /**
+     * UserRoleSchema
+     * Users manage their own posts and comments, editors moderate all the comments, admins manage everything
+     */
+    role: "user" | "editor" | "admin";
   };
   path: {
-    postSlug: string;
+    userId: string;
   };
   query?: never;
-  url: "/api/posts/{postSlug}/comments";
+  url: "/api/admin/users/{userId}/role";
 };
 
-export type CommentsControllerCreateCommentResponses = {
+export type AdminUsersControllerUpdateUserRoleResponses = {
   /**
-   * Schema for a comment
+   * Schema for a user, as seen by the admins
    */
-  200: CommentSchema;
+  200: AdminUserSchema;
 };
 
-export type CommentsControllerCreateCommentResponse =
-  CommentsControllerCreateCommentResponses[keyof CommentsControllerCreateCommentResponses];
+export type AdminUsersControllerUpdateUserRoleResponse =
+  AdminUsersControllerUpdateUserRoleResponses[keyof AdminUsersControllerUpdateUserRoleResponses];
 
-export type CommentsControllerGetCommentCountData = {
+export type ProfileControllerGetProfileData = {
   body?: never;
-  path: {
-    postSlug: string;
+  path?: never;
+  query?: never;
+  url: "/api/profile";
+};
+
+export type ProfileControllerGetProfileResponses = {
+  /**
+   * The public profile of an author
+   */
+  200: PublicAuthorSchema;
+};
+
+export type ProfileControllerGetProfileResponse =
+  ProfileControllerGetProfileResponses[keyof ProfileControllerGetProfileResponses];
+
+export type ProfileControllerUpdateProfileData = {
+  /**
+   * UpdateAuthorProfileSchema
+   * Schema for updating the public profile of the logged in user
+   */
+  body: {
+    /**
+     * Identifies the author in the URL of their profile
+     */
+    handle: string;
+    bio: string | null;
+    links: Array<{
+      label: string;
+      url: string;
+    }>;
   };
+  path?: never;
   query?: never;
-  url: "/api/posts/{postSlug}/comments/count";
+  url: "/api/profile";
 };
 
-export type CommentsControllerGetCommentCountResponses = {
-  200: unknown;
+export type ProfileControllerUpdateProfileResponses = {
+  /**
+   * The public profile of an author
+   */
+  200: PublicAuthorSchema;
 };
 
-export type CommentsControllerGetCommentRepliesData = {
+export type ProfileControllerUpdateProfileResponse =
+  ProfileControllerUpdateProfileResponses[keyof ProfileControllerUpdateProfileResponses];
+
+export type PublicAuthorsControllerGetAuthorData = {
   body?: never;
   path: {
-    commentId: string;
-    postSlug: string;
+    handle: string;
   };
   query: {
-    /**
-     * SortingQueryStringSchema
-     * Schema for sorting items
-     */
-    sort?: Array<{
-      property: "createdAt" | "authorName";
-      direction: "asc" | "desc";
-    }>;
     /**
      * Starting position of the query
      */
@@ -625,32 +2985,18 @@ export type CommentsControllerGetCommentRepliesData = {
      */
     pageSize: number;
   };
-  url: "/api/posts/{postSlug}/comments/{commentId}/replies";
+  url: "/api/public/authors/{handle}";
 };
 
-export type CommentsControllerGetCommentRepliesResponses = {
+export type PublicAuthorsControllerGetAuthorResponses = {
   /**
-   * Schema for a paginated list of comments
+   * The public profile of an author, with a page of their published posts
    */
-  200: CommentsSchema;
+  200: PublicAuthorWithPostsSchema;
 };
 
-export type CommentsControllerGetCommentRepliesResponse =
-  CommentsControllerGetCommentRepliesResponses[keyof CommentsControllerGetCommentRepliesResponses];
-
-export type CommentsControllerDeleteCommentData = {
-  body?: never;
-  path: {
-    commentId: string;
-    postSlug: string;
-  };
-  query?: never;
-  url: "/api/posts/{postSlug}/comments/{commentId}";
-};
-
-export type CommentsControllerDeleteCommentResponses = {
-  200: unknown;
-};
+export type PublicAuthorsControllerGetAuthorResponse =
+  PublicAuthorsControllerGetAuthorResponses[keyof PublicAuthorsControllerGetAuthorResponses];
 
 export type ClientOptions = {
   baseUrl: string;
@@ -2,6 +2,219 @@
 
 import { z } from "zod";
 
+/**
+ * ApiTokenScopeSchema
+ * What a personal API token can do, e.g. "posts:write" to create and publish posts
+ */
+export const zApiTokenScopeSchema = z.enum([
+  "posts:read",
+  "posts:write",
+  "comments:read",
+  "comments:write",
+]);
+
+/**
+ * CreateApiTokenSchema
+ * Schema for creating a personal API token
+ */
+export const zCreateApiTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(zApiTokenScopeSchema).min(1),
+  expiresInDays: z.int().gte(1).lte(365),
+});
+
+/**
+ * ReactionKindSchema
+ * Kind of reaction, displayed as an emoji
+ */
+export const zReactionKindSchema = z.enum([
+  "like",
+  "love",
+  "laugh",
+  "wow",
+  "sad",
+  "celebrate",
+]);
+
+/**
+ * ToggleReactionSchema
+ * Schema for adding a reaction, or removing it if it was already there
+ */
+export const zToggleReactionSchema = z.object({
+  kind: zReactionKindSchema,
+});
+
+/**
+ * InvitePostCollaboratorSchema
+ * Schema for inviting someone to collaborate on a post
+ */
+export const zInvitePostCollaboratorSchema = z.object({
+  email: z
+    .email()
+    .max(255)
+    .regex(
+      /^(?!\.)(?!.*\.\.)([A-Za-z0-9_'+\-\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\-]*\.)+[A-Za-z]{2,}$/,
+    ),
+  role: z.enum(["editor", "viewer"]),
+});
+
+/**
+ * UpdatePostCollaboratorSchema
+ * Schema for changing the role of a collaborator
+ */
+export const zUpdatePostCollaboratorSchema = z.object({
+  role: z.enum(["editor", "viewer"]),
+});
+
+/**
+ * PostContentSchema
+ * Schema for content items (text, image, video, markdown, heading, quote, code, list)
+ */
+export const zPostContentSchema = z.union([
+  z.object({
+    type: z.literal("text"),
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal("image"),
+    data: z.object({
+      src: z.string(),
+      alt: z.string(),
+      width: z.optional(z.int().gt(0).lte(9007199254740991)),
+      height: z.optional(z.int().gt(0).lte(9007199254740991)),
+      placeholder: z.optional(
+        z
+          .string()
+          .regex(/^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/),
+      ),
+      variants: z.optional(
+        z.array(
+          z.object({
+            src: z.string(),
+            width: z.int().gt(0).lte(9007199254740991),
+            height: z.int().gt(0).lte(9007199254740991),
+          }),
+        ),
+      ),
+    }),
+  }),
+  z.object({
+    type: z.literal("video"),
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal("markdown"),
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal("heading"),
+    data: z.object({
+      text: z.string(),
+      level: z.int().gte(2).lte(4),
+    }),
+  }),
+  z.object({
+    type: z.literal("quote"),
+    data: z.object({
+      text: z.string(),
+      citation: z.optional(z.string()),
+    }),
+  }),
+  z.object({
+    type: z.literal("code"),
+    data: z.object({
+      code: z.string(),
+      language: z.optional(z.string().max(32)),
+    }),
+  }),
+  z.object({
+    type: z.literal("list"),
+    data: z.object({
+      ordered: z.boolean(),
+      items: z.array(z.string()).min(1),
+    }),
+  }),
+]);
+
+/**
+ * CommentModerationSchema
+ * open: comments are published right away, moderated: comments wait for the author approval, closed: no new comments
+ */
+export const zCommentModerationSchema = z.enum(["open", "moderated", "closed"]);
+
+/**
+ * CreatePostSchema
+ * Schema for creating/updating a post
+ */
+export const zCreatePostSchema = z.object({
+  title: z.string().min(1),
+  content: z.array(zPostContentSchema),
+  tags: z.optional(z.array(z.string().min(1).max(32)).max(10)),
+  commentModeration: z.optional(zCommentModerationSchema),
+});
+
+/**
+ * UpdatePostSchema
+ * Schema for updating a post
+ */
+export const zUpdatePostSchema = z.object({
+  title: z.optional(z.string().min(1)),
+  content: z.optional(z.array(zPostContentSchema)),
+  tags: z.optional(z.array(z.string().min(1).max(32)).max(10)),
+  commentModeration: z.optional(zCommentModerationSchema),
+});
+
+/**
+ * PublishPostSchema
+ * Schema for publishing or scheduling a post
+ */
+export const zPublishPostSchema = z.object({
+  publishAt: z.optional(z.string()),
+});
+
+/**
+ * AuthorLinkSchema
+ * A link of an author profile, e.g. a website or a social network
+ */
+export const zAuthorLinkSchema = z.object({
+  label: z.string().min(1).max(50),
+  url: z
+    .string()
+    .max(500)
+    .regex(/^https?:\/\//),
+});
+
+/**
+ * UpdateAuthorProfileSchema
+ * Schema for updating the public profile of the logged in user
+ */
+export const zUpdateAuthorProfileSchema = z.object({
+  handle: z.string().regex(/^[a-z0-9](?:[a-z0-9-]{0,30}[a-z0-9])?$/),
+  bio: z.union([z.string().max(1000), z.null()]),
+  links: z.array(zAuthorLinkSchema).max(5),
+});
+
+/**
+ * EmailFrequencySchema
+ * How often the notifications are sent by email: never, right away, or in a daily or weekly digest
+ */
+export const zEmailFrequencySchema = z.enum([
+  "never",
+  "immediate",
+  "daily",
+  "weekly",
+]);
+
+/**
+ * UpdateNotificationPreferencesSchema
+ * Schema for updating the email notification settings of a user
+ */
+export const zUpdateNotificationPreferencesSchema = z.object({
+  emailFrequency: zEmailFrequencySchema,
+  emailComments: z.boolean(),
+  emailReplies: z.boolean(),
+});
+
 /**
  * CreateCommentSchema
  * Schema for creating a comment
@@ -18,40 +231,842 @@ export const zCreateCommentSchema = z.object({
 });
 
 /**
- * PostContentSchema
- * Schema for content items (text, image, video)
+ * UpdateCommentSchema
+ * Schema for editing a comment
+ */
+export const zUpdateCommentSchema = z.object({
+  content: z.string().min(1).max(1000),
+});
+
+/**
+ * CommentStatusSchema
+ * Moderation status of a comment. Only approved comments are public
+ */
+export const zCommentStatusSchema = z.enum([
+  "pending",
+  "approved",
+  "rejected",
+  "spam",
+]);
+
+/**
+ * UpdateCommentsStatusSchema
+ * Schema for changing the moderation status of several comments
+ */
+export const zUpdateCommentsStatusSchema = z.object({
+  ids: z
+    .array(
+      z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+    )
+    .min(1)
+    .max(100),
+  status: zCommentStatusSchema,
+});
+
+/**
+ * UserRoleSchema
+ * Users manage their own posts and comments, editors moderate all the comments, admins manage everything
+ */
+export const zUserRoleSchema = z.enum(["user", "editor", "admin"]);
+
+/**
+ * UpdateUserRoleSchema
+ * Schema for changing the role of a user
+ */
+export const zUpdateUserRoleSchema = z.object({
+  role: zUserRoleSchema,
+});
+
+/**
+ * AuditLogSchema
+ * Schema for an entry of the audit log. Actions without an actor are anonymous, or done by the API itself
+ */
+export const zAuditLogSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  actor: z.union([
+    z.object({
+      id: z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+      name: z.string(),
+      email: z.string(),
+    }),
+    z.null(),
+  ]),
+  action: z.enum([
+    "post.created",
+    "post.updated",
+    "post.published",
+    "post.scheduled",
+    "post.unpublished",
+    "post.version-restored",
+    "comment.created",
+    "comment.edited",
+    "comment.deleted",
+    "comment.status-changed",
+    "auth.signed-up",
+    "auth.signed-in",
+    "auth.sign-in-failed",
+    "auth.password-changed",
+    "auth.two-factor-disabled",
+  ]),
+  targetType: z.enum(["post", "comment", "user"]),
+  targetId: z.string(),
+  before: z.union([z.record(z.string(), z.unknown()), z.null()]),
+  after: z.union([z.record(z.string(), z.unknown()), z.null()]),
+  ip: z.union([z.string(), z.null()]),
+  userAgent: z.union([z.string(), z.null()]),
+  createdAt: z.string(),
+});
+
+/**
+ * AuditLogsSchema
+ * Schema for a paginated list of audit log entries, from the newest
+ */
+export const zAuditLogsSchema = z.object({
+  data: z.array(zAuditLogSchema),
+  meta: z.object({
+    offset: z.number(),
+    pageSize: z.number(),
+    itemCount: z.number(),
+    hasMore: z.boolean(),
+  }),
+});
+
+/**
+ * AuditLogActionSchema
+ * What has been done, prefixed by the kind of target
+ */
+export const zAuditLogActionSchema = z.enum([
+  "post.created",
+  "post.updated",
+  "post.published",
+  "post.scheduled",
+  "post.unpublished",
+  "post.version-restored",
+  "comment.created",
+  "comment.edited",
+  "comment.deleted",
+  "comment.status-changed",
+  "auth.signed-up",
+  "auth.signed-in",
+  "auth.sign-in-failed",
+  "auth.password-changed",
+  "auth.two-factor-disabled",
+]);
+
+/**
+ * AuditLogTargetTypeSchema
+ * The kind of entity the action applies to
+ */
+export const zAuditLogTargetTypeSchema = z.enum(["post", "comment", "user"]);
+
+/**
+ * FileSchema
+ * Schema for an uploaded file
+ */
+export const zFileSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  url: z.string(),
+  width: z.optional(z.union([z.number(), z.null()])),
+  height: z.optional(z.union([z.number(), z.null()])),
+  placeholder: z.optional(z.union([z.string(), z.null()])),
+  variants: z.array(
+    z.object({
+      width: z.number(),
+      height: z.number(),
+      url: z.string(),
+    }),
+  ),
+  createdAt: z.string(),
+});
+
+/**
+ * FileVariantSchema
+ * Schema for a resized variant of an uploaded image
+ */
+export const zFileVariantSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+  url: z.string(),
+});
+
+/**
+ * FilesSchema
+ * Schema for a paginated list of uploaded files
+ */
+export const zFilesSchema = z.object({
+  data: z.array(zFileSchema),
+  meta: z.object({
+    offset: z.number(),
+    pageSize: z.number(),
+    itemCount: z.number(),
+    hasMore: z.boolean(),
+  }),
+});
+
+/**
+ * ApiTokenSchema
+ * A personal API token of the logged in user
+ */
+export const zApiTokenSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  name: z.string(),
+  start: z.string(),
+  scopes: z.array(
+    z.enum(["posts:read", "posts:write", "comments:read", "comments:write"]),
+  ),
+  expiresAt: z.string(),
+  lastUsedAt: z.union([z.string(), z.null()]),
+  createdAt: z.string(),
+});
+
+/**
+ * ApiTokensSchema
+ * The personal API tokens of the logged in user, from the newest
+ */
+export const zApiTokensSchema = z.array(zApiTokenSchema);
+
+/**
+ * CreatedApiTokenSchema
+ * A personal API token, with its value
+ */
+export const zCreatedApiTokenSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  name: z.string(),
+  start: z.string(),
+  scopes: z.array(zApiTokenScopeSchema),
+  expiresAt: z.string(),
+  lastUsedAt: z.union([z.string(), z.null()]),
+  createdAt: z.string(),
+  token: z.string(),
+});
+
+/**
+ * OAuthProviderSchema
+ * An OAuth provider users can sign in with
+ */
+export const zOAuthProviderSchema = z.object({
+  id: z.enum(["github", "google", "oidc"]),
+  name: z.string(),
+  type: z.enum(["social", "oauth2"]),
+});
+
+/**
+ * OAuthProvidersSchema
+ * The enabled OAuth providers
+ */
+export const zOAuthProvidersSchema = z.array(zOAuthProviderSchema);
+
+/**
+ * AuthPolicySchema
+ * The authentication rules the clients must enforce
+ */
+export const zAuthPolicySchema = z.object({
+  twoFactorRequired: z.boolean(),
+});
+
+/**
+ * UserReactionsSchema
+ * Reactions of the current user on a post and its comments
+ */
+export const zUserReactionsSchema = z.object({
+  post: z.array(zReactionKindSchema),
+  comments: z.array(
+    z.object({
+      commentId: z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+      kinds: z.array(zReactionKindSchema),
+    }),
+  ),
+});
+
+/**
+ * ReactionCountsSchema
+ * Number of reactions of each kind
+ */
+export const zReactionCountsSchema = z.record(
+  z.string(),
+  z.int().gte(-9007199254740991).lte(9007199254740991),
+);
+
+/**
+ * ReactionSummarySchema
+ * Reactions on a post or a comment
+ */
+export const zReactionSummarySchema = z.object({
+  counts: zReactionCountsSchema,
+  userReactions: z.array(zReactionKindSchema),
+});
+
+/**
+ * PublicTagSchema
+ * A tag with the number of published posts using it
+ */
+export const zPublicTagSchema = z.object({
+  name: z.string(),
+  slug: z.string(),
+  postCount: z.number(),
+});
+
+/**
+ * PublicTagsSchema
+ * A list of tags with their number of published posts
+ */
+export const zPublicTagsSchema = z.array(zPublicTagSchema);
+
+/**
+ * PostCollaboratorRoleSchema
+ * owner: manages the post and its collaborators, editor: edits the drafts, viewer: only reads the drafts
+ */
+export const zPostCollaboratorRoleSchema = z.enum([
+  "owner",
+  "editor",
+  "viewer",
+]);
+
+/**
+ * PostCollaboratorSchema
+ * A collaborator of a post, or an invitation to collaborate on it
+ */
+export const zPostCollaboratorSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  email: z.string(),
+  role: zPostCollaboratorRoleSchema,
+  status: z.enum(["pending", "accepted", "declined"]),
+  user: z.union([
+    z.object({
+      id: z.string(),
+      name: z.string(),
+    }),
+    z.null(),
+  ]),
+  createdAt: z.string(),
+});
+
+/**
+ * PostCollaboratorsSchema
+ * The collaborators of a post, the owner first
+ */
+export const zPostCollaboratorsSchema = z.array(zPostCollaboratorSchema);
+
+/**
+ * PostInvitationSchema
+ * A pending invitation to collaborate on a post
+ */
+export const zPostInvitationSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  role: z.enum(["owner", "editor", "viewer"]),
+  post: z.object({
+    id: z.string(),
+    title: z.string(),
+  }),
+  invitedBy: z.union([
+    z.object({
+      name: z.string(),
+    }),
+    z.null(),
+  ]),
+  createdAt: z.string(),
+});
+
+/**
+ * PostInvitationsSchema
+ * The pending invitations of the logged in user, from the newest
+ */
+export const zPostInvitationsSchema = z.array(zPostInvitationSchema);
+
+/**
+ * PostVersionSchema
+ * Schema for a post version
+ */
+export const zPostVersionSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  title: z.string(),
+  createdAt: z.string(),
+});
+
+/**
+ * TagSchema
+ * Schema for a tag
+ */
+export const zTagSchema = z.object({
+  name: z.string(),
+  slug: z.string(),
+});
+
+/**
+ * UserPostSchema
+ * Schema for a user's post
+ */
+export const zUserPostSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  slug: z.optional(z.union([z.string(), z.null()])),
+  title: z.string(),
+  content: z.array(zPostContentSchema),
+  versions: z.array(zPostVersionSchema),
+  publishedAt: z.optional(z.union([z.string(), z.null()])),
+  scheduledAt: z.optional(z.union([z.string(), z.null()])),
+  type: z.enum(["published", "draft", "scheduled"]),
+  tags: z.array(zTagSchema),
+  commentModeration: zCommentModerationSchema,
+  commentCount: z.optional(z.number()),
+  role: z.union([z.enum(["owner", "editor", "viewer"]), z.null()]),
+});
+
+/**
+ * PostContentDiffSchema
+ * Schema for a content block in a diff between two post versions
+ */
+export const zPostContentDiffSchema = z.object({
+  status: z.enum(["added", "removed", "modified", "unchanged"]),
+  before: z.optional(
+    z.union([
+      z.object({
+        type: z.literal("text"),
+        data: z.string(),
+      }),
+      z.object({
+        type: z.literal("image"),
+        data: z.object({
+          src: z.string(),
+          alt: z.string(),
+          width: z.optional(z.int().gt(0).lte(9007199254740991)),
+          height: z.optional(z.int().gt(0).lte(9007199254740991)),
+          placeholder: z.optional(
+            z
+              .string()
+              .regex(
+                /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/,
+              ),
+          ),
+          variants: z.optional(
+            z.array(
+              z.object({
+                src: z.string(),
+                width: z.int().gt(0).lte(9007199254740991),
+                height: z.int().gt(0).lte(9007199254740991),
+              }),
+            ),
+          ),
+        }),
+      }),
+      z.object({
+        type: z.literal("video"),
+        data: z.string(),
+      }),
+      z.object({
+        type: z.literal("markdown"),
+        data: z.string(),
+      }),
+      z.object({
+        type: z.literal("heading"),
+        data: z.object({
+          text: z.string(),
+          level: z.int().gte(2).lte(4),
+        }),
+      }),
+      z.object({
+        type: z.literal("quote"),
+        data: z.object({
+          text: z.string(),
+          citation: z.optional(z.string()),
+        }),
+      }),
+      z.object({
+        type: z.literal("code"),
+        data: z.object({
+          code: z.string(),
+          language: z.optional(z.string().max(32)),
+        }),
+      }),
+      z.object({
+        type: z.literal("list"),
+        data: z.object({
+          ordered: z.boolean(),
+          items: z.array(z.string()).min(1),
+        }),
+      }),
+    ]),
+  ),
+  after: z.optional(
+    z.union([
+      z.object({
+        type: z.literal("text"),
+        data: z.string(),
+      }),
+      z.object({
+        type: z.literal("image"),
+        data: z.object({
+          src: z.string(),
+          alt: z.string(),
+          width: z.optional(z.int().gt(0).lte(9007199254740991)),
+          height: z.optional(z.int().gt(0).lte(9007199254740991)),
+          placeholder: z.optional(
+            z
+              .string()
+              .regex(
+                /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/,
+              ),
+          ),
+          variants: z.optional(
+            z.array(
+              z.object({
+                src: z.string(),
+                width: z.int().gt(0).lte(9007199254740991),
+                height: z.int().gt(0).lte(9007199254740991),
+              }),
+            ),
+          ),
+        }),
+      }),
+      z.object({
+        type: z.literal("video"),
+        data: z.string(),
+      }),
+      z.object({
+        type: z.literal("markdown"),
+        data: z.string(),
+      }),
+      z.object({
+        type: z.literal("heading"),
+        data: z.object({
+          text: z.string(),
+          level: z.int().gte(2).lte(4),
+        }),
+      }),
+      z.object({
+        type: z.literal("quote"),
+        data: z.object({
+          text: z.string(),
+          citation: z.optional(z.string()),
+        }),
+      }),
+      z.object({
+        type: z.literal("code"),
+        data: z.object({
+          code: z.string(),
+          language: z.optional(z.string().max(32)),
+        }),
+      }),
+      z.object({
+        type: z.literal("list"),
+        data: z.object({
+          ordered: z.boolean(),
+          items: z.array(z.string()).min(1),
+        }),
+      }),
+    ]),
+  ),
+});
+
+/**
+ * PostVersionDiffSchema
+ * Schema for a block-level diff between two post versions
+ */
+export const zPostVersionDiffSchema = z.object({
+  from: zPostVersionSchema,
+  to: zPostVersionSchema,
+  titleChanged: z.boolean(),
+  blocks: z.array(zPostContentDiffSchema),
+});
+
+/**
+ * PostVersionDetailSchema
+ * Schema for a post version with its content
+ */
+export const zPostVersionDetailSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  title: z.string(),
+  createdAt: z.string(),
+  content: z.array(zPostContentSchema),
+});
+
+/**
+ * PostTextContentSchema
+ * Schema for a text content item
+ */
+export const zPostTextContentSchema = z.object({
+  type: z.literal("text"),
+  data: z.string(),
+});
+
+/**
+ * UserPostsSchema
+ * Schema for a list of user's posts
+ */
+export const zUserPostsSchema = z.object({
+  data: z.array(
+    z.object({
+      id: z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+      slug: z.optional(z.union([z.string(), z.null()])),
+      title: z.string(),
+      versions: z.array(zPostVersionSchema),
+      publishedAt: z.optional(z.union([z.string(), z.null()])),
+      scheduledAt: z.optional(z.union([z.string(), z.null()])),
+      type: z.enum(["published", "draft", "scheduled"]),
+      tags: z.array(zTagSchema),
+      commentCount: z.optional(z.number()),
+      role: z.union([z.enum(["owner", "editor", "viewer"]), z.null()]),
+      contentPreview: zPostTextContentSchema,
+      author: z.object({
+        id: z.string(),
+        name: z.string(),
+      }),
+    }),
+  ),
+  meta: z.object({
+    offset: z.number(),
+    pageSize: z.number(),
+    itemCount: z.number(),
+    hasMore: z.boolean(),
+  }),
+});
+
+/**
+ * PublicPostSchema
+ * A public post
+ */
+export const zPublicPostSchema = z.object({
+  title: z.string(),
+  authors: z.array(
+    z.object({
+      name: z.string(),
+      handle: z.string(),
+    }),
+  ),
+  content: z.array(zPostContentSchema),
+  publishedAt: z.string(),
+  slug: z.optional(z.string()),
+  tags: z.array(zTagSchema),
+  commentModeration: zCommentModerationSchema,
+  commentCount: z.optional(z.number()),
+  reactions: zReactionCountsSchema,
+});
+
+/**
+ * PublicPostsSchema
+ * A list of public posts
+ */
+export const zPublicPostsSchema = z.object({
+  data: z.array(
+    z.object({
+      title: z.string(),
+      authors: z.array(
+        z.object({
+          name: z.string(),
+          handle: z.string(),
+        }),
+      ),
+      publishedAt: z.string(),
+      slug: z.optional(z.string()),
+      tags: z.array(
+        z.object({
+          name: z.string(),
+          slug: z.string(),
+        }),
+      ),
+      commentCount: z.optional(z.number()),
+      reactions: z.record(
+        z.string(),
+        z.int().gte(-9007199254740991).lte(9007199254740991),
+      ),
+      contentPreview: z.object({
+        type: z.literal("text"),
+        data: z.string(),
+      }),
+      snippet: z.optional(
+        z.array(
+          z.object({
+            text: z.string(),
+            highlighted: z.boolean(),
+          }),
+        ),
+      ),
+    }),
+  ),
+  meta: z.object({
+    offset: z.number(),
+    pageSize: z.number(),
+    itemCount: z.number(),
+    hasMore: z.boolean(),
+  }),
+});
+
+/**
+ * PublicPostSnippetSchema
+ * A snippet of the text matching a search query
+ */
+export const zPublicPostSnippetSchema = z.array(
+  z.object({
+    text: z.string(),
+    highlighted: z.boolean(),
+  }),
+);
+
+/**
+ * PublicAuthorSchema
+ * The public profile of an author
+ */
+export const zPublicAuthorSchema = z.object({
+  name: z.string(),
+  handle: z.string(),
+  bio: z.union([z.string(), z.null()]),
+  image: z.union([z.string(), z.null()]),
+  links: z.array(zAuthorLinkSchema),
+});
+
+/**
+ * PublicAuthorWithPostsSchema
+ * The public profile of an author, with a page of their published posts
+ */
+export const zPublicAuthorWithPostsSchema = z.object({
+  name: z.string(),
+  handle: z.string(),
+  bio: z.union([z.string(), z.null()]),
+  image: z.union([z.string(), z.null()]),
+  links: z.array(zAuthorLinkSchema),
+  posts: zPublicPostsSchema,
+});
+
+/**
+ * NotificationTypeSchema
+ * A comment on one of your posts, or a reply to one of your comments
+ */
+export const zNotificationTypeSchema = z.enum(["comment", "reply"]);
+
+/**
+ * NotificationSchema
+ * Schema for a notification
+ */
+export const zNotificationSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  type: zNotificationTypeSchema,
+  actorName: z.string(),
+  post: z.object({
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    title: z.string(),
+    slug: z.optional(z.union([z.string(), z.null()])),
+  }),
+  comment: z.object({
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    excerpt: z.string(),
+  }),
+  url: z.union([z.string(), z.null()]),
+  readAt: z.union([z.string(), z.null()]),
+  createdAt: z.string(),
+});
+
+/**
+ * NotificationsSchema
+ * Schema for a paginated list of notifications, from the newest
+ */
+export const zNotificationsSchema = z.object({
+  data: z.array(zNotificationSchema),
+  meta: z.object({
+    offset: z.number(),
+    pageSize: z.number(),
+    itemCount: z.number(),
+    hasMore: z.boolean(),
+  }),
+});
+
+/**
+ * UnreadNotificationsCountSchema
+ * Number of notifications not read yet
+ */
+export const zUnreadNotificationsCountSchema = z.object({
+  count: z.int().gte(-9007199254740991).lte(9007199254740991),
+});
+
+/**
+ * MarkNotificationsReadResultSchema
+ * Number of notifications marked as read
  */
-export const zPostContentSchema = z.union([
-  z.object({
-    type: z.literal("text"),
-    data: z.string(),
-  }),
-  z.object({
-    type: z.literal("image"),
-    data: z.string(),
-  }),
-  z.object({
-    type: z.literal("video"),
-    data: z.string(),
-  }),
-]);
+export const zMarkNotificationsReadResultSchema = z.object({
+  updated: z.int().gte(-9007199254740991).lte(9007199254740991),
+});
 
 /**
- * CreatePostSchema
- * Schema for creating/updating a post
+ * NotificationPreferencesSchema
+ * Schema for the email notification settings of a user
  */
-export const zCreatePostSchema = z.object({
-  title: z.string().min(1),
-  content: z.array(zPostContentSchema),
+export const zNotificationPreferencesSchema = z.object({
+  emailFrequency: zEmailFrequencySchema,
+  emailComments: z.boolean(),
+  emailReplies: z.boolean(),
 });
 
 /**
- * UpdatePostSchema
- * Schema for updating a post
+ * UnsubscribeResultSchema
+ * Whether the user has been unsubscribed from the notification emails
  */
-export const zUpdatePostSchema = z.object({
-  title: z.optional(z.string().min(1)),
-  content: z.optional(z.array(zPostContentSchema)),
+export const zUnsubscribeResultSchema = z.object({
+  success: z.boolean(),
 });
 
 /**
@@ -86,6 +1101,11 @@ export const zCommentSchema = z.object({
       ),
     z.null(),
   ]),
+  status: zCommentStatusSchema,
+  editedAt: z.union([z.string(), z.null()]),
+  editableUntil: z.string(),
+  deleted: z.boolean(),
+  reactions: zReactionCountsSchema,
   replyIds: z.optional(
     z.array(
       z
@@ -113,59 +1133,78 @@ export const zCommentsSchema = z.object({
 });
 
 /**
- * PostVersionSchema
- * Schema for a post version
+ * CommentRevisionSchema
+ * Schema for a previous content of an edited comment
  */
-export const zPostVersionSchema = z.object({
+export const zCommentRevisionSchema = z.object({
   id: z
     .uuid()
     .regex(
       /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
     ),
-  title: z.string(),
+  content: z.string(),
   createdAt: z.string(),
 });
 
 /**
- * UserPostSchema
- * Schema for a user's post
+ * CommentRevisionsSchema
+ * Schema for the previous contents of a comment, from the latest to the oldest
  */
-export const zUserPostSchema = z.object({
+export const zCommentRevisionsSchema = z.array(zCommentRevisionSchema);
+
+/**
+ * AdminCommentSchema
+ * Schema for a comment in the moderation queue
+ */
+export const zAdminCommentSchema = z.object({
   id: z
     .uuid()
     .regex(
       /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
     ),
-  slug: z.optional(z.union([z.string(), z.null()])),
-  title: z.string(),
-  content: z.array(zPostContentSchema),
-  versions: z.array(zPostVersionSchema),
-  publishedAt: z.optional(z.union([z.string(), z.null()])),
-  type: z.enum(["published", "draft"]),
-  commentCount: z.optional(z.number()),
-});
-
-/**
- * UserPostsSchema
- * Schema for a list of user's posts
- */
-export const zUserPostsSchema = z.object({
-  data: z.array(
+  content: z.string(),
+  authorName: z.union([z.string(), z.null()]),
+  createdAt: z.string(),
+  user: z.union([
     z.object({
       id: z
         .uuid()
         .regex(
           /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
         ),
-      slug: z.optional(z.union([z.string(), z.null()])),
-      title: z.string(),
-      versions: z.array(zPostVersionSchema),
-      publishedAt: z.optional(z.union([z.string(), z.null()])),
-      type: z.enum(["published", "draft"]),
-      commentCount: z.optional(z.number()),
-      contentPreview: zPostContentSchema,
+      name: z.string(),
     }),
-  ),
+    z.null(),
+  ]),
+  parentId: z.union([
+    z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    z.null(),
+  ]),
+  status: z.enum(["pending", "approved", "rejected", "spam"]),
+  editedAt: z.union([z.string(), z.null()]),
+  editableUntil: z.string(),
+  deleted: z.boolean(),
+  post: z.object({
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    title: z.string(),
+    slug: z.optional(z.union([z.string(), z.null()])),
+  }),
+});
+
+/**
+ * AdminCommentsSchema
+ * Schema for a paginated list of comments to moderate
+ */
+export const zAdminCommentsSchema = z.object({
+  data: z.array(zAdminCommentSchema),
   meta: z.object({
     offset: z.number(),
     pageSize: z.number(),
@@ -175,37 +1214,44 @@ export const zUserPostsSchema = z.object({
 });
 
 /**
- * PublicPostSchema
- * A public post
+ * CommentStatusCountsSchema
+ * Number of comments per moderation status
  */
-export const zPublicPostSchema = z.object({
-  title: z.string(),
-  author: z.object({
-    name: z.string(),
-  }),
-  content: z.array(zPostContentSchema),
-  publishedAt: z.string(),
-  slug: z.optional(z.string()),
-  commentCount: z.optional(z.number()),
+export const zCommentStatusCountsSchema = z.record(
+  z.string(),
+  z.int().gte(-9007199254740991).lte(9007199254740991),
+);
+
+/**
+ * UpdateCommentsStatusResultSchema
+ * Number of comments whose status has been changed
+ */
+export const zUpdateCommentsStatusResultSchema = z.object({
+  updated: z.int().gte(-9007199254740991).lte(9007199254740991),
 });
 
 /**
- * PublicPostsSchema
- * A list of public posts
+ * AdminUserSchema
+ * Schema for a user, as seen by the admins
  */
-export const zPublicPostsSchema = z.object({
-  data: z.array(
-    z.object({
-      title: z.string(),
-      author: z.object({
-        name: z.string(),
-      }),
-      publishedAt: z.string(),
-      slug: z.optional(z.string()),
-      commentCount: z.optional(z.number()),
-      contentPreview: zPostContentSchema,
-    }),
-  ),
+export const zAdminUserSchema = z.object({
+  id: z
+    .uuid()
+    .regex(
+      /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+    ),
+  name: z.string(),
+  email: z.string(),
+  role: zUserRoleSchema,
+  createdAt: z.string(),
+});
+
+/**
+ * AdminUsersSchema
+ * Schema for a paginated list of users, from the newest
+ */
+export const zAdminUsersSchema = z.object({
+  data: z.array(zAdminUserSchema),
   meta: z.object({
     offset: z.number(),
     pageSize: z.number(),
@@ -223,13 +1269,17 @@ export const zPaginationQuerySchema = z.object({
   pageSize: z.int().gte(1).lte(100).default(20),
 });
 
+export const zReactionsControllerPostSlug = z.string();
+
+export const zPostCollaboratorsControllerPostId = z.string();
+
 /**
  * SortingQueryStringSchema
  * Schema for sorting items
  */
 export const zSortingQueryStringSchema = z.array(
   z.object({
-    property: z.union([z.literal("title"), z.literal("createdAt")]),
+    property: z.union([z.literal("createdAt"), z.literal("authorName")]),
     direction: z.enum(["asc", "desc"]),
   }),
 );
@@ -238,11 +1288,11 @@ export const zSortingQueryStringSchema = z.array(
  * FilterQueryStringSchema
  * Filtering query string, in the format of "property:rule[:value];property:rule[:value];..."
  * <br> Available rules: eq, neq, gt, gte, lt, lte, like, nlike, in, nin, isnull, isnotnull
- * <br> Available properties: title
+ * <br> Available properties: content
  */
 export const zFilterQueryStringSchema = z.array(
   z.object({
-    property: z.literal("title"),
+    property: z.literal("content"),
     rule: z.enum([
       "eq",
       "neq",
@@ -261,6 +1311,129 @@ export const zFilterQueryStringSchema = z.array(
   }),
 );
 
+/**
+ * CommentEventSchema
+ * Schema for a comment published, edited or removed on a post
+ */
+export const zCommentEventSchema = z.union([
+  z.object({
+    type: z.literal("created"),
+    comment: z.object({
+      id: z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+      content: z.string(),
+      authorName: z.union([z.string(), z.null()]),
+      createdAt: z.string(),
+      user: z.union([
+        z.object({
+          id: z
+            .uuid()
+            .regex(
+              /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+            ),
+          name: z.string(),
+        }),
+        z.null(),
+      ]),
+      parentId: z.union([
+        z
+          .uuid()
+          .regex(
+            /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+          ),
+        z.null(),
+      ]),
+      status: z.enum(["pending", "approved", "rejected", "spam"]),
+      editedAt: z.union([z.string(), z.null()]),
+      editableUntil: z.string(),
+      deleted: z.boolean(),
+      reactions: z.record(
+        z.string(),
+        z.int().gte(-9007199254740991).lte(9007199254740991),
+      ),
+      replyIds: z.optional(
+        z.array(
+          z
+            .uuid()
+            .regex(
+              /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+            ),
+        ),
+      ),
+      replyCount: z.optional(z.number()),
+    }),
+  }),
+  z.object({
+    type: z.literal("edited"),
+    comment: z.object({
+      id: z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+      content: z.string(),
+      authorName: z.union([z.string(), z.null()]),
+      createdAt: z.string(),
+      user: z.union([
+        z.object({
+          id: z
+            .uuid()
+            .regex(
+              /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+            ),
+          name: z.string(),
+        }),
+        z.null(),
+      ]),
+      parentId: z.union([
+        z
+          .uuid()
+          .regex(
+            /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+          ),
+        z.null(),
+      ]),
+      status: z.enum(["pending", "approved", "rejected", "spam"]),
+      editedAt: z.union([z.string(), z.null()]),
+      editableUntil: z.string(),
+      deleted: z.boolean(),
+      reactions: z.record(
+        z.string(),
+        z.int().gte(-9007199254740991).lte(9007199254740991),
+      ),
+      replyIds: z.optional(
+        z.array(
+          z
+            .uuid()
+            .regex(
+              /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+            ),
+        ),
+      ),
+      replyCount: z.optional(z.number()),
+    }),
+  }),
+  z.object({
+    type: z.literal("deleted"),
+    commentId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    parentId: z.union([
+      z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+      z.null(),
+    ]),
+  }),
+]);
+
 export const zCommentsControllerPostSlug = z.string();
 
 export const zAppControllerGetHelloData = z.object({
@@ -269,14 +1442,150 @@ export const zAppControllerGetHelloData = z.object({
   query: z.optional(z.never()),
 });
 
+export const zPublicAuthControllerGetOAuthProvidersData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The enabled OAuth providers
+ */
+export const zPublicAuthControllerGetOAuthProvidersResponse =
+  zOAuthProvidersSchema;
+
+export const zPublicAuthControllerGetAuthPolicyData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The authentication rules the clients must enforce
+ */
+export const zPublicAuthControllerGetAuthPolicyResponse = zAuthPolicySchema;
+
+export const zApiTokensControllerGetApiTokensData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The personal API tokens of the logged in user, from the newest
+ */
+export const zApiTokensControllerGetApiTokensResponse = zApiTokensSchema;
+
+export const zApiTokensControllerCreateApiTokenData = z.object({
+  body: z.object({
+    name: z.string().min(1).max(100),
+    scopes: z
+      .array(
+        z.enum([
+          "posts:read",
+          "posts:write",
+          "comments:read",
+          "comments:write",
+        ]),
+      )
+      .min(1),
+    expiresInDays: z.int().gte(1).lte(365),
+  }),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A personal API token, with its value
+ */
+export const zApiTokensControllerCreateApiTokenResponse =
+  zCreatedApiTokenSchema;
+
+export const zApiTokensControllerDeleteApiTokenData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+export const zFilesControllerGetFilesData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.object({
+    offset: z.int().gte(0).lte(9007199254740991).default(0),
+    pageSize: z.int().gte(1).lte(100).default(20),
+  }),
+});
+
+/**
+ * Schema for a paginated list of uploaded files
+ */
+export const zFilesControllerGetFilesResponse = zFilesSchema;
+
+export const zFilesControllerUploadFileData = z.object({
+  body: z.object({
+    file: z.string(),
+  }),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for an uploaded file
+ */
+export const zFilesControllerUploadFileResponse = zFileSchema;
+
+export const zFilesControllerDeleteFileData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+export const zPublicFilesControllerGetFileData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+export const zPublicFilesControllerGetFileVariantData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    width: z.int().gt(0).lte(9007199254740991),
+    id: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
 export const zPostControllerGetUserPostsData = z.object({
   body: z.optional(z.never()),
   path: z.optional(z.never()),
   query: z.object({
+    scope: z.optional(z.enum(["own", "all"])),
     filter: z.optional(
       z.array(
         z.object({
-          property: z.literal("title"),
+          property: z.union([z.literal("title"), z.literal("tag")]),
           rule: z.enum([
             "eq",
             "neq",
@@ -324,14 +1633,69 @@ export const zPostControllerCreatePostData = z.object({
         }),
         z.object({
           type: z.literal("image"),
-          data: z.string(),
+          data: z.object({
+            src: z.string(),
+            alt: z.string(),
+            width: z.optional(z.int().gt(0).lte(9007199254740991)),
+            height: z.optional(z.int().gt(0).lte(9007199254740991)),
+            placeholder: z.optional(
+              z
+                .string()
+                .regex(
+                  /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/,
+                ),
+            ),
+            variants: z.optional(
+              z.array(
+                z.object({
+                  src: z.string(),
+                  width: z.int().gt(0).lte(9007199254740991),
+                  height: z.int().gt(0).lte(9007199254740991),
+                }),
+              ),
+            ),
+          }),
         }),
         z.object({
           type: z.literal("video"),
           data: z.string(),
         }),
+        z.object({
+          type: z.literal("markdown"),
+          data: z.string(),
+        }),
+        z.object({
+          type: z.literal("heading"),
+          data: z.object({
+            text: z.string(),
+            level: z.int().gte(2).lte(4),
+          }),
+        }),
+        z.object({
+          type: z.literal("quote"),
+          data: z.object({
+            text: z.string(),
+            citation: z.optional(z.string()),
+          }),
+        }),
+        z.object({
+          type: z.literal("code"),
+          data: z.object({
+            code: z.string(),
+            language: z.optional(z.string().max(32)),
+          }),
+        }),
+        z.object({
+          type: z.literal("list"),
+          data: z.object({
+            ordered: z.boolean(),
+            items: z.array(z.string()).min(1),
+          }),
+        }),
       ]),
     ),
+    tags: z.optional(z.array(z.string().min(1).max(32)).max(10)),
+    commentModeration: z.optional(z.enum(["open", "moderated", "closed"])),
   }),
   path: z.optional(z.never()),
   query: z.optional(z.never()),
@@ -367,15 +1731,70 @@ export const zPostControllerUpdatePostData = z.object({
           }),
           z.object({
             type: z.literal("image"),
-            data: z.string(),
+            data: z.object({
+              src: z.string(),
+              alt: z.string(),
+              width: z.optional(z.int().gt(0).lte(9007199254740991)),
+              height: z.optional(z.int().gt(0).lte(9007199254740991)),
+              placeholder: z.optional(
+                z
+                  .string()
+                  .regex(
+                    /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/,
+                  ),
+              ),
+              variants: z.optional(
+                z.array(
+                  z.object({
+                    src: z.string(),
+                    width: z.int().gt(0).lte(9007199254740991),
+                    height: z.int().gt(0).lte(9007199254740991),
+                  }),
+                ),
+              ),
+            }),
           }),
           z.object({
             type: z.literal("video"),
             data: z.string(),
           }),
+          z.object({
+            type: z.literal("markdown"),
+            data: z.string(),
+          }),
+          z.object({
+            type: z.literal("heading"),
+            data: z.object({
+              text: z.string(),
+              level: z.int().gte(2).lte(4),
+            }),
+          }),
+          z.object({
+            type: z.literal("quote"),
+            data: z.object({
+              text: z.string(),
+              citation: z.optional(z.string()),
+            }),
+          }),
+          z.object({
+            type: z.literal("code"),
+            data: z.object({
+              code: z.string(),
+              language: z.optional(z.string().max(32)),
+            }),
+          }),
+          z.object({
+            type: z.literal("list"),
+            data: z.object({
+              ordered: z.boolean(),
+              items: z.array(z.string()).min(1),
+            }),
+          }),
         ]),
       ),
     ),
+    tags: z.optional(z.array(z.string().min(1).max(32)).max(10)),
+    commentModeration: z.optional(z.enum(["open", "moderated", "closed"])),
   }),
   path: z.object({
     id: z.string(),
@@ -389,78 +1808,379 @@ export const zPostControllerUpdatePostData = z.object({
 export const zPostControllerUpdatePostResponse = zUserPostSchema;
 
 export const zPostControllerPublishPostData = z.object({
+  body: z.optional(zPublishPostSchema),
+  path: z.object({
+    id: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for a user's post
+ */
+export const zPostControllerPublishPostResponse = zUserPostSchema;
+
+export const zPostControllerUnpublishPostData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    id: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+export const zPostControllerDiffPostVersionsData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    id: z.string(),
+  }),
+  query: z.object({
+    to: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    from: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+});
+
+/**
+ * Schema for a block-level diff between two post versions
+ */
+export const zPostControllerDiffPostVersionsResponse = zPostVersionDiffSchema;
+
+export const zPostControllerGetPostVersionData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    versionId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    id: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for a post version with its content
+ */
+export const zPostControllerGetPostVersionResponse = zPostVersionDetailSchema;
+
+export const zPostControllerRestorePostVersionData = z.object({
   body: z.optional(z.never()),
   path: z.object({
+    versionId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
     id: z.string(),
   }),
   query: z.optional(z.never()),
 });
 
-export const zPostControllerUnpublishPostData = z.object({
+/**
+ * Schema for a user's post
+ */
+export const zPostControllerRestorePostVersionResponse = zUserPostSchema;
+
+export const zPublicPostControllerGetRandomPostData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A public post
+ */
+export const zPublicPostControllerGetRandomPostResponse = zPublicPostSchema;
+
+export const zPublicPostControllerGetPostData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    slug: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A public post
+ */
+export const zPublicPostControllerGetPostResponse = zPublicPostSchema;
+
+export const zPublicPostControllerGetPostsData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.object({
+    q: z.optional(z.string().max(200)),
+    filter: z.optional(
+      z.array(
+        z.object({
+          property: z.union([z.literal("title"), z.literal("tag")]),
+          rule: z.enum([
+            "eq",
+            "neq",
+            "gt",
+            "gte",
+            "lt",
+            "lte",
+            "like",
+            "nlike",
+            "in",
+            "nin",
+            "isnull",
+            "isnotnull",
+          ]),
+          value: z.optional(z.string()),
+        }),
+      ),
+    ),
+    sort: z.optional(
+      z.array(
+        z.object({
+          property: z.union([z.literal("title"), z.literal("createdAt")]),
+          direction: z.enum(["asc", "desc"]),
+        }),
+      ),
+    ),
+    offset: z.int().gte(0).lte(9007199254740991).default(0),
+    pageSize: z.int().gte(1).lte(100).default(20),
+  }),
+});
+
+/**
+ * A list of public posts
+ */
+export const zPublicPostControllerGetPostsResponse = zPublicPostsSchema;
+
+export const zPostCollaboratorsControllerGetCollaboratorsData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    postId: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The collaborators of a post, the owner first
+ */
+export const zPostCollaboratorsControllerGetCollaboratorsResponse =
+  zPostCollaboratorsSchema;
+
+export const zPostCollaboratorsControllerInviteCollaboratorData = z.object({
+  body: z.object({
+    email: z
+      .email()
+      .max(255)
+      .regex(
+        /^(?!\.)(?!.*\.\.)([A-Za-z0-9_'+\-\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\-]*\.)+[A-Za-z]{2,}$/,
+      ),
+    role: z.enum(["editor", "viewer"]),
+  }),
+  path: z.object({
+    postId: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A collaborator of a post, or an invitation to collaborate on it
+ */
+export const zPostCollaboratorsControllerInviteCollaboratorResponse =
+  zPostCollaboratorSchema;
+
+export const zPostCollaboratorsControllerRemoveCollaboratorData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    collaboratorId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    postId: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+export const zPostCollaboratorsControllerUpdateCollaboratorData = z.object({
+  body: z.object({
+    role: z.enum(["editor", "viewer"]),
+  }),
+  path: z.object({
+    collaboratorId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    postId: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A collaborator of a post, or an invitation to collaborate on it
+ */
+export const zPostCollaboratorsControllerUpdateCollaboratorResponse =
+  zPostCollaboratorSchema;
+
+export const zPostInvitationsControllerGetInvitationsData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The pending invitations of the logged in user, from the newest
+ */
+export const zPostInvitationsControllerGetInvitationsResponse =
+  zPostInvitationsSchema;
+
+export const zPostInvitationsControllerAcceptInvitationData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    invitationId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A collaborator of a post, or an invitation to collaborate on it
+ */
+export const zPostInvitationsControllerAcceptInvitationResponse =
+  zPostCollaboratorSchema;
+
+export const zPostInvitationsControllerDeclineInvitationData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    invitationId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A collaborator of a post, or an invitation to collaborate on it
+ */
+export const zPostInvitationsControllerDeclineInvitationResponse =
+  zPostCollaboratorSchema;
+
+export const zPublicTagsControllerGetTagsData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A list of tags with their number of published posts
+ */
+export const zPublicTagsControllerGetTagsResponse = zPublicTagsSchema;
+
+export const zPublicTagsControllerGetTagData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    slug: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * A tag with the number of published posts using it
+ */
+export const zPublicTagsControllerGetTagResponse = zPublicTagSchema;
+
+export const zReactionsControllerGetUserReactionsData = z.object({
   body: z.optional(z.never()),
   path: z.object({
-    id: z.string(),
+    postSlug: z.string(),
   }),
   query: z.optional(z.never()),
 });
 
-export const zPublicPostControllerGetRandomPostData = z.object({
-  body: z.optional(z.never()),
-  path: z.optional(z.never()),
+/**
+ * Reactions of the current user on a post and its comments
+ */
+export const zReactionsControllerGetUserReactionsResponse =
+  zUserReactionsSchema;
+
+export const zReactionsControllerTogglePostReactionData = z.object({
+  body: z.object({
+    kind: z.enum(["like", "love", "laugh", "wow", "sad", "celebrate"]),
+  }),
+  path: z.object({
+    postSlug: z.string(),
+  }),
   query: z.optional(z.never()),
 });
 
 /**
- * A public post
+ * Reactions on a post or a comment
  */
-export const zPublicPostControllerGetRandomPostResponse = zPublicPostSchema;
+export const zReactionsControllerTogglePostReactionResponse =
+  zReactionSummarySchema;
 
-export const zPublicPostControllerGetPostData = z.object({
-  body: z.optional(z.never()),
+export const zReactionsControllerToggleCommentReactionData = z.object({
+  body: z.object({
+    kind: z.enum(["like", "love", "laugh", "wow", "sad", "celebrate"]),
+  }),
   path: z.object({
-    slug: z.string(),
+    commentId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+    postSlug: z.string(),
   }),
   query: z.optional(z.never()),
 });
 
 /**
- * A public post
+ * Reactions on a post or a comment
  */
-export const zPublicPostControllerGetPostResponse = zPublicPostSchema;
+export const zReactionsControllerToggleCommentReactionResponse =
+  zReactionSummarySchema;
 
-export const zPublicPostControllerGetPostsData = z.object({
+export const zAdminAuditLogControllerGetAuditLogsData = z.object({
   body: z.optional(z.never()),
   path: z.optional(z.never()),
   query: z.object({
-    filter: z.optional(
-      z.array(
-        z.object({
-          property: z.literal("title"),
-          rule: z.enum([
-            "eq",
-            "neq",
-            "gt",
-            "gte",
-            "lt",
-            "lte",
-            "like",
-            "nlike",
-            "in",
-            "nin",
-            "isnull",
-            "isnotnull",
-          ]),
-          value: z.optional(z.string()),
-        }),
-      ),
+    actorId: z.optional(
+      z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
     ),
-    sort: z.optional(
-      z.array(
-        z.object({
-          property: z.union([z.literal("title"), z.literal("createdAt")]),
-          direction: z.enum(["asc", "desc"]),
-        }),
-      ),
+    targetId: z.optional(z.string().max(100)),
+    targetType: z.optional(z.enum(["post", "comment", "user"])),
+    action: z.optional(
+      z.enum([
+        "post.created",
+        "post.updated",
+        "post.published",
+        "post.scheduled",
+        "post.unpublished",
+        "post.version-restored",
+        "comment.created",
+        "comment.edited",
+        "comment.deleted",
+        "comment.status-changed",
+        "auth.signed-up",
+        "auth.signed-in",
+        "auth.sign-in-failed",
+        "auth.password-changed",
+        "auth.two-factor-disabled",
+      ]),
     ),
     offset: z.int().gte(0).lte(9007199254740991).default(0),
     pageSize: z.int().gte(1).lte(100).default(20),
@@ -468,9 +2188,9 @@ export const zPublicPostControllerGetPostsData = z.object({
 });
 
 /**
- * A list of public posts
+ * Schema for a paginated list of audit log entries, from the newest
  */
-export const zPublicPostControllerGetPostsResponse = zPublicPostsSchema;
+export const zAdminAuditLogControllerGetAuditLogsResponse = zAuditLogsSchema;
 
 export const zCommentsControllerGetCommentsData = z.object({
   body: z.optional(z.never()),
@@ -548,6 +2268,19 @@ export const zCommentsControllerGetCommentCountData = z.object({
   query: z.optional(z.never()),
 });
 
+export const zCommentsControllerStreamCommentsData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    postSlug: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Stream of the comments published, edited and removed on the post
+ */
+export const zCommentsControllerStreamCommentsResponse = zCommentEventSchema;
+
 export const zCommentsControllerGetCommentRepliesData = z.object({
   body: z.optional(z.never()),
   path: z.object({
@@ -581,3 +2314,277 @@ export const zCommentsControllerDeleteCommentData = z.object({
   }),
   query: z.optional(z.never()),
 });
+
+export const zCommentsControllerEditCommentData = z.object({
+  body: z.object({
+    content: z.string().min(1).max(1000),
+  }),
+  path: z.object({
+    commentId: z.string(),
+    postSlug: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for a comment
+ */
+export const zCommentsControllerEditCommentResponse = zCommentSchema;
+
+export const zCommentsControllerGetCommentRevisionsData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    commentId: z.string(),
+    postSlug: z.string(),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for the previous contents of a comment, from the latest to the oldest
+ */
+export const zCommentsControllerGetCommentRevisionsResponse =
+  zCommentRevisionsSchema;
+
+export const zAdminCommentsControllerGetCommentsData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.object({
+    postId: z.optional(
+      z
+        .uuid()
+        .regex(
+          /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+        ),
+    ),
+    status: z.optional(z.enum(["pending", "approved", "rejected", "spam"])),
+    offset: z.int().gte(0).lte(9007199254740991).default(0),
+    pageSize: z.int().gte(1).lte(100).default(20),
+  }),
+});
+
+/**
+ * Schema for a paginated list of comments to moderate
+ */
+export const zAdminCommentsControllerGetCommentsResponse = zAdminCommentsSchema;
+
+export const zAdminCommentsControllerGetCountsData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Number of comments per moderation status
+ */
+export const zAdminCommentsControllerGetCountsResponse =
+  zCommentStatusCountsSchema;
+
+export const zAdminCommentsControllerUpdateStatusData = z.object({
+  body: z.object({
+    ids: z
+      .array(
+        z
+          .uuid()
+          .regex(
+            /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+          ),
+      )
+      .min(1)
+      .max(100),
+    status: z.enum(["pending", "approved", "rejected", "spam"]),
+  }),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Number of comments whose status has been changed
+ */
+export const zAdminCommentsControllerUpdateStatusResponse =
+  zUpdateCommentsStatusResultSchema;
+
+export const zNotificationsControllerGetNotificationsData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.object({
+    offset: z.int().gte(0).lte(9007199254740991).default(0),
+    pageSize: z.int().gte(1).lte(100).default(20),
+  }),
+});
+
+/**
+ * Schema for a paginated list of notifications, from the newest
+ */
+export const zNotificationsControllerGetNotificationsResponse =
+  zNotificationsSchema;
+
+export const zNotificationsControllerGetUnreadCountData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Number of notifications not read yet
+ */
+export const zNotificationsControllerGetUnreadCountResponse =
+  zUnreadNotificationsCountSchema;
+
+export const zNotificationsControllerMarkAllAsReadData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Number of notifications marked as read
+ */
+export const zNotificationsControllerMarkAllAsReadResponse =
+  zMarkNotificationsReadResultSchema;
+
+export const zNotificationsControllerGetPreferencesData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for the email notification settings of a user
+ */
+export const zNotificationsControllerGetPreferencesResponse =
+  zNotificationPreferencesSchema;
+
+export const zNotificationsControllerUpdatePreferencesData = z.object({
+  body: z.object({
+    emailFrequency: z.enum(["never", "immediate", "daily", "weekly"]),
+    emailComments: z.boolean(),
+    emailReplies: z.boolean(),
+  }),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for the email notification settings of a user
+ */
+export const zNotificationsControllerUpdatePreferencesResponse =
+  zNotificationPreferencesSchema;
+
+export const zNotificationsControllerMarkAsReadData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    notificationId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for a notification
+ */
+export const zNotificationsControllerMarkAsReadResponse = zNotificationSchema;
+
+export const zPublicNotificationsControllerUnsubscribeData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.object({
+    token: z.string().min(1),
+  }),
+});
+
+/**
+ * Whether the user has been unsubscribed from the notification emails
+ */
+export const zPublicNotificationsControllerUnsubscribeResponse =
+  zUnsubscribeResultSchema;
+
+export const zAdminUsersControllerGetUsersData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.object({
+    q: z.optional(z.string().max(200)),
+    offset: z.int().gte(0).lte(9007199254740991).default(0),
+    pageSize: z.int().gte(1).lte(100).default(20),
+  }),
+});
+
+/**
+ * Schema for a paginated list of users, from the newest
+ */
+export const zAdminUsersControllerGetUsersResponse = zAdminUsersSchema;
+
+export const zAdminUsersControllerUpdateUserRoleData = z.object({
+  body: z.object({
+    role: z.enum(["user", "editor", "admin"]),
+  }),
+  path: z.object({
+    userId: z
+      .uuid()
+      .regex(
+        /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,
+      ),
+  }),
+  query: z.optional(z.never()),
+});
+
+/**
+ * Schema for a user, as seen by the admins
+ */
+export const zAdminUsersControllerUpdateUserRoleResponse = zAdminUserSchema;
+
+export const zProfileControllerGetProfileData = z.object({
+  body: z.optional(z.never()),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The public profile of an author
+ */
+export const zProfileControllerGetProfileResponse = zPublicAuthorSchema;
+
+export const zProfileControllerUpdateProfileData = z.object({
+  body: z.object({
+    handle: z.string().regex(/^[a-z0-9](?:[a-z0-9-]{0,30}[a-z0-9])?$/),
+    bio: z.union([z.string().max(1000), z.null()]),
+    links: z
+      .array(
+        z.object({
+          label: z.string().min(1).max(50),
+          url: z
+            .string()
+            .max(500)
+            .regex(/^https?:\/\//),
+        }),
+      )
+      .max(5),
+  }),
+  path: z.optional(z.never()),
+  query: z.optional(z.never()),
+});
+
+/**
+ * The public profile of an author
+ */
+export const zProfileControllerUpdateProfileResponse = zPublicAuthorSchema;
+
+export const zPublicAuthorsControllerGetAuthorData = z.object({
+  body: z.optional(z.never()),
+  path: z.object({
+    handle: z.string(),
+  }),
+  query: z.object({
+    offset: z.int().gte(0).lte(9007199254740991).default(0),
+    pageSize: z.int().gte(1).lte(100).default(20),
+  }),
+});
+
+/**
+ * The public profile of an author, with a page of their published posts
+ */
+export const zPublicAuthorsControllerGetAuthorResponse =
+  zPublicAuthorWithPostsSchema;
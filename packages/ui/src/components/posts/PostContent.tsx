@@ -1,4 +1,16 @@
 import type { PostContentSchema } from '@lonestone/openapi-generator'
+import ReactMarkdown from 'react-markdown'
+import rehypeSanitize from 'rehype-sanitize'
+import remarkGfm from 'remark-gfm'
+
+// Only inline base64 images are rendered as placeholders, as they end up in a CSS url()
+const imagePlaceholderRegex = /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/
+
+type PostImageData = Extract<PostContentSchema, { type: 'image' }>['data']
+type PostHeadingData = Extract<PostContentSchema, { type: 'heading' }>['data']
+type PostQuoteData = Extract<PostContentSchema, { type: 'quote' }>['data']
+type PostCodeData = Extract<PostContentSchema, { type: 'code' }>['data']
+type PostListData = Extract<PostContentSchema, { type: 'list' }>['data']
 
 export default function PostContent({
   content,
@@ -6,31 +18,129 @@ export default function PostContent({
   content: Array<PostContentSchema>
 }) {
   return (
-    <div>
-      {content.map((item) => {
-        switch (item.type) {
-          case 'text':
-            return <PostText data={item.data} key={item.data} />
-          case 'image':
-            return <PostImage data={item.data} key={item.data} />
-          case 'video':
-            return <PostVideo data={item.data} key={item.data} />
-          default:
-            return null
-        }
-      })}
+    <div className="space-y-4">
+      {content.map((item, index) => (
+        // Blocks have no id and are never reordered once rendered
+        // eslint-disable-next-line react/no-array-index-key
+        <PostBlock item={item} key={index} />
+      ))}
     </div>
   )
 }
 
+function PostBlock({ item }: { item: PostContentSchema }) {
+  switch (item.type) {
+    case 'text':
+      return <PostText data={item.data} />
+    case 'image':
+      return <PostImage data={item.data} />
+    case 'video':
+      return <PostVideo data={item.data} />
+    case 'markdown':
+      return <PostMarkdown data={item.data} />
+    case 'heading':
+      return <PostHeading data={item.data} />
+    case 'quote':
+      return <PostQuote data={item.data} />
+    case 'code':
+      return <PostCode data={item.data} />
+    case 'list':
+      return <PostList data={item.data} />
+    default:
+      return null
+  }
+}
+
 function PostText({ data }: { data: string }) {
   return <p>{data}</p>
 }
 
-function PostImage({ data }: { data: string }) {
-  return <img src={data} alt={data} />
+function PostImage({ data }: { data: PostImageData }) {
+  // Variants are always smaller than the original image, which is listed as the largest candidate
+  const srcSet = data.variants?.length
+    ? [
+        ...data.variants.map(variant => `${variant.src} ${variant.width}w`),
+        ...(data.width ? [`${data.src} ${data.width}w`] : []),
+      ].join(', ')
+    : undefined
+
+  return (
+    <img
+      src={data.src}
+      srcSet={srcSet}
+      sizes={srcSet ? '(min-width: 768px) 768px, 100vw' : undefined}
+      alt={data.alt}
+      width={data.width}
+      height={data.height}
+      loading="lazy"
+      decoding="async"
+      className="h-auto max-w-full bg-cover bg-center"
+      style={data.placeholder && imagePlaceholderRegex.test(data.placeholder) ? { backgroundImage: `url("${data.placeholder}")` } : undefined}
+    />
+  )
 }
 
 function PostVideo({ data }: { data: string }) {
   return <video src={data} controls />
 }
+
+function PostMarkdown({ data }: { data: string }) {
+  // Raw HTML is never rendered, and the generated HTML is sanitized to strip dangerous links and attributes
+  return (
+    <div className="prose dark:prose-invert max-w-none">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]}>
+        {data}
+      </ReactMarkdown>
+    </div>
+  )
+}
+
+function PostHeading({ data }: { data: PostHeadingData }) {
+  switch (data.level) {
+    case 2:
+      return <h2 className="text-3xl font-bold pt-4">{data.text}</h2>
+    case 3:
+      return <h3 className="text-2xl font-semibold pt-2">{data.text}</h3>
+    default:
+      return <h4 className="text-xl font-semibold">{data.text}</h4>
+  }
+}
+
+function PostQuote({ data }: { data: PostQuoteData }) {
+  return (
+    <figure className="border-l-4 border-primary pl-4">
+      <blockquote className="italic whitespace-pre-line">{data.text}</blockquote>
+      {data.citation && (
+        <figcaption className="mt-2 text-sm text-muted-foreground">
+          —
+          {' '}
+          {data.citation}
+        </figcaption>
+      )}
+    </figure>
+  )
+}
+
+function PostCode({ data }: { data: PostCodeData }) {
+  return (
+    <figure className="rounded-md border bg-muted">
+      {data.language && (
+        <figcaption className="border-b px-4 py-1 text-xs text-muted-foreground">{data.language}</figcaption>
+      )}
+      <pre className="overflow-x-auto p-4 text-sm">
+        <code className={data.language ? `language-${data.language}` : undefined}>{data.code}</code>
+      </pre>
+    </figure>
+  )
+}
+
+function PostList({ data }: { data: PostListData }) {
+  const items = data.items.map((item, index) => (
+    // eslint-disable-next-line react/no-array-index-key
+    <li key={index}>{item}</li>
+  ))
+
+  return data.ordered
+    ? <ol className="list-decimal pl-6 space-y-1">{items}</ol>
+    : <ul className="list-disc pl-6 space-y-1">{items}</ul>
+}